@@ -0,0 +1,331 @@
+/**
+ * Debug Adapter Protocol server for RobinPath scripts
+ *
+ * Speaks DAP over stdio (Content-Length framed JSON messages) and drives the
+ * RobinPath Debugger: launch a .robin file, set breakpoints, step through def
+ * calls, inspect frames/variables and evaluate code in the paused frame.
+ *
+ * Launch arguments: { program: string, stopOnEntry?: boolean, noDebug?: boolean }
+ */
+
+import { readFileSync } from 'fs';
+import { resolve, basename } from 'path';
+import { format } from 'util';
+import { RobinPath } from '../dist/index.js';
+import { readMessages, writeMessage, redirectConsole } from './protocol.js';
+
+// RobinPath scripts run on a single logical thread
+const THREAD_ID = 1;
+
+export function runDapServer(input, output) {
+    let seq = 1;
+
+    let rp = null;
+    let dbg = null;
+    let programPath = null;
+    let source = null;
+    let stopOnEntry = false;
+    const breakpointsByPath = new Map(); // resolved path -> 1-based line numbers
+
+    // Variable references are only valid while stopped, so they are reset on every stop
+    let variableRefs = new Map();
+    let nextVariableRef = 1;
+
+    // Actions to run once the current response has been written (e.g. resume after 'continue')
+    const afterResponse = [];
+
+    // ========================================================================
+    // Protocol I/O
+    // ========================================================================
+
+    function send(message) {
+        writeMessage(output, { seq: seq++, ...message });
+    }
+
+    function sendEvent(event, body) {
+        send({ type: 'event', event, body });
+    }
+
+    function sendResponse(request, body, errorMessage) {
+        const response = {
+            type: 'response',
+            request_seq: request.seq,
+            command: request.command,
+            success: !errorMessage
+        };
+        if (errorMessage) {
+            response.message = errorMessage;
+        } else if (body !== undefined) {
+            response.body = body;
+        }
+        send(response);
+    }
+
+    // stdout carries the protocol, so script output is forwarded as 'output' events
+    redirectConsole((category, args) => {
+        sendEvent('output', { category, output: format(...args) + '\n' });
+    });
+
+    readMessages(input, (message) => {
+        if (message.type === 'request') {
+            handleRequest(message);
+        }
+    }, (error) => {
+        // Without a parsed seq there is no request to answer, so the client is told through an output event
+        sendEvent('output', { category: 'stderr', output: `Ignored malformed message: ${error.message}\n` });
+    });
+
+    input.on('end', () => {
+        process.exit(0);
+    });
+
+    async function handleRequest(request) {
+        const handler = requestHandlers[request.command];
+        if (!handler) {
+            sendResponse(request, undefined, `Unsupported request: ${request.command}`);
+            return;
+        }
+        try {
+            const body = await handler(request.arguments || {});
+            sendResponse(request, body);
+        } catch (error) {
+            sendResponse(request, undefined, error instanceof Error ? error.message : String(error));
+        }
+        for (const action of afterResponse.splice(0)) {
+            action();
+        }
+    }
+
+    // ========================================================================
+    // Variables
+    // ========================================================================
+
+    function registerVariables(getVariables) {
+        const ref = nextVariableRef++;
+        variableRefs.set(ref, getVariables);
+        return ref;
+    }
+
+    function formatValue(value) {
+        if (typeof value === 'string') {
+            return JSON.stringify(value);
+        }
+        if (value === undefined) {
+            return 'null';
+        }
+        return String(value);
+    }
+
+    function toVariable(name, value) {
+        if (value !== null && typeof value === 'object') {
+            const isArray = Array.isArray(value);
+            const entries = isArray
+                ? value.map((item, index) => [`[${index}]`, item])
+                : Object.entries(value);
+            return {
+                name,
+                value: isArray ? `Array(${value.length})` : `Object {${Object.keys(value).join(', ')}}`,
+                type: isArray ? 'array' : 'object',
+                variablesReference: registerVariables(() => entries.map(([key, item]) => toVariable(key, item)))
+            };
+        }
+        return {
+            name,
+            value: formatValue(value),
+            type: value === null || value === undefined ? 'null' : typeof value,
+            variablesReference: 0
+        };
+    }
+
+    function mapToVariables(map) {
+        return Array.from(map.entries()).map(([name, value]) => toVariable(`$${name}`, value));
+    }
+
+    // ========================================================================
+    // Execution
+    // ========================================================================
+
+    function applyBreakpoints() {
+        if (!dbg || !programPath) {
+            return;
+        }
+        const lines = breakpointsByPath.get(programPath) || [];
+        dbg.setBreakpoints(lines.map(line => line - 1));
+    }
+
+    async function run() {
+        let exitCode = 0;
+        try {
+            await rp.executeScript(source);
+        } catch (error) {
+            exitCode = 1;
+            const message = typeof error?.formatWithContext === 'function'
+                ? error.formatWithContext(source)
+                : `Error: ${error instanceof Error ? error.message : String(error)}`;
+            sendEvent('output', { category: 'stderr', output: `${message}\n` });
+        }
+        sendEvent('exited', { exitCode });
+        sendEvent('terminated');
+    }
+
+    function requirePaused() {
+        if (!dbg || !dbg.isPaused()) {
+            throw new Error('Program is not paused');
+        }
+    }
+
+    // ========================================================================
+    // Requests
+    // ========================================================================
+
+    const requestHandlers = {
+        initialize() {
+            afterResponse.push(() => sendEvent('initialized'));
+            return {
+                supportsConfigurationDoneRequest: true,
+                supportsEvaluateForHovers: true,
+                supportsTerminateRequest: true
+            };
+        },
+
+        launch(args) {
+            if (!args.program) {
+                throw new Error('launch requires a "program" argument');
+            }
+            programPath = resolve(String(args.program));
+            source = readFileSync(programPath, 'utf8');
+            stopOnEntry = Boolean(args.stopOnEntry);
+
+            rp = new RobinPath();
+            if (!args.noDebug) {
+                dbg = rp.attachDebugger();
+                dbg.onPause((state) => {
+                    variableRefs = new Map();
+                    nextVariableRef = 1;
+                    const reason = state.reason === 'pause' && stopOnEntry ? 'entry' : state.reason;
+                    stopOnEntry = false;
+                    sendEvent('stopped', { reason, threadId: THREAD_ID, allThreadsStopped: true });
+                });
+                applyBreakpoints();
+            }
+            return undefined;
+        },
+
+        setBreakpoints(args) {
+            const path = resolve(String(args.source?.path ?? ''));
+            const lines = (args.breakpoints || []).map(bp => bp.line);
+            breakpointsByPath.set(path, lines);
+            applyBreakpoints();
+            return {
+                breakpoints: lines.map(line => ({ verified: true, line }))
+            };
+        },
+
+        configurationDone() {
+            if (!rp) {
+                throw new Error('configurationDone received before launch');
+            }
+            if (dbg && stopOnEntry) {
+                dbg.pause();
+            }
+            afterResponse.push(() => { run(); });
+            return undefined;
+        },
+
+        threads() {
+            return { threads: [{ id: THREAD_ID, name: 'main' }] };
+        },
+
+        stackTrace() {
+            requirePaused();
+            const stackFrames = dbg.getFrames().map((frame, index) => ({
+                id: index + 1,
+                name: frame.name,
+                source: { name: basename(programPath), path: programPath },
+                line: (frame.codePos?.startRow ?? 0) + 1,
+                column: (frame.codePos?.startCol ?? 0) + 1
+            }));
+            return { stackFrames, totalFrames: stackFrames.length };
+        },
+
+        scopes(args) {
+            requirePaused();
+            const frame = dbg.getFrames()[args.frameId - 1];
+            if (!frame) {
+                throw new Error(`Unknown frame: ${args.frameId}`);
+            }
+            const globals = dbg.getPausedState().globals;
+            return {
+                scopes: [
+                    {
+                        name: 'Locals',
+                        variablesReference: registerVariables(() => [
+                            toVariable('$', frame.frame.lastValue),
+                            ...mapToVariables(frame.locals)
+                        ]),
+                        expensive: false
+                    },
+                    {
+                        name: 'Globals',
+                        variablesReference: registerVariables(() => mapToVariables(globals)),
+                        expensive: false
+                    }
+                ]
+            };
+        },
+
+        variables(args) {
+            const getVariables = variableRefs.get(args.variablesReference);
+            return { variables: getVariables ? getVariables() : [] };
+        },
+
+        async evaluate(args) {
+            requirePaused();
+            const frameIndex = args.frameId ? args.frameId - 1 : 0;
+            const value = await dbg.evaluate(String(args.expression), frameIndex);
+            const variable = toVariable('result', value);
+            return { result: variable.value, type: variable.type, variablesReference: variable.variablesReference };
+        },
+
+        continue() {
+            requirePaused();
+            afterResponse.push(() => dbg.resume());
+            return { allThreadsContinued: true };
+        },
+
+        next() {
+            requirePaused();
+            afterResponse.push(() => dbg.stepOver());
+            return undefined;
+        },
+
+        stepIn() {
+            requirePaused();
+            afterResponse.push(() => dbg.stepInto());
+            return undefined;
+        },
+
+        stepOut() {
+            requirePaused();
+            afterResponse.push(() => dbg.stepOut());
+            return undefined;
+        },
+
+        pause() {
+            if (dbg) {
+                dbg.pause();
+            }
+            return undefined;
+        },
+
+        terminate() {
+            afterResponse.push(() => process.exit(0));
+            return undefined;
+        },
+
+        disconnect() {
+            afterResponse.push(() => process.exit(0));
+            return undefined;
+        }
+    };
+}
@@ -0,0 +1,183 @@
+/**
+ * Language Server Protocol server for RobinPath documents
+ *
+ * Speaks LSP (JSON-RPC 2.0) over stdio and maps the RobinPath LanguageService
+ * to completion, hover, signature help, go-to-definition and diagnostics.
+ * Documents are synchronized in full on every change.
+ */
+
+import { format } from 'util';
+import { RobinPath } from '../dist/index.js';
+import { readMessages, writeMessage, redirectConsole } from './protocol.js';
+
+// LSP enums used below
+const TextDocumentSyncKind = { Full: 1 };
+const DiagnosticSeverity = { error: 1, warning: 2 };
+const CompletionItemKind = { function: 3, variable: 6, module: 9, keyword: 14 };
+const MessageType = { Error: 1, Log: 4 };
+const ErrorCodes = { ParseError: -32700, MethodNotFound: -32601, InternalError: -32603 };
+
+export function runLspServer(input, output) {
+    const rp = new RobinPath();
+    const service = rp.getLanguageService();
+    const documents = new Map(); // uri -> text
+    let shutdownRequested = false;
+
+    function send(message) {
+        writeMessage(output, { jsonrpc: '2.0', ...message });
+    }
+
+    function notify(method, params) {
+        send({ method, params });
+    }
+
+    // stdout carries the protocol, so stray console output becomes window/logMessage
+    redirectConsole((category, args) => {
+        notify('window/logMessage', {
+            type: category === 'stderr' ? MessageType.Error : MessageType.Log,
+            message: format(...args)
+        });
+    });
+
+    async function publishDiagnostics(uri) {
+        const text = documents.get(uri);
+        const diagnostics = text === undefined ? [] : await service.getDiagnostics(text);
+        notify('textDocument/publishDiagnostics', {
+            uri,
+            diagnostics: diagnostics.map(d => ({
+                range: d.range,
+                severity: DiagnosticSeverity[d.severity],
+                source: 'robinpath',
+                message: d.message
+            }))
+        });
+    }
+
+    function getText(params) {
+        return documents.get(params.textDocument.uri) ?? '';
+    }
+
+    // ========================================================================
+    // Requests (respond with a result)
+    // ========================================================================
+
+    const requestHandlers = {
+        initialize() {
+            return {
+                capabilities: {
+                    textDocumentSync: TextDocumentSyncKind.Full,
+                    completionProvider: { triggerCharacters: ['.', '$'] },
+                    hoverProvider: true,
+                    signatureHelpProvider: { triggerCharacters: [' '] },
+                    definitionProvider: true
+                },
+                serverInfo: { name: 'robinpath' }
+            };
+        },
+
+        async 'textDocument/completion'(params) {
+            const items = await service.getCompletions(getText(params), params.position);
+            return items.map(item => ({
+                label: item.label,
+                kind: CompletionItemKind[item.kind],
+                detail: item.detail,
+                documentation: item.documentation
+            }));
+        },
+
+        async 'textDocument/hover'(params) {
+            const hover = await service.getHover(getText(params), params.position);
+            if (!hover) {
+                return null;
+            }
+            return { contents: { kind: 'markdown', value: hover.contents }, range: hover.range };
+        },
+
+        async 'textDocument/signatureHelp'(params) {
+            const help = await service.getSignatureHelp(getText(params), params.position);
+            if (!help) {
+                return null;
+            }
+            return {
+                signatures: [{
+                    label: help.label,
+                    documentation: help.documentation,
+                    parameters: help.parameters
+                }],
+                activeSignature: 0,
+                activeParameter: help.activeParameter
+            };
+        },
+
+        async 'textDocument/definition'(params) {
+            const definition = await service.getDefinition(getText(params), params.position);
+            if (!definition) {
+                return null;
+            }
+            return { uri: params.textDocument.uri, range: definition.range };
+        },
+
+        shutdown() {
+            shutdownRequested = true;
+            return null;
+        }
+    };
+
+    // ========================================================================
+    // Notifications (no response)
+    // ========================================================================
+
+    const notificationHandlers = {
+        initialized() {},
+
+        'textDocument/didOpen'(params) {
+            documents.set(params.textDocument.uri, params.textDocument.text);
+            return publishDiagnostics(params.textDocument.uri);
+        },
+
+        'textDocument/didChange'(params) {
+            const changes = params.contentChanges;
+            // Full sync: the last change holds the whole document
+            documents.set(params.textDocument.uri, changes[changes.length - 1].text);
+            return publishDiagnostics(params.textDocument.uri);
+        },
+
+        'textDocument/didClose'(params) {
+            documents.delete(params.textDocument.uri);
+            return publishDiagnostics(params.textDocument.uri);
+        },
+
+        exit() {
+            process.exit(shutdownRequested ? 0 : 1);
+        }
+    };
+
+    readMessages(input, async (message) => {
+        if (message.id === undefined) {
+            const handler = notificationHandlers[message.method];
+            if (handler) {
+                await handler(message.params || {});
+            }
+            return;
+        }
+
+        const handler = requestHandlers[message.method];
+        if (!handler) {
+            send({ id: message.id, error: { code: ErrorCodes.MethodNotFound, message: `Unsupported method: ${message.method}` } });
+            return;
+        }
+        try {
+            const result = await handler(message.params || {});
+            send({ id: message.id, result: result ?? null });
+        } catch (error) {
+            send({ id: message.id, error: { code: ErrorCodes.InternalError, message: error instanceof Error ? error.message : String(error) } });
+        }
+    }, (error) => {
+        // JSON-RPC answers unparsable messages with a parse error without an id
+        send({ id: null, error: { code: ErrorCodes.ParseError, message: `Parse error: ${error.message}` } });
+    });
+
+    input.on('end', () => {
+        process.exit(shutdownRequested ? 0 : 1);
+    });
+}
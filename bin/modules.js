@@ -0,0 +1,19 @@
+/**
+ * Module loader of the robinpath CLI: import statements load .robin files from disk
+ * (import paths resolve like RobinPath's default, relative to the importing file or
+ * to the current directory)
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+/**
+ * Loader reading modules from the file system; root is the directory module paths are relative to
+ */
+export function createFileModuleLoader(root = process.cwd()) {
+    return {
+        load(path) {
+            return readFileSync(resolve(root, path), 'utf-8');
+        }
+    };
+}
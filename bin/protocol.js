@@ -0,0 +1,65 @@
+/**
+ * Content-Length framed JSON messages over stdio
+ *
+ * Shared by the DAP (bin/dap.js) and LSP (bin/lsp.js) servers, which use the
+ * same "Content-Length: N\r\n\r\n<json>" framing.
+ */
+
+/**
+ * Read framed messages from a stream and call onMessage for each parsed message.
+ * A message whose body is not valid JSON is skipped and reported to onError.
+ */
+export function readMessages(input, onMessage, onError) {
+    let buffer = Buffer.alloc(0);
+
+    input.on('data', (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        while (true) {
+            const headerEnd = buffer.indexOf('\r\n\r\n');
+            if (headerEnd === -1) {
+                break;
+            }
+            const header = buffer.subarray(0, headerEnd).toString('utf8');
+            const match = /Content-Length:\s*(\d+)/i.exec(header);
+            if (!match) {
+                // Malformed header - drop it and resynchronize on the next one
+                buffer = buffer.subarray(headerEnd + 4);
+                continue;
+            }
+            const bodyStart = headerEnd + 4;
+            const bodyEnd = bodyStart + Number(match[1]);
+            if (buffer.length < bodyEnd) {
+                break;
+            }
+            const body = buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+            buffer = buffer.subarray(bodyEnd);
+            let message;
+            try {
+                message = JSON.parse(body);
+            } catch (error) {
+                onError?.(error);
+                continue;
+            }
+            onMessage(message);
+        }
+    });
+}
+
+/**
+ * Write a single framed message
+ */
+export function writeMessage(output, message) {
+    const json = JSON.stringify(message);
+    output.write(`Content-Length: ${Buffer.byteLength(json, 'utf8')}\r\n\r\n${json}`);
+}
+
+/**
+ * Forward console output through a callback (stdout carries the protocol)
+ */
+export function redirectConsole(forward) {
+    console.log = (...args) => forward('stdout', args);
+    console.info = (...args) => forward('stdout', args);
+    console.debug = (...args) => forward('stdout', args);
+    console.warn = (...args) => forward('stderr', args);
+    console.error = (...args) => forward('stderr', args);
+}
@@ -0,0 +1,110 @@
+/**
+ * robinpath run - execute a RobinPath script file
+ *
+ * Usage:
+ *   robinpath run <file> [--profile] [--profile-format cpuprofile|flamegraph] [--profile-output <file>] [--trace <file>]
+ *
+ * --profile times every def function, on handler, builtin and source line of the run, writes
+ * the call tree to "<file>.cpuprofile" (load it in the Performance panel of Chrome DevTools or
+ * in speedscope) or, with --profile-format flamegraph, to "<file>.flamegraph.json" (d3-flame-graph),
+ * and prints the functions and lines with the most self time to stderr.
+ * --trace writes the statements, calls, variable sets, triggered events and errors of the run as
+ * OpenTelemetry spans (OTLP/JSON, the body of an OTLP HTTP export) to the given file.
+ * Files imported by the script (import "./lib/helpers.robin") are read from disk.
+ * The fs module (fs.read, fs.write, ...) works in the current directory and below.
+ * Exits with 1 when the script fails.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, relative, resolve } from 'path';
+import { RobinPath, Profiler, TraceCollector, toCpuProfile, toFlameGraph, formatProfileSummary, toOtelSpans, NodeFileSystem } from '../dist/index.js';
+import { createFileModuleLoader } from './modules.js';
+
+const PROFILE_FORMATS = {
+    cpuprofile: { extension: '.cpuprofile', convert: toCpuProfile },
+    flamegraph: { extension: '.flamegraph.json', convert: toFlameGraph }
+};
+
+function parseArgs(args) {
+    const options = { file: null, profile: false, profileFormat: 'cpuprofile', profileOutput: null, trace: null };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--profile') {
+            options.profile = true;
+        } else if (arg === '--profile-format') {
+            options.profileFormat = args[++i];
+        } else if (arg.startsWith('--profile-format=')) {
+            options.profileFormat = arg.slice('--profile-format='.length);
+        } else if (arg === '--profile-output') {
+            options.profileOutput = args[++i];
+        } else if (arg.startsWith('--profile-output=')) {
+            options.profileOutput = arg.slice('--profile-output='.length);
+        } else if (arg === '--trace') {
+            options.trace = args[++i];
+        } else if (arg.startsWith('--trace=')) {
+            options.trace = arg.slice('--trace='.length);
+        } else if (options.file === null) {
+            options.file = arg;
+        } else {
+            throw new Error(`Unexpected argument "${arg}"`);
+        }
+    }
+    if (!options.file) {
+        throw new Error('Usage: robinpath run <file> [--profile] [--profile-format cpuprofile|flamegraph] [--profile-output <file>] [--trace <file>]');
+    }
+    if (!(options.profileFormat in PROFILE_FORMATS)) {
+        throw new Error(`Unknown profile format "${options.profileFormat}" (expected ${Object.keys(PROFILE_FORMATS).join(', ')})`);
+    }
+    if (options.profileOutput === undefined) {
+        throw new Error('--profile-output requires a file name');
+    }
+    if (options.trace === undefined) {
+        throw new Error('--trace requires a file name');
+    }
+    return options;
+}
+
+/**
+ * Run the run command; resolves to the process exit code
+ */
+export async function runRunCommand(args, cwd = process.cwd()) {
+    let options;
+    try {
+        options = parseArgs(args);
+    } catch (error) {
+        console.error(error.message);
+        return 2;
+    }
+
+    const file = resolve(cwd, options.file);
+    let script;
+    try {
+        script = readFileSync(file, 'utf-8');
+    } catch (error) {
+        console.error(`Cannot read ${options.file}: ${error.message}`);
+        return 1;
+    }
+
+    const profiler = options.profile ? new Profiler() : undefined;
+    const trace = options.trace ? new TraceCollector() : undefined;
+    const rp = new RobinPath({ moduleLoader: createFileModuleLoader(cwd), capabilities: { fs: new NodeFileSystem(cwd), http: {} } });
+    let exitCode = 0;
+    try {
+        await rp.executeScript(script, { file: relative(cwd, file).split('\\').join('/'), profiler, trace });
+    } catch (error) {
+        console.error(`Error: ${error.message}`);
+        exitCode = 1;
+    }
+
+    // A failed run is still profiled and traced up to the error
+    if (trace) {
+        writeFileSync(resolve(cwd, options.trace), JSON.stringify(toOtelSpans(trace.events)));
+    }
+    if (profiler) {
+        const format = PROFILE_FORMATS[options.profileFormat];
+        const output = resolve(cwd, options.profileOutput ?? basename(file).replace(/\.robin$/, '') + format.extension);
+        writeFileSync(output, JSON.stringify(format.convert(profiler)));
+        process.stderr.write(`\n${formatProfileSummary(profiler)}\nProfile written to ${relative(cwd, output)}\n`);
+    }
+    return exitCode;
+}
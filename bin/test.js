@@ -0,0 +1,187 @@
+/**
+ * robinpath test - run the test/describe blocks of RobinPath scripts and report the results
+ *
+ * Usage:
+ *   robinpath test [patterns...] [--reporter spec|tap|junit|json] [--output <file>] [--update-snapshots] [--coverage]
+ *
+ * Patterns are files, directories (all *.robin files below them) or globs (*, **, ?, [abc], {a,b};
+ * the dialect of globToRegExp, shared with fs.glob).
+ * Without patterns, every *.test.robin file below the current directory is run.
+ * The report goes to stdout (or to --output, with a summary on stdout); script output
+ * (log, say, ...) goes to stderr so it never mixes with the report.
+ * Snapshots of test.assertSnapshot live in "<file>.snap" next to each script; new ones are
+ * recorded automatically, --update-snapshots (-u) also overwrites mismatching ones and
+ * removes the ones no longer used.
+ * --coverage writes statement/branch/function coverage of the test files to coverage/lcov.info
+ * and prints a summary table (to stderr when a machine-readable report owns stdout).
+ * Exits with 1 when a test fails, a script fails outside its tests or nothing matched.
+ */
+
+import { readFileSync, readdirSync, statSync, writeFileSync, existsSync, unlinkSync, mkdirSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import {
+    RobinPath,
+    SnapshotStore,
+    CoverageCollector,
+    formatTestReports,
+    testReportsPassed,
+    formatLcov,
+    formatCoverageSummary,
+    NodeFileSystem,
+    globToRegExp
+} from '../dist/index.js';
+import { createFileModuleLoader } from './modules.js';
+
+const REPORTERS = ['spec', 'tap', 'junit', 'json'];
+const DEFAULT_PATTERN = '**/*.test.robin';
+const LCOV_FILE = 'coverage/lcov.info';
+
+// Script output goes to stderr so reporters own stdout
+const stderrOutput = {
+    write(record) {
+        process.stderr.write(record.message + '\n');
+    }
+};
+
+function parseArgs(args) {
+    const options = { patterns: [], reporter: 'spec', output: null, updateSnapshots: false, coverage: false };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--reporter' || arg === '-r') {
+            options.reporter = args[++i];
+        } else if (arg.startsWith('--reporter=')) {
+            options.reporter = arg.slice('--reporter='.length);
+        } else if (arg === '--output' || arg === '-o') {
+            options.output = args[++i];
+        } else if (arg.startsWith('--output=')) {
+            options.output = arg.slice('--output='.length);
+        } else if (arg === '--update-snapshots' || arg === '-u') {
+            options.updateSnapshots = true;
+        } else if (arg === '--coverage') {
+            options.coverage = true;
+        } else {
+            options.patterns.push(arg);
+        }
+    }
+    if (!REPORTERS.includes(options.reporter)) {
+        throw new Error(`Unknown reporter "${options.reporter}" (expected ${REPORTERS.join(', ')})`);
+    }
+    if (options.output === undefined) {
+        throw new Error('--output requires a file name');
+    }
+    return options;
+}
+
+// All files below a directory (skipping node_modules and hidden directories)
+function walk(dir, files = []) {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+                walk(path, files);
+            }
+        } else if (entry.isFile()) {
+            files.push(path);
+        }
+    }
+    return files;
+}
+
+function loadSnapshots(snapshotFile, update) {
+    if (!existsSync(snapshotFile)) {
+        return new SnapshotStore({}, { update });
+    }
+    return SnapshotStore.parse(readFileSync(snapshotFile, 'utf-8'), { update });
+}
+
+// Write back new/updated snapshots (pruning unused ones when updating a script that ran to the end)
+function saveSnapshots(snapshots, snapshotFile, report) {
+    if (snapshots.update && !report.error) {
+        snapshots.pruneObsolete();
+    }
+    if (!snapshots.isChanged()) {
+        return;
+    }
+    if (snapshots.isEmpty()) {
+        if (existsSync(snapshotFile)) unlinkSync(snapshotFile);
+        return;
+    }
+    writeFileSync(snapshotFile, snapshots.serialize());
+}
+
+function toPosix(path) {
+    return path.split('\\').join('/');
+}
+
+function expandPattern(pattern, cwd) {
+    const absolute = resolve(cwd, pattern);
+    if (existsSync(absolute)) {
+        if (statSync(absolute).isDirectory()) {
+            return walk(absolute).filter(file => file.endsWith('.robin'));
+        }
+        return [absolute];
+    }
+
+    // Walk from the part of the pattern before the first wildcard
+    const segments = toPosix(pattern).split('/');
+    const firstGlob = segments.findIndex(segment => /[*?]/.test(segment));
+    const base = resolve(cwd, segments.slice(0, Math.max(firstGlob, 0)).join('/') || '.');
+    if (!existsSync(base) || !statSync(base).isDirectory()) {
+        return [];
+    }
+    const matcher = globToRegExp(toPosix(relative(cwd, resolve(cwd, pattern))));
+    return walk(base).filter(file => matcher.test(toPosix(relative(cwd, file))));
+}
+
+/**
+ * Run the test command; resolves to the process exit code
+ */
+export async function runTestCommand(args, cwd = process.cwd()) {
+    let options;
+    try {
+        options = parseArgs(args);
+    } catch (error) {
+        console.error(error.message);
+        return 2;
+    }
+
+    const patterns = options.patterns.length > 0 ? options.patterns : [DEFAULT_PATTERN];
+    const files = [...new Set(patterns.flatMap(pattern => expandPattern(pattern, cwd)))].sort();
+    if (files.length === 0) {
+        console.error(`No test files found for: ${patterns.join(' ')}`);
+        return 1;
+    }
+
+    const reports = [];
+    const coverage = options.coverage ? new CoverageCollector() : undefined;
+    for (const file of files) {
+        // Each file gets a fresh interpreter so state never leaks between files
+        const rp = new RobinPath({ output: stderrOutput, moduleLoader: createFileModuleLoader(cwd), capabilities: { fs: new NodeFileSystem(cwd) } });
+        const snapshotFile = `${file}.snap`;
+        const snapshots = loadSnapshots(snapshotFile, options.updateSnapshots);
+        const report = await rp.runTests(readFileSync(file, 'utf-8'), { file: toPosix(relative(cwd, file)), snapshots, coverage });
+        saveSnapshots(snapshots, snapshotFile, report);
+        reports.push(report);
+    }
+
+    const report = formatTestReports(reports, options.reporter);
+    if (options.output) {
+        writeFileSync(resolve(cwd, options.output), report);
+        process.stdout.write(formatTestReports(reports, 'spec'));
+    } else {
+        process.stdout.write(report);
+    }
+
+    if (coverage) {
+        const lcovFile = resolve(cwd, LCOV_FILE);
+        mkdirSync(dirname(lcovFile), { recursive: true });
+        writeFileSync(lcovFile, formatLcov(coverage.getFiles()));
+        const summary = '\n' + formatCoverageSummary(coverage.getFiles());
+        if (options.reporter === 'spec' || options.output) {
+            process.stdout.write(summary);
+        } else {
+            process.stderr.write(summary);
+        }
+    }
+    return testReportsPassed(reports) ? 0 : 1;
+}
@@ -205,6 +205,30 @@ export class ASTSerializer {
                     iterableExpr: stmt.iterable,
                     body: stmt.body.map(s => this.serializeStatement(s, currentModuleContext))
                 };
+            case 'whileLoop':
+            case 'repeatUntil':
+                return {
+                    ...base,
+                    condition: stmt.condition,
+                    body: stmt.body.map(s => this.serializeStatement(s, currentModuleContext))
+                };
+            case 'testBlock':
+            case 'describeBlock':
+            case 'moduleBlock':
+                return {
+                    ...base,
+                    name: stmt.name,
+                    body: stmt.body.map(s => this.serializeStatement(s, currentModuleContext))
+                };
+            case 'tryBlock':
+                return {
+                    ...base,
+                    body: stmt.body.map(s => this.serializeStatement(s, currentModuleContext)),
+                    hasCatch: stmt.hasCatch,
+                    catchVarName: stmt.catchVarName,
+                    catchBody: stmt.catchBody?.map(s => this.serializeStatement(s, currentModuleContext)),
+                    finallyBody: stmt.finallyBody?.map(s => this.serializeStatement(s, currentModuleContext))
+                };
             case 'together': {
                 const togetherStmt: TogetherBlock = stmt as TogetherBlock;
                 return {
@@ -219,6 +243,12 @@ export class ASTSerializer {
                     eventName: onBlockStmt.eventName,
                     body: onBlockStmt.body.map(s => this.serializeStatement(s, currentModuleContext))
                 };
+            case 'import':
+                return {
+                    ...base,
+                    path: stmt.path,
+                    alias: stmt.alias
+                };
             case 'return':
                 return {
                     ...base,
@@ -0,0 +1,141 @@
+/**
+ * Capability policy for sandboxed runs
+ *
+ * A CapabilityPolicy limits what builtins may do on behalf of a script: which hosts
+ * fetch.* may reach, which clock time.* reads, where random.* draws its numbers and
+ * which file system (if any) fs.* works in.
+ * Each run gets a Capabilities object built from the policy; builtins reach it
+ * through context.capabilities.
+ */
+
+import { CapabilityError } from './errors';
+import type { FileSystem } from './FileSystem';
+
+export interface CapabilityPolicy {
+    fetch?: { allowedHosts: string[] }; // Hosts fetch.* may reach ("*.example.com" matches subdomains); all others are denied
+    clock?: number | (() => number); // Time seen by time.now/time.timestamp: a fixed timestamp or a clock function (ms since epoch)
+    random?: { seed: number } | (() => number); // Source for random.*: a seed (same sequence every run) or a function returning [0, 1)
+    fs?: FileSystem; // File system fs.* works in (script paths stay under its root); without one fs.* is denied
+    http?: HttpServePolicy; // Where http.serve may listen; without it http.serve is denied
+}
+
+export interface HttpServePolicy {
+    allowedHosts?: string[]; // Addresses servers may listen on (default: loopback only, 127.0.0.1, ::1 and localhost)
+    allowedPorts?: number[]; // Ports servers may listen on (default: any; 0 picks a free port)
+    maxBodySize?: number; // Largest request body in bytes (default 1 MiB); larger requests get a 413
+}
+
+const DEFAULT_SERVE_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Seeded PRNG (mulberry32) returning numbers in [0, 1)
+ */
+function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function hostMatches(hostname: string, pattern: string): boolean {
+    const expected = pattern.toLowerCase();
+    if (expected.startsWith('*.')) {
+        return hostname.endsWith(expected.slice(1));
+    }
+    return hostname === expected;
+}
+
+/**
+ * Capabilities of one run (the random sequence restarts for every run)
+ */
+export class Capabilities {
+    readonly policy: CapabilityPolicy | null;
+    private randomSource: () => number;
+
+    constructor(policy: CapabilityPolicy | null = null) {
+        this.policy = policy;
+        const random = policy?.random;
+        if (typeof random === 'function') {
+            this.randomSource = random;
+        } else if (random) {
+            this.randomSource = createSeededRandom(random.seed);
+        } else {
+            this.randomSource = Math.random;
+        }
+    }
+
+    /**
+     * Current time in milliseconds since the epoch
+     */
+    now(): number {
+        const clock = this.policy?.clock;
+        if (typeof clock === 'function') return clock();
+        if (typeof clock === 'number') return clock;
+        return Date.now();
+    }
+
+    /**
+     * Next random number in [0, 1)
+     */
+    random(): number {
+        return this.randomSource();
+    }
+
+    /**
+     * File system granted to fs.* (throws a CapabilityError when the policy grants none)
+     */
+    fileSystem(): FileSystem {
+        const fs = this.policy?.fs;
+        if (!fs) {
+            throw new CapabilityError('fs', 'fs denied: no file system is available (set capabilities.fs)');
+        }
+        return fs;
+    }
+
+    /**
+     * Throw a CapabilityError unless the policy allows http.serve to listen on the given address
+     */
+    checkServe(host: string, port: number): void {
+        const http = this.policy?.http;
+        if (!http) {
+            throw new CapabilityError('http', 'http denied: serving is not allowed (set capabilities.http)');
+        }
+        const allowedHosts = http.allowedHosts ?? DEFAULT_SERVE_HOSTS;
+        if (!allowedHosts.some(allowed => allowed.toLowerCase() === host.toLowerCase())) {
+            throw new CapabilityError('http', `http denied: host "${host}" is not allowed`);
+        }
+        if (http.allowedPorts && !http.allowedPorts.includes(port)) {
+            throw new CapabilityError('http', `http denied: port ${port} is not allowed`);
+        }
+    }
+
+    /**
+     * Largest request body (in bytes) servers started by http.serve accept
+     */
+    maxRequestBodySize(): number {
+        return this.policy?.http?.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    }
+
+    /**
+     * Throw a CapabilityError unless the policy allows fetching the given URL
+     */
+    checkFetch(url: string): void {
+        const allowedHosts = this.policy?.fetch?.allowedHosts;
+        if (!allowedHosts) return;
+
+        let hostname: string;
+        try {
+            hostname = new URL(url).hostname.toLowerCase();
+        } catch {
+            throw new CapabilityError('fetch', `fetch denied: invalid URL "${url}"`);
+        }
+        if (!allowedHosts.some(pattern => hostMatches(hostname, pattern))) {
+            throw new CapabilityError('fetch', `fetch denied: host "${hostname}" is not allowed`);
+        }
+    }
+}
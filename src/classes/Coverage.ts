@@ -0,0 +1,330 @@
+/**
+ * Statement, branch and function coverage of RobinPath scripts
+ *
+ * A CoverageCollector is given the parsed statements of every script it should
+ * cover (all of them start with zero hits) and is then told by the executor which
+ * statements, if/elseif/else arms, loop bodies, on handlers and def functions ran.
+ * Records are keyed by file and CodePosition, so running the same file again adds
+ * to the same counters. formatLcov and formatCoverageSummary turn the results into
+ * an lcov tracefile and a text table.
+ */
+
+import type { Statement, CodePosition, IfBlock, InlineIf, ForLoop, WhileLoop, OnBlock, DefineFunction } from '../types/Ast.type';
+
+export interface StatementCoverage {
+    type: Statement['type'];
+    codePos: CodePosition;
+    hits: number;
+}
+
+export type BranchKind = 'if' | 'inlineIf' | 'loop' | 'on';
+
+export interface BranchCoverage {
+    kind: BranchKind;
+    codePos: CodePosition; // Position of the if/loop/on statement
+    arms: { label: string; hits: number }[]; // if: then, elseif..., else (also when omitted); loops: body, skipped; on: handler
+}
+
+export interface FunctionCoverage {
+    name: string;
+    codePos: CodePosition;
+    hits: number;
+}
+
+export interface FileCoverage {
+    file: string;
+    statements: StatementCoverage[];
+    branches: BranchCoverage[];
+    functions: FunctionCoverage[];
+}
+
+export interface CoverageCounts {
+    covered: number;
+    total: number;
+}
+
+export interface CoverageSummary {
+    statements: CoverageCounts;
+    branches: CoverageCounts;
+    functions: CoverageCounts;
+    lines: CoverageCounts;
+}
+
+interface FileRecords {
+    statements: Map<string, StatementCoverage>;
+    branches: Map<string, BranchCoverage>;
+    functions: Map<string, FunctionCoverage>;
+}
+
+// Statements that only declare something (their bodies are covered as functions/handlers) or do nothing
+const UNCOUNTED_STATEMENTS = new Set<Statement['type']>(['comment', 'chunk_marker', 'define', 'onBlock', 'moduleBlock', 'cell', 'prompt_block']);
+
+// File name for scripts run without one
+const DEFAULT_FILE = 'script';
+
+function positionKey(codePos: CodePosition): string {
+    return `${codePos.startRow}:${codePos.startCol}`;
+}
+
+export class CoverageCollector {
+    private files = new Map<string, FileRecords>();
+    private statementRecords = new WeakMap<object, StatementCoverage>();
+    private branchRecords = new WeakMap<object, BranchCoverage>();
+    private functionRecords = new WeakMap<object, FunctionCoverage>();
+
+    /**
+     * Register the statements of a script (including hoisted def/on blocks) so that
+     * the ones that never run show up with zero hits
+     */
+    addScript(file: string | null, statements: Statement[]): void {
+        const name = file ?? DEFAULT_FILE;
+        let records = this.files.get(name);
+        if (!records) {
+            records = { statements: new Map(), branches: new Map(), functions: new Map() };
+            this.files.set(name, records);
+        }
+        this.addStatements(records, statements);
+    }
+
+    hitStatement(stmt: Statement): void {
+        const record = this.statementRecords.get(stmt);
+        if (record) record.hits++;
+    }
+
+    /**
+     * Count a branch arm of an if/inline if, loop or on handler (by index into its arms)
+     */
+    hitBranch(node: IfBlock | InlineIf | ForLoop | WhileLoop | OnBlock, arm: number): void {
+        const record = this.branchRecords.get(node);
+        if (record && record.arms[arm]) record.arms[arm].hits++;
+    }
+
+    hitFunction(func: DefineFunction): void {
+        const record = this.functionRecords.get(func);
+        if (record) record.hits++;
+    }
+
+    /**
+     * Coverage of every registered file (records sorted by position)
+     */
+    getFiles(): FileCoverage[] {
+        const byPosition = (a: { codePos: CodePosition }, b: { codePos: CodePosition }) =>
+            a.codePos.startRow - b.codePos.startRow || a.codePos.startCol - b.codePos.startCol;
+        return [...this.files.entries()].map(([file, records]) => ({
+            file,
+            statements: [...records.statements.values()].sort(byPosition),
+            branches: [...records.branches.values()].sort(byPosition),
+            functions: [...records.functions.values()].sort(byPosition)
+        }));
+    }
+
+    private addStatements(records: FileRecords, statements: Statement[] | undefined): void {
+        for (const stmt of statements ?? []) {
+            this.addStatement(records, stmt);
+        }
+    }
+
+    private addStatement(records: FileRecords, stmt: Statement): void {
+        if (!stmt || !('codePos' in stmt) || !stmt.codePos || this.statementRecords.has(stmt) ||
+            this.functionRecords.has(stmt) || this.branchRecords.has(stmt)) {
+            return;
+        }
+        const key = positionKey(stmt.codePos);
+
+        if (!UNCOUNTED_STATEMENTS.has(stmt.type)) {
+            let record = records.statements.get(key);
+            if (!record) {
+                record = { type: stmt.type, codePos: stmt.codePos, hits: 0 };
+                records.statements.set(key, record);
+            }
+            this.statementRecords.set(stmt, record);
+        }
+
+        switch (stmt.type) {
+            case 'ifBlock': {
+                const labels = ['then', ...(stmt.elseifBranches ?? []).map((_, index) => `elseif ${index + 1}`), 'else'];
+                this.addBranch(records, stmt, 'if', labels);
+                this.addStatements(records, stmt.thenBranch);
+                for (const branch of stmt.elseifBranches ?? []) {
+                    this.addStatements(records, branch.body);
+                }
+                this.addStatements(records, stmt.elseBranch);
+                break;
+            }
+            case 'inlineIf':
+                this.addBranch(records, stmt, 'inlineIf', ['then', 'else']);
+                this.addStatement(records, stmt.command);
+                if (stmt.elseCommand) this.addStatement(records, stmt.elseCommand);
+                break;
+            case 'forLoop':
+            case 'whileLoop':
+                this.addBranch(records, stmt, 'loop', ['body', 'skipped']);
+                this.addStatements(records, stmt.body);
+                break;
+            case 'onBlock':
+                this.addBranch(records, stmt, 'on', [`on "${stmt.eventName}"`]);
+                this.addStatements(records, stmt.body);
+                break;
+            case 'define': {
+                let record = records.functions.get(key);
+                if (!record) {
+                    record = { name: stmt.name, codePos: stmt.codePos, hits: 0 };
+                    records.functions.set(key, record);
+                }
+                this.functionRecords.set(stmt, record);
+                this.addStatements(records, stmt.body);
+                break;
+            }
+            case 'ifTrue':
+            case 'ifFalse':
+                this.addStatement(records, stmt.command);
+                break;
+            case 'together':
+                for (const block of stmt.blocks) this.addStatement(records, block);
+                break;
+            case 'tryBlock':
+                this.addStatements(records, stmt.body);
+                this.addStatements(records, stmt.catchBody);
+                this.addStatements(records, stmt.finallyBody);
+                break;
+            case 'command':
+                if (stmt.callback) this.addStatements(records, stmt.callback.body);
+                break;
+            case 'do':
+            case 'repeatUntil':
+            case 'testBlock':
+            case 'describeBlock':
+            case 'moduleBlock':
+            case 'cell':
+                this.addStatements(records, stmt.body);
+                break;
+        }
+    }
+
+    private addBranch(records: FileRecords, node: IfBlock | InlineIf | ForLoop | WhileLoop | OnBlock, kind: BranchKind, labels: string[]): void {
+        const key = positionKey(node.codePos);
+        let record = records.branches.get(key);
+        if (!record) {
+            record = { kind, codePos: node.codePos, arms: labels.map(label => ({ label, hits: 0 })) };
+            records.branches.set(key, record);
+        }
+        this.branchRecords.set(node, record);
+    }
+}
+
+/**
+ * Hits per 1-based source line (a line with several statements counts its most executed one)
+ */
+function lineHits(file: FileCoverage): Map<number, number> {
+    const lines = new Map<number, number>();
+    for (const statement of file.statements) {
+        const line = statement.codePos.startRow + 1;
+        lines.set(line, Math.max(lines.get(line) ?? 0, statement.hits));
+    }
+    return lines;
+}
+
+/**
+ * Covered/total counts of one file or of all files together
+ */
+export function summarizeCoverage(files: FileCoverage[]): CoverageSummary {
+    const summary: CoverageSummary = {
+        statements: { covered: 0, total: 0 },
+        branches: { covered: 0, total: 0 },
+        functions: { covered: 0, total: 0 },
+        lines: { covered: 0, total: 0 }
+    };
+    for (const file of files) {
+        for (const statement of file.statements) {
+            summary.statements.total++;
+            if (statement.hits > 0) summary.statements.covered++;
+        }
+        for (const branch of file.branches) {
+            for (const arm of branch.arms) {
+                summary.branches.total++;
+                if (arm.hits > 0) summary.branches.covered++;
+            }
+        }
+        for (const func of file.functions) {
+            summary.functions.total++;
+            if (func.hits > 0) summary.functions.covered++;
+        }
+        for (const hits of lineHits(file).values()) {
+            summary.lines.total++;
+            if (hits > 0) summary.lines.covered++;
+        }
+    }
+    return summary;
+}
+
+/**
+ * lcov tracefile (one record per file: FN/FNDA, BRDA, DA lines and their totals)
+ */
+export function formatLcov(files: FileCoverage[]): string {
+    const lines: string[] = [];
+    for (const file of files) {
+        const summary = summarizeCoverage([file]);
+        const statementHits = new Map(file.statements.map(statement => [positionKey(statement.codePos), statement.hits]));
+
+        lines.push('TN:', `SF:${file.file}`);
+        for (const func of file.functions) {
+            lines.push(`FN:${func.codePos.startRow + 1},${func.name}`);
+        }
+        for (const func of file.functions) {
+            lines.push(`FNDA:${func.hits},${func.name}`);
+        }
+        lines.push(`FNF:${summary.functions.total}`, `FNH:${summary.functions.covered}`);
+
+        file.branches.forEach((branch, block) => {
+            // "-" marks arms of an if/loop that never ran itself
+            const reached = statementHits.get(positionKey(branch.codePos)) !== 0;
+            branch.arms.forEach((arm, index) => {
+                lines.push(`BRDA:${branch.codePos.startRow + 1},${block},${index},${reached ? arm.hits : '-'}`);
+            });
+        });
+        lines.push(`BRF:${summary.branches.total}`, `BRH:${summary.branches.covered}`);
+
+        for (const [line, hits] of lineHits(file)) {
+            lines.push(`DA:${line},${hits}`);
+        }
+        lines.push(`LF:${summary.lines.total}`, `LH:${summary.lines.covered}`);
+        lines.push('end_of_record');
+    }
+    return lines.join('\n') + '\n';
+}
+
+function formatPercent(counts: CoverageCounts): string {
+    return counts.total === 0 ? '100.00%' : `${(counts.covered / counts.total * 100).toFixed(2)}%`;
+}
+
+// "3, 7-9" for the uncovered lines of a file
+function formatUncoveredLines(file: FileCoverage): string {
+    const uncovered = [...lineHits(file).entries()].filter(([, hits]) => hits === 0).map(([line]) => line).sort((a, b) => a - b);
+    const ranges: string[] = [];
+    for (let i = 0; i < uncovered.length; i++) {
+        const start = uncovered[i];
+        while (i + 1 < uncovered.length && uncovered[i + 1] === uncovered[i] + 1) i++;
+        ranges.push(start === uncovered[i] ? String(start) : `${start}-${uncovered[i]}`);
+    }
+    return ranges.join(', ');
+}
+
+/**
+ * Text table with statement, branch, function and line coverage per file
+ */
+export function formatCoverageSummary(files: FileCoverage[]): string {
+    const header = ['File', 'Stmts', 'Branch', 'Funcs', 'Lines', 'Uncovered lines'];
+    const rows = files.map(file => {
+        const summary = summarizeCoverage([file]);
+        return [file.file, formatPercent(summary.statements), formatPercent(summary.branches),
+            formatPercent(summary.functions), formatPercent(summary.lines), formatUncoveredLines(file)];
+    });
+    const total = summarizeCoverage(files);
+    rows.push(['All files', formatPercent(total.statements), formatPercent(total.branches),
+        formatPercent(total.functions), formatPercent(total.lines), '']);
+
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+    const separator = widths.map(width => '-'.repeat(width)).join('  ');
+    return [formatRow(header), separator, ...rows.slice(0, -1).map(formatRow), separator, formatRow(rows[rows.length - 1])].join('\n') + '\n';
+}
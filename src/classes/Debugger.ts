@@ -0,0 +1,357 @@
+/**
+ * Step-through debugger for RobinPath scripts
+ *
+ * A Debugger is attached to a RobinPath instance or a RobinPathThread. Every
+ * statement the Executor runs is reported to beforeStatement()/afterStatement();
+ * when a breakpoint or a pending step matches, execution is suspended until the
+ * host calls resume(), stepOver(), stepInto() or stepOut().
+ *
+ * Stepping is line based and measured in call depth, where only def and on
+ * handler frames count as calls (do/together scopes are stepped through).
+ */
+
+import type { Value } from '../utils';
+import { Parser } from './Parser';
+import type { Frame } from '../index';
+import type { Statement, CodePosition } from '../types/Ast.type';
+import type { Executor } from './Executor';
+
+export type PauseReason = 'breakpoint' | 'step' | 'pause';
+
+export type StepMode = 'over' | 'into' | 'out';
+
+export interface Breakpoint {
+    id: number;
+    row: number; // 0-based row, matched against Statement.codePos.startRow
+}
+
+export interface DebugFrame {
+    name: string; // def/event name, '<scope>' for do blocks, '<global>' for the top-level frame
+    locals: Map<string, Value>;
+    lastValue: Value;
+    codePos: CodePosition | null; // Position of the statement currently executing in this frame
+    frame: Frame; // The live frame (changes made here are visible to the script on resume)
+}
+
+export interface PausedState {
+    reason: PauseReason;
+    statement: Statement;
+    codePos: CodePosition;
+    frames: DebugFrame[]; // Innermost frame first
+    globals: Map<string, Value>;
+    executor: Executor; // Executor that is paused (use it to evaluate in the paused frame)
+}
+
+export type PauseListener = (state: PausedState) => void;
+
+interface StepRequest {
+    mode: StepMode | 'continue';
+    statement: Statement;
+    row: number;
+    depth: number;
+    originDone: boolean;
+}
+
+export class Debugger {
+    private breakpoints: Map<number, Breakpoint> = new Map();
+    private nextBreakpointId = 1;
+    private listeners: PauseListener[] = [];
+    private pausedState: PausedState | null = null;
+    private pausePromise: Promise<void> | null = null;
+    private resumeFn: (() => void) | null = null;
+    private pauseRequested = false;
+    private step: StepRequest | null = null;
+    private framePositions: WeakMap<Frame, CodePosition> = new WeakMap();
+    private evaluating = 0; // > 0 while evaluate() runs code in the paused executor
+
+    // ========================================================================
+    // Breakpoints
+    // ========================================================================
+
+    /**
+     * Set a breakpoint on a 0-based source row
+     * Setting a breakpoint on a row that already has one returns the existing breakpoint.
+     */
+    setBreakpoint(row: number): Breakpoint {
+        for (const bp of this.breakpoints.values()) {
+            if (bp.row === row) {
+                return bp;
+            }
+        }
+        const breakpoint: Breakpoint = { id: this.nextBreakpointId++, row };
+        this.breakpoints.set(breakpoint.id, breakpoint);
+        return breakpoint;
+    }
+
+    /**
+     * Replace all breakpoints with breakpoints on the given rows
+     */
+    setBreakpoints(rows: number[]): Breakpoint[] {
+        this.breakpoints.clear();
+        return rows.map(row => this.setBreakpoint(row));
+    }
+
+    /**
+     * Remove a breakpoint by id
+     * @returns true if a breakpoint was removed
+     */
+    removeBreakpoint(id: number): boolean {
+        return this.breakpoints.delete(id);
+    }
+
+    clearBreakpoints(): void {
+        this.breakpoints.clear();
+    }
+
+    getBreakpoints(): Breakpoint[] {
+        return Array.from(this.breakpoints.values());
+    }
+
+    // ========================================================================
+    // Execution control
+    // ========================================================================
+
+    /**
+     * Register a listener called every time execution pauses
+     * @returns Function that removes the listener
+     */
+    onPause(listener: PauseListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Pause at the next statement that is executed
+     * Call before executeScript() to stop on the first statement.
+     */
+    pause(): void {
+        this.pauseRequested = true;
+    }
+
+    isPaused(): boolean {
+        return this.pausedState !== null;
+    }
+
+    getPausedState(): PausedState | null {
+        return this.pausedState;
+    }
+
+    /**
+     * Frames of the paused executor, innermost first (empty when running)
+     */
+    getFrames(): DebugFrame[] {
+        return this.pausedState ? this.pausedState.frames : [];
+    }
+
+    /**
+     * Continue until the next breakpoint
+     */
+    resume(): void {
+        this.requestStep('continue');
+    }
+
+    /**
+     * Run the current line, stepping over def calls
+     */
+    stepOver(): void {
+        this.requestStep('over');
+    }
+
+    /**
+     * Run the current line, stopping inside the first def call it makes
+     */
+    stepInto(): void {
+        this.requestStep('into');
+    }
+
+    /**
+     * Continue until the current def call returns
+     */
+    stepOut(): void {
+        this.requestStep('out');
+    }
+
+    /**
+     * Evaluate RobinPath code in a paused frame and return its last value ($)
+     * The code sees the frame's locals; local assignments it makes are not written back.
+     * @param code Code to evaluate, e.g. '$user.name' or 'math.add $a 1'
+     * @param frameIndex Index into getFrames() (0 = innermost)
+     */
+    async evaluate(code: string, frameIndex: number = 0): Promise<Value> {
+        const state = this.pausedState;
+        if (!state) {
+            throw new Error('Debugger is not paused');
+        }
+        const debugFrame = state.frames[frameIndex];
+        if (!debugFrame) {
+            throw new Error(`No frame at index ${frameIndex}`);
+        }
+
+        const parser = new Parser(code);
+        const statements = await parser.parse();
+
+        this.evaluating++;
+        try {
+            return await state.executor.executeSubexpressionStatements(statements, debugFrame.frame);
+        } finally {
+            this.evaluating--;
+        }
+    }
+
+    // ========================================================================
+    // Executor hooks
+    // ========================================================================
+
+    /**
+     * Called by the Executor before a statement runs
+     * Resolves immediately unless execution should pause at this statement.
+     */
+    async beforeStatement(stmt: Statement, executor: Executor, frameOverride?: Frame): Promise<void> {
+        // Comments have no codePos, so they never pause
+        if (!('codePos' in stmt) || !stmt.codePos) {
+            return;
+        }
+        if (stmt.type === 'chunk_marker' || stmt.type === 'prompt_block') {
+            return;
+        }
+        if (this.evaluating > 0) {
+            return;
+        }
+
+        // Another branch (e.g. in a together block) is paused - wait for it first
+        while (this.pausePromise) {
+            await this.pausePromise;
+        }
+
+        const frame = executor.getCurrentFrame(frameOverride);
+        this.framePositions.set(frame, stmt.codePos);
+
+        const depth = Debugger.getCallDepth(executor.getCallStack());
+        const reason = this.getPauseReason(stmt, stmt.codePos, depth);
+        if (!reason) {
+            return;
+        }
+
+        this.pauseRequested = false;
+        this.step = null;
+        this.pausedState = {
+            reason,
+            statement: stmt,
+            codePos: stmt.codePos,
+            frames: this.snapshotFrames(executor, frame),
+            globals: executor.getEnvironment().variables,
+            executor
+        };
+        this.pausePromise = new Promise<void>(resolve => {
+            this.resumeFn = resolve;
+        });
+        const pausePromise = this.pausePromise;
+
+        const state = this.pausedState;
+        for (const listener of [...this.listeners]) {
+            listener(state);
+        }
+
+        await pausePromise;
+    }
+
+    /**
+     * Called by the Executor after a statement finished (or threw)
+     */
+    afterStatement(stmt: Statement, executor: Executor): void {
+        if (this.step && this.step.statement === stmt &&
+            Debugger.getCallDepth(executor.getCallStack()) === this.step.depth) {
+            this.step.originDone = true;
+        }
+    }
+
+    // ========================================================================
+    // Internals
+    // ========================================================================
+
+    private getPauseReason(stmt: Statement, codePos: CodePosition, depth: number): PauseReason | null {
+        if (this.pauseRequested) {
+            return 'pause';
+        }
+
+        if (this.step && this.step.mode !== 'continue') {
+            const step = this.step;
+            const movedOn = stmt !== step.statement && (step.originDone || codePos.startRow !== step.row);
+            if (step.mode === 'out' && depth < step.depth) {
+                return 'step';
+            }
+            if (step.mode === 'over' && (depth < step.depth || (depth === step.depth && movedOn))) {
+                return 'step';
+            }
+            if (step.mode === 'into' && (depth !== step.depth || movedOn)) {
+                return 'step';
+            }
+        }
+
+        for (const bp of this.breakpoints.values()) {
+            if (bp.row === codePos.startRow) {
+                // Don't hit the same breakpoint again while still running the statement that stopped on it
+                if (this.step && this.step.row === bp.row && !this.step.originDone && depth === this.step.depth) {
+                    return null;
+                }
+                return 'breakpoint';
+            }
+        }
+
+        return null;
+    }
+
+    private requestStep(mode: StepMode | 'continue'): void {
+        const state = this.pausedState;
+        if (!state) {
+            throw new Error('Debugger is not paused');
+        }
+        this.step = {
+            mode,
+            statement: state.statement,
+            row: state.codePos.startRow,
+            depth: Debugger.getCallDepth(state.executor.getCallStack()),
+            originDone: false
+        };
+        this.release();
+    }
+
+    private release(): void {
+        const resume = this.resumeFn;
+        this.pausedState = null;
+        this.pausePromise = null;
+        this.resumeFn = null;
+        if (resume) {
+            resume();
+        }
+    }
+
+    private snapshotFrames(executor: Executor, currentFrame: Frame): DebugFrame[] {
+        const stack = executor.getCallStack();
+        const frames = stack.includes(currentFrame) ? stack : [...stack, currentFrame];
+        const result: DebugFrame[] = [];
+        for (let i = frames.length - 1; i >= 0; i--) {
+            const frame = frames[i];
+            result.push({
+                name: frame.name ?? (i === 0 ? '<global>' : '<scope>'),
+                locals: frame.locals,
+                lastValue: frame.lastValue,
+                codePos: this.framePositions.get(frame) ?? null,
+                frame
+            });
+        }
+        return result;
+    }
+
+    private static getCallDepth(callStack: Frame[]): number {
+        let depth = 0;
+        for (const frame of callStack) {
+            if (frame.name !== undefined) {
+                depth++;
+            }
+        }
+        return depth;
+    }
+}
@@ -0,0 +1,276 @@
+/**
+ * Built-in runtime decorators: @retry, @timeout, @cache, @deprecated and @log
+ *
+ * They wrap the execution of a def call, do block or together block (see
+ * WrapDecoratorHandler) and are registered on every RobinPath instance, together
+ * with their FunctionMetadata so explain "@retry" documents them.
+ */
+
+import { ArgumentError, ExecutionLimitError, RobinPathError, TimeoutError } from './errors';
+import { extractNamedArgs } from '../utils/args';
+import type { Value } from '../utils/types';
+import type { WrapDecoratorHandler, DecoratorTarget, FunctionMetadata } from '../types/Environment.type';
+import type { LogLevel } from './Output';
+
+// Results of @cache by decorated node, then by argument values (pending while the first call runs)
+const caches = new WeakMap<object, Map<string, { value: Promise<Value>; expires: number }>>();
+
+// Decorated nodes @deprecated already warned about
+const warned = new WeakSet<object>();
+
+const LOG_LEVELS: LogLevel[] = ['log', 'warn', 'error', 'debug'];
+
+function getNumber(value: Value | undefined, decorator: string, name: string, fallback: number): number {
+    if (value === undefined || value === null) {
+        return fallback;
+    }
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+        throw new ArgumentError(`@${decorator} ${name} must be a non-negative number, got ${JSON.stringify(value)}`);
+    }
+    return number;
+}
+
+/**
+ * Wait for ms milliseconds, rejecting with the abort reason when the run is cancelled
+ */
+function sleep(ms: number, signal: AbortSignal | null): Promise<void> {
+    signal?.throwIfAborted();
+    return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Errors a retry may help with: script errors (including @timeout), but not exceeded
+ * execution limits or the cancellation of the run
+ */
+function isRetryable(error: unknown, target: DecoratorTarget): boolean {
+    if (!(error instanceof RobinPathError) || error instanceof ExecutionLimitError) {
+        return false;
+    }
+    return !target.context.signal?.aborted;
+}
+
+function formatValue(value: Value): string {
+    try {
+        return JSON.stringify(value) ?? 'null';
+    } catch {
+        return String(value);
+    }
+}
+
+export const RuntimeDecorators: Record<string, WrapDecoratorHandler> = {
+    retry: async (run, args, target) => {
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const retries = Math.floor(getNumber(namedArgs.times ?? positionalArgs[0], 'retry', 'times', 3));
+        const backoff = getNumber(namedArgs.backoff ?? positionalArgs[1], 'retry', 'backoff', 0);
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await run();
+            } catch (error) {
+                if (attempt >= retries || !isRetryable(error, target)) {
+                    throw error;
+                }
+                // Exponential backoff: backoff, 2 * backoff, 4 * backoff, ...
+                if (backoff > 0) {
+                    await sleep(backoff * 2 ** attempt, target.context.signal);
+                }
+            }
+        }
+    },
+
+    timeout: async (run, args, target) => {
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const ms = getNumber(namedArgs.ms ?? positionalArgs[0], 'timeout', 'ms', -1);
+        if (ms < 0) {
+            throw new ArgumentError('@timeout requires a duration in milliseconds');
+        }
+
+        // The target runs under its own signal: aborted by the timer or by the run's cancellation
+        const parent = target.context.signal;
+        parent?.throwIfAborted();
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(parent!.reason);
+        parent?.addEventListener('abort', onAbort, { once: true });
+        const timer = setTimeout(() => {
+            controller.abort(new TimeoutError(ms, `${target.name} timed out after ${ms}ms`));
+        }, ms);
+        // Builtins that ignore the signal are not waited for
+        const aborted = new Promise<never>((_resolve, reject) => {
+            controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        });
+
+        try {
+            return await Promise.race([run(controller.signal), aborted]);
+        } finally {
+            clearTimeout(timer);
+            parent?.removeEventListener('abort', onAbort);
+        }
+    },
+
+    cache: async (run, args, target) => {
+        if (target.kind === 'together') {
+            throw new ArgumentError('@cache cannot be used on together blocks (they have no result to reuse)');
+        }
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const ttl = getNumber(namedArgs.ttl ?? positionalArgs[0], 'cache', 'ttl', Infinity);
+
+        let entries = caches.get(target.node);
+        if (!entries) {
+            entries = new Map();
+            caches.set(target.node, entries);
+        }
+        const key = formatValue(target.args);
+        const now = target.context.capabilities.now();
+        const entry = entries.get(key);
+        if (entry && entry.expires > now) {
+            return entry.value;
+        }
+
+        // Concurrent calls with the same arguments share the run; failures are not cached
+        const value = run();
+        const created = { value, expires: now + ttl * 1000 };
+        entries.set(key, created);
+        try {
+            return await value;
+        } catch (error) {
+            if (entries.get(key) === created) {
+                entries.delete(key);
+            }
+            throw error;
+        }
+    },
+
+    deprecated: async (run, args, target) => {
+        if (!warned.has(target.node)) {
+            warned.add(target.node);
+            const hint = args[0] !== undefined && args[0] !== null ? `: ${String(args[0])}` : '';
+            target.context.output.write({
+                level: 'warn',
+                message: `${target.name} is deprecated${hint}`,
+                args: [],
+                source: '@deprecated',
+                timestamp: Date.now()
+            });
+        }
+        return run();
+    },
+
+    log: async (run, args, target) => {
+        const level = LOG_LEVELS.includes(args[0] as LogLevel) ? args[0] as LogLevel : 'debug';
+        const write = (message: string) => target.context.output.write({ level, message, args: [], source: '@log', timestamp: Date.now() });
+
+        write(target.kind === 'def' ? `${target.name} called with ${formatValue(target.args)}` : `${target.name} started`);
+        const started = Date.now();
+        try {
+            const value = await run();
+            write(`${target.name} returned ${formatValue(value)} in ${Date.now() - started}ms`);
+            return value;
+        } catch (error) {
+            write(`${target.name} failed in ${Date.now() - started}ms: ${error instanceof Error ? error.message : String(error)}`);
+            throw error;
+        }
+    }
+};
+
+export const RuntimeDecoratorMetadata: Record<string, FunctionMetadata> = {
+    retry: {
+        description: 'Runs the def or block again when it fails, waiting longer before each retry (errors of execution limits and cancellation are not retried)',
+        parameters: [
+            {
+                name: 'times',
+                dataType: 'number',
+                description: 'Number of retries after the first attempt',
+                formInputType: 'number',
+                required: false,
+                defaultValue: 3
+            },
+            {
+                name: 'backoff',
+                dataType: 'number',
+                description: 'Milliseconds to wait before the first retry (doubled for every further retry)',
+                formInputType: 'number',
+                required: false,
+                defaultValue: 0
+            }
+        ],
+        returnType: 'any',
+        returnDescription: 'Value of the first successful attempt (the last error when all attempts fail)',
+        example: '@retry 3 backoff=500\ndef loadUsers\n  fetch.get "https://api.example.com/users"\nenddef'
+    },
+
+    timeout: {
+        description: 'Fails with a TimeoutError (code TIMEOUT) when the def or block does not finish in time; the body stops at its next statement',
+        parameters: [
+            {
+                name: 'ms',
+                dataType: 'number',
+                description: 'Allowed time in milliseconds',
+                formInputType: 'number',
+                required: true
+            }
+        ],
+        returnType: 'any',
+        returnDescription: 'Value of the def or block',
+        example: '@timeout 5000\ndo\n  fetch.get "https://api.example.com/report"\nenddo'
+    },
+
+    cache: {
+        description: 'Remembers the result of a def for each combination of argument values (of a do block for the values of its parameters) and returns it instead of running again',
+        parameters: [
+            {
+                name: 'ttl',
+                dataType: 'number',
+                description: 'Seconds a result is reused (measured with the clock of the capability policy); results are kept for good without it',
+                formInputType: 'number',
+                required: false
+            }
+        ],
+        returnType: 'any',
+        returnDescription: 'Cached or freshly computed value of the def or block',
+        example: '@cache ttl=60\ndef exchangeRate $currency\n  fetch.get "https://api.example.com/rates/$currency"\nenddef'
+    },
+
+    deprecated: {
+        description: 'Warns (once) that the def or block is deprecated the first time it runs',
+        parameters: [
+            {
+                name: 'message',
+                dataType: 'string',
+                description: 'What to use instead',
+                formInputType: 'text',
+                required: false
+            }
+        ],
+        returnType: 'any',
+        returnDescription: 'Value of the def or block',
+        example: '@deprecated "use users.load"\ndef loadUsers\n  users.load\nenddef'
+    },
+
+    log: {
+        description: 'Writes a record when the def or block starts (with the arguments of a def) and when it returns or fails (with the value or error and the duration)',
+        parameters: [
+            {
+                name: 'level',
+                dataType: 'string',
+                description: 'Output level of the records: log, warn, error or debug',
+                formInputType: 'select',
+                required: false,
+                defaultValue: 'debug'
+            }
+        ],
+        returnType: 'any',
+        returnDescription: 'Value of the def or block',
+        example: '@log\ndef total $a $b\n  math.add $a $b\nenddef'
+    }
+};
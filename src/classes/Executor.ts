@@ -22,7 +22,33 @@
 
 import { isTruthy, type Value, type AttributePathSegment } from '../utils';
 import { LexerUtils } from '../utils';
-import { ReturnException, BreakException, ContinueException, EndException } from './exceptions';
+import { ReturnException, BreakException, ContinueException, EndException, SkipException } from './exceptions';
+import {
+    ErrorCode,
+    RobinPathError,
+    RuntimeError,
+    RobinPathTypeError,
+    ArgumentError,
+    UnknownCommandError,
+    UnknownModuleError,
+    ExecutionLimitError,
+    ImportError
+} from './errors';
+import { consoleOutput } from './Output';
+import type { LogLevel, OutputSink } from './Output';
+import { Capabilities } from './Capabilities';
+import type { CapabilityPolicy } from './Capabilities';
+import { NetworkTransport } from './Transport';
+import type { FetchTransport } from './Transport';
+import type { TestResult } from './TestReport';
+import { getMockRegistry } from './Mocks';
+import type { SnapshotStore } from './Snapshots';
+import type { CoverageCollector } from './Coverage';
+import type { Profiler, ProfileFrame, ProfileKind } from './Profiler';
+import { formatTracePath } from './Trace';
+import type { Tracer, TraceEventData } from './Trace';
+import { getModuleNamespace } from './Modules';
+import type { ImportedModule, ModuleRegistry } from './Modules';
 import { Parser } from './Parser';
 import { createErrorWithContext } from '../utils/errorFormatter';
 import { StringTemplateParser } from '../parsers/StringTemplateParser';
@@ -31,7 +57,14 @@ import type {
     Environment,
     Frame,
     BuiltinCallback,
-    ModuleMetadata
+    BuiltinContext,
+    BuiltinHandler,
+    ExecutionLimits,
+    FunctionMetadata,
+    ParameterMetadata,
+    ModuleMetadata,
+    DecoratorTarget,
+    WrapDecoratorHandler
 } from '../index';
 import type {
     Statement,
@@ -50,12 +83,99 @@ import type {
     ScopeBlock,
     TogetherBlock,
     ForLoop,
+    WhileLoop,
+    RepeatUntilLoop,
+    TryBlock,
+    TestBlock,
+    DescribeBlock,
     OnBlock,
+    ImportStatement,
+    ModuleBlock,
     DecoratorCall,
     Expression,
     CodePosition
 } from '../types/Ast.type';
 import type { RobinPathThread } from './RobinPathThread';
+import type { Debugger } from './Debugger';
+
+/**
+ * Counters for the run currently enforcing ExecutionLimits
+ * (shared with spawned children and executors started by the trigger builtin)
+ */
+interface LimitState {
+    limits: ExecutionLimits;
+    steps: number;
+    startedAt: number;
+    timeoutSignal: AbortSignal | null; // Aborts when the run's timeout expires (interrupts sleeping or fetching builtins)
+}
+
+/**
+ * Results of the test blocks run so far (shared with spawned children and triggered handlers)
+ */
+interface TestState {
+    results: TestResult[];
+    path: string[]; // Names of the describe blocks currently executing
+    activeTests: number; // Number of test blocks currently executing
+    report: boolean; // Write a line per finished test to the output sink
+    snapshots: SnapshotStore | null; // Snapshots for test.assertSnapshot (set by runTests)
+}
+
+/**
+ * Profiler of the current run and the call and statement being timed
+ * (spawned children and triggered handlers get a copy that starts at the caller's position)
+ */
+interface ProfilingState {
+    profiler: Profiler;
+    file: string | null; // File of the script being run (def/on blocks registered with the profiler keep their own)
+    call: ProfileFrame | null; // Innermost def/on/builtin call being timed
+    line: ProfileFrame | null; // Innermost statement being timed
+}
+
+/**
+ * Tracer of the current run and the span its events happen in
+ * (spawned children and triggered handlers get a copy that starts in the caller's span)
+ */
+interface TracingState {
+    tracer: Tracer;
+    span: string | null; // Innermost statement/call/branch span
+}
+
+/**
+ * Module loader and cache for import statements, and the file being run
+ * (executors running an imported module get the module's file and import chain)
+ */
+interface ModuleState {
+    registry: ModuleRegistry;
+    file: string | null; // File of the code being run (imports resolve relative to it)
+    chain: string[]; // Files being imported, outermost first (an import of one of them is a cycle)
+}
+
+/**
+ * A span started by startTraceSpan
+ */
+interface TraceSpan {
+    spanId: string;
+    parentSpanId: string | null;
+    startTime: number;
+}
+
+// Last def/on frame recorded in each error's script call stack (see annotateError)
+const errorScriptFrames = new WeakMap<RobinPathError, Frame>();
+
+// Module each imported def/on block belongs to (it runs in that module's environment)
+const importedFrom = new WeakMap<DefineFunction | OnBlock, ImportedModule>();
+
+// Metadata of the modules defined by module blocks (a module block may replace them when it runs again)
+const scriptModules = new WeakSet<ModuleMetadata>();
+
+// Logging commands that leave the last value ($) untouched
+const LOG_COMMANDS = new Set(['log', 'warn', 'error', 'debug']);
+
+// Statements that only declare something (their bodies are timed as calls) or do nothing; not profiled or traced
+const UNTIMED_STATEMENTS = new Set<Statement['type']>(['comment', 'chunk_marker', 'define', 'onBlock', 'moduleBlock']);
+
+// Transport of runs without their own (the network)
+const networkTransport = new NetworkTransport();
 
 export class Executor {
     private environment: Environment;
@@ -64,6 +184,19 @@ export class Executor {
     private sourceCode: string | null = null; // Store source code for error messages
     private recursionDepth: Map<string, number> = new Map(); // Track recursion depth for each function
     private static readonly MAX_RECURSION_DEPTH = 60000; // Maximum recursion depth (60k as requested)
+    private debuggerInstance: Debugger | null = null; // Attached step-through debugger (if any)
+    private limitState: LimitState | null = null; // Execution limits of the current run (if any)
+    private baseCallDepth: number = 0; // Call depth of the executor that started this one (trigger)
+    private signal: AbortSignal | null = null; // Cancellation signal of the current run: the caller's signal and the run's timeout
+    private callerSignal: AbortSignal | null = null; // Signal passed by the caller of the run (setSignal)
+    private output: OutputSink = consoleOutput; // Where log/say/use/... output of the current run goes
+    private capabilities: Capabilities = new Capabilities(); // Clock, random source and allowed fetch hosts of the current run
+    private transport: FetchTransport = networkTransport; // Where fetch.* sends the requests of the current run
+    private testState: TestState = { results: [], path: [], activeTests: 0, report: true, snapshots: null }; // Results of test blocks
+    private coverage: CoverageCollector | null = null; // Records statement/branch hits of the current run (if any)
+    private profiling: ProfilingState | null = null; // Times calls and lines of the current run (if any)
+    private tracing: TracingState | null = null; // Reports trace events of the current run (if any)
+    private modules: ModuleState | null = null; // Loads the modules of import statements (null without a module loader)
 
     /**
      * Debug mode flag - set to true to enable logging
@@ -115,6 +248,201 @@ export class Executor {
         return this.callStack;
     }
 
+    /**
+     * Attach (or detach with null) a debugger that is consulted before every statement
+     */
+    setDebugger(debuggerInstance: Debugger | null): void {
+        this.debuggerInstance = debuggerInstance;
+    }
+
+    getDebugger(): Debugger | null {
+        return this.debuggerInstance;
+    }
+
+    /**
+     * Set the execution limits for the next run and reset the step counter and clock
+     */
+    setLimits(limits: ExecutionLimits | null): void {
+        const timeoutSignal = limits?.timeout !== undefined ? AbortSignal.timeout(limits.timeout) : null;
+        this.limitState = limits ? { limits, steps: 0, startedAt: Date.now(), timeoutSignal } : null;
+        this.baseCallDepth = 0;
+        this.updateSignal();
+    }
+
+    getLimits(): ExecutionLimits | null {
+        return this.limitState?.limits ?? null;
+    }
+
+    /**
+     * Set (or clear with null) the AbortSignal that cancels the current run.
+     * Checked before every statement and handed to builtins via their context
+     * (combined with the run's timeout, if any).
+     */
+    setSignal(signal: AbortSignal | null): void {
+        this.callerSignal = signal;
+        this.updateSignal();
+    }
+
+    /**
+     * The AbortSignal passed by the caller of the run (without the run's timeout)
+     */
+    getSignal(): AbortSignal | null {
+        return this.callerSignal;
+    }
+
+    private updateSignal(): void {
+        const timeoutSignal = this.limitState?.timeoutSignal ?? null;
+        if (timeoutSignal && this.callerSignal) {
+            this.signal = AbortSignal.any([this.callerSignal, timeoutSignal]);
+        } else {
+            this.signal = timeoutSignal ?? this.callerSignal;
+        }
+    }
+
+    /**
+     * Set the sink that receives this executor's output (console by default)
+     */
+    setOutput(output: OutputSink): void {
+        this.output = output;
+    }
+
+    getOutput(): OutputSink {
+        return this.output;
+    }
+
+    /**
+     * Apply a capability policy to the next run (null grants everything).
+     * Restarts the seeded random sequence, if any.
+     */
+    setCapabilities(policy: CapabilityPolicy | null): void {
+        this.capabilities = new Capabilities(policy);
+    }
+
+    getCapabilities(): Capabilities {
+        return this.capabilities;
+    }
+
+    /**
+     * Set the transport fetch.* uses in the next run (null: the network)
+     */
+    setTransport(transport: FetchTransport | null): void {
+        this.transport = transport ?? networkTransport;
+    }
+
+    setCoverage(coverage: CoverageCollector | null): void {
+        this.coverage = coverage;
+    }
+
+    getCoverage(): CoverageCollector | null {
+        return this.coverage;
+    }
+
+    /**
+     * Time the calls and lines of the next run with a profiler (null turns profiling off)
+     * @param file File name the script's lines are recorded under
+     */
+    setProfiler(profiler: Profiler | null, file: string | null = null): void {
+        this.profiling = profiler ? { profiler, file, call: null, line: null } : null;
+    }
+
+    getProfiler(): Profiler | null {
+        return this.profiling?.profiler ?? null;
+    }
+
+    /**
+     * Report the trace events of the next run to a tracer (null turns tracing off)
+     */
+    setTracer(tracer: Tracer | null): void {
+        this.tracing = tracer ? { tracer, span: null } : null;
+    }
+
+    getTracer(): Tracer | null {
+        return this.tracing?.tracer ?? null;
+    }
+
+    /**
+     * Load the modules of import statements from a registry (without a loader imports fail)
+     * @param file File name of the script (imports resolve relative to it)
+     */
+    setModules(registry: ModuleRegistry | null, file: string | null = null): void {
+        this.modules = registry?.getLoader() ? { registry, file, chain: file !== null ? [file] : [] } : null;
+    }
+
+    /**
+     * Report a trace event in the current span (no-op without a tracer)
+     */
+    emitTrace(event: TraceEventData): void {
+        this.tracing?.tracer.emit(event, this.tracing.span);
+    }
+
+    /**
+     * Results of the test blocks run so far
+     */
+    getTestResults(): TestResult[] {
+        return this.testState.results;
+    }
+
+    /**
+     * Turn off the per-test lines written to the output sink (the caller reports the results itself)
+     */
+    setReportTests(report: boolean): void {
+        this.testState.report = report;
+    }
+
+    setSnapshots(snapshots: SnapshotStore | null): void {
+        this.testState.snapshots = snapshots;
+    }
+
+    getSnapshots(): SnapshotStore | null {
+        return this.testState.snapshots;
+    }
+
+    /**
+     * True while a test block is executing (test.skip is only allowed then)
+     */
+    isRunningTest(): boolean {
+        return this.testState.activeTests > 0;
+    }
+
+    /**
+     * Write a message produced by RobinPath itself (not by a builtin) to the output sink
+     */
+    writeOutput(level: LogLevel, message: string, source: string): void {
+        this.output.write({ level, message, args: [], source, timestamp: Date.now() });
+    }
+
+    /**
+     * Continue the caller's run under its limits (same step counter, clock and call depth),
+     * signal, output, capabilities, transport, test results, coverage, profiler, tracer and module loader. Used for event handlers started from a script via the trigger builtin.
+     */
+    inheritLimits(caller: Executor): void {
+        this.limitState = caller.limitState;
+        this.baseCallDepth = caller.getCallDepth();
+        this.signal = caller.signal;
+        this.callerSignal = caller.callerSignal;
+        this.output = caller.output;
+        this.capabilities = caller.capabilities;
+        this.transport = caller.transport;
+        this.testState = caller.testState;
+        this.coverage = caller.coverage;
+        this.profiling = caller.profiling ? { ...caller.profiling } : null;
+        this.tracing = caller.tracing ? { ...caller.tracing } : null;
+        this.modules = caller.modules;
+    }
+
+    /**
+     * Number of nested def/on calls currently on the call stack
+     */
+    getCallDepth(): number {
+        let depth = this.baseCallDepth;
+        for (const frame of this.callStack) {
+            if (frame.isFunctionFrame) {
+                depth++;
+            }
+        }
+        return depth;
+    }
+
     /**
      * Creates a new Executor instance that shares the same environment and call stack,
      * but has its own call stack array to allow parallel execution without stack corruption.
@@ -124,19 +452,57 @@ export class Executor {
         const child = new Executor(this.environment, this.parentThread, this.sourceCode);
         // Copy the current call stack array (frames are shared by reference)
         child.callStack = [...this.callStack];
+        child.debuggerInstance = this.debuggerInstance;
+        child.limitState = this.limitState;
+        child.baseCallDepth = this.baseCallDepth;
+        child.signal = this.signal;
+        child.callerSignal = this.callerSignal;
+        child.output = this.output;
+        child.capabilities = this.capabilities;
+        child.transport = this.transport;
+        child.testState = this.testState;
+        child.coverage = this.coverage;
+        child.profiling = this.profiling ? { ...this.profiling } : null;
+        child.tracing = this.tracing ? { ...this.tracing } : null;
+        child.modules = this.modules;
         return child;
     }
 
+    /**
+     * Creates a new Executor for a run of its own started by this run (e.g. a request served
+     * by http.serve): same environment, debugger, signal, output, capabilities, transport and
+     * module loader, but fresh execution limits and call stack.
+     */
+    spawnRun(): Executor {
+        const executor = new Executor(this.environment, this.parentThread, this.sourceCode);
+        executor.debuggerInstance = this.debuggerInstance;
+        executor.setLimits(this.getLimits());
+        executor.setSignal(this.callerSignal);
+        executor.output = this.output;
+        executor.capabilities = this.capabilities;
+        executor.transport = this.transport;
+        executor.modules = this.modules;
+        return executor;
+    }
+
     /**
      * Execute an event handler with the provided arguments
      * Arguments are available as $1, $2, $3, etc. in the handler body
+     * @returns The handler's return value, or the last value of its body
      */
-    async executeEventHandler(handler: OnBlock, args: Value[]): Promise<void> {
+    async executeEventHandler(handler: OnBlock, args: Value[]): Promise<Value> {
+        // Handlers of imported modules run in their module
+        const module = importedFrom.get(handler);
+        if (module && module.environment !== this.environment) {
+            return this.createModuleExecutor(module).executeEventHandler(handler, args);
+        }
+
         // Create a new frame for the handler
         const frame: Frame = {
             locals: new Map(),
             lastValue: null,
-            isFunctionFrame: true
+            isFunctionFrame: true,
+            name: handler.eventName
         };
 
         // Set positional parameters ($1, $2, $3, ...)
@@ -145,16 +511,26 @@ export class Executor {
         }
 
         // Push frame to call stack
+        this.checkCallDepth(handler.eventName);
         this.callStack.push(frame);
+        this.coverage?.hitBranch(handler, 0);
+        const profileFrame = this.enterProfileCall('event', handler.eventName, this.profiling?.profiler.getFile(handler), handler.codePos);
 
         try {
             // Execute handler body
             for (const stmt of handler.body) {
                 await this.executeStatement(stmt);
             }
+            return frame.lastValue;
+        } catch (error) {
+            if (error instanceof ReturnException) {
+                return error.value;
+            }
+            throw error;
         } finally {
             // Clean up frame
             this.callStack.pop();
+            this.exitProfileCall(profileFrame);
         }
     }
 
@@ -174,7 +550,7 @@ export class Executor {
         // Check if function is forgotten in current scope
         if (frame.forgotten && frame.forgotten.has(funcName)) {
             // Function is forgotten in this scope - throw error (as if it doesn't exist)
-            throw new Error(`Unknown function: ${funcName}`);
+            throw new UnknownCommandError(funcName);
         }
 
         const evaluatedArgs = await Promise.all(args.map(arg => this.evaluateArg(arg, undefined, undefined)));
@@ -183,9 +559,7 @@ export class Executor {
         // Check if it's a builtin function
         const builtinHandler = this.environment.builtins.get(funcName);
         if (builtinHandler) {
-            const result = await Promise.resolve(async () => {
-                return await builtinHandler(evaluatedArgs)
-            });
+            const result = this.checkCollectionSize(await builtinHandler(evaluatedArgs, null, this.getBuiltinContext()));
             return result !== undefined ? result : null;
         }
 
@@ -195,7 +569,7 @@ export class Executor {
             return await this.callFunction(userFunc, evaluatedArgs);
         }
 
-        throw new Error(`Unknown function: ${funcName}`);
+        throw new UnknownCommandError(funcName);
     }
 
     async execute(statements: Statement[]): Promise<Value> {
@@ -211,7 +585,7 @@ export class Executor {
             }
             if (error instanceof BreakException) {
                 // Break statement used outside a loop - this is an error
-                throw new Error('break statement can only be used inside a for loop');
+                throw new RuntimeError('break statement can only be used inside a loop');
             }
             if (error instanceof EndException) {
                 // End statement was executed - stop execution and return current last value
@@ -222,6 +596,265 @@ export class Executor {
     }
 
     private async executeStatement(stmt: Statement, frameOverride?: Frame): Promise<void> {
+        // Cancelled runs stop before the next statement (rejects with signal.reason)
+        this.throwIfAborted();
+
+        const codePos = 'codePos' in stmt ? stmt.codePos ?? null : null;
+        const timed = codePos !== null && !UNTIMED_STATEMENTS.has(stmt.type);
+        const profileFrame = timed ? this.enterProfileLine(codePos) : null;
+        const traceSpan = timed ? this.startTraceSpan(parentSpanId => ({ type: 'statementStart', parentSpanId, statement: stmt.type, codePos })) : null;
+        let failed = false;
+        try {
+            if (this.limitState) {
+                this.checkStatementLimits(this.limitState, codePos);
+            }
+            this.coverage?.hitStatement(stmt);
+            await this.runStatement(stmt, frameOverride);
+        } catch (error) {
+            const annotated = this.annotateError(error, codePos);
+            if (annotated instanceof RobinPathError) {
+                failed = true;
+                this.traceError(annotated);
+            }
+            throw annotated;
+        } finally {
+            this.exitProfileLine(profileFrame);
+            if (traceSpan && codePos) {
+                const lastValue = this.getCurrentFrame(frameOverride).lastValue;
+                this.endTraceSpan(traceSpan, duration => ({ type: 'statementEnd', statement: stmt.type, codePos, lastValue, duration, failed }));
+            }
+        }
+    }
+
+    /**
+     * Start a span on the tracer (if any); events are reported in it until endTraceSpan
+     * @param startEvent Event that opens the span (given the enclosing span)
+     */
+    private startTraceSpan(startEvent?: (parentSpanId: string | null) => TraceEventData): TraceSpan | null {
+        const tracing = this.tracing;
+        if (!tracing) {
+            return null;
+        }
+        const span: TraceSpan = { spanId: tracing.tracer.startSpan(), parentSpanId: tracing.span, startTime: tracing.tracer.now() };
+        tracing.span = span.spanId;
+        if (startEvent) {
+            tracing.tracer.emit(startEvent(span.parentSpanId), span.spanId);
+        }
+        return span;
+    }
+
+    /**
+     * Close a span with the event that ends it (given the span's duration in milliseconds)
+     */
+    private endTraceSpan(span: TraceSpan, endEvent: (duration: number) => TraceEventData): void {
+        const tracing = this.tracing;
+        if (!tracing) {
+            return;
+        }
+        tracing.span = span.parentSpanId;
+        tracing.tracer.emit(endEvent(tracing.tracer.now() - span.startTime), span.spanId);
+    }
+
+    /**
+     * Run a builtin or def call, reporting it as a commandCall trace event when it ends
+     */
+    private async traceCommand(kind: 'builtin' | 'function', name: string, args: Value[], run: () => Promise<Value>): Promise<Value> {
+        const span = this.startTraceSpan();
+        if (!span) {
+            return run();
+        }
+        let result: Value = null;
+        let failed = true;
+        try {
+            result = await run();
+            failed = false;
+            return result;
+        } finally {
+            this.endTraceSpan(span, duration => ({
+                type: 'commandCall', parentSpanId: span.parentSpanId, kind, name, args,
+                result: result === undefined ? null : result, startTime: span.startTime, duration, failed
+            }));
+        }
+    }
+
+    /**
+     * Report an error once, in the span of the statement it escaped from first
+     */
+    private traceError(error: RobinPathError): void {
+        if (this.tracing?.tracer.isNewError(error)) {
+            this.emitTrace({ type: 'error', name: error.name, message: error.message, code: error.code, codePos: error.codePos });
+        }
+    }
+
+    /**
+     * Start timing a statement on the profiler (if any)
+     */
+    private enterProfileLine(codePos: CodePosition): ProfileFrame | null {
+        const profiling = this.profiling;
+        if (!profiling) {
+            return null;
+        }
+        profiling.line = profiling.profiler.enterLine(profiling.line, profiling.call?.file ?? profiling.file, codePos.startRow + 1);
+        return profiling.line;
+    }
+
+    private exitProfileLine(frame: ProfileFrame | null): void {
+        if (frame && this.profiling) {
+            this.profiling.profiler.exit(frame);
+            this.profiling.line = frame.parent;
+        }
+    }
+
+    /**
+     * Start timing a def/on/builtin call on the profiler (if any)
+     * @param file File of the def/on block (undefined: the caller's file)
+     */
+    private enterProfileCall(kind: ProfileKind, name: string, file: string | null | undefined, codePos: CodePosition | null): ProfileFrame | null {
+        const profiling = this.profiling;
+        if (!profiling) {
+            return null;
+        }
+        const callFile = file === undefined ? profiling.call?.file ?? profiling.file : file;
+        profiling.call = profiling.profiler.enterCall(profiling.call, kind, name, callFile, codePos ? codePos.startRow + 1 : null);
+        return profiling.call;
+    }
+
+    private exitProfileCall(frame: ProfileFrame | null): void {
+        if (frame && this.profiling) {
+            this.profiling.profiler.exit(frame);
+            this.profiling.call = frame.parent;
+        }
+    }
+
+    /**
+     * Turn an error escaping a statement into a RobinPathError carrying the innermost
+     * statement's codePos, and extend its script call stack while it unwinds.
+     * Control-flow exceptions and the abort reason of a cancelled run pass through unchanged.
+     */
+    private annotateError(error: unknown, codePos: CodePosition | null): unknown {
+        if (error instanceof ReturnException || error instanceof BreakException ||
+            error instanceof ContinueException || error instanceof EndException ||
+            error instanceof SkipException) {
+            return error;
+        }
+        // Builtins interrupted by the run's timeout reject with the timeout signal's reason
+        const timeoutSignal = this.limitState?.timeoutSignal;
+        if (timeoutSignal?.aborted && error === timeoutSignal.reason) {
+            error = this.timeoutError(codePos);
+        }
+        if (this.signal?.aborted && error === this.signal.reason) {
+            return error;
+        }
+
+        const robinError = error instanceof RobinPathError
+            ? error
+            : new RuntimeError(error instanceof Error ? error.message : String(error), { cause: error });
+        if (!robinError.codePos) {
+            robinError.codePos = codePos;
+        }
+
+        // One stack entry per def/on frame: record the statement each frame was executing
+        let scriptFrame = this.callStack[0];
+        for (let i = this.callStack.length - 1; i > 0; i--) {
+            if (this.callStack[i].name !== undefined) {
+                scriptFrame = this.callStack[i];
+                break;
+            }
+        }
+        if (errorScriptFrames.get(robinError) !== scriptFrame) {
+            errorScriptFrames.set(robinError, scriptFrame);
+            robinError.scriptStack.push({ name: scriptFrame.name ?? '<global>', codePos });
+        }
+        return robinError;
+    }
+
+    private async runStatement(stmt: Statement, frameOverride?: Frame): Promise<void> {
+        if (!this.debuggerInstance) {
+            await this.dispatchStatement(stmt, frameOverride);
+            return;
+        }
+
+        // Debugger attached: give it a chance to pause before the statement runs
+        const debuggerInstance = this.debuggerInstance;
+        await debuggerInstance.beforeStatement(stmt, this, frameOverride);
+        try {
+            await this.dispatchStatement(stmt, frameOverride);
+        } finally {
+            debuggerInstance.afterStatement(stmt, this);
+        }
+    }
+
+    /**
+     * Throw the abort reason of a cancelled run, or an ExecutionLimitError once its timeout expired
+     */
+    private throwIfAborted(codePos: CodePosition | null = null): void {
+        if (this.limitState?.timeoutSignal?.aborted) {
+            throw this.timeoutError(codePos);
+        }
+        this.signal?.throwIfAborted();
+    }
+
+    private timeoutError(codePos: CodePosition | null): ExecutionLimitError {
+        const timeout = this.limitState!.limits.timeout!;
+        return new ExecutionLimitError('timeout', timeout, `Execution timed out after ${timeout}ms`, codePos);
+    }
+
+    /**
+     * Count a statement against maxSteps and check the run's timeout
+     */
+    private checkStatementLimits(state: LimitState, codePos: CodePosition | null): void {
+        const { maxSteps, timeout } = state.limits;
+        state.steps++;
+        if (maxSteps !== undefined && state.steps > maxSteps) {
+            throw new ExecutionLimitError('maxSteps', maxSteps, `Execution exceeded the maximum of ${maxSteps} steps`, codePos);
+        }
+        if (timeout !== undefined && Date.now() - state.startedAt > timeout) {
+            throw this.timeoutError(codePos);
+        }
+    }
+
+    private checkCallDepth(name: string): void {
+        const maxCallDepth = this.limitState?.limits.maxCallDepth;
+        if (maxCallDepth !== undefined && this.getCallDepth() >= maxCallDepth) {
+            throw new ExecutionLimitError('maxCallDepth', maxCallDepth, `Maximum call depth of ${maxCallDepth} exceeded when calling "${name}"`);
+        }
+    }
+
+    /**
+     * Throw if an array or object exceeds maxCollectionSize; returns the value unchanged otherwise
+     */
+    private checkCollectionSize<T extends Value>(value: T, codePos?: CodePosition | null): T {
+        const maxCollectionSize = this.limitState?.limits.maxCollectionSize;
+        if (maxCollectionSize === undefined || value === null || typeof value !== 'object') {
+            return value;
+        }
+        const size = Array.isArray(value) ? value.length : Object.keys(value).length;
+        if (size > maxCollectionSize) {
+            throw new ExecutionLimitError(
+                'maxCollectionSize',
+                maxCollectionSize,
+                `Collection size ${size} exceeds the maximum of ${maxCollectionSize}`,
+                codePos ?? null
+            );
+        }
+        return value;
+    }
+
+    /**
+     * Context handed to builtin handlers
+     */
+    private getBuiltinContext(): BuiltinContext {
+        return {
+            limits: this.getLimits(),
+            executor: this,
+            signal: this.signal,
+            output: this.output,
+            capabilities: this.capabilities,
+            transport: this.transport
+        };
+    }
+
+    private async dispatchStatement(stmt: Statement, frameOverride?: Frame): Promise<void> {
         switch (stmt.type) {
             case 'command':
                 await this.executeCommand(stmt, frameOverride);
@@ -256,6 +889,21 @@ export class Executor {
             case 'forLoop':
                 await this.executeForLoop(stmt, frameOverride);
                 break;
+            case 'whileLoop':
+                await this.executeWhileLoop(stmt, frameOverride);
+                break;
+            case 'repeatUntil':
+                await this.executeRepeatUntil(stmt, frameOverride);
+                break;
+            case 'tryBlock':
+                await this.executeTryBlock(stmt, frameOverride);
+                break;
+            case 'testBlock':
+                await this.executeTestBlock(stmt, frameOverride);
+                break;
+            case 'describeBlock':
+                await this.executeDescribeBlock(stmt, frameOverride);
+                break;
             case 'return':
                 await this.executeReturn(stmt, frameOverride);
                 break;
@@ -268,6 +916,12 @@ export class Executor {
             case 'onBlock':
                 this.registerEventHandler(stmt);
                 break;
+            case 'import':
+                await this.executeImport(stmt);
+                break;
+            case 'moduleBlock':
+                await this.registerModuleBlock(stmt);
+                break;
             case 'comment':
                 // Comments are no-ops during execution
                 break;
@@ -425,7 +1079,7 @@ export class Executor {
 Examples:
   use math                 - Use math module (then "add 5 5" instead of "math.add 5 5")
   use clear                - Clear module context`;
-                console.log(result);
+                this.writeOutput('log', result, cmd.name);
                 frame.lastValue = result;
                 return;
             }
@@ -436,7 +1090,7 @@ Examples:
             if (moduleName === 'clear' || moduleName === '' || moduleName === null) {
                 this.environment.currentModule = null;
                 const result = 'Cleared module context';
-                console.log(result);
+                this.writeOutput('log', result, cmd.name);
                 frame.lastValue = result;
                 return;
             }
@@ -461,16 +1115,13 @@ Examples:
             }
 
             if (!hasMetadata && !hasFunctions) {
-                const errorMsg = `Error: Module "${name}" not found`;
-                console.log(errorMsg);
-                frame.lastValue = errorMsg;
-                return;
+                throw new UnknownModuleError(name);
             }
 
             // Set the current module context in this executor's environment
             this.environment.currentModule = name;
             const result = `Using module: ${name}`;
-            console.log(result);
+            this.writeOutput('log', result, cmd.name);
             frame.lastValue = result;
             return;
         }
@@ -482,27 +1133,44 @@ Examples:
                 const result = `Explain Command:
   explain <moduleName>     - Show module documentation and available methods
   explain <module.function> - Show function documentation with parameters and return type
+  explain "@<decorator>"   - Show decorator documentation
   
 Examples:
   explain math             - Show math module documentation
   explain math.add         - Show add function documentation
   explain add              - Show add function (if "use math" is active)`;
-                console.log(result);
+                this.writeOutput('log', result, cmd.name);
                 frame.lastValue = result;
                 return;
             }
 
             const nameArg = args[0];
             if (!nameArg) {
-                const errorMsg = 'Error: explain requires a module or function name';
-                console.log(errorMsg);
-                frame.lastValue = errorMsg;
-                return;
+                throw new ArgumentError('explain requires a module or function name');
             }
 
             // Convert to string (handles both quoted strings and unquoted literals)
             let name = String(nameArg);
 
+            // Decorators are documented by their name with the @ (explain "@retry")
+            if (name.startsWith('@')) {
+                const decoratorMetadata = this.environment.decoratorMetadata.get(name.slice(1));
+                if (!decoratorMetadata) {
+                    throw new UnknownCommandError(name, `No documentation available for decorator: ${name}`);
+                }
+
+                frame.lastValue = {
+                    type: 'decorator',
+                    name: name,
+                    description: decoratorMetadata.description,
+                    parameters: decoratorMetadata.parameters || [],
+                    returnType: decoratorMetadata.returnType,
+                    returnDescription: decoratorMetadata.returnDescription,
+                    example: decoratorMetadata.example || null
+                };
+                return;
+            }
+
             // If name doesn't have a dot and currentModule is set, check if it's the module name itself
             // If it matches the current module, treat it as a module name (don't prepend)
             // Otherwise, prepend the current module to make it a function call
@@ -522,9 +1190,7 @@ Examples:
                 // It's a module.function - return function metadata as JSON
                 const functionMetadata = this.environment.metadata.get(name);
                 if (!functionMetadata) {
-                    const error = { error: `No documentation available for function: ${name}` };
-                    frame.lastValue = error;
-                    return;
+                    throw new UnknownCommandError(name, `No documentation available for function: ${name}`);
                 }
 
                 // Return structured JSON object
@@ -544,9 +1210,7 @@ Examples:
                 // It's a module name - return module metadata as JSON
                 const moduleMetadata = this.environment.moduleMetadata.get(name);
                 if (!moduleMetadata) {
-                    const error = { error: `No documentation available for module: ${name}` };
-                    frame.lastValue = error;
-                    return;
+                    throw new UnknownModuleError(name, `No documentation available for module: ${name}`);
                 }
 
                 // Return structured JSON object
@@ -567,18 +1231,12 @@ Examples:
             const parent = this.parentThread?.getParent();
 
             if (!parent) {
-                const errorMsg = 'Error: thread command must be executed in a thread context';
-                console.log(errorMsg);
-                frame.lastValue = errorMsg;
-                return;
+                throw new RuntimeError('thread command must be executed in a thread context');
             }
 
             // Check if thread control is enabled
             if (!parent.isThreadControlEnabled()) {
-                const errorMsg = 'Error: Thread control is disabled. Set threadControl: true in constructor to enable.';
-                console.log(errorMsg);
-                frame.lastValue = errorMsg;
-                return;
+                throw new RuntimeError('Thread control is disabled. Set threadControl: true in constructor to enable.');
             }
 
             // Show help if no arguments
@@ -588,7 +1246,7 @@ Examples:
   thread use <id>          - Switch to a thread
   thread create <id>       - Create a new thread with ID
   thread close [id]        - Close current thread or thread by ID`;
-                console.log(result);
+                this.writeOutput('log', result, cmd.name);
                 frame.lastValue = result;
                 return;
             }
@@ -602,38 +1260,26 @@ Examples:
                     const marker = thread.isCurrent ? ' (current)' : '';
                     result += `  - ${thread.id}${marker}\n`;
                 }
-                console.log(result);
+                this.writeOutput('log', result, cmd.name);
                 frame.lastValue = result;
                 return;
             }
 
             if (subcommand === 'use' && args.length > 1) {
                 const threadId = String(args[1]);
-                try {
-                    parent.useThread(threadId);
-                    const result = `Switched to thread: ${threadId}`;
-                    console.log(result);
-                    frame.lastValue = result;
-                } catch (error) {
-                    const errorMsg = error instanceof Error ? error.message : String(error);
-                    console.log(errorMsg);
-                    frame.lastValue = errorMsg;
-                }
+                parent.useThread(threadId);
+                const result = `Switched to thread: ${threadId}`;
+                this.writeOutput('log', result, cmd.name);
+                frame.lastValue = result;
                 return;
             }
 
             if (subcommand === 'create' && args.length > 1) {
                 const threadId = String(args[1]);
-                try {
-                    parent.createThread(threadId);
-                    const result = `Created thread: ${threadId}`;
-                    console.log(result);
-                    frame.lastValue = result;
-                } catch (error) {
-                    const errorMsg = error instanceof Error ? error.message : String(error);
-                    console.log(errorMsg);
-                    frame.lastValue = errorMsg;
-                }
+                parent.createThread(threadId);
+                const result = `Created thread: ${threadId}`;
+                this.writeOutput('log', result, cmd.name);
+                frame.lastValue = result;
                 return;
             }
 
@@ -641,38 +1287,27 @@ Examples:
                 if (args.length > 1) {
                     // Close specific thread by ID
                     const threadId = String(args[1]);
-                    try {
-                        parent.closeThread(threadId);
-                        const result = `Closed thread: ${threadId}`;
-                        console.log(result);
-                        frame.lastValue = result;
-                    } catch (error) {
-                        const errorMsg = error instanceof Error ? error.message : String(error);
-                        console.log(errorMsg);
-                        frame.lastValue = errorMsg;
-                    }
+                    parent.closeThread(threadId);
+                    const result = `Closed thread: ${threadId}`;
+                    this.writeOutput('log', result, cmd.name);
+                    frame.lastValue = result;
                 } else {
                     // Close current thread
                     const currentThread = parent.getCurrentThread();
                     if (!currentThread) {
-                        const errorMsg = 'Error: No current thread to close';
-                        console.log(errorMsg);
-                        frame.lastValue = errorMsg;
+                        throw new RuntimeError('No current thread to close');
                     } else {
                         const threadId = currentThread.id;
                         parent.closeThread(threadId);
                         const result = `Closed current thread: ${threadId}`;
-                        console.log(result);
+                        this.writeOutput('log', result, cmd.name);
                         frame.lastValue = result;
                     }
                 }
                 return;
             }
 
-            const errorMsg = 'Error: thread command usage: thread list|use <id>|create <id>|close [id]';
-            console.log(errorMsg);
-            frame.lastValue = errorMsg;
-            return;
+            throw new ArgumentError('thread command usage: thread list|use <id>|create <id>|close [id]');
         }
 
         // Special handling for "module" command
@@ -683,7 +1318,7 @@ Examples:
             if (args.length === 0) {
                 const result = `Module Commands:
   module list              - List all available modules`;
-                console.log(result);
+                this.writeOutput('log', result, cmd.name);
                 frame.lastValue = result;
                 return;
             }
@@ -714,27 +1349,24 @@ Examples:
                         }
                     }
                 }
-                console.log(result);
+                this.writeOutput('log', result, cmd.name);
                 frame.lastValue = result;
                 return;
             }
 
-            const errorMsg = 'Error: module command usage: module list';
-            console.log(errorMsg);
-            frame.lastValue = errorMsg;
-            return;
+            throw new ArgumentError('module command usage: module list');
         }
 
         // Special handling for "set" command - assigns a value to a variable
         if (cmd.name === 'set') {
             if (cmd.args.length < 2) {
-                throw new Error('set requires at least 2 arguments: variable name and value (optional fallback as 3rd arg)');
+                throw new ArgumentError('set requires at least 2 arguments: variable name and value (optional fallback as 3rd arg)');
             }
 
             // Get variable name from first arg (must be a variable reference)
             const varArg = cmd.args[0];
             if (varArg.type !== 'var') {
-                throw new Error('set first argument must be a variable (e.g., $myVar)');
+                throw new ArgumentError('set first argument must be a variable (e.g., $myVar)');
             }
             const varName = varArg.name;
             const varPath = varArg.path; // Support attribute paths (e.g., $user.city)
@@ -775,7 +1407,7 @@ Examples:
         // Special handling for "var" command - declares a variable with optional default value
         if (cmd.name === 'var') {
             if (cmd.args.length < 1) {
-                throw new Error('var requires at least 1 argument: variable name (optional default value as 2nd arg)');
+                throw new ArgumentError('var requires at least 1 argument: variable name (optional default value as 2nd arg)');
             }
 
             // Preserve the last value - var should not affect $
@@ -784,14 +1416,14 @@ Examples:
             // Get variable name from first arg (must be a variable reference)
             const varArg = cmd.args[0];
             if (varArg.type !== 'var') {
-                throw new Error('var first argument must be a variable (e.g., $myVar)');
+                throw new ArgumentError('var first argument must be a variable (e.g., $myVar)');
             }
             const varName = varArg.name;
             const varPath = varArg.path;
 
             // If path is provided, throw error (var only supports simple variable names)
             if (varPath && varPath.length > 0) {
-                throw new Error('var command does not support attribute paths (e.g., $user.name). Use simple variable names only.');
+                throw new ArgumentError('var command does not support attribute paths (e.g., $user.name). Use simple variable names only.');
             }
 
             // Check if variable already exists
@@ -821,7 +1453,7 @@ Examples:
         // Special handling for "const" command - declares a constant with required value
         if (cmd.name === 'const') {
             if (cmd.args.length < 2) {
-                throw new Error('const requires 2 arguments: constant name and value');
+                throw new ArgumentError('const requires 2 arguments: constant name and value');
             }
 
             // Preserve the last value - const should not affect $
@@ -830,19 +1462,19 @@ Examples:
             // Get constant name from first arg (must be a variable reference)
             const varArg = cmd.args[0];
             if (varArg.type !== 'var') {
-                throw new Error('const first argument must be a variable (e.g., $MY_CONST)');
+                throw new ArgumentError('const first argument must be a variable (e.g., $MY_CONST)');
             }
             const constName = varArg.name;
             const varPath = varArg.path;
 
             // If path is provided, throw error (const only supports simple variable names)
             if (varPath && varPath.length > 0) {
-                throw new Error('const command does not support attribute paths (e.g., $user.name). Use simple variable names only.');
+                throw new ArgumentError('const command does not support attribute paths (e.g., $user.name). Use simple variable names only.');
             }
 
             // Check if constant already exists
             if (this.environment.constants.has(constName)) {
-                throw new Error(`Constant $${constName} is already declared`);
+                throw new RuntimeError(`Constant $${constName} is already declared`, { code: ErrorCode.CONSTANT_REASSIGNMENT });
             }
 
             // Check if variable with same name exists
@@ -870,7 +1502,7 @@ Examples:
         // Special handling for "empty" command - clears/empties a variable
         if (cmd.name === 'empty') {
             if (cmd.args.length < 1) {
-                throw new Error('empty requires 1 argument: variable name');
+                throw new ArgumentError('empty requires 1 argument: variable name');
             }
 
             // Preserve the last value - empty should not affect $
@@ -879,7 +1511,7 @@ Examples:
             // Get variable name from first arg (must be a variable reference)
             const varArg = cmd.args[0];
             if (varArg.type !== 'var') {
-                throw new Error('empty first argument must be a variable (e.g., $myVar)');
+                throw new ArgumentError('empty first argument must be a variable (e.g., $myVar)');
             }
             const varName = varArg.name;
             const varPath = varArg.path; // Support attribute paths (e.g., $user.city)
@@ -887,7 +1519,7 @@ Examples:
             // Check if this is a constant - constants cannot be emptied
             if (!varPath || varPath.length === 0) {
                 if (this.environment.constants.has(varName)) {
-                    throw new Error(`Cannot empty constant $${varName}. Constants are immutable.`);
+                    throw new RuntimeError(`Cannot empty constant $${varName}. Constants are immutable.`, { code: ErrorCode.CONSTANT_REASSIGNMENT });
                 }
             }
 
@@ -912,7 +1544,7 @@ Examples:
         // Special handling for "meta" and "setMeta" commands - stores metadata for functions or variables
         if (cmd.name === 'meta' || cmd.name === 'setMeta') {
             if (cmd.args.length < 3) {
-                throw new Error(`${cmd.name} requires 3 arguments: target (fn/variable), meta key, and value`);
+                throw new ArgumentError(`${cmd.name} requires 3 arguments: target (fn/variable), meta key, and value`);
             }
 
             // Extract original input from cmd.args (before evaluation)
@@ -920,7 +1552,7 @@ Examples:
             const targetArg = cmd.args[0];
             const targetOriginal = this.reconstructOriginalInput(targetArg);
             if (targetOriginal === null) {
-                throw new Error(`${cmd.name} target must be a variable or string literal`);
+                throw new ArgumentError(`${cmd.name} target must be a variable or string literal`);
             }
             const target: string = targetOriginal;
 
@@ -960,7 +1592,7 @@ Examples:
         // Special handling for "getMeta" command - retrieves metadata for functions or variables
         if (cmd.name === 'getMeta') {
             if (cmd.args.length < 1) {
-                throw new Error('getMeta requires at least 1 argument: target (fn/variable)');
+                throw new ArgumentError('getMeta requires at least 1 argument: target (fn/variable)');
             }
 
             // Extract original input from cmd.args (before evaluation)
@@ -968,7 +1600,7 @@ Examples:
             const targetArg = cmd.args[0];
             const targetOriginal = this.reconstructOriginalInput(targetArg);
             if (targetOriginal === null) {
-                throw new Error('getMeta target must be a variable or string literal');
+                throw new ArgumentError('getMeta target must be a variable or string literal');
             }
             const target: string = targetOriginal;
 
@@ -1031,13 +1663,13 @@ Examples:
         // Special handling for "getType" command - returns the type of a variable
         if (cmd.name === 'getType') {
             if (cmd.args.length < 1) {
-                throw new Error('getType requires 1 argument: variable name');
+                throw new ArgumentError('getType requires 1 argument: variable name');
             }
 
             // Get variable name from first arg (must be a variable reference)
             const varArg = cmd.args[0];
             if (varArg.type !== 'var') {
-                throw new Error('getType first argument must be a variable (e.g., $myVar)');
+                throw new ArgumentError('getType first argument must be a variable (e.g., $myVar)');
             }
 
             // Evaluate the variable to get its value
@@ -1070,7 +1702,7 @@ Examples:
         // Special handling for "has" command - checks if variable or function exists
         if (cmd.name === 'has') {
             if (cmd.args.length < 1) {
-                throw new Error('has requires at least 1 argument: variable/function name');
+                throw new ArgumentError('has requires at least 1 argument: variable/function name');
             }
 
             // Extract original input from cmd.args (before evaluation)
@@ -1088,13 +1720,13 @@ Examples:
                 else if (nameArg.type === 'literal' && typeof nameArg.value === 'string') {
                     name = nameArg.value;
                 } else {
-                    throw new Error('has target must be a variable, function name, or string literal');
+                    throw new ArgumentError('has target must be a variable, function name, or string literal');
                 }
             }
 
             // Ensure we have a valid name at this point
             if (name === null) {
-                throw new Error('has target must be a variable, function name, or string literal');
+                throw new ArgumentError('has target must be a variable, function name, or string literal');
             }
 
             // Check if it's a variable (starts with $)
@@ -1159,7 +1791,7 @@ Examples:
         // Special handling for "forget" command - ignores a variable or function in current scope only
         if (cmd.name === 'forget') {
             if (cmd.args.length < 1) {
-                throw new Error('forget requires 1 argument: variable or function name');
+                throw new ArgumentError('forget requires 1 argument: variable or function name');
             }
 
             // Get the name from the first argument (must be a variable or string literal)
@@ -1173,7 +1805,7 @@ Examples:
                 // String literal or literal: function name
                 name = String(await this.evaluateArg(nameArg, frameOverride));
             } else {
-                throw new Error('forget argument must be a variable (e.g., $var) or function name (string)');
+                throw new ArgumentError('forget argument must be a variable (e.g., $var) or function name (string)');
             }
 
             // Initialize forgotten set if it doesn't exist
@@ -1191,13 +1823,13 @@ Examples:
         // Special handling for "fallback" command - returns variable value or fallback if empty/null
         if (cmd.name === 'fallback') {
             if (cmd.args.length < 1) {
-                throw new Error('fallback requires at least 1 argument: variable name (optional fallback as 2nd arg)');
+                throw new ArgumentError('fallback requires at least 1 argument: variable name (optional fallback as 2nd arg)');
             }
 
             // Get variable name from first arg (must be a variable reference)
             const varArg = cmd.args[0];
             if (varArg.type !== 'var') {
-                throw new Error('fallback first argument must be a variable (e.g., $myVar)');
+                throw new ArgumentError('fallback first argument must be a variable (e.g., $myVar)');
             }
 
             // Evaluate the variable to get its value
@@ -1245,7 +1877,7 @@ Examples:
         if (frame.forgotten) {
             if (frame.forgotten.has(cmd.name) || (functionName !== cmd.name && frame.forgotten.has(functionName))) {
                 // Function is forgotten in this scope - throw error (as if it doesn't exist)
-                throw new Error(`Unknown function: ${cmd.name}`);
+                throw new UnknownCommandError(cmd.name);
             }
         }
 
@@ -1253,7 +1885,7 @@ Examples:
         const userFunc = this.environment.functions.get(cmd.name);
         if (userFunc) {
             const previousLastValue = frame.lastValue; // Preserve last value for into handling
-            const result = await this.callFunction(userFunc, args);
+            const result = await this.traceCommand('function', cmd.name, args, () => this.callFunction(userFunc, args));
 
             // Handle "into" assignment if present - use the actual result value
             if (cmd.into) {
@@ -1298,8 +1930,10 @@ Examples:
         // Check if it's a builtin (try module-prefixed name first, then original)
         // Optimize: Use get() instead of has() + get() to reduce lookups
         let handler = this.environment.builtins.get(functionName);
+        let builtinName = functionName;
         if (!handler && functionName !== cmd.name) {
             handler = this.environment.builtins.get(cmd.name);
+            builtinName = cmd.name;
         }
 
         if (handler) {
@@ -1388,11 +2022,18 @@ Examples:
                 };
             }
 
-            const result = await Promise.resolve(handler(args, callback));
-            // log and assertion functions (assert*) should not affect the last value
+            const profileFrame = this.enterProfileCall('builtin', builtinName, null, null);
+            let result: Value;
+            try {
+                result = this.checkCollectionSize(await this.traceCommand('builtin', builtinName, args,
+                    async () => await handler(args, callback, this.getBuiltinContext())));
+            } finally {
+                this.exitProfileCall(profileFrame);
+            }
+            // log (and warn/error/debug) and assertion functions (assert*) should not affect the last value
             // Helper functions like isEqual, isBigger should set lastValue normally
             // time.sleep should not affect the last value
-            const isLog = functionName === 'log' || cmd.name === 'log';
+            const isLog = LOG_COMMANDS.has(functionName) || LOG_COMMANDS.has(cmd.name);
             const isAssertion = (functionName.startsWith('test.assert') || cmd.name.startsWith('test.assert')) ||
                 (functionName === 'assert' || cmd.name === 'assert');
             const isSleep = functionName === 'time.sleep' || cmd.name === 'time.sleep' ||
@@ -1423,7 +2064,7 @@ Examples:
             return;
         }
 
-        throw new Error(`Unknown function: ${cmd.name}`);
+        throw new UnknownCommandError(cmd.name);
     }
 
     /**
@@ -1444,6 +2085,14 @@ Examples:
                 continue;
             }
 
+            // Wrap decorators run around def calls and do/together blocks (see runDecorated)
+            if (this.environment.wrapDecorators.has(decorator.name)) {
+                if (!func) {
+                    throw new ArgumentError(`@${decorator.name} can only be used on def, do and together blocks`);
+                }
+                continue;
+            }
+
             // Evaluate decorator arguments
             const decoratorArgs: Value[] = [];
             for (const arg of decorator.args) {
@@ -1486,12 +2135,21 @@ Examples:
     }
 
     private async callFunction(func: DefineFunction, args: Value[]): Promise<Value> {
+        // Defs of imported modules run in their module (where its other defs and constants are)
+        const module = importedFrom.get(func);
+        if (module && module.environment !== this.environment) {
+            return this.createModuleExecutor(module).callFunction(func, args);
+        }
+
         // Check recursion depth
         const currentDepth = this.recursionDepth.get(func.name) || 0;
         if (currentDepth >= Executor.MAX_RECURSION_DEPTH) {
             throw new Error(`Maximum recursion depth (${Executor.MAX_RECURSION_DEPTH}) exceeded for function "${func.name}". This usually indicates infinite recursion.`);
         }
         
+        this.checkCallDepth(func.name);
+        this.coverage?.hitFunction(func);
+
         // Increment recursion depth for this function
         this.recursionDepth.set(func.name, currentDepth + 1);
         
@@ -1502,11 +2160,78 @@ Examples:
             modifiedArgs = await this.executeDecorators(func.decorators, func.name, func, args);
         }
 
+        try {
+            return await this.runDecorated(func.decorators, { kind: 'def', name: func.name, args: modifiedArgs, node: func },
+                executor => executor.invokeFunction(func, modifiedArgs));
+        } finally {
+            // Decrement recursion depth for this function
+            const currentDepth = this.recursionDepth.get(func.name) || 0;
+            if (currentDepth > 1) {
+                this.recursionDepth.set(func.name, currentDepth - 1);
+            } else {
+                // Remove from map when depth reaches 0
+                this.recursionDepth.delete(func.name);
+            }
+        }
+    }
+
+    /**
+     * Run a def, do block or together block through its wrap decorators (@retry, @timeout, ...),
+     * the first decorator outermost. body runs the target on the executor it is given: this one,
+     * or a child executor when a decorator runs the target under its own signal.
+     */
+    private async runDecorated(
+        decorators: DecoratorCall[] | undefined,
+        target: Omit<DecoratorTarget, 'context'>,
+        body: (executor: Executor) => Promise<Value>,
+        frameOverride?: Frame
+    ): Promise<Value> {
+        const wrappers: { handler: WrapDecoratorHandler; args: Value[] }[] = [];
+        for (const decorator of decorators ?? []) {
+            const handler = this.environment.wrapDecorators.get(decorator.name);
+            if (!handler || this.environment.parseDecorators.has(decorator.name)) {
+                continue;
+            }
+            const decoratorArgs: Value[] = [];
+            for (const arg of decorator.args) {
+                decoratorArgs.push(await this.evaluateArg(arg, frameOverride));
+            }
+            wrappers.push({ handler, args: decoratorArgs });
+        }
+        if (wrappers.length === 0) {
+            return body(this);
+        }
+
+        let run = (signal?: AbortSignal): Promise<Value> => {
+            if (!signal || signal === this.signal) {
+                return body(this);
+            }
+            // Statements of the target check the decorator's signal instead of the run's
+            const child = this.spawnChild();
+            child.signal = signal;
+            return body(child);
+        };
+        for (let i = wrappers.length - 1; i >= 0; i--) {
+            const { handler, args } = wrappers[i];
+            const inner = run;
+            run = (signal?: AbortSignal) => {
+                const context = { ...this.getBuiltinContext(), signal: signal ?? this.signal };
+                return handler(innerSignal => inner(innerSignal ?? signal), args, { ...target, context });
+            };
+        }
+        return run();
+    }
+
+    /**
+     * Execute the body of a def in a new frame bound to the call's arguments
+     */
+    private async invokeFunction(func: DefineFunction, modifiedArgs: Value[]): Promise<Value> {
         // Create new frame
         const frame: Frame = {
             locals: new Map(),
             lastValue: null,
-            isFunctionFrame: true
+            isFunctionFrame: true,
+            name: func.name
         };
 
         // Separate positional args and named args
@@ -1584,6 +2309,7 @@ Examples:
         }
 
         this.callStack.push(frame);
+        const profileFrame = this.enterProfileCall('function', func.name, this.profiling?.profiler.getFile(func), func.codePos);
 
         try {
             // Execute function body
@@ -1600,21 +2326,14 @@ Examples:
             throw error;
         } finally {
             this.callStack.pop();
-            // Decrement recursion depth for this function
-            const currentDepth = this.recursionDepth.get(func.name) || 0;
-            if (currentDepth > 1) {
-                this.recursionDepth.set(func.name, currentDepth - 1);
-            } else {
-                // Remove from map when depth reaches 0
-                this.recursionDepth.delete(func.name);
-            }
+            this.exitProfileCall(profileFrame);
         }
     }
 
     private async executeAssignment(assign: Assignment, frameOverride?: Frame): Promise<void> {
         // Check if this is a constant - constants cannot be reassigned
         if (this.environment.constants.has(assign.targetName)) {
-            throw new Error(`Cannot reassign constant $${assign.targetName}. Constants are immutable.`);
+            throw new RuntimeError(`Cannot reassign constant $${assign.targetName}. Constants are immutable.`, { code: ErrorCode.CONSTANT_REASSIGNMENT });
         }
 
         // Use frameOverride directly if provided, otherwise get from call stack
@@ -1673,7 +2392,7 @@ Examples:
     private executeShorthandAssignment(assign: ShorthandAssignment, frameOverride?: Frame): void {
         // Check if this is a constant - constants cannot be reassigned
         if (this.environment.constants.has(assign.targetName)) {
-            throw new Error(`Cannot reassign constant $${assign.targetName}. Constants are immutable.`);
+            throw new RuntimeError(`Cannot reassign constant $${assign.targetName}. Constants are immutable.`, { code: ErrorCode.CONSTANT_REASSIGNMENT });
         }
 
         const frame = this.getCurrentFrame(frameOverride);
@@ -1699,6 +2418,7 @@ Examples:
         const conditionValue = await this.evaluateExpression(ifStmt.condition, frame);
         const condition = isTruthy(conditionValue);
 
+        this.coverage?.hitBranch(ifStmt, condition ? 0 : 1);
         if (condition) {
             await this.executeStatement(ifStmt.command, frame);
         } else if (ifStmt.elseCommand) {
@@ -1722,6 +2442,7 @@ Examples:
         const lastValueAfterCondition = frame.lastValue;
 
         if (condition) {
+            this.coverage?.hitBranch(ifStmt, 0);
             // Execute then branch - lastValue will be set by the last statement
             // Explicitly pass the frame to ensure we're modifying the correct frame
             for (const stmt of ifStmt.thenBranch) {
@@ -1734,10 +2455,11 @@ Examples:
 
         // Check elseif branches
         if (ifStmt.elseifBranches) {
-            for (const branch of ifStmt.elseifBranches) {
+            for (const [index, branch] of ifStmt.elseifBranches.entries()) {
                 // branch.condition is Expression
                 const branchConditionValue = await this.evaluateExpression(branch.condition, frame);
                 if (isTruthy(branchConditionValue)) {
+                    this.coverage?.hitBranch(ifStmt, index + 1);
                     // Execute elseif branch - lastValue will be set by the last statement
                     // Explicitly pass the frame to ensure we're modifying the correct frame
                     for (const stmt of branch.body) {
@@ -1749,6 +2471,9 @@ Examples:
             }
         }
 
+        // The else arm counts even when it is omitted (no branch ran)
+        this.coverage?.hitBranch(ifStmt, (ifStmt.elseifBranches?.length ?? 0) + 1);
+
         // Execute else branch if present
         if (ifStmt.elseBranch) {
             // Execute else branch - lastValue will be set by the last statement
@@ -1763,81 +2488,384 @@ Examples:
         }
     }
 
-    private async executeIfTrue(ifStmt: IfTrue, frameOverride?: Frame): Promise<void> {
-        const frame = this.getCurrentFrame(frameOverride);
-        if (isTruthy(frame.lastValue)) {
-            await this.executeStatement(ifStmt.command, frameOverride);
+    private async executeIfTrue(ifStmt: IfTrue, frameOverride?: Frame): Promise<void> {
+        const frame = this.getCurrentFrame(frameOverride);
+        if (isTruthy(frame.lastValue)) {
+            await this.executeStatement(ifStmt.command, frameOverride);
+        }
+    }
+
+    private async executeIfFalse(ifStmt: IfFalse, frameOverride?: Frame): Promise<void> {
+        const frame = this.getCurrentFrame(frameOverride);
+        if (!isTruthy(frame.lastValue)) {
+            await this.executeStatement(ifStmt.command, frameOverride);
+        }
+    }
+
+    private async executeReturn(returnStmt: ReturnStatement, frameOverride?: Frame): Promise<void> {
+        // If a value is specified, evaluate it
+        if (returnStmt.value !== undefined) {
+            const value = await this.evaluateArg(returnStmt.value, frameOverride);
+            throw new ReturnException(value);
+        } else {
+            // No value specified - return null (not lastValue)
+            // This should not happen if parser is correct, but handle it gracefully
+            throw new ReturnException(null);
+        }
+    }
+
+    private async executeBreak(_breakStmt: BreakStatement, _frameOverride?: Frame): Promise<void> {
+        // Throw BreakException to exit the current loop
+        // This will be caught by the enclosing for/while/repeat loop
+        throw new BreakException();
+    }
+
+    private async executeContinue(_continueStmt: ContinueStatement, _frameOverride?: Frame): Promise<void> {
+        // Throw ContinueException to skip to next iteration of the current loop
+        // This will be caught by the enclosing for/while/repeat loop
+        throw new ContinueException();
+    }
+
+    private async registerFunction(func: DefineFunction): Promise<void> {
+        // If function already exists (from extracted functions with decorators), preserve its decorators
+        const existingFunc = this.environment.functions.get(func.name);
+        if (existingFunc && existingFunc.decorators) {
+            // Preserve decorators from the extracted function
+            func.decorators = existingFunc.decorators;
+        }
+        this.environment.functions.set(func.name, func);
+
+        // Execute decorators when function is registered (for metadata decorators like @desc, @param, etc.)
+        if (func.decorators && func.decorators.length > 0) {
+            await this.executeDecorators(func.decorators, func.name, func, []);
+        }
+    }
+
+    private registerEventHandler(onBlock: OnBlock): void {
+        // Get existing handlers for this event name, or create new array
+        const handlers = this.environment.eventHandlers.get(onBlock.eventName) || [];
+        
+        // Avoid duplicate registration of the same handler object
+        if (handlers.includes(onBlock)) {
+            return;
+        }
+        
+        // Add the new handler to the array
+        handlers.push(onBlock);
+        // Store back in the map
+        this.environment.eventHandlers.set(onBlock.eventName, handlers);
+    }
+
+    /**
+     * Register a module block: each def becomes the builtin name.fn (running in this
+     * environment), described by its @desc/@param decorators like a native module function
+     */
+    private async registerModuleBlock(block: ModuleBlock): Promise<void> {
+        const name = block.name;
+        const prefix = `${name}.`;
+        const existing = this.environment.moduleMetadata.get(name);
+        if (existing ? !scriptModules.has(existing) : [...this.environment.builtins.keys()].some(key => key.startsWith(prefix))) {
+            throw new RuntimeError(`Cannot define module "${name}": a native module with that name exists`, { codePos: block.codePos });
+        }
+        const imported = this.environment.imports.get(name);
+        if (imported !== undefined) {
+            throw new RuntimeError(`Cannot define module "${name}": the name is used by import "${imported}"`, { codePos: block.codePos });
+        }
+
+        // Running the block again replaces the module
+        for (const method of existing?.methods ?? []) {
+            this.environment.builtins.delete(prefix + method);
+            this.environment.metadata.delete(prefix + method);
+        }
+
+        // Parse decorators (@desc, @param, ...) write into scratch metadata, turned into FunctionMetadata/ModuleMetadata below
+        const scratch: Environment = { ...this.environment, functionMetadata: new Map(), variableMetadata: new Map() };
+        const runParseDecorators = async (decorators: DecoratorCall[] | undefined, targetName: string, func: DefineFunction | null) => {
+            for (const decorator of decorators ?? []) {
+                const handler = this.environment.parseDecorators.get(decorator.name);
+                if (handler) {
+                    await handler(targetName, func, decorator.args, scratch);
+                }
+            }
+        };
+
+        const environment = this.environment;
+        const sourceCode = this.sourceCode;
+        const functions = block.body.filter((stmt): stmt is DefineFunction => stmt.type === 'define');
+        for (const func of functions) {
+            const qualifiedName = prefix + func.name;
+            await runParseDecorators(func.decorators, qualifiedName, func);
+            const meta = scratch.functionMetadata.get(qualifiedName);
+            const parameters = (meta?.get('parameters') as ParameterMetadata[] | undefined) ??
+                func.paramNames.map((paramName): ParameterMetadata => ({ name: paramName, dataType: 'any', description: '', formInputType: 'json' }));
+            const metadata: FunctionMetadata = {
+                description: String(meta?.get('description') ?? ''),
+                parameters,
+                returnType: 'any',
+                returnDescription: ''
+            };
+
+            // The def runs in the environment of the block (its globals), whichever script calls it
+            const handler: BuiltinHandler = (args, _callback, context) => {
+                const caller = context!.executor;
+                if (caller.environment === environment) {
+                    return caller.callFunction(func, args);
+                }
+                const executor = new Executor(environment, caller.parentThread, sourceCode);
+                executor.inheritLimits(caller);
+                return executor.callFunction(func, args);
+            };
+            this.environment.builtins.set(qualifiedName, handler);
+            this.environment.metadata.set(qualifiedName, metadata);
+
+            if (func.decorators && func.decorators.length > 0) {
+                await this.executeDecorators(func.decorators, qualifiedName, func, []);
+            }
+        }
+
+        await runParseDecorators(block.decorators, name, null);
+        if (block.decorators && block.decorators.length > 0) {
+            await this.executeDecorators(block.decorators, name, null, []);
+        }
+        const moduleMetadata: ModuleMetadata = {
+            description: String(scratch.variableMetadata.get(name)?.get('description') ?? ''),
+            methods: functions.map(func => func.name)
+        };
+        scriptModules.add(moduleMetadata);
+        this.environment.moduleMetadata.set(name, moduleMetadata);
+
+        this.profiling?.profiler.addScript(this.profiling.file, functions);
+    }
+
+    /**
+     * Import a module: load and run it (once per module registry), then make its defs
+     * callable as ns.fn, add its on handlers to this environment's events and set the
+     * constant $ns to an object of its constants
+     */
+    private async executeImport(stmt: ImportStatement): Promise<void> {
+        const state = this.modules;
+        if (!state) {
+            throw new ImportError(stmt.path, `Cannot import "${stmt.path}": no module loader is set`);
+        }
+
+        let path: string;
+        try {
+            path = await state.registry.resolve(stmt.path, state.file);
+        } catch (error) {
+            throw new ImportError(stmt.path, `Cannot resolve module "${stmt.path}": ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+        }
+        const namespace = stmt.alias ?? getModuleNamespace(path);
+        if (namespace === null) {
+            throw new ImportError(path, `Cannot import "${stmt.path}": its file name is not a valid namespace (use import "${stmt.path}" as <name>)`);
+        }
+        if (state.chain.includes(path)) {
+            throw new ImportError(path, `Circular import: ${[...state.chain, path].join(' -> ')}`);
+        }
+
+        this.bindModule(namespace, await this.loadModule(state, path));
+    }
+
+    /**
+     * The module at a path, run by the first import of it
+     */
+    private loadModule(state: ModuleState, path: string): Promise<ImportedModule> {
+        let module = state.registry.get(path);
+        if (!module) {
+            const loading = this.runModule(state, path);
+            state.registry.set(path, loading);
+            // A module that failed to load is loaded again by the next import of it
+            loading.catch(() => {
+                if (state.registry.get(path) === loading) {
+                    state.registry.delete(path);
+                }
+            });
+            module = loading;
         }
+        return module;
     }
 
-    private async executeIfFalse(ifStmt: IfFalse, frameOverride?: Frame): Promise<void> {
-        const frame = this.getCurrentFrame(frameOverride);
-        if (!isTruthy(frame.lastValue)) {
-            await this.executeStatement(ifStmt.command, frameOverride);
+    /**
+     * Load, parse and run a module in an environment of its own (sharing builtins,
+     * decorators and metadata) as part of the importing run
+     */
+    private async runModule(state: ModuleState, path: string): Promise<ImportedModule> {
+        let source: string;
+        try {
+            source = await state.registry.load(path);
+        } catch (error) {
+            throw new ImportError(path, `Cannot load module "${path}": ${error instanceof Error ? error.message : String(error)}`, { cause: error });
         }
-    }
 
-    private async executeReturn(returnStmt: ReturnStatement, frameOverride?: Frame): Promise<void> {
-        // If a value is specified, evaluate it
-        if (returnStmt.value !== undefined) {
-            const value = await this.evaluateArg(returnStmt.value, frameOverride);
-            throw new ReturnException(value);
-        } else {
-            // No value specified - return null (not lastValue)
-            // This should not happen if parser is correct, but handle it gracefully
-            throw new ReturnException(null);
+        const environment: Environment = {
+            ...this.environment,
+            variables: new Map(),
+            functions: new Map(),
+            currentModule: null,
+            variableMetadata: new Map(),
+            functionMetadata: new Map(),
+            constants: new Set(),
+            eventHandlers: new Map(),
+            imports: new Map()
+        };
+        const module: ImportedModule = { path, source, environment, chain: [...state.chain, path] };
+        const executor = this.createModuleExecutor(module);
+
+        try {
+            const parser = new Parser(source, environment);
+            const statements = await parser.parse();
+            const functions = parser.getExtractedFunctions();
+            const handlers = parser.getExtractedEventHandlers();
+            for (const func of functions) {
+                environment.functions.set(func.name, func);
+                if (func.decorators && func.decorators.length > 0) {
+                    await executor.executeDecorators(func.decorators, func.name, func, []);
+                }
+            }
+            for (const handler of handlers) {
+                executor.registerEventHandler(handler);
+                if (handler.decorators && handler.decorators.length > 0) {
+                    await executor.executeDecorators(handler.decorators, handler.eventName, null, []);
+                }
+            }
+            this.coverage?.addScript(path, [...statements, ...functions, ...handlers]);
+            this.profiling?.profiler.addScript(path, [...functions, ...handlers]);
+            await executor.execute(statements);
+        } catch (error) {
+            // Nested import errors, exceeded limits and cancellation end the importing run as they are
+            if (error instanceof ImportError || error instanceof ExecutionLimitError || this.signal?.aborted) {
+                throw error;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            const line = error instanceof RobinPathError && error.codePos ? ` (line ${error.codePos.startRow + 1})` : '';
+            throw new ImportError(path, `Error in module "${path}"${line}: ${message}`, { cause: error });
         }
-    }
 
-    private async executeBreak(_breakStmt: BreakStatement, _frameOverride?: Frame): Promise<void> {
-        // Throw BreakException to exit the current loop
-        // This will be caught by executeForLoop
-        throw new BreakException();
+        // Defs and handlers not already claimed by a module it imports are its own
+        for (const func of environment.functions.values()) {
+            if (!importedFrom.has(func)) {
+                importedFrom.set(func, module);
+            }
+        }
+        for (const handlers of environment.eventHandlers.values()) {
+            for (const handler of handlers) {
+                if (!importedFrom.has(handler)) {
+                    importedFrom.set(handler, module);
+                }
+            }
+        }
+        return module;
     }
 
-    private async executeContinue(_continueStmt: ContinueStatement, _frameOverride?: Frame): Promise<void> {
-        // Throw ContinueException to skip to next iteration of the current loop
-        // This will be caught by executeForLoop
-        throw new ContinueException();
-    }
+    /**
+     * Bind a loaded module to a namespace of this environment (importing it again under
+     * the same namespace only picks up what it defined since)
+     */
+    private bindModule(namespace: string, module: ImportedModule): void {
+        const bound = this.environment.imports.get(namespace);
+        if (bound !== module.path) {
+            if (bound !== undefined) {
+                throw new ImportError(module.path, `Cannot import "${module.path}" as ${namespace}: the namespace is already used by "${bound}"`);
+            }
+            const prefix = `${namespace}.`;
+            if (this.environment.moduleMetadata.has(namespace) || [...this.environment.builtins.keys()].some(name => name.startsWith(prefix))) {
+                throw new ImportError(module.path, `Cannot import "${module.path}" as ${namespace}: ${namespace} is the name of a module (use import "${module.path}" as <name>)`);
+            }
+            if (this.environment.variables.has(namespace)) {
+                throw new ImportError(module.path, `Cannot import "${module.path}" as ${namespace}: $${namespace} already exists`);
+            }
+        }
+        this.environment.imports.set(namespace, module.path);
 
-    private async registerFunction(func: DefineFunction): Promise<void> {
-        // If function already exists (from extracted functions with decorators), preserve its decorators
-        const existingFunc = this.environment.functions.get(func.name);
-        if (existingFunc && existingFunc.decorators) {
-            // Preserve decorators from the extracted function
-            func.decorators = existingFunc.decorators;
+        for (const [name, func] of module.environment.functions) {
+            if (importedFrom.get(func) === module) {
+                this.environment.functions.set(`${namespace}.${name}`, func);
+            }
+        }
+        // Events are global: the module's handlers (and those of its own imports) hear this environment's triggers
+        for (const handlers of module.environment.eventHandlers.values()) {
+            for (const handler of handlers) {
+                this.registerEventHandler(handler);
+            }
         }
-        this.environment.functions.set(func.name, func);
 
-        // Execute decorators when function is registered (for metadata decorators like @desc, @param, etc.)
-        if (func.decorators && func.decorators.length > 0) {
-            await this.executeDecorators(func.decorators, func.name, func, []);
+        const constants: Record<string, Value> = {};
+        for (const name of module.environment.constants) {
+            if (!module.environment.imports.has(name)) {
+                constants[name] = module.environment.variables.get(name) ?? null;
+            }
         }
+        this.environment.variables.set(namespace, constants);
+        this.environment.constants.add(namespace);
     }
 
-    private registerEventHandler(onBlock: OnBlock): void {
-        // Get existing handlers for this event name, or create new array
-        const handlers = this.environment.eventHandlers.get(onBlock.eventName) || [];
-        
-        // Avoid duplicate registration of the same handler object
-        if (handlers.includes(onBlock)) {
-            return;
+    /**
+     * Executor that runs code of an imported module in the module's environment,
+     * continuing this run (limits, output, profiler, tracer, ...)
+     */
+    private createModuleExecutor(module: ImportedModule): Executor {
+        const executor = new Executor(module.environment, this.parentThread, module.source);
+        executor.inheritLimits(this);
+        if (executor.profiling) {
+            executor.profiling.file = module.path;
         }
-        
-        // Add the new handler to the array
-        handlers.push(onBlock);
-        // Store back in the map
-        this.environment.eventHandlers.set(onBlock.eventName, handlers);
+        if (this.modules) {
+            executor.modules = { ...this.modules, file: module.path, chain: module.chain };
+        }
+        return executor;
     }
 
     private async executeScope(scope: ScopeBlock, frameOverride?: Frame): Promise<void> {
         const parentFrame = this.getCurrentFrame(frameOverride);
         const originalLastValue = parentFrame.lastValue; // Preserve parent's $
 
+        let scopeValue: Value = null;
+        try {
+            const target = {
+                kind: 'do' as const,
+                name: `do block (line ${scope.codePos.startRow + 1})`,
+                args: this.getScopeParamValues(scope, parentFrame),
+                node: scope
+            };
+            scopeValue = await this.runDecorated(scope.decorators, target, executor => executor.runScopeBody(scope, parentFrame), frameOverride);
+        } finally {
+            // Handle "into" assignment if present - set in parent scope (the scope frame is popped by now)
+            // console.log('====> Executor: executeScope finally, scope.into:', scope.into, 'scopeValue:', scopeValue);
+            if (scope.into) {
+                // console.log('====> Executor: Setting variable', scope.into.targetName, 'to', scopeValue, 'in parent scope');
+                if (scope.into.targetPath && scope.into.targetPath.length > 0) {
+                    this.setVariableAtPath(scope.into.targetName, scope.into.targetPath, scopeValue);
+                } else {
+                    this.setVariable(scope.into.targetName, scopeValue);
+                }
+                // When using "into", restore parent's $ to original value (into assigns to specific variable, not $)
+                parentFrame.lastValue = originalLastValue;
+            } else {
+                // When there's no "into", set parent's $ to the scope's result value
+                parentFrame.lastValue = scopeValue;
+            }
+        }
+    }
+
+    /**
+     * Values of a do block's parameters, taken from variables of the same name in the parent scope (null if missing)
+     */
+    private getScopeParamValues(scope: ScopeBlock, parentFrame: Frame): Value[] {
+        return (scope.paramNames ?? []).map(paramName => {
+            // Check parent frame locals, then globals
+            if (parentFrame.locals.has(paramName)) {
+                return parentFrame.locals.get(paramName)!;
+            }
+            return this.environment.variables.has(paramName) ? this.environment.variables.get(paramName)! : null;
+        });
+    }
+
+    /**
+     * Execute the body of a do block in its own frame and return the block's value
+     */
+    private async runScopeBody(scope: ScopeBlock, parentFrame: Frame): Promise<Value> {
         if (Executor.debug) {
             const timestamp = new Date().toISOString();
-            console.log(`[Executor.executeScope] [${timestamp}] Starting do block execution. Body statements: ${scope.body.length}, isolated: ${scope.paramNames && scope.paramNames.length > 0}, callStack depth: ${this.callStack.length}`);
+            this.writeOutput('debug', `[Executor.executeScope] [${timestamp}] Starting do block execution. Body statements: ${scope.body.length}, isolated: ${scope.paramNames && scope.paramNames.length > 0}, callStack depth: ${this.callStack.length}`, 'executor');
         }
 
         // If parameters are declared, create an isolated scope (no parent variable access)
@@ -1856,28 +2884,11 @@ Examples:
 
         // If scope has parameters, initialize them with values from parent scope
         // if variables with the same names exist, otherwise null
-        if (scope.paramNames) {
-            for (const paramName of scope.paramNames) {
-                // Try to get value from parent frame or globals
-                let paramValue: Value = null;
-
-                // Check parent frame locals
-                if (parentFrame.locals.has(paramName)) {
-                    paramValue = parentFrame.locals.get(paramName)!;
-                } else {
-                    // Check globals
-                    if (this.environment.variables.has(paramName)) {
-                        paramValue = this.environment.variables.get(paramName)!;
-                    }
-                }
-
-                frame.locals.set(paramName, paramValue);
-            }
-        }
+        const paramValues = this.getScopeParamValues(scope, parentFrame);
+        (scope.paramNames ?? []).forEach((paramName, i) => frame.locals.set(paramName, paramValues[i]));
 
         this.callStack.push(frame);
 
-        let scopeValue: Value = null;
         try {
             // Execute scope body - pass frame directly to avoid race conditions in parallel execution
             let stmtIndex = 0;
@@ -1885,78 +2896,65 @@ Examples:
                 stmtIndex++;
                 if (Executor.debug) {
                     const timestamp = new Date().toISOString();
-                    console.log(`[Executor.executeScope] [${timestamp}] Executing statement ${stmtIndex}/${scope.body.length}, type: ${stmt.type}`);
+                    this.writeOutput('debug', `[Executor.executeScope] [${timestamp}] Executing statement ${stmtIndex}/${scope.body.length}, type: ${stmt.type}`, 'executor');
                 }
                 await this.executeStatement(stmt, frame);
             }
 
             if (Executor.debug) {
                 const timestamp = new Date().toISOString();
-                console.log(`[Executor.executeScope] [${timestamp}] Completed do block execution. Statements executed: ${stmtIndex}`);
+                this.writeOutput('debug', `[Executor.executeScope] [${timestamp}] Completed do block execution. Statements executed: ${stmtIndex}`, 'executor');
             }
 
             // Capture the scope's lastValue before restoring parent's $
             // If body is empty, scopeValue should be null (not parent's last value)
             // If body didn't produce a new value (lastValue unchanged), preserve the original value
             if (scope.body.length === 0) {
-                scopeValue = null;
-            } else if (frame.lastValue === initialLastValue) {
-                // Body didn't produce a new value, preserve the original lastValue
-                scopeValue = initialLastValue;
-            } else {
-                scopeValue = frame.lastValue;
+                return null;
             }
-            // console.log('====> Executor: executeScope scopeValue after body:', scopeValue);
-            // Don't restore parent's $ here - we'll handle it in finally block
-            // If there's no "into", we want to set parent's $ to scopeValue
-            // If there's an "into", we'll restore originalLastValue
+            return frame.lastValue === initialLastValue ? initialLastValue : frame.lastValue;
         } catch (error) {
             // Handle return statements inside do blocks
             if (error instanceof ReturnException) {
                 // Set the frame's lastValue to the return value
                 frame.lastValue = error.value;
-                scopeValue = error.value;
-                // Don't restore parent's $ here - we'll handle it in finally block
-                // Exit normally (don't re-throw) - the return value is stored in frame.lastValue
-            } else {
-                // Don't restore parent's $ here - we'll handle it in finally block
-                // Re-throw other errors to ensure they propagate properly
-                throw error;
+                return error.value;
             }
+            // Re-throw other errors to ensure they propagate properly
+            throw error;
         } finally {
-            // Pop the scope frame first (before setting variable in parent scope)
+            // Pop the scope frame (the caller sets the "into" variable in the parent scope)
             this.callStack.pop();
-
-            // Handle "into" assignment if present - set in parent scope AFTER popping frame
-            // console.log('====> Executor: executeScope finally, scope.into:', scope.into, 'scopeValue:', scopeValue);
-            if (scope.into) {
-                // console.log('====> Executor: Setting variable', scope.into.targetName, 'to', scopeValue, 'in parent scope');
-                // Now that the scope frame is popped, setVariable will use the parent frame
-                if (scope.into.targetPath && scope.into.targetPath.length > 0) {
-                    this.setVariableAtPath(scope.into.targetName, scope.into.targetPath, scopeValue);
-                } else {
-                    this.setVariable(scope.into.targetName, scopeValue);
-                }
-                // When using "into", restore parent's $ to original value (into assigns to specific variable, not $)
-                parentFrame.lastValue = originalLastValue;
-            } else {
-                // When there's no "into", set parent's $ to the scope's result value
-                parentFrame.lastValue = scopeValue;
-            }
         }
     }
 
     private async executeTogether(together: TogetherBlock): Promise<void> {
-        // Execute all do blocks in parallel
-        // together doesn't have its own scope - variables set inside do blocks are in parent scope
-
         // Capture the parent frame before executing do blocks
         const parentFrame = this.getCurrentFrame();
+        const target = {
+            kind: 'together' as const,
+            name: `together block (line ${together.codePos.startRow + 1})`,
+            args: [],
+            node: together
+        };
+        await this.runDecorated(together.decorators, target, async executor => {
+            await executor.runTogether(together, parentFrame);
+            return null;
+        });
+    }
+
+    /**
+     * Run the do blocks of a together block in parallel
+     */
+    private async runTogether(together: TogetherBlock, parentFrame: Frame): Promise<void> {
+        // together doesn't have its own scope - variables set inside do blocks are in parent scope
 
         // Create promises for each do block
-        const promises = together.blocks.map(async (doBlock) => {
+        const promises = together.blocks.map(async (doBlock, branch) => {
             // Create a new child executor for this parallel block to avoid stack corruption
             const childExecutor = this.spawnChild();
+            const traceSpan = childExecutor.startTraceSpan(parentSpanId => ({ type: 'togetherBranchStart', parentSpanId, branch, codePos: doBlock.codePos }));
+            let failed = false;
             
             const isIsolated = doBlock.paramNames && doBlock.paramNames.length > 0;
 
@@ -2007,11 +3005,15 @@ Examples:
                     frame.lastValue = error.value;
                     scopeValue = error.value;
                 } else {
+                    failed = true;
                     throw error;
                 }
             } finally {
                 // Pop from child stack
                 childExecutor.callStack.pop();
+                if (traceSpan) {
+                    childExecutor.endTraceSpan(traceSpan, duration => ({ type: 'togetherBranchEnd', branch, codePos: doBlock.codePos, duration, failed }));
+                }
             }
 
             // If this do block has "into", assign the last value in parent scope
@@ -2034,6 +3036,7 @@ Examples:
      * Set a variable at a path in the parent scope (for together blocks)
      */
     private setVariableAtPathInParentScope(parentFrame: Frame, name: string, path: AttributePathSegment[], value: Value): void {
+        this.emitTrace({ type: 'variableSet', name, path: formatTracePath(path), value });
         // Get the base variable value from parent scope
         let baseValue: Value;
 
@@ -2074,10 +3077,10 @@ Examples:
 
         // Ensure baseValue is an object (not null, not primitive)
         if (baseValue === null || baseValue === undefined) {
-            throw new Error(`Cannot set property on null or undefined`);
+            throw new RobinPathTypeError(`Cannot set property on null or undefined`);
         }
         if (typeof baseValue !== 'object') {
-            throw new Error(`Cannot set property on ${typeof baseValue}`);
+            throw new RobinPathTypeError(`Cannot set property on ${typeof baseValue}`);
         }
 
         // Traverse the path to the parent of the target property/index
@@ -2096,13 +3099,13 @@ Examples:
                         current[segment.name] = {};
                     }
                 } else if (typeof current[segment.name] !== 'object') {
-                    throw new Error(`Cannot access property '${segment.name}' of ${typeof current[segment.name]}`);
+                    throw new RobinPathTypeError(`Cannot access property '${segment.name}' of ${typeof current[segment.name]}`);
                 }
                 current = current[segment.name];
             } else if (segment.type === 'index') {
                 // Array index access: [index]
                 if (!Array.isArray(current)) {
-                    throw new Error(`Cannot access index ${segment.index} of non-array value`);
+                    throw new RobinPathTypeError(`Cannot access index ${segment.index} of non-array value`);
                 }
                 if (segment.index < 0) {
                     throw new Error(`Index ${segment.index} must be non-negative`);
@@ -2129,7 +3132,7 @@ Examples:
             current[finalSegment.name] = value;
         } else if (finalSegment.type === 'index') {
             if (!Array.isArray(current)) {
-                throw new Error(`Cannot set index ${finalSegment.index} on non-array value`);
+                throw new RobinPathTypeError(`Cannot set index ${finalSegment.index} on non-array value`);
             }
             if (finalSegment.index < 0) {
                 throw new Error(`Index ${finalSegment.index} must be non-negative`);
@@ -2155,7 +3158,7 @@ Examples:
         if (forLoop.iterable) {
             const iterable = await this.evaluateExpression(forLoop.iterable, frameOverride);
             if (!Array.isArray(iterable)) {
-                throw new Error(`for loop iterable must be an array, got ${typeof iterable}`);
+                throw new RobinPathTypeError(`for loop iterable must be an array, got ${typeof iterable}`);
             }
             elements = iterable;
         } else if (forLoop.from && forLoop.to) {
@@ -2166,7 +3169,7 @@ Examples:
                 stepVal = Number(await this.evaluateExpression(forLoop.step, frameOverride));
             }
             if (isNaN(fromVal) || isNaN(toVal) || isNaN(stepVal)) {
-                throw new Error(`for loop range parameters must be numbers (from: ${fromVal}, to: ${toVal}, step: ${stepVal})`);
+                throw new RobinPathTypeError(`for loop range parameters must be numbers (from: ${fromVal}, to: ${toVal}, step: ${stepVal})`);
             }
             if (stepVal === 0) {
                 throw new Error(`for loop step cannot be 0`);
@@ -2177,7 +3180,12 @@ Examples:
         const originalLastValue = frame.lastValue;
 
         // Iteration logic
+        let entered = false;
         const runLoop = async (element: any, key: any) => {
+            if (!entered) {
+                entered = true;
+                this.coverage?.hitBranch(forLoop, 0);
+            }
             // Set loop variable in current frame
             frame.locals.set(forLoop.varName, element);
             if (forLoop.keyVarName) {
@@ -2230,6 +3238,10 @@ Examples:
             }
         }
 
+        if (!entered) {
+            this.coverage?.hitBranch(forLoop, 1);
+        }
+
         // After loop, $ is the last body's $ from the last iteration
         // (or originalLastValue if zero iterations)
         if (iterations === 0) {
@@ -2237,6 +3249,188 @@ Examples:
         }
     }
 
+    private async executeWhileLoop(whileLoop: WhileLoop, frameOverride?: Frame): Promise<void> {
+        let entered = false;
+        while (true) {
+            this.checkLoopIteration(whileLoop.codePos);
+            if (!isTruthy(await this.evaluateExpression(whileLoop.condition, frameOverride))) {
+                break;
+            }
+            if (!entered) {
+                entered = true;
+                this.coverage?.hitBranch(whileLoop, 0);
+            }
+            try {
+                await this.runLoopBody(whileLoop.body, frameOverride);
+            } catch (error) {
+                if (error instanceof BreakException) break;
+                if (error instanceof ContinueException) continue;
+                throw error;
+            }
+        }
+        if (!entered) {
+            this.coverage?.hitBranch(whileLoop, 1);
+        }
+    }
+
+    private async executeRepeatUntil(repeatLoop: RepeatUntilLoop, frameOverride?: Frame): Promise<void> {
+        while (true) {
+            this.checkLoopIteration(repeatLoop.codePos);
+            try {
+                await this.runLoopBody(repeatLoop.body, frameOverride);
+            } catch (error) {
+                if (error instanceof BreakException) break;
+                // continue still evaluates the until condition
+                if (!(error instanceof ContinueException)) throw error;
+            }
+            if (isTruthy(await this.evaluateExpression(repeatLoop.condition, frameOverride))) {
+                break;
+            }
+        }
+    }
+
+    private async runLoopBody(body: Statement[], frameOverride?: Frame): Promise<void> {
+        for (const stmt of body) {
+            await this.executeStatement(stmt, frameOverride);
+        }
+    }
+
+    /**
+     * Each while/repeat iteration counts as a step, so even an empty body is bounded by the execution limits
+     */
+    private checkLoopIteration(codePos: CodePosition): void {
+        this.throwIfAborted(codePos);
+        if (this.limitState) {
+            this.checkStatementLimits(this.limitState, codePos);
+        }
+    }
+
+    /**
+     * try/catch/finally: errors from the body bind the catch variable to the error object.
+     * Execution limits and cancellation are never caught; finally always runs.
+     */
+    private async executeTryBlock(tryBlock: TryBlock, frameOverride?: Frame): Promise<void> {
+        const frame = this.getCurrentFrame(frameOverride);
+        try {
+            try {
+                for (const stmt of tryBlock.body) {
+                    await this.executeStatement(stmt, frameOverride);
+                }
+            } catch (error) {
+                if (!tryBlock.hasCatch || !this.isCatchable(error)) {
+                    throw error;
+                }
+                if (tryBlock.catchVarName) {
+                    frame.locals.set(tryBlock.catchVarName, error.toObject());
+                }
+                for (const stmt of tryBlock.catchBody ?? []) {
+                    await this.executeStatement(stmt, frameOverride);
+                }
+            }
+        } finally {
+            if (tryBlock.finallyBody) {
+                for (const stmt of tryBlock.finallyBody) {
+                    await this.executeStatement(stmt, frameOverride);
+                }
+            }
+        }
+    }
+
+    /**
+     * Run a test block in its own scope and record the result. A failing statement fails the
+     * test and the run continues after endtest; execution limits and cancellation still abort.
+     */
+    private async executeTestBlock(test: TestBlock, frameOverride?: Frame): Promise<void> {
+        const state = this.testState;
+        const path = [...state.path];
+        const result: TestResult = {
+            name: test.name,
+            path,
+            fullName: [...path, test.name].join(' > '),
+            status: 'passed',
+            duration: 0,
+            codePos: test.codePos
+        };
+
+        const parentFrame = this.getCurrentFrame(frameOverride);
+        const frame: Frame = {
+            locals: new Map(),
+            lastValue: parentFrame.lastValue,
+            isFunctionFrame: true // Variables assigned in a test stay local to it
+        };
+
+        // Mocks and spies installed inside the test are removed when it ends
+        const mocks = getMockRegistry(this.environment.builtins);
+        const mockMark = mocks.mark();
+
+        const startedAt = Date.now();
+        this.callStack.push(frame);
+        state.activeTests++;
+        try {
+            for (const stmt of test.body) {
+                await this.executeStatement(stmt, frame);
+            }
+        } catch (error) {
+            if (error instanceof SkipException) {
+                result.status = 'skipped';
+                if (error.reason !== null) {
+                    result.skipReason = error.reason;
+                }
+            } else if (this.isCatchable(error)) {
+                result.status = 'failed';
+                result.error = { name: error.name, message: error.message, code: error.code, codePos: error.codePos };
+            } else if (!(error instanceof ReturnException)) {
+                // return ends the test early; anything else (limits, abort, end) stops the run
+                throw error;
+            }
+        } finally {
+            state.activeTests--;
+            this.callStack.pop();
+            mocks.restoreTo(mockMark);
+        }
+        result.duration = Date.now() - startedAt;
+
+        state.results.push(result);
+        if (state.report) {
+            this.reportTestResult(result);
+        }
+    }
+
+    private reportTestResult(result: TestResult): void {
+        if (result.status === 'passed') {
+            this.writeOutput('log', `✓ ${result.fullName}`, 'test');
+        } else if (result.status === 'skipped') {
+            this.writeOutput('log', `- ${result.fullName} (skipped${result.skipReason ? `: ${result.skipReason}` : ''})`, 'test');
+        } else {
+            const line = result.error?.codePos ? ` (line ${result.error.codePos.startRow + 1})` : '';
+            this.writeOutput('error', `✗ ${result.fullName}: ${result.error?.message}${line}`, 'test');
+        }
+    }
+
+    /**
+     * Run a describe block; its name prefixes the names of the tests inside it and
+     * mocks installed directly in it apply to all of them
+     */
+    private async executeDescribeBlock(block: DescribeBlock, frameOverride?: Frame): Promise<void> {
+        const mocks = getMockRegistry(this.environment.builtins);
+        const mockMark = mocks.mark();
+        this.testState.path.push(block.name);
+        try {
+            for (const stmt of block.body) {
+                await this.executeStatement(stmt, frameOverride);
+            }
+        } finally {
+            this.testState.path.pop();
+            mocks.restoreTo(mockMark);
+        }
+    }
+
+    private isCatchable(error: unknown): error is RobinPathError {
+        if (!(error instanceof RobinPathError) || error instanceof ExecutionLimitError) {
+            return false;
+        }
+        return !(this.signal?.aborted && error === this.signal.reason);
+    }
 
     private async evaluateArg(arg: Arg, frameOverride?: Frame, parentCodePos?: CodePosition): Promise<Value> {
         // Check if this is an Expression node (new format)
@@ -2270,8 +3464,11 @@ Examples:
                         // Interpolate variables and subexpressions in the object literal code
                         const interpolatedCode = await this.interpolateObjectLiteral(arg.code, frameOverride);
                         // Wrap the extracted content in braces since extractObjectLiteral only returns the inner content
-                        return JSON5.parse(`{${interpolatedCode}}`);
+                        return this.checkCollectionSize(JSON5.parse(`{${interpolatedCode}}`), parentCodePos);
                     } catch (error) {
+                        if (error instanceof RobinPathError) {
+                            throw error;
+                        }
                         // Use parent codePos if available for better error messages
                         // The error might contain position info from JSON5 (e.g., "at 1:6")
                         const errorMsg = error instanceof Error ? error.message : String(error);
@@ -2292,8 +3489,11 @@ Examples:
                         // Interpolate variables and subexpressions in the array literal code
                         const interpolatedCode = await this.interpolateObjectLiteral(arg.code, frameOverride); // Reuse same method
                         // Wrap the extracted content in brackets since extractArrayLiteral only returns the inner content
-                        return JSON5.parse(`[${interpolatedCode}]`);
+                        return this.checkCollectionSize(JSON5.parse(`[${interpolatedCode}]`), parentCodePos);
                     } catch (error) {
+                        if (error instanceof RobinPathError) {
+                            throw error;
+                        }
                         // Use parent codePos if available for better error messages
                         // The error might contain position info from JSON5 (e.g., "at 1:6")
                         const errorMsg = error instanceof Error ? error.message : String(error);
@@ -2806,8 +4006,11 @@ Examples:
                     }
                     try {
                         const interpolatedCode = await this.interpolateObjectLiteral(exprAny.code, frameOverride);
-                        return JSON5.parse(`[${interpolatedCode}]`);
+                        return this.checkCollectionSize(JSON5.parse(`[${interpolatedCode}]`), exprAny.codePos);
                     } catch (error) {
+                        if (error instanceof RobinPathError) {
+                            throw error;
+                        }
                         const errorMsg = error instanceof Error ? error.message : String(error);
                         throw createErrorWithContext({
                             message: `Invalid array literal: ${errorMsg}`,
@@ -2823,8 +4026,11 @@ Examples:
                     }
                     try {
                         const interpolatedCode = await this.interpolateObjectLiteral(exprAny.code, frameOverride);
-                        return JSON5.parse(`{${interpolatedCode}}`);
+                        return this.checkCollectionSize(JSON5.parse(`{${interpolatedCode}}`), exprAny.codePos);
                     } catch (error) {
+                        if (error instanceof RobinPathError) {
+                            throw error;
+                        }
                         const errorMsg = error instanceof Error ? error.message : String(error);
                         throw createErrorWithContext({
                             message: `Invalid object literal: ${errorMsg}`,
@@ -2859,7 +4065,7 @@ Examples:
             result[key] = value;
         }
 
-        return result;
+        return this.checkCollectionSize(result, expr.codePos);
     }
 
     /**
@@ -2877,7 +4083,7 @@ Examples:
             result.push(value);
         }
 
-        return result;
+        return this.checkCollectionSize(result, expr.codePos);
     }
 
     /**
@@ -3125,8 +4331,9 @@ Examples:
     private setVariable(name: string, value: Value, frameOverride?: Frame): void {
         // Check if this is a constant - constants cannot be reassigned
         if (this.environment.constants.has(name)) {
-            throw new Error(`Cannot reassign constant $${name}. Constants are immutable.`);
+            throw new RuntimeError(`Cannot reassign constant $${name}. Constants are immutable.`, { code: ErrorCode.CONSTANT_REASSIGNMENT });
         }
+        this.emitTrace({ type: 'variableSet', name, path: null, value });
 
         const currentFrame = this.getCurrentFrame(frameOverride);
         const isFunctionFrame = currentFrame.isFunctionFrame === true;
@@ -3193,9 +4400,10 @@ Examples:
         // Path assignments like $const.prop = value modify the object, not the constant itself
         if (!path || path.length === 0) {
             if (this.environment.constants.has(name)) {
-                throw new Error(`Cannot reassign constant $${name}. Constants are immutable.`);
+                throw new RuntimeError(`Cannot reassign constant $${name}. Constants are immutable.`, { code: ErrorCode.CONSTANT_REASSIGNMENT });
             }
         }
+        this.emitTrace({ type: 'variableSet', name, path: path && path.length > 0 ? formatTracePath(path) : null, value });
 
         const frame = this.getCurrentFrame(frameOverride);
         const isIsolatedScope = frame.isIsolatedScope === true;
@@ -3288,10 +4496,10 @@ Examples:
 
         // Ensure baseValue is an object (not null, not primitive)
         if (baseValue === null || baseValue === undefined) {
-            throw new Error(`Cannot set property on null or undefined`);
+            throw new RobinPathTypeError(`Cannot set property on null or undefined`);
         }
         if (typeof baseValue !== 'object') {
-            throw new Error(`Cannot set property on ${typeof baseValue}`);
+            throw new RobinPathTypeError(`Cannot set property on ${typeof baseValue}`);
         }
 
         // Traverse the path to the parent of the target property/index
@@ -3310,13 +4518,13 @@ Examples:
                         current[segment.name] = {};
                     }
                 } else if (typeof current[segment.name] !== 'object') {
-                    throw new Error(`Cannot access property '${segment.name}' of ${typeof current[segment.name]}`);
+                    throw new RobinPathTypeError(`Cannot access property '${segment.name}' of ${typeof current[segment.name]}`);
                 }
                 current = current[segment.name];
             } else if (segment.type === 'index') {
                 // Array index access: [index]
                 if (!Array.isArray(current)) {
-                    throw new Error(`Cannot access index ${segment.index} of non-array value`);
+                    throw new RobinPathTypeError(`Cannot access index ${segment.index} of non-array value`);
                 }
                 if (segment.index < 0) {
                     throw new Error(`Index ${segment.index} must be non-negative`);
@@ -3343,7 +4551,7 @@ Examples:
             current[finalSegment.name] = value;
         } else if (finalSegment.type === 'index') {
             if (!Array.isArray(current)) {
-                throw new Error(`Cannot set index ${finalSegment.index} on non-array value`);
+                throw new RobinPathTypeError(`Cannot set index ${finalSegment.index} on non-array value`);
             }
             if (finalSegment.index < 0) {
                 throw new Error(`Index ${finalSegment.index} must be non-negative`);
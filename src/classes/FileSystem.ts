@@ -0,0 +1,402 @@
+/**
+ * File systems the fs module works in (capabilities: { fs: new NodeFileSystem('/workspace') })
+ *
+ * A FileSystem serves the files under one root directory. The fs module turns the
+ * paths scripts pass into paths relative to that root ("/" separated, "" for the root
+ * itself) with resolveSandboxPath, so no script path reaches outside of it; the
+ * file system maps them to real storage: memory, disk or anything else.
+ */
+
+import { CapabilityError } from './errors';
+
+export interface FileStat {
+    type: 'file' | 'directory';
+    size: number; // Bytes (0 for directories)
+    modified: number; // Last modification (ms since epoch)
+}
+
+export interface FileSystem {
+    readFile(path: string): string | Promise<string>;
+    writeFile(path: string, content: string): void | Promise<void>; // Creates or replaces the file
+    appendFile(path: string, content: string): void | Promise<void>; // Creates the file if needed
+    readDir(path: string): string[] | Promise<string[]>; // Names of the entries of a directory
+    stat(path: string): FileStat | null | Promise<FileStat | null>; // null when nothing is there
+    mkdir(path: string): void | Promise<void>; // Creates missing parents; no-op for an existing directory
+    remove(path: string): void | Promise<void>; // Files and whole directories; no-op when nothing is there
+    copy(from: string, to: string): void | Promise<void>; // Files and whole directories
+    move(from: string, to: string): void | Promise<void>;
+}
+
+/**
+ * Path of a script path relative to the root: "\" and "/" separate segments, "." and
+ * ".." are resolved and a leading "/" means the root. Throws a CapabilityError for
+ * paths leading outside the root.
+ *
+ *   resolveSandboxPath('/data/../out/report.txt'); // 'out/report.txt'
+ */
+export function resolveSandboxPath(path: string): string {
+    const segments: string[] = [];
+    for (const segment of path.split(/[\\/]/)) {
+        if (segment === '' || segment === '.') {
+            continue;
+        }
+        if (segment === '..') {
+            if (segments.length === 0) {
+                throw new CapabilityError('fs', `fs denied: "${path}" is outside the root directory`);
+            }
+            segments.pop();
+        } else {
+            segments.push(segment);
+        }
+    }
+    return segments.join('/');
+}
+
+/**
+ * Parent directory of a root-relative path ("" for entries of the root)
+ */
+export function getParentPath(path: string): string {
+    return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+/**
+ * Regular expression matching the root-relative paths a glob pattern selects:
+ * "*" and "?" match within a segment, "**" any number of segments, [abc] one of
+ * the characters and {a,b} one of the alternatives
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let inGroup = false;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                const wholeSegment = (i === 0 || pattern[i - 1] === '/') && (i + 2 === pattern.length || pattern[i + 2] === '/');
+                if (wholeSegment && pattern[i + 2] === '/') {
+                    source += '(?:[^/]+/)*';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const set = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+                source += set.startsWith('!') ? `[^/${set.slice(1)}]` : `[${set}]`;
+                i = end;
+            }
+        } else if (char === '{' && !inGroup) {
+            source += '(?:';
+            inGroup = true;
+        } else if (char === '}' && inGroup) {
+            source += ')';
+            inGroup = false;
+        } else if (char === ',' && inGroup) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * File system kept in memory (tests, browsers, scripts working on uploaded files):
+ *
+ *   const files = new MemoryFileSystem({ 'data/users.json': '[]' });
+ *   const rp = new RobinPath({ capabilities: { fs: files } });
+ */
+export class MemoryFileSystem implements FileSystem {
+    private files = new Map<string, { content: string; modified: number }>();
+    private directories = new Map<string, number>([['', Date.now()]]);
+
+    /**
+     * @param files - File contents by path (relative to the root; parent directories are created)
+     */
+    constructor(files: Record<string, string> = {}) {
+        for (const [path, content] of Object.entries(files)) {
+            this.writeFile(resolveSandboxPath(path), content);
+        }
+    }
+
+    /**
+     * Contents of all files by path (e.g. to check what a script wrote)
+     */
+    toObject(): Record<string, string> {
+        return Object.fromEntries([...this.files.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([path, file]) => [path, file.content]));
+    }
+
+    readFile(path: string): string {
+        const file = this.files.get(path);
+        if (!file) {
+            throw new Error(this.directories.has(path) ? `Is a directory: ${path}` : `No such file: ${path}`);
+        }
+        return file.content;
+    }
+
+    writeFile(path: string, content: string): void {
+        if (this.directories.has(path)) {
+            throw new Error(`Is a directory: ${path}`);
+        }
+        this.mkdir(getParentPath(path));
+        this.files.set(path, { content, modified: Date.now() });
+    }
+
+    appendFile(path: string, content: string): void {
+        this.writeFile(path, (this.files.get(path)?.content ?? '') + content);
+    }
+
+    readDir(path: string): string[] {
+        if (!this.directories.has(path)) {
+            throw new Error(this.files.has(path) ? `Not a directory: ${path}` : `No such directory: ${path}`);
+        }
+        const prefix = path === '' ? '' : `${path}/`;
+        const names = new Set<string>();
+        for (const entry of [...this.files.keys(), ...this.directories.keys()]) {
+            if (entry !== path && entry.startsWith(prefix)) {
+                names.add(entry.slice(prefix.length).split('/')[0]);
+            }
+        }
+        return [...names];
+    }
+
+    stat(path: string): FileStat | null {
+        const file = this.files.get(path);
+        if (file) {
+            return { type: 'file', size: new TextEncoder().encode(file.content).length, modified: file.modified };
+        }
+        const modified = this.directories.get(path);
+        return modified === undefined ? null : { type: 'directory', size: 0, modified };
+    }
+
+    mkdir(path: string): void {
+        let current = '';
+        for (const segment of path.split('/').filter(Boolean)) {
+            current = current === '' ? segment : `${current}/${segment}`;
+            if (this.files.has(current)) {
+                throw new Error(`Not a directory: ${current}`);
+            }
+            if (!this.directories.has(current)) {
+                this.directories.set(current, Date.now());
+            }
+        }
+    }
+
+    remove(path: string): void {
+        if (path === '') {
+            throw new Error('Cannot remove the root directory');
+        }
+        this.files.delete(path);
+        if (this.directories.delete(path)) {
+            const prefix = `${path}/`;
+            for (const entries of [this.files, this.directories]) {
+                for (const entry of [...entries.keys()]) {
+                    if (entry.startsWith(prefix)) {
+                        entries.delete(entry);
+                    }
+                }
+            }
+        }
+    }
+
+    copy(from: string, to: string): void {
+        const file = this.files.get(from);
+        if (file) {
+            this.writeFile(to, file.content);
+            return;
+        }
+        if (!this.directories.has(from)) {
+            throw new Error(`No such file or directory: ${from}`);
+        }
+        if (to === from || to.startsWith(`${from}/`)) {
+            throw new Error(`Cannot copy ${from} into itself`);
+        }
+        this.mkdir(to);
+        const prefix = `${from}/`;
+        for (const directory of [...this.directories.keys()]) {
+            if (directory.startsWith(prefix)) {
+                this.mkdir(to + directory.slice(from.length));
+            }
+        }
+        for (const [path, entry] of [...this.files.entries()]) {
+            if (path.startsWith(prefix)) {
+                this.writeFile(to + path.slice(from.length), entry.content);
+            }
+        }
+    }
+
+    move(from: string, to: string): void {
+        this.copy(from, to);
+        this.remove(from);
+    }
+}
+
+/**
+ * Subset of node:fs/promises used by NodeFileSystem
+ */
+interface NodeFsPromises {
+    readFile(path: string, encoding: 'utf-8'): Promise<string>;
+    writeFile(path: string, content: string, encoding: 'utf-8'): Promise<void>;
+    appendFile(path: string, content: string, encoding: 'utf-8'): Promise<void>;
+    readdir(path: string): Promise<string[]>;
+    stat(path: string): Promise<{ isDirectory(): boolean; size: number; mtimeMs: number }>;
+    mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+    rm(path: string, options: { recursive: true; force: true }): Promise<void>;
+    cp(from: string, to: string, options: { recursive: true }): Promise<void>;
+    rename(from: string, to: string): Promise<void>;
+    realpath(path: string): Promise<string>;
+    lstat(path: string): Promise<{ isSymbolicLink(): boolean }>;
+    readlink(path: string): Promise<string>;
+}
+
+interface NodePath {
+    resolve(...paths: string[]): string;
+    relative(from: string, to: string): string;
+    isAbsolute(path: string): boolean;
+    dirname(path: string): string;
+    sep: string;
+}
+
+// Symbolic links NodeFileSystem follows for one path before giving up (as Linux does)
+const MAX_SYMLINKS = 40;
+
+/**
+ * File system of a directory on disk (Node.js): paths are relative to root, and
+ * symbolic links leading outside of it are refused as well
+ *
+ *   const rp = new RobinPath({ capabilities: { fs: new NodeFileSystem('/srv/workspace') } });
+ */
+export class NodeFileSystem implements FileSystem {
+    private root: string;
+    private fs: NodeFsPromises;
+    private path: NodePath;
+    private realRoot: Promise<string> | null = null;
+
+    /**
+     * @param root - Directory scripts may work in (defaults to the current directory)
+     */
+    constructor(root?: string) {
+        // Loaded at runtime so the library still bundles for browsers
+        const proc = (globalThis as any).process;
+        if (typeof proc?.getBuiltinModule !== 'function') {
+            throw new Error('NodeFileSystem requires Node.js 20.16 or later');
+        }
+        this.fs = proc.getBuiltinModule('node:fs/promises');
+        this.path = proc.getBuiltinModule('node:path');
+        this.root = this.path.resolve(root ?? proc.cwd());
+    }
+
+    getRoot(): string {
+        return this.root;
+    }
+
+    async readFile(path: string): Promise<string> {
+        return this.fs.readFile(await this.resolve(path), 'utf-8');
+    }
+
+    async writeFile(path: string, content: string): Promise<void> {
+        await this.fs.writeFile(await this.resolve(path), content, 'utf-8');
+    }
+
+    async appendFile(path: string, content: string): Promise<void> {
+        await this.fs.appendFile(await this.resolve(path), content, 'utf-8');
+    }
+
+    async readDir(path: string): Promise<string[]> {
+        return this.fs.readdir(await this.resolve(path));
+    }
+
+    async stat(path: string): Promise<FileStat | null> {
+        try {
+            const stats = await this.fs.stat(await this.resolve(path));
+            return { type: stats.isDirectory() ? 'directory' : 'file', size: stats.isDirectory() ? 0 : stats.size, modified: stats.mtimeMs };
+        } catch (error) {
+            if ((error as { code?: string }).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async mkdir(path: string): Promise<void> {
+        await this.fs.mkdir(await this.resolve(path), { recursive: true });
+    }
+
+    async remove(path: string): Promise<void> {
+        if (path === '') {
+            throw new Error('Cannot remove the root directory');
+        }
+        await this.fs.rm(await this.resolve(path), { recursive: true, force: true });
+    }
+
+    async copy(from: string, to: string): Promise<void> {
+        await this.fs.cp(await this.resolve(from), await this.resolve(to), { recursive: true });
+    }
+
+    async move(from: string, to: string): Promise<void> {
+        await this.fs.rename(await this.resolve(from), await this.resolve(to));
+    }
+
+    /**
+     * Absolute path of a root-relative path, checking that the nearest existing
+     * ancestor does not lead outside the root through a symbolic link. Dangling links
+     * are followed to their target (writing through one creates the target), so the
+     * check continues from the target's nearest existing ancestor
+     */
+    private async resolve(path: string): Promise<string> {
+        const absolute = this.path.resolve(this.root, path);
+        this.realRoot ??= this.fs.realpath(this.root).catch(() => this.root);
+        const realRoot = await this.realRoot;
+
+        let existing = absolute;
+        let real: string | null = null;
+        let links = 0;
+        while (real === null) {
+            try {
+                real = await this.fs.realpath(existing);
+            } catch {
+                const target = await this.readDanglingLink(existing);
+                if (target !== null) {
+                    if (++links > MAX_SYMLINKS) {
+                        throw new CapabilityError('fs', `fs denied: "${path}" goes through too many symbolic links`);
+                    }
+                    existing = this.path.resolve(this.path.dirname(existing), target);
+                    continue;
+                }
+                const parent = this.path.dirname(existing);
+                if (parent === existing) {
+                    real = existing;
+                } else {
+                    existing = parent;
+                }
+            }
+        }
+        const relative = this.path.relative(realRoot, real);
+        if (relative === '..' || relative.startsWith(`..${this.path.sep}`) || this.path.isAbsolute(relative)) {
+            throw new CapabilityError('fs', `fs denied: "${path}" leads outside the root directory`);
+        }
+        return absolute;
+    }
+
+    /**
+     * Target of a path that is a symbolic link, null when it is not one (or does not exist)
+     */
+    private async readDanglingLink(path: string): Promise<string | null> {
+        try {
+            if (!(await this.fs.lstat(path)).isSymbolicLink()) {
+                return null;
+            }
+            return await this.fs.readlink(path);
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,488 @@
+/**
+ * LanguageService - editor features for RobinPath documents
+ *
+ * Protocol-agnostic implementation of completion, hover, signature help,
+ * go-to-definition and diagnostics. The LSP server (bin/lsp.js) maps these
+ * results to Language Server Protocol messages.
+ *
+ * Positions are 0-based lines and characters, like CodePosition rows/columns.
+ */
+
+import type { Value } from '../utils';
+import { Parser } from './Parser';
+import { KEYWORDS } from './Lexer';
+import { RobinPathError } from './errors';
+import type {
+    Environment,
+    FunctionMetadata,
+    ParameterMetadata
+} from '../index';
+import type { Statement, DefineFunction, OnBlock, CodePosition } from '../types/Ast.type';
+
+export interface TextPosition {
+    line: number;
+    character: number;
+}
+
+export interface TextRange {
+    start: TextPosition;
+    end: TextPosition;
+}
+
+export type CompletionKind = 'keyword' | 'function' | 'module' | 'variable';
+
+export interface CompletionItem {
+    label: string;
+    kind: CompletionKind;
+    detail?: string;
+    documentation?: string;
+}
+
+export interface HoverResult {
+    contents: string; // Markdown
+    range: TextRange;
+}
+
+export interface SignatureHelpResult {
+    label: string;
+    documentation?: string;
+    parameters: Array<{ label: string; documentation?: string }>;
+    activeParameter: number;
+}
+
+export interface DefinitionResult {
+    name: string;
+    kind: 'def' | 'on';
+    range: TextRange;
+}
+
+export interface Diagnostic {
+    range: TextRange;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+/**
+ * Result of analyzing a document: parsed definitions plus the metadata their
+ * parse decorators (@desc, @param, ...) produced
+ */
+interface DocumentAnalysis {
+    functions: DefineFunction[];
+    eventHandlers: OnBlock[];
+    functionMetadata: Map<string, Map<string, Value>>;
+    error: Error | null;
+}
+
+export class LanguageService {
+    private environment: Environment;
+
+    constructor(environment: Environment) {
+        this.environment = environment;
+    }
+
+    /**
+     * Parse errors for a document (empty if it parses)
+     */
+    async getDiagnostics(source: string): Promise<Diagnostic[]> {
+        const analysis = await this.analyze(source);
+        if (!analysis.error) {
+            return [];
+        }
+
+        const message = analysis.error.message;
+        const lines = source.split('\n');
+        const codePos = analysis.error instanceof RobinPathError ? analysis.error.codePos : null;
+        const line = codePos ? Math.min(codePos.startRow, lines.length - 1) : 0;
+        const character = codePos ? codePos.startCol : 0;
+        const lineLength = lines[line]?.length ?? 0;
+
+        return [{
+            range: {
+                start: { line, character },
+                end: { line, character: Math.max(character + 1, lineLength) }
+            },
+            message,
+            severity: 'error'
+        }];
+    }
+
+    /**
+     * Completion items for the word being typed at a position
+     */
+    async getCompletions(source: string, position: TextPosition): Promise<CompletionItem[]> {
+        const lineText = source.split('\n')[position.line] ?? '';
+        const prefix = /[$\w.]*$/.exec(lineText.slice(0, position.character))?.[0] ?? '';
+        const items: CompletionItem[] = [];
+
+        // Variables: everything assigned or referenced in the document
+        if (prefix.startsWith('$')) {
+            const names = new Set<string>();
+            for (const match of source.matchAll(/\$([A-Za-z_]\w*)/g)) {
+                names.add(match[1]);
+            }
+            for (const name of this.environment.variables.keys()) {
+                names.add(name);
+            }
+            for (const name of Array.from(names).sort()) {
+                items.push({ label: `$${name}`, kind: 'variable' });
+            }
+            return items;
+        }
+
+        // module.function: only functions of that module
+        const dotIndex = prefix.lastIndexOf('.');
+        if (dotIndex !== -1) {
+            const moduleName = prefix.slice(0, dotIndex);
+            for (const name of Array.from(this.environment.builtins.keys()).sort()) {
+                if (name.startsWith(`${moduleName}.`)) {
+                    const metadata = this.environment.metadata.get(name);
+                    items.push({
+                        label: name.slice(moduleName.length + 1),
+                        kind: 'function',
+                        detail: metadata ? LanguageService.formatSignature(name, metadata.parameters) : name,
+                        documentation: metadata?.description
+                    });
+                }
+            }
+            return items;
+        }
+
+        for (const keyword of Array.from(KEYWORDS).sort()) {
+            items.push({ label: keyword, kind: 'keyword' });
+        }
+
+        for (const [name, metadata] of this.environment.moduleMetadata.entries()) {
+            items.push({ label: name, kind: 'module', documentation: metadata.description });
+        }
+
+        for (const name of Array.from(this.environment.builtins.keys()).sort()) {
+            if (name.includes('.')) {
+                continue;
+            }
+            const metadata = this.environment.metadata.get(name);
+            items.push({
+                label: name,
+                kind: 'function',
+                detail: metadata ? LanguageService.formatSignature(name, metadata.parameters) : name,
+                documentation: metadata?.description
+            });
+        }
+
+        const analysis = await this.analyze(source);
+        for (const func of analysis.functions) {
+            const description = analysis.functionMetadata.get(func.name)?.get('description');
+            items.push({
+                label: func.name,
+                kind: 'function',
+                detail: LanguageService.formatDefSignature(func),
+                documentation: typeof description === 'string' ? description : 'User-defined function'
+            });
+        }
+
+        return items;
+    }
+
+    /**
+     * Documentation for the function, module or def under the cursor
+     */
+    async getHover(source: string, position: TextPosition): Promise<HoverResult | null> {
+        const word = LanguageService.getWordAt(source, position);
+        if (!word) {
+            return null;
+        }
+
+        const analysis = await this.analyze(source);
+        const func = analysis.functions.find(f => f.name === word.text);
+        if (func) {
+            const meta = analysis.functionMetadata.get(func.name);
+            const description = meta?.get('description');
+            const parameters = meta?.get('parameters');
+            let contents = '```robinpath\n' + LanguageService.formatDefSignature(func) + '\n```';
+            if (typeof description === 'string') {
+                contents += `\n\n${description}`;
+            }
+            if (Array.isArray(parameters) && parameters.length > 0) {
+                contents += '\n\n' + LanguageService.formatParameters(parameters as unknown as ParameterMetadata[]);
+            }
+            return { contents, range: word.range };
+        }
+
+        const metadata = this.environment.metadata.get(word.text);
+        if (metadata) {
+            return { contents: LanguageService.formatFunctionDoc(word.text, metadata), range: word.range };
+        }
+
+        const moduleMetadata = this.environment.moduleMetadata.get(word.text);
+        if (moduleMetadata) {
+            let contents = `**module ${word.text}**\n\n${moduleMetadata.description}`;
+            if (moduleMetadata.methods.length > 0) {
+                contents += `\n\nMethods: ${moduleMetadata.methods.map(m => `\`${m}\``).join(', ')}`;
+            }
+            return { contents, range: word.range };
+        }
+
+        return null;
+    }
+
+    /**
+     * Parameter hints for the command call on the cursor's line
+     */
+    async getSignatureHelp(source: string, position: TextPosition): Promise<SignatureHelpResult | null> {
+        const lineText = (source.split('\n')[position.line] ?? '').slice(0, position.character);
+
+        // Skip an assignment target ("$x = ") to find the command name
+        const match = /^\s*(?:\$[\w.]+\s*=\s*)?([A-Za-z_][\w.]*)(\s.*)?$/.exec(lineText);
+        if (!match) {
+            return null;
+        }
+        const name = match[1];
+        const argsText = match[2] ?? '';
+        if (!argsText) {
+            return null; // Still typing the command name
+        }
+        const activeParameter = Math.max(0, LanguageService.countArguments(argsText) - 1);
+
+        const metadata = this.environment.metadata.get(name);
+        if (metadata) {
+            // A variadic last parameter (one with children) absorbs all remaining arguments
+            const last = metadata.parameters[metadata.parameters.length - 1];
+            return {
+                label: LanguageService.formatSignature(name, metadata.parameters),
+                documentation: metadata.description,
+                parameters: metadata.parameters.map(p => ({ label: `$${p.name}`, documentation: p.description })),
+                activeParameter: last?.children ? Math.min(activeParameter, metadata.parameters.length - 1) : activeParameter
+            };
+        }
+
+        const analysis = await this.analyze(source);
+        const func = analysis.functions.find(f => f.name === name);
+        if (func) {
+            const meta = analysis.functionMetadata.get(func.name);
+            const description = meta?.get('description');
+            const documented = meta?.get('parameters');
+            const paramDocs = Array.isArray(documented) ? documented as unknown as ParameterMetadata[] : [];
+            return {
+                label: LanguageService.formatDefSignature(func),
+                documentation: typeof description === 'string' ? description : undefined,
+                parameters: func.paramNames.map(paramName => ({
+                    label: `$${paramName}`,
+                    documentation: paramDocs.find(p => p.name === paramName)?.description
+                })),
+                activeParameter
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Location of the def (for a function name) or on block (for an event name) under the cursor
+     */
+    async getDefinition(source: string, position: TextPosition): Promise<DefinitionResult | null> {
+        const word = LanguageService.getWordAt(source, position);
+        if (!word) {
+            return null;
+        }
+
+        const analysis = await this.analyze(source);
+        const func = analysis.functions.find(f => f.name === word.text);
+        if (func) {
+            return { name: func.name, kind: 'def', range: LanguageService.toRange(func.codePos) };
+        }
+
+        const handler = analysis.eventHandlers.find(h => h.eventName === word.text);
+        if (handler) {
+            return { name: handler.eventName, kind: 'on', range: LanguageService.toRange(handler.codePos) };
+        }
+
+        return null;
+    }
+
+    // ========================================================================
+    // Internals
+    // ========================================================================
+
+    /**
+     * Parse a document against a scratch environment so parse decorators
+     * (@desc, @param) record metadata without touching the real environment
+     */
+    private async analyze(source: string): Promise<DocumentAnalysis> {
+        const scratchEnvironment: Environment = {
+            ...this.environment,
+            variables: new Map(),
+            functions: new Map(),
+            variableMetadata: new Map(),
+            functionMetadata: new Map(),
+            constants: new Set(),
+            eventHandlers: new Map(),
+            imports: new Map()
+        };
+
+        const parser = new Parser(source, scratchEnvironment);
+        let statements: Statement[] = [];
+        let error: Error | null = null;
+        try {
+            statements = await parser.parse();
+        } catch (e) {
+            error = e instanceof Error ? e : new Error(String(e));
+        }
+
+        const functions: DefineFunction[] = [];
+        const eventHandlers: OnBlock[] = [];
+        LanguageService.collectDefinitions(statements, functions, eventHandlers);
+
+        return {
+            functions,
+            eventHandlers,
+            functionMetadata: scratchEnvironment.functionMetadata,
+            error
+        };
+    }
+
+    private static collectDefinitions(statements: Statement[], functions: DefineFunction[], eventHandlers: OnBlock[]): void {
+        for (const stmt of statements) {
+            if (stmt.type === 'define') {
+                functions.push(stmt);
+                LanguageService.collectDefinitions(stmt.body, functions, eventHandlers);
+            } else if (stmt.type === 'onBlock') {
+                eventHandlers.push(stmt);
+                LanguageService.collectDefinitions(stmt.body, functions, eventHandlers);
+            } else if (stmt.type === 'moduleBlock') {
+                // Module defs are called as name.fn
+                for (const func of stmt.body) {
+                    if (func.type === 'define') {
+                        functions.push({ ...func, name: `${stmt.name}.${func.name}` });
+                    }
+                }
+            } else if (stmt.type === 'tryBlock') {
+                for (const body of [stmt.body, stmt.catchBody ?? [], stmt.finallyBody ?? []]) {
+                    LanguageService.collectDefinitions(body, functions, eventHandlers);
+                }
+            } else if ('body' in stmt && Array.isArray(stmt.body)) {
+                LanguageService.collectDefinitions(stmt.body, functions, eventHandlers);
+            }
+        }
+    }
+
+    /**
+     * Word (identifier, module.function or quoted event name) under the cursor
+     */
+    private static getWordAt(source: string, position: TextPosition): { text: string; range: TextRange } | null {
+        const lineText = source.split('\n')[position.line] ?? '';
+
+        // Inside a quoted string (e.g. trigger "userLogin"): use the string contents
+        const quoted = /"([^"]*)"|'([^']*)'/g;
+        for (const match of lineText.matchAll(quoted)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            if (position.character > start && position.character < end) {
+                return {
+                    text: match[1] ?? match[2] ?? '',
+                    range: {
+                        start: { line: position.line, character: start + 1 },
+                        end: { line: position.line, character: end - 1 }
+                    }
+                };
+            }
+        }
+
+        const identifier = /[A-Za-z_][\w.]*/g;
+        for (const match of lineText.matchAll(identifier)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            if (position.character >= start && position.character <= end && lineText[start - 1] !== '$') {
+                return {
+                    text: match[0].replace(/\.$/, ''),
+                    range: {
+                        start: { line: position.line, character: start },
+                        end: { line: position.line, character: end }
+                    }
+                };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Count whitespace-separated arguments, treating quoted strings and brackets as one argument
+     */
+    private static countArguments(argsText: string): number {
+        let count = 0;
+        let inArgument = false;
+        let quote: string | null = null;
+        let depth = 0;
+        for (const ch of argsText) {
+            if (quote) {
+                if (ch === quote) quote = null;
+                continue;
+            }
+            if (ch === '"' || ch === "'" || ch === '`') {
+                quote = ch;
+            } else if (ch === '(' || ch === '[' || ch === '{') {
+                depth++;
+            } else if (ch === ')' || ch === ']' || ch === '}') {
+                depth = Math.max(0, depth - 1);
+            }
+            if (/\s/.test(ch) && depth === 0 && !quote) {
+                inArgument = false;
+            } else if (!inArgument) {
+                inArgument = true;
+                count++;
+            }
+        }
+        // Trailing whitespace means the cursor is at the start of the next argument
+        if (/\s$/.test(argsText)) {
+            count++;
+        }
+        return count;
+    }
+
+    private static toRange(codePos: CodePosition): TextRange {
+        return {
+            start: { line: codePos.startRow, character: codePos.startCol },
+            end: { line: codePos.endRow, character: codePos.endCol + 1 }
+        };
+    }
+
+    private static formatSignature(name: string, parameters: ParameterMetadata[]): string {
+        const params = parameters.map(p => {
+            const param = p.children ? `$${p.name}...` : `$${p.name}`;
+            return p.required ? param : `[${param}]`;
+        });
+        return [name, ...params].join(' ');
+    }
+
+    private static formatDefSignature(func: DefineFunction): string {
+        return ['def', func.name, ...func.paramNames.map(p => `$${p}`)].join(' ');
+    }
+
+    private static formatParameters(parameters: ParameterMetadata[]): string {
+        return parameters.map(p => {
+            let line = `- \`$${p.name}\` (${p.dataType})`;
+            if (p.description) {
+                line += ` — ${p.description}`;
+            }
+            if (p.defaultValue !== undefined) {
+                line += ` (default: ${JSON.stringify(p.defaultValue)})`;
+            }
+            return line;
+        }).join('\n');
+    }
+
+    private static formatFunctionDoc(name: string, metadata: FunctionMetadata): string {
+        let contents = '```robinpath\n' + LanguageService.formatSignature(name, metadata.parameters) + '\n```';
+        contents += `\n\n${metadata.description}`;
+        if (metadata.parameters.length > 0) {
+            contents += '\n\n' + LanguageService.formatParameters(metadata.parameters);
+        }
+        contents += `\n\nReturns \`${metadata.returnType}\``;
+        if (metadata.returnDescription) {
+            contents += ` — ${metadata.returnDescription}`;
+        }
+        if (metadata.example) {
+            contents += '\n\nExample:\n```robinpath\n' + metadata.example + '\n```';
+        }
+        return contents;
+    }
+}
@@ -76,9 +76,13 @@ export const KEYWORDS = new Set([
     'do', 'enddo', 'with', 'endwith',
     'def', 'enddef',
     'for', 'endfor', 'in',
+    'while', 'endwhile', 'until',
     'on', 'endon',
     'return', 'break', 'continue',
     'together', 'endtogether',
+    'try', 'catch', 'finally', 'endtry',
+    'endtest', 'enddescribe',
+    'endmodule',
     'into', 'from', 'to', 'by', 'step', 'key',
     'var', 'const',
     'log',
@@ -0,0 +1,143 @@
+/**
+ * Mocks and spies for builtins (test.mock / test.spy)
+ *
+ * A mock replaces the handler registered for a builtin name; a spy wraps it and still
+ * calls through. Both record the arguments of every call. Mocks live in the builtins map
+ * they patch, so every executor (and thread) sharing that map sees them; test blocks
+ * restore the mocks installed inside them when they end.
+ */
+
+import type { BuiltinHandler } from '../types/Environment.type';
+import type { Value } from '../utils/types';
+
+export type MockKind = 'mock' | 'spy';
+
+export interface MockCall {
+    args: Value[];
+    result: Value; // Value returned to the script (null if the call threw)
+}
+
+export interface BuiltinMock {
+    name: string;
+    kind: MockKind;
+    calls: MockCall[];
+}
+
+interface InstalledMock extends BuiltinMock {
+    id: number; // Installation order (see mark)
+    replaced: Map<string, BuiltinHandler>; // Names this mock was installed under -> handler it replaced
+}
+
+const registries = new WeakMap<Map<string, BuiltinHandler>, MockRegistry>();
+
+/**
+ * The mock registry of a builtins map (created on first use)
+ */
+export function getMockRegistry(builtins: Map<string, BuiltinHandler>): MockRegistry {
+    let registry = registries.get(builtins);
+    if (!registry) {
+        registry = new MockRegistry(builtins);
+        registries.set(builtins, registry);
+    }
+    return registry;
+}
+
+export class MockRegistry {
+    private builtins: Map<string, BuiltinHandler>;
+    private installed: InstalledMock[] = []; // In installation order (restored in reverse)
+    private nextId: number = 0;
+
+    constructor(builtins: Map<string, BuiltinHandler>) {
+        this.builtins = builtins;
+    }
+
+    /**
+     * Replace a builtin with an implementation; returns the mock recording its calls
+     */
+    mock(name: string, implementation: BuiltinHandler): BuiltinMock {
+        return this.install(name, 'mock', () => implementation);
+    }
+
+    /**
+     * Record the calls of a builtin while still running it
+     */
+    spy(name: string): BuiltinMock {
+        return this.install(name, 'spy', original => original);
+    }
+
+    /**
+     * The most recently installed mock or spy for a name (undefined if there is none)
+     */
+    get(name: string): BuiltinMock | undefined {
+        for (let i = this.installed.length - 1; i >= 0; i--) {
+            if (this.installed[i].name === name) {
+                return this.installed[i];
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Marker for the mocks and spies installed from now on (pass it to restoreTo later)
+     */
+    mark(): number {
+        return this.nextId;
+    }
+
+    /**
+     * Restore the mocks and spies for a name (or all of them); returns how many were removed
+     */
+    restore(name?: string): number {
+        let removed = 0;
+        for (let i = this.installed.length - 1; i >= 0; i--) {
+            if (name === undefined || this.installed[i].name === name) {
+                this.uninstall(i);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Restore every mock and spy installed since mark() returned the given marker
+     */
+    restoreTo(mark: number): void {
+        for (let i = this.installed.length - 1; i >= 0 && this.installed[i].id >= mark; i--) {
+            this.uninstall(i);
+        }
+    }
+
+    private install(name: string, kind: MockKind, getTarget: (original: BuiltinHandler) => BuiltinHandler): BuiltinMock {
+        const original = this.builtins.get(name);
+        if (!original) {
+            throw new Error(`Cannot ${kind} unknown builtin: ${name}`);
+        }
+
+        const mock: InstalledMock = { id: this.nextId++, name, kind, calls: [], replaced: new Map() };
+        const target = getTarget(original);
+        const handler: BuiltinHandler = async (args, callback, context) => {
+            const call: MockCall = { args: [...args], result: null };
+            mock.calls.push(call);
+            const result = await Promise.resolve(target(args, callback, context));
+            call.result = result !== undefined ? result : null;
+            return result;
+        };
+
+        // Aliases bound to the same handler (e.g. "assertEqual" for "test.assertEqual") are replaced too
+        for (const [alias, existing] of this.builtins) {
+            if (existing === original) {
+                mock.replaced.set(alias, existing);
+                this.builtins.set(alias, handler);
+            }
+        }
+        this.installed.push(mock);
+        return mock;
+    }
+
+    private uninstall(index: number): void {
+        const [mock] = this.installed.splice(index, 1);
+        for (const [alias, handler] of mock.replaced) {
+            this.builtins.set(alias, handler);
+        }
+    }
+}
@@ -0,0 +1,162 @@
+/**
+ * Imported .robin files (import "./lib/helpers.robin" [as ns])
+ *
+ * A ModuleLoader turns the path written in an import into the canonical path of
+ * the module (resolve) and that path into source code (load), so hosts decide where
+ * modules come from: memory, disk or a database. The ModuleRegistry of a RobinPath
+ * instance caches modules by canonical path, so each module is loaded and run once
+ * however many scripts and modules import it.
+ */
+
+import type { Environment } from '../index';
+
+export interface ModuleLoader {
+    /**
+     * Canonical path of the module an import refers to; importer is the path of the
+     * importing file (null for a script run without a file name). Defaults to resolveModulePath.
+     */
+    resolve?(specifier: string, importer: string | null): string | Promise<string>;
+    /**
+     * Source of a resolved module (throw if there is none)
+     */
+    load(path: string): string | Promise<string>;
+}
+
+/**
+ * A loaded module: its defs, on handlers and constants live in its own environment
+ */
+export interface ImportedModule {
+    path: string;
+    source: string;
+    environment: Environment;
+    chain: string[]; // Paths of the imports that led to it, outermost first, ending with its own
+}
+
+/**
+ * Default import resolution: "./" and "../" paths are relative to the importing file,
+ * other paths to the root; a path without extension gets ".robin"
+ *
+ *   resolveModulePath('./helpers', 'lib/main.robin'); // 'lib/helpers.robin'
+ */
+export function resolveModulePath(specifier: string, importer: string | null): string {
+    const path = specifier.split('\\').join('/');
+    const relative = importer !== null && (path.startsWith('./') || path.startsWith('../'));
+    const base = relative ? importer!.split('\\').join('/').split('/').slice(0, -1) : [];
+    const absolute = path.startsWith('/') || (relative && base[0] === '');
+
+    const segments: string[] = [];
+    for (const segment of [...base, ...path.split('/')]) {
+        if (segment === '' || segment === '.') {
+            continue;
+        }
+        if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+            segments.pop();
+        } else if (segment !== '..' || !absolute) {
+            segments.push(segment);
+        }
+    }
+
+    const last = segments.length - 1;
+    if (last >= 0 && !segments[last].includes('.')) {
+        segments[last] += '.robin';
+    }
+    return (absolute ? '/' : '') + segments.join('/');
+}
+
+/**
+ * Namespace of a module imported without "as": its file name without extension
+ * (null when that is not a valid name, e.g. "my-helpers.robin")
+ */
+export function getModuleNamespace(path: string): string | null {
+    const name = path.slice(path.lastIndexOf('/') + 1).replace(/\.[^.]*$/, '');
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : null;
+}
+
+/**
+ * Loader serving modules from memory (tests, editors, modules kept in a database):
+ *
+ *   const loader = new MemoryModuleLoader({ 'lib/helpers.robin': 'def greet $name ... enddef' });
+ *   const rp = new RobinPath({ moduleLoader: loader });
+ */
+export class MemoryModuleLoader implements ModuleLoader {
+    private files = new Map<string, string>();
+
+    /**
+     * @param files - Module sources by path (normalized like import paths from the root)
+     */
+    constructor(files: Record<string, string> = {}) {
+        for (const [path, source] of Object.entries(files)) {
+            this.set(path, source);
+        }
+    }
+
+    set(path: string, source: string): void {
+        this.files.set(resolveModulePath(path, null), source);
+    }
+
+    delete(path: string): void {
+        this.files.delete(resolveModulePath(path, null));
+    }
+
+    load(path: string): string {
+        const source = this.files.get(path);
+        if (source === undefined) {
+            throw new Error(`Module not found: ${path}`);
+        }
+        return source;
+    }
+}
+
+/**
+ * Loader and cache of the modules of a RobinPath instance (shared with its threads)
+ */
+export class ModuleRegistry {
+    private loader: ModuleLoader | null;
+    private modules = new Map<string, Promise<ImportedModule>>();
+
+    constructor(loader: ModuleLoader | null = null) {
+        this.loader = loader;
+    }
+
+    getLoader(): ModuleLoader | null {
+        return this.loader;
+    }
+
+    /**
+     * Load modules with another loader (forgets the modules loaded so far)
+     */
+    setLoader(loader: ModuleLoader | null): void {
+        this.loader = loader;
+        this.modules.clear();
+    }
+
+    async resolve(specifier: string, importer: string | null): Promise<string> {
+        return this.loader?.resolve ? await this.loader.resolve(specifier, importer) : resolveModulePath(specifier, importer);
+    }
+
+    async load(path: string): Promise<string> {
+        if (!this.loader) {
+            throw new Error('no module loader is set');
+        }
+        return await this.loader.load(path);
+    }
+
+    /**
+     * The module at a path, loaded (or being loaded) by an earlier import
+     */
+    get(path: string): Promise<ImportedModule> | undefined {
+        return this.modules.get(path);
+    }
+
+    set(path: string, module: Promise<ImportedModule>): void {
+        this.modules.set(path, module);
+    }
+
+    delete(path: string): void {
+        this.modules.delete(path);
+    }
+
+    clear(): void {
+        this.modules.clear();
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Output sinks for everything a script prints (log, say, use, explain, handler errors, ...)
+ *
+ * RobinPath writes structured OutputRecords to an OutputSink instead of calling
+ * console directly. The default sink prints to the console; pass your own sink
+ * (or an OutputCollector) to capture or redirect the output of a run.
+ */
+
+import type { Value } from '../utils/types';
+
+export type LogLevel = 'log' | 'warn' | 'error' | 'debug';
+
+export interface OutputRecord {
+    level: LogLevel;
+    message: string; // Formatted text (without the timestamp prefix)
+    args: Value[]; // Raw values passed by the script (empty for messages produced by RobinPath itself)
+    source: string; // Command or component that wrote the record (e.g. "log", "say", "use", "trigger")
+    timestamp: number; // Milliseconds since the epoch
+    timestamped?: boolean; // Printed with a [YYYY-MM-DD HH:MM:SS.mmm] prefix on the console (log command)
+}
+
+export interface OutputSink {
+    write(record: OutputRecord): void;
+}
+
+/**
+ * Format a record timestamp as [YYYY-MM-DD HH:MM:SS.mmm] (local time)
+ */
+export function formatOutputTimestamp(timestamp: number): string {
+    const date = new Date(timestamp);
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    const seconds = String(date.getSeconds()).padStart(2, '0');
+    const milliseconds = String(date.getMilliseconds()).padStart(3, '0');
+    return `[${year}-${month}-${day} ${hours}:${minutes}:${seconds}.${milliseconds}]`;
+}
+
+/**
+ * Default sink: prints each record with the console method of its level
+ */
+export const consoleOutput: OutputSink = {
+    write(record: OutputRecord): void {
+        const text = record.timestamped
+            ? `${formatOutputTimestamp(record.timestamp)} ${record.message}`
+            : record.message;
+        console[record.level](text);
+    }
+};
+
+/**
+ * Sink that keeps every record in memory, e.g. to capture the output of one run:
+ *
+ *   const output = new OutputCollector();
+ *   await rp.executeScript(script, { output });
+ *   output.records; // [{ level: 'log', message: 'hello', ... }]
+ */
+export class OutputCollector implements OutputSink {
+    records: OutputRecord[] = [];
+    private forward: OutputSink | null;
+
+    /**
+     * @param forward - Optional sink that also receives every record (e.g. consoleOutput)
+     */
+    constructor(forward: OutputSink | null = null) {
+        this.forward = forward;
+    }
+
+    write(record: OutputRecord): void {
+        this.records.push(record);
+        this.forward?.write(record);
+    }
+
+    /**
+     * Messages of the collected records (optionally only those of one level)
+     */
+    messages(level?: LogLevel): string[] {
+        return this.records
+            .filter(record => level === undefined || record.level === level)
+            .map(record => record.message);
+    }
+
+    clear(): void {
+        this.records = [];
+    }
+}
@@ -9,11 +9,16 @@ import { EventParser } from '../parsers/EventParser';
 import { ScopeParser } from '../parsers/ScopeParser';
 import { WithScopeParser } from '../parsers/WithScopeParser';
 import { parseForLoop } from '../parsers/ForLoopParser';
+import { parseWhileLoop, parseRepeatUntil } from '../parsers/WhileLoopParser';
 import { parseIf } from '../parsers/IfBlockParser';
 import { parseReturn } from '../parsers/ReturnParser';
 import { parseBreak } from '../parsers/BreakParser';
+import { parseImport, isImportStart } from '../parsers/ImportParser';
 import { parseContinue } from '../parsers/ContinueParser';
 import { parseTogether } from '../parsers/TogetherBlockParser';
+import { parseTry } from '../parsers/TryBlockParser';
+import { parseTestBlock, isTestBlockStart } from '../parsers/TestBlockParser';
+import { parseModuleBlock, isModuleBlockStart } from '../parsers/ModuleBlockParser';
 import { parseDecorators } from '../parsers/DecoratorParser';
 import { ObjectLiteralParser } from '../parsers/ObjectLiteralParser';
 import { ArrayLiteralParser } from '../parsers/ArrayLiteralParser';
@@ -24,6 +29,7 @@ import { parseCellBlock } from '../parsers/CellBlockParser';
 import { parsePromptBlock } from '../parsers/PromptBlockParser';
 import { classifyFenceLine } from '../parsers/FenceClassifier';
 import { LexerUtils } from '../utils';
+import { ParseError } from './errors';
 import type { Statement, CommentWithPosition, CodePosition, DefineFunction, OnBlock, DecoratorCall } from '../types/Ast.type';
 import type { Environment } from '../index';
 
@@ -71,7 +77,11 @@ export class Parser {
      */
     constructor(source: string, environment?: Environment | null) {
         this.source = source;
-        this.tokens = Lexer.tokenizeFull(source);
+        try {
+            this.tokens = Lexer.tokenizeFull(source);
+        } catch (error) {
+            throw ParseError.from(error);
+        }
         this.stream = new TokenStream(this.tokens);
         this.environment = environment || null;
     }
@@ -79,8 +89,17 @@ export class Parser {
     /**
      * Parse the source code into an AST
      * @returns Array of statements
+     * @throws ParseError (with codePos when the failure has a known position)
      */
     async parse(): Promise<Statement[]> {
+        try {
+            return await this.parseStatements();
+        } catch (error) {
+            throw ParseError.from(error);
+        }
+    }
+
+    private async parseStatements(): Promise<Statement[]> {
         // Single pass: parse all statements including def/on blocks
         this.stream = new TokenStream(this.tokens); // Reset stream
         this.decoratorBuffer = []; // Reset decorator buffer
@@ -476,6 +495,18 @@ export class Parser {
             }
         }
 
+        // Check for 'import' statement (the path string distinguishes it from a command named import)
+        if (isImportStart(stream)) {
+            return parseImport(stream, {
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            });
+        }
+
         // Check for 'return' statement
         if (token.kind === TokenKind.KEYWORD && token.text === 'return') {
             return parseReturn(stream, {
@@ -543,6 +574,67 @@ export class Parser {
             });
         }
 
+        // Check for 'while' loop
+        if (token.kind === TokenKind.KEYWORD && token.text === 'while') {
+            return parseWhileLoop(stream, {
+                parseStatement: (s) => this.parseStatementFromStream(s),
+                parseComment: (s) => this.parseCommentFromStream(s),
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            });
+        }
+
+        // Check for 'repeat ... until' loop (a bare 'repeat' line; 'repeat N with' is the repeat command)
+        if (token.kind === TokenKind.KEYWORD && token.text === 'repeat' && this.isBareKeywordLine(stream)) {
+            return parseRepeatUntil(stream, {
+                parseStatement: (s) => this.parseStatementFromStream(s),
+                parseComment: (s) => this.parseCommentFromStream(s),
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            });
+        }
+
+        // Check for 'try' block
+        if (token.kind === TokenKind.KEYWORD && token.text === 'try') {
+            return parseTry(stream, {
+                parseStatement: (s) => this.parseStatementFromStream(s),
+                parseComment: (s) => this.parseCommentFromStream(s),
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            });
+        }
+
+        // Check for 'test'/'describe' block (the name string distinguishes it from test.* commands)
+        if (isTestBlockStart(stream)) {
+            return parseTestBlock(stream, {
+                parseStatement: (s) => this.parseStatementFromStream(s),
+                parseComment: (s) => this.parseCommentFromStream(s),
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            });
+        }
+
+        // Module blocks define commands for the whole script, so they cannot be nested
+        if (isModuleBlockStart(stream)) {
+            throw new Error(`module blocks are only allowed at the top level (line ${token.line}, column ${token.column})`);
+        }
+
         // Check for 'do' scope block
         if (token.kind === TokenKind.KEYWORD && token.text === 'do') {
             return ScopeParser.parse(
@@ -564,6 +656,21 @@ export class Parser {
             throw new Error(`'endif' keyword found outside of if block at line ${token.line}`);
         }
 
+        // Check for 'endwhile'/'until' keywords - these should only close loops
+        if (token.kind === TokenKind.KEYWORD && (token.text === 'endwhile' || token.text === 'until')) {
+            throw new Error(`'${token.text}' keyword found outside of a loop at line ${token.line}`);
+        }
+
+        // Check for 'catch'/'finally'/'endtry' keywords - these should only appear inside try blocks
+        if (token.kind === TokenKind.KEYWORD && (token.text === 'catch' || token.text === 'finally' || token.text === 'endtry')) {
+            throw new Error(`'${token.text}' keyword found outside of try block at line ${token.line}`);
+        }
+
+        // Check for 'endtest'/'enddescribe' keywords - these should only close test and describe blocks
+        if (token.kind === TokenKind.KEYWORD && (token.text === 'endtest' || token.text === 'enddescribe')) {
+            throw new Error(`'${token.text}' keyword found outside of ${token.text.slice(3)} block at line ${token.line}`);
+        }
+
         // Check for 'endon' keyword - this should only appear inside on blocks
         // If we encounter it here, it means it's not part of an on block, which is an error
         if (token.kind === TokenKind.KEYWORD && token.text === 'endon') {
@@ -720,10 +827,20 @@ export class Parser {
                     endRow: end.line - 1,
                     endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
                 }),
-                parseScope: (s) => ScopeParser.parse(s,
-                    (s2) => this.parseStatementFromStream(s2),
-                    (s2) => this.parseCommentFromStream(s2)
-                )
+                parseScope: (s) => {
+                    // Check if this is a 'with' block or 'do' block
+                    const currentToken = s.current();
+                    if (currentToken && currentToken.kind === TokenKind.KEYWORD && currentToken.text === 'with') {
+                        return WithScopeParser.parse(s,
+                            (s2) => this.parseStatementFromStream(s2),
+                            (s2) => this.parseCommentFromStream(s2)
+                        );
+                    }
+                    return ScopeParser.parse(s,
+                        (s2) => this.parseStatementFromStream(s2),
+                        (s2) => this.parseCommentFromStream(s2)
+                    );
+                }
             });
         }
 
@@ -731,6 +848,14 @@ export class Parser {
         return null;
     }
 
+    /**
+     * True when the current keyword is alone on its line (optionally followed by a comment)
+     */
+    private isBareKeywordLine(stream: TokenStream): boolean {
+        const next = stream.peek(1);
+        return !next || next.kind === TokenKind.NEWLINE || next.kind === TokenKind.COMMENT || next.kind === TokenKind.EOF;
+    }
+
     /**
      * Parse a comment from a stream (for use in DefineParser)
      */
@@ -865,6 +990,18 @@ export class Parser {
             }
         }
 
+        // Check for 'import' statement (the path string distinguishes it from a command named import)
+        if (isImportStart(this.stream)) {
+            return parseImport(this.stream, {
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            });
+        }
+
         // Check for 'return' statement
         if (currentToken.kind === TokenKind.KEYWORD && currentToken.text === 'return') {
             return parseReturn(this.stream, {
@@ -962,6 +1099,105 @@ export class Parser {
             return togetherBlock;
         }
 
+        // Check for 'while' loop
+        if (currentToken.kind === TokenKind.KEYWORD && currentToken.text === 'while') {
+            // Attach decorators if any are in the buffer
+            const decorators = this.decoratorBuffer.length > 0 ? [...this.decoratorBuffer] : undefined;
+            if (decorators) {
+                this.decoratorBuffer = []; // Clear buffer
+            }
+            const whileLoop = parseWhileLoop(this.stream, {
+                parseStatement: (s) => this.parseStatementFromStream(s),
+                parseComment: (s) => this.parseCommentFromStream(s),
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            }, decorators);
+            return whileLoop;
+        }
+
+        // Check for 'repeat ... until' loop (a bare 'repeat' line; 'repeat N with' is the repeat command)
+        if (currentToken.kind === TokenKind.KEYWORD && currentToken.text === 'repeat' && this.isBareKeywordLine(this.stream)) {
+            // Attach decorators if any are in the buffer
+            const decorators = this.decoratorBuffer.length > 0 ? [...this.decoratorBuffer] : undefined;
+            if (decorators) {
+                this.decoratorBuffer = []; // Clear buffer
+            }
+            const repeatLoop = parseRepeatUntil(this.stream, {
+                parseStatement: (s) => this.parseStatementFromStream(s),
+                parseComment: (s) => this.parseCommentFromStream(s),
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            }, decorators);
+            return repeatLoop;
+        }
+
+        // Check for 'try' block
+        if (currentToken.kind === TokenKind.KEYWORD && currentToken.text === 'try') {
+            // Attach decorators if any are in the buffer
+            const decorators = this.decoratorBuffer.length > 0 ? [...this.decoratorBuffer] : undefined;
+            if (decorators) {
+                this.decoratorBuffer = []; // Clear buffer
+            }
+            const tryBlock = parseTry(this.stream, {
+                parseStatement: (s) => this.parseStatementFromStream(s),
+                parseComment: (s) => this.parseCommentFromStream(s),
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            }, decorators);
+            return tryBlock;
+        }
+
+        // Check for 'test'/'describe' block (the name string distinguishes it from test.* commands)
+        if (isTestBlockStart(this.stream)) {
+            // Attach decorators if any are in the buffer
+            const decorators = this.decoratorBuffer.length > 0 ? [...this.decoratorBuffer] : undefined;
+            if (decorators) {
+                this.decoratorBuffer = []; // Clear buffer
+            }
+            const testBlock = parseTestBlock(this.stream, {
+                parseStatement: (s) => this.parseStatementFromStream(s),
+                parseComment: (s) => this.parseCommentFromStream(s),
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            }, decorators);
+            return testBlock;
+        }
+
+        // Check for 'module' block (a name and the end of the line distinguish it from a command named module)
+        if (isModuleBlockStart(this.stream)) {
+            // Attach decorators if any are in the buffer
+            const decorators = this.decoratorBuffer.length > 0 ? [...this.decoratorBuffer] : undefined;
+            if (decorators) {
+                this.decoratorBuffer = []; // Clear buffer
+            }
+            return await parseModuleBlock(this.stream, {
+                parseStatement: (s) => this.parseStatementFromStream(s),
+                parseComment: (s) => this.parseCommentFromStream(s),
+                createCodePosition: (start, end) => ({
+                    startRow: start.line - 1,
+                    startCol: start.column,
+                    endRow: end.line - 1,
+                    endCol: end.column + (end.text.length > 0 ? end.text.length - 1 : 0)
+                })
+            }, decorators);
+        }
+
         // Check for 'do' scope block
         if (currentToken.kind === TokenKind.KEYWORD && currentToken.text === 'do') {
             if (Parser.debug) {
@@ -0,0 +1,378 @@
+/**
+ * Execution profiler for RobinPath scripts
+ *
+ * The executor tells a Profiler when def functions, on handlers and builtins are
+ * entered and left and when statements start and finish. The profiler keeps call
+ * counts and self/total time per function and per source line, and a call tree
+ * that toCpuProfile and toFlameGraph turn into a Chrome .cpuprofile (loadable in
+ * DevTools and speedscope) and d3-flame-graph JSON. Times are in milliseconds.
+ */
+
+import type { Statement, DefineFunction, OnBlock } from '../types/Ast.type';
+
+export type ProfileKind = 'function' | 'event' | 'builtin';
+
+export interface FunctionProfile {
+    kind: ProfileKind;
+    name: string;
+    file: string | null; // null for builtins
+    line: number | null; // 1-based line of the def/on block (null for builtins)
+    calls: number;
+    selfTime: number; // Time not spent in nested calls
+    totalTime: number; // Time including nested calls (recursive calls are counted once)
+}
+
+export interface LineProfile {
+    file: string;
+    line: number; // 1-based
+    count: number; // Statements started on this line
+    selfTime: number; // Time not spent in statements on other lines
+    totalTime: number;
+}
+
+export interface ProfileNode {
+    id: number;
+    kind: ProfileKind | 'root';
+    name: string;
+    file: string | null;
+    line: number | null;
+    calls: number;
+    selfTime: number;
+    totalTime: number;
+    children: ProfileNode[];
+}
+
+export interface ProfilerOptions {
+    now?: () => number; // Clock in milliseconds (defaults to performance.now)
+}
+
+/**
+ * Chrome DevTools CPU profile (times in microseconds)
+ */
+export interface CpuProfile {
+    nodes: {
+        id: number;
+        callFrame: { functionName: string; scriptId: string; url: string; lineNumber: number; columnNumber: number };
+        hitCount: number;
+        children: number[];
+    }[];
+    startTime: number;
+    endTime: number;
+    samples: number[];
+    timeDeltas: number[];
+}
+
+/**
+ * d3-flame-graph node (value is the total time in milliseconds)
+ */
+export interface FlameGraphNode {
+    name: string;
+    value: number;
+    children: FlameGraphNode[];
+}
+
+interface Timing {
+    selfTime: number;
+    totalTime: number;
+    active: number; // Entries currently running (total time is added when the outermost one ends)
+}
+
+interface CallNode extends Timing {
+    id: number;
+    calls: number;
+    kind: ProfileKind | 'root';
+    name: string;
+    file: string | null;
+    line: number | null;
+    children: Map<string, CallNode>;
+}
+
+/**
+ * A running call or statement (returned by enterCall/enterLine and passed back to exit)
+ */
+export interface ProfileFrame {
+    readonly file: string | null; // File the call's statements belong to
+    readonly parent: ProfileFrame | null;
+}
+
+interface ActiveFrame extends ProfileFrame {
+    readonly parent: ActiveFrame | null;
+    timing: Timing;
+    node: CallNode | null; // Call tree node (null for lines)
+    startedAt: number;
+    childTime: number;
+}
+
+// File name for scripts run without one
+const DEFAULT_FILE = 'script';
+
+export class Profiler {
+    private now: () => number;
+    private functions = new Map<string, FunctionProfile & { active: number }>();
+    private lines = new Map<string, LineProfile & { active: number }>();
+    private files = new WeakMap<object, string | null>();
+    private root: CallNode;
+    private nextId = 1;
+    private startTime: number | null = null;
+    private lastTime = 0;
+    private samples: number[] = [];
+    private sampleTimes: number[] = [];
+
+    constructor(options: ProfilerOptions = {}) {
+        this.now = options.now ?? (() => performance.now());
+        this.root = this.createNode('root', '(root)', null, null);
+    }
+
+    /**
+     * Register the def/on blocks of a script so that their lines are attributed to
+     * its file, also when they are called from another script
+     */
+    addScript(file: string | null, statements: Statement[]): void {
+        for (const stmt of statements) {
+            if (stmt.type === 'define' || stmt.type === 'onBlock') {
+                this.files.set(stmt, file);
+            }
+        }
+    }
+
+    /**
+     * File a def/on block was registered with (undefined when it was not)
+     */
+    getFile(block: DefineFunction | OnBlock): string | null | undefined {
+        return this.files.get(block);
+    }
+
+    /**
+     * Start timing a call of a def function, on handler or builtin
+     * @param parent Call that makes this one (null at the top level)
+     * @param line 1-based line of the def/on block (null for builtins)
+     */
+    enterCall(parent: ProfileFrame | null, kind: ProfileKind, name: string, file: string | null, line: number | null): ProfileFrame {
+        const key = kind === 'builtin' ? `builtin:${name}` : `${kind}:${name}@${file ?? DEFAULT_FILE}:${line ?? 0}`;
+        let timing = this.functions.get(key);
+        if (!timing) {
+            timing = { kind, name, file, line, calls: 0, selfTime: 0, totalTime: 0, active: 0 };
+            this.functions.set(key, timing);
+        }
+
+        const parentNode = (parent as ActiveFrame | null)?.node ?? this.root;
+        let node = parentNode.children.get(key);
+        if (!node) {
+            node = this.createNode(kind, name, file, line);
+            parentNode.children.set(key, node);
+        }
+
+        timing.calls++;
+        node.calls++;
+        // Statements in builtin callbacks (with blocks) belong to the caller's file
+        const frame = this.start(parent as ActiveFrame | null, timing, node, kind === 'builtin' ? parent?.file ?? file : file);
+        this.sample(node);
+        return frame;
+    }
+
+    /**
+     * Start timing a statement
+     * @param parent Statement this one is nested in (null at the top level)
+     * @param line 1-based line the statement starts on
+     */
+    enterLine(parent: ProfileFrame | null, file: string | null, line: number): ProfileFrame {
+        const name = file ?? DEFAULT_FILE;
+        const key = `${name}:${line}`;
+        let timing = this.lines.get(key);
+        if (!timing) {
+            timing = { file: name, line, count: 0, selfTime: 0, totalTime: 0, active: 0 };
+            this.lines.set(key, timing);
+        }
+        timing.count++;
+        return this.start(parent as ActiveFrame | null, timing, null, file);
+    }
+
+    /**
+     * Stop timing a call or statement started by enterCall/enterLine
+     */
+    exit(handle: ProfileFrame): void {
+        const frame = handle as ActiveFrame;
+        const now = this.now();
+        const elapsed = now - frame.startedAt;
+        frame.timing.selfTime += Math.max(0, elapsed - frame.childTime);
+        frame.timing.active--;
+        if (frame.timing.active === 0) {
+            frame.timing.totalTime += elapsed;
+        }
+        if (frame.node) {
+            frame.node.selfTime += Math.max(0, elapsed - frame.childTime);
+            frame.node.totalTime += elapsed;
+            this.sample(frame.parent?.node ?? this.root, now);
+        }
+        if (frame.parent) {
+            frame.parent.childTime += elapsed;
+        }
+        this.lastTime = now;
+    }
+
+    /**
+     * Profiles of every def function, on handler and builtin that was called
+     * (most self time first)
+     */
+    getFunctions(): FunctionProfile[] {
+        return [...this.functions.values()]
+            .map(({ active: _active, ...profile }) => profile)
+            .sort((a, b) => b.selfTime - a.selfTime || a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Profiles of every source line that ran (sorted by file and line)
+     */
+    getLines(): LineProfile[] {
+        return [...this.lines.values()]
+            .map(({ active: _active, ...profile }) => profile)
+            .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+    }
+
+    /**
+     * Call tree of the profiled runs; the root's time is the whole profiled span
+     */
+    getCallTree(): ProfileNode {
+        const span = this.getDuration();
+        const convert = (node: CallNode): ProfileNode => {
+            const children = [...node.children.values()].map(convert);
+            const root = node === this.root;
+            return {
+                id: node.id,
+                kind: node.kind,
+                name: node.name,
+                file: node.file,
+                line: node.line,
+                calls: node.calls,
+                selfTime: root ? Math.max(0, span - children.reduce((sum, child) => sum + child.totalTime, 0)) : node.selfTime,
+                totalTime: root ? span : node.totalTime,
+                children
+            };
+        };
+        return convert(this.root);
+    }
+
+    /**
+     * Time from the first profiled event to the last one
+     */
+    getDuration(): number {
+        return this.startTime === null ? 0 : this.lastTime - this.startTime;
+    }
+
+    /**
+     * Start time, node ids and times of the samples: a sample is taken whenever the
+     * running call changes and stands for the time until the next one
+     */
+    getSamples(): { startTime: number; endTime: number; samples: number[]; times: number[] } {
+        const startTime = this.startTime ?? 0;
+        return { startTime, endTime: this.startTime === null ? 0 : this.lastTime, samples: [...this.samples], times: [...this.sampleTimes] };
+    }
+
+    private createNode(kind: ProfileKind | 'root', name: string, file: string | null, line: number | null): CallNode {
+        return { id: this.nextId++, kind, name, file, line, calls: 0, selfTime: 0, totalTime: 0, active: 0, children: new Map() };
+    }
+
+    private start(parent: ActiveFrame | null, timing: Timing, node: CallNode | null, file: string | null): ActiveFrame {
+        const now = this.now();
+        if (this.startTime === null) {
+            this.startTime = now;
+            this.sample(this.root, now);
+        }
+        this.lastTime = now;
+        timing.active++;
+        return { file, parent, timing, node, startedAt: now, childTime: 0 };
+    }
+
+    private sample(node: CallNode, time: number = this.lastTime): void {
+        if (this.samples[this.samples.length - 1] === node.id) {
+            return;
+        }
+        this.samples.push(node.id);
+        this.sampleTimes.push(time);
+    }
+}
+
+/**
+ * Chrome .cpuprofile of a profiler's call tree (JSON.stringify it and load it in the
+ * Performance panel of DevTools or in speedscope)
+ */
+export function toCpuProfile(profiler: Profiler): CpuProfile {
+    const tree = profiler.getCallTree();
+    const { startTime, endTime, samples, times } = profiler.getSamples();
+    const hitCounts = new Map<number, number>();
+    for (const id of samples) {
+        hitCounts.set(id, (hitCounts.get(id) ?? 0) + 1);
+    }
+
+    const scriptIds = new Map<string, number>();
+    const scriptId = (file: string) => {
+        if (!scriptIds.has(file)) scriptIds.set(file, scriptIds.size + 1);
+        return String(scriptIds.get(file));
+    };
+
+    const nodes: CpuProfile['nodes'] = [];
+    const visit = (node: ProfileNode) => {
+        nodes.push({
+            id: node.id,
+            callFrame: {
+                functionName: node.name,
+                scriptId: node.file === null ? '0' : scriptId(node.file),
+                url: node.file ?? '',
+                lineNumber: node.line === null ? -1 : node.line - 1,
+                columnNumber: node.line === null ? -1 : 0
+            },
+            hitCount: hitCounts.get(node.id) ?? 0,
+            children: node.children.map(child => child.id)
+        });
+        node.children.forEach(visit);
+    };
+    visit(tree);
+
+    const toMicroseconds = (ms: number) => Math.round(ms * 1000);
+    const timeDeltas = times.map((time, index) => toMicroseconds(time) - toMicroseconds(index === 0 ? startTime : times[index - 1]));
+    return { nodes, startTime: toMicroseconds(startTime), endTime: toMicroseconds(endTime), samples, timeDeltas };
+}
+
+/**
+ * d3-flame-graph JSON of a profiler's call tree
+ */
+export function toFlameGraph(profiler: Profiler): FlameGraphNode {
+    const convert = (node: ProfileNode): FlameGraphNode => ({
+        name: node.kind === 'root' || node.kind === 'builtin' ? node.name : `${node.name} (${node.file ?? DEFAULT_FILE}:${node.line})`,
+        value: node.totalTime,
+        children: node.children.map(convert)
+    });
+    return convert(profiler.getCallTree());
+}
+
+function formatTime(ms: number): string {
+    return `${ms.toFixed(2)}ms`;
+}
+
+function formatTable(header: string[], rows: string[][]): string[] {
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const formatRow = (row: string[]) => row.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join('  ');
+    return [formatRow(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(formatRow)];
+}
+
+/**
+ * Text tables of the functions and lines with the most self time
+ * @param limit Rows per table
+ */
+export function formatProfileSummary(profiler: Profiler, limit: number = 10): string {
+    const functions = profiler.getFunctions().slice(0, limit).map(func => [
+        func.kind === 'builtin' ? func.name : `${func.name} (${func.file ?? DEFAULT_FILE}:${func.line})`,
+        String(func.calls), formatTime(func.selfTime), formatTime(func.totalTime)
+    ]);
+    const lines = profiler.getLines()
+        .sort((a, b) => b.selfTime - a.selfTime)
+        .slice(0, limit)
+        .map(line => [`${line.file}:${line.line}`, String(line.count), formatTime(line.selfTime), formatTime(line.totalTime)]);
+    return [
+        `Profiled ${formatTime(profiler.getDuration())}`,
+        '',
+        ...formatTable(['Function', 'Calls', 'Self', 'Total'], functions),
+        '',
+        ...formatTable(['Line', 'Count', 'Self', 'Total'], lines)
+    ].join('\n') + '\n';
+}
@@ -7,8 +7,16 @@ import { Parser } from './Parser';
 import { Executor } from './Executor';
 import { ExecutionStateTracker } from './ExecutionStateTracker';
 import { ASTSerializer } from './ASTSerializer';
+import { Debugger } from './Debugger';
+import { consoleOutput, type OutputSink } from './Output';
+import type { CapabilityPolicy } from './Capabilities';
+import type { FetchTransport } from './Transport';
+import { Tracer, type TraceSink } from './Trace';
+import { ModuleRegistry } from './Modules';
 import type { 
     Environment, 
+    ExecutionLimits,
+    ExecuteOptions,
     Statement, 
     Arg,
     OnBlock
@@ -21,10 +29,22 @@ export class RobinPathThread {
     public readonly id: string;
     private parent: RobinPath | null = null;
     private serializer: ASTSerializer;
-
-    constructor(baseEnvironment: Environment, id: string, parent?: RobinPath) {
+    private limits: ExecutionLimits | null;
+    private output: OutputSink;
+    private capabilities: CapabilityPolicy | null;
+    private transport: FetchTransport | null;
+    private trace: TraceSink | null;
+    private modules: ModuleRegistry;
+
+    constructor(baseEnvironment: Environment, id: string, parent?: RobinPath, options?: { limits?: ExecutionLimits; output?: OutputSink; capabilities?: CapabilityPolicy; transport?: FetchTransport; trace?: TraceSink; modules?: ModuleRegistry }) {
         this.id = id;
         this.parent = parent || null;
+        this.limits = options?.limits ?? null;
+        this.output = options?.output ?? consoleOutput;
+        this.capabilities = options?.capabilities ?? null;
+        this.transport = options?.transport ?? null;
+        this.trace = options?.trace ?? null;
+        this.modules = options?.modules ?? new ModuleRegistry();
         // Create a thread-local environment:
         // - new variables map
         // - new functions map (user-defined)
@@ -36,13 +56,16 @@ export class RobinPathThread {
             builtins: baseEnvironment.builtins,       // shared
             decorators: baseEnvironment.decorators,   // shared (runtime decorators)
             parseDecorators: baseEnvironment.parseDecorators, // shared (parse-time decorators)
+            wrapDecorators: baseEnvironment.wrapDecorators, // shared (wrapping runtime decorators)
+            decoratorMetadata: baseEnvironment.decoratorMetadata, // shared
             metadata: baseEnvironment.metadata,       // shared
             moduleMetadata: baseEnvironment.moduleMetadata, // shared
             currentModule: null,                       // per-thread module context
             variableMetadata: new Map(),              // per-thread variable metadata
             functionMetadata: new Map(),              // per-thread function metadata
             constants: new Set(),                     // per-thread constants
-            eventHandlers: new Map()                  // per-thread event handlers
+            eventHandlers: new Map(),                 // per-thread event handlers
+            imports: new Map()                        // per-thread imported namespaces
         };
 
         this.executor = new Executor(this.environment, this);
@@ -51,10 +74,10 @@ export class RobinPathThread {
 
     /**
      * Check if a script needs more input (incomplete block)
-     * Returns { needsMore: true, waitingFor: 'endif' | 'enddef' | 'endfor' | 'enddo' | 'subexpr' | 'paren' | 'object' | 'array' } if incomplete,
+     * Returns { needsMore: true, waitingFor: 'endif' | 'enddef' | 'endfor' | 'endwhile' | 'until' | 'enddo' | 'endtry' | 'endtest' | 'enddescribe' | 'endmodule' | 'subexpr' | 'paren' | 'object' | 'array' } if incomplete,
      * or { needsMore: false } if complete.
      */
-    async needsMoreInput(script: string): Promise<{ needsMore: boolean; waitingFor?: 'endif' | 'enddef' | 'endfor' | 'enddo' | 'subexpr' | 'paren' | 'object' | 'array' }> {
+    async needsMoreInput(script: string): Promise<{ needsMore: boolean; waitingFor?: 'endif' | 'enddef' | 'endfor' | 'endwhile' | 'until' | 'enddo' | 'endtry' | 'endtest' | 'enddescribe' | 'endmodule' | 'subexpr' | 'paren' | 'object' | 'array' }> {
         try {
             // Parser now handles the full source directly (including logical line splitting via tokenization)
             const parser = new Parser(script);
@@ -73,9 +96,27 @@ export class RobinPathThread {
             if (errorMessage.includes('missing endfor')) {
                 return { needsMore: true, waitingFor: 'endfor' };
             }
+            if (errorMessage.includes('missing endwhile')) {
+                return { needsMore: true, waitingFor: 'endwhile' };
+            }
+            if (errorMessage.includes('missing until')) {
+                return { needsMore: true, waitingFor: 'until' };
+            }
             if (errorMessage.includes('missing enddo')) {
                 return { needsMore: true, waitingFor: 'enddo' };
             }
+            if (errorMessage.includes('missing endtry')) {
+                return { needsMore: true, waitingFor: 'endtry' };
+            }
+            if (errorMessage.includes('missing endtest')) {
+                return { needsMore: true, waitingFor: 'endtest' };
+            }
+            if (errorMessage.includes('missing enddescribe')) {
+                return { needsMore: true, waitingFor: 'enddescribe' };
+            }
+            if (errorMessage.includes('missing endmodule')) {
+                return { needsMore: true, waitingFor: 'endmodule' };
+            }
             
             // NEW: unclosed $( ... ) subexpression – keep reading lines
             if (errorMessage.includes('unclosed subexpression')) {
@@ -105,8 +146,9 @@ export class RobinPathThread {
 
     /**
      * Execute a RobinPath script in this thread
+     * @param options.signal AbortSignal that cancels the run
      */
-    async executeScript(script: string): Promise<Value> {
+    async executeScript(script: string, options?: ExecuteOptions): Promise<Value> {
         // Parser now handles source directly via TokenStream
         // Pass environment to parser so it can execute parse decorators
         const parser = new Parser(script, this.environment);
@@ -137,6 +179,17 @@ export class RobinPathThread {
             }
         }
         
+        this.executor.setLimits(this.limits);
+        this.executor.setSignal(options?.signal ?? null);
+        this.executor.setOutput(options?.output ?? this.output);
+        this.executor.setCapabilities(this.capabilities);
+        this.executor.setTransport(this.transport);
+        this.executor.setCoverage(options?.coverage ?? null);
+        this.executor.setProfiler(options?.profiler ?? null, options?.file ?? null);
+        this.executor.setTracer(this.createTracer(options));
+        this.executor.setModules(this.modules, options?.file ?? null);
+        options?.coverage?.addScript(options.file ?? null, [...statements, ...extractedFunctions, ...extractedEventHandlers]);
+        options?.profiler?.addScript(options.file ?? null, [...extractedFunctions, ...extractedEventHandlers]);
         const result = await this.executor.execute(statements);
         return result;
     }
@@ -144,7 +197,7 @@ export class RobinPathThread {
     /**
      * Execute a single line in this thread (for REPL)
      */
-    async executeLine(line: string): Promise<Value> {
+    async executeLine(line: string, options?: ExecuteOptions): Promise<Value> {
         // Parser now handles source directly via TokenStream
         const parser = new Parser(line);
         const statements = await parser.parse();
@@ -164,10 +217,23 @@ export class RobinPathThread {
             this.environment.eventHandlers.set(handler.eventName, handlers);
         }
         
+        this.executor.setLimits(this.limits);
+        this.executor.setSignal(options?.signal ?? null);
+        this.executor.setOutput(options?.output ?? this.output);
+        this.executor.setCapabilities(this.capabilities);
+        this.executor.setTransport(this.transport);
+        this.executor.setTracer(this.createTracer(options));
+        this.executor.setModules(this.modules, options?.file ?? null);
         const result = await this.executor.execute(statements);
         return result;
     }
 
+    // One tracer (trace id) per run
+    private createTracer(options?: ExecuteOptions): Tracer | null {
+        const trace = options?.trace ?? this.trace;
+        return trace ? new Tracer(trace) : null;
+    }
+
     /**
      * Get the last value ($) from this thread
      */
@@ -175,6 +241,84 @@ export class RobinPathThread {
         return this.executor.getCurrentFrame().lastValue;
     }
 
+    /**
+     * Attach a step-through debugger to this thread's executor
+     * @param debuggerInstance Debugger to attach (a new one is created if omitted)
+     * @returns The attached debugger
+     */
+    attachDebugger(debuggerInstance?: Debugger): Debugger {
+        const attached = debuggerInstance ?? new Debugger();
+        this.executor.setDebugger(attached);
+        return attached;
+    }
+
+    /**
+     * Detach the current debugger from this thread
+     */
+    detachDebugger(): void {
+        this.executor.setDebugger(null);
+    }
+
+    getDebugger(): Debugger | null {
+        return this.executor.getDebugger();
+    }
+
+    /**
+     * Set the execution limits applied to subsequent runs in this thread
+     * @param limits Limits to enforce, or null to remove all limits
+     */
+    setLimits(limits: ExecutionLimits | null): void {
+        this.limits = limits;
+    }
+
+    getLimits(): ExecutionLimits | null {
+        return this.limits;
+    }
+
+    /**
+     * Set the sink that receives the output of subsequent runs in this thread
+     */
+    setOutput(output: OutputSink): void {
+        this.output = output;
+    }
+
+    getOutput(): OutputSink {
+        return this.output;
+    }
+
+    /**
+     * Set the capability policy applied to subsequent runs in this thread (null grants everything)
+     */
+    setCapabilities(policy: CapabilityPolicy | null): void {
+        this.capabilities = policy;
+    }
+
+    getCapabilities(): CapabilityPolicy | null {
+        return this.capabilities;
+    }
+
+    /**
+     * Set the transport fetch.* uses in subsequent runs in this thread (null: the network)
+     */
+    setTransport(transport: FetchTransport | null): void {
+        this.transport = transport;
+    }
+
+    getTransport(): FetchTransport | null {
+        return this.transport;
+    }
+
+    /**
+     * Set the sink that receives the trace events of subsequent runs in this thread (null turns tracing off)
+     */
+    setTrace(trace: TraceSink | null): void {
+        this.trace = trace;
+    }
+
+    getTrace(): TraceSink | null {
+        return this.trace;
+    }
+
     /**
      * Get a variable value from this thread
      */
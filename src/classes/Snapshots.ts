@@ -0,0 +1,198 @@
+/**
+ * Snapshot storage for test.assertSnapshot
+ *
+ * A SnapshotStore holds the named snapshots of one script (the CLI keeps them in a
+ * sidecar file next to it, "<script>.snap"). The first check of a name records the
+ * value; later checks compare against it. In update mode mismatching snapshots are
+ * overwritten instead of failing.
+ */
+
+import type { Value } from '../utils/types';
+
+export type SnapshotStatus = 'matched' | 'added' | 'updated' | 'failed';
+
+export interface SnapshotCheck {
+    status: SnapshotStatus;
+    expected: Value; // Stored snapshot (the new value for added snapshots)
+    actual: Value; // Checked value (as stored: a JSON copy)
+}
+
+export interface SnapshotSummary {
+    matched: number;
+    added: number;
+    updated: number;
+    failed: number;
+    obsolete: number; // Stored snapshots no check used in this run
+}
+
+export interface SnapshotStoreOptions {
+    update?: boolean; // Overwrite mismatching snapshots instead of failing
+}
+
+// Lines of unchanged JSON shown around each change in a diff
+const DIFF_CONTEXT = 2;
+
+export class SnapshotStore {
+    private snapshots: Map<string, Value>;
+    private checked = new Map<string, SnapshotStatus>();
+    private changed = false;
+    readonly update: boolean;
+
+    constructor(snapshots: Record<string, Value> = {}, options: SnapshotStoreOptions = {}) {
+        this.snapshots = new Map(Object.entries(snapshots));
+        this.update = options.update ?? false;
+    }
+
+    /**
+     * Read a store from the contents of a snapshot file
+     */
+    static parse(text: string, options: SnapshotStoreOptions = {}): SnapshotStore {
+        const data = JSON.parse(text);
+        if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+            throw new Error('Snapshot file must contain a JSON object');
+        }
+        return new SnapshotStore(data, options);
+    }
+
+    /**
+     * Compare a value with the named snapshot (recording it if there is none yet)
+     * @param equals Comparison of the stored snapshot with the value (defaults to comparing their JSON)
+     */
+    check(name: string, value: Value, equals: (expected: Value, actual: Value) => boolean = jsonEqual): SnapshotCheck {
+        const actual = toSnapshotValue(value);
+        let status: SnapshotStatus;
+        let expected: Value;
+        if (!this.snapshots.has(name)) {
+            status = 'added';
+            expected = actual;
+        } else {
+            expected = this.snapshots.get(name) as Value;
+            if (equals(expected, actual)) {
+                status = 'matched';
+            } else {
+                status = this.update ? 'updated' : 'failed';
+            }
+        }
+        if (status === 'added' || status === 'updated') {
+            this.snapshots.set(name, actual);
+            this.changed = true;
+        }
+        // A name checked several times keeps its worst outcome
+        if (this.checked.get(name) !== 'failed') {
+            this.checked.set(name, status);
+        }
+        return { status, expected, actual };
+    }
+
+    get(name: string): Value | undefined {
+        return this.snapshots.get(name);
+    }
+
+    /**
+     * Remove the snapshots no check used in this run; returns their names
+     */
+    pruneObsolete(): string[] {
+        const obsolete = this.getObsolete();
+        for (const name of obsolete) {
+            this.snapshots.delete(name);
+            this.changed = true;
+        }
+        return obsolete;
+    }
+
+    /**
+     * Names of stored snapshots no check used in this run
+     */
+    getObsolete(): string[] {
+        return [...this.snapshots.keys()].filter(name => !this.checked.has(name));
+    }
+
+    /**
+     * True when snapshots were added, updated or pruned (the file needs to be written)
+     */
+    isChanged(): boolean {
+        return this.changed;
+    }
+
+    isEmpty(): boolean {
+        return this.snapshots.size === 0;
+    }
+
+    summary(): SnapshotSummary {
+        const summary: SnapshotSummary = { matched: 0, added: 0, updated: 0, failed: 0, obsolete: this.getObsolete().length };
+        for (const status of this.checked.values()) {
+            summary[status]++;
+        }
+        return summary;
+    }
+
+    /**
+     * Contents of the snapshot file (snapshots sorted by name)
+     */
+    serialize(): string {
+        const data: Record<string, Value> = {};
+        for (const name of [...this.snapshots.keys()].sort()) {
+            data[name] = this.snapshots.get(name) as Value;
+        }
+        return JSON.stringify(data, null, 2) + '\n';
+    }
+}
+
+// Snapshots are stored as JSON, so values are compared in the form they are read back in
+function toSnapshotValue(value: Value): Value {
+    return value === undefined ? null : JSON.parse(JSON.stringify(value) ?? 'null');
+}
+
+function jsonEqual(expected: Value, actual: Value): boolean {
+    return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+/**
+ * Line diff of two values' JSON ("- " expected only, "+ " actual only), with a few
+ * unchanged lines of context around each change
+ */
+export function formatSnapshotDiff(expected: Value, actual: Value): string {
+    const before = (JSON.stringify(expected, null, 2) ?? 'null').split('\n');
+    const after = (JSON.stringify(actual, null, 2) ?? 'null').split('\n');
+
+    // Longest common subsequence table (lengths of the suffixes)
+    const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lengths[i][j] = before[i] === after[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const lines: { prefix: ' ' | '-' | '+'; text: string }[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length || j < after.length) {
+        if (i < before.length && j < after.length && before[i] === after[j]) {
+            lines.push({ prefix: ' ', text: before[i++] });
+            j++;
+        } else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+            lines.push({ prefix: '-', text: before[i++] });
+        } else {
+            lines.push({ prefix: '+', text: after[j++] });
+        }
+    }
+
+    // Keep only the context around changes
+    const output: string[] = [];
+    let skipped = false;
+    lines.forEach((line, index) => {
+        const nearChange = lines
+            .slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT + 1)
+            .some(other => other.prefix !== ' ');
+        if (nearChange) {
+            output.push(`${line.prefix} ${line.text}`);
+            skipped = false;
+        } else if (!skipped) {
+            output.push('  ...');
+            skipped = true;
+        }
+    });
+    return output.join('\n');
+}
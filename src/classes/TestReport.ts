@@ -0,0 +1,230 @@
+/**
+ * Results of test/describe blocks and reporters for them (TAP, JUnit XML, JSON, spec)
+ *
+ * Every `test "name" ... endtest` block that runs produces a TestResult. A failing
+ * assertion fails only its own test; the run continues with the next statement.
+ * RobinPath.runTests collects the results of one script into a TestReport.
+ */
+
+import type { CodePosition } from '../types/Ast.type';
+import type { ErrorCode } from './errors';
+import type { SnapshotSummary } from './Snapshots';
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestFailure {
+    name: string; // Error class name (e.g. "RuntimeError")
+    message: string;
+    code: ErrorCode;
+    codePos: CodePosition | null; // Statement that failed
+}
+
+export interface TestResult {
+    name: string;
+    path: string[]; // Names of the enclosing describe blocks, outermost first
+    fullName: string; // path and name joined with ' > '
+    status: TestStatus;
+    duration: number; // Milliseconds
+    codePos: CodePosition; // Position of the test block
+    error?: TestFailure; // Set for failed tests
+    skipReason?: string; // Set for skipped tests (test.skip "reason")
+}
+
+export interface TestReport {
+    file: string | null; // Script file name (as given to runTests)
+    results: TestResult[];
+    passed: number;
+    failed: number;
+    skipped: number;
+    duration: number; // Milliseconds for the whole script
+    error?: TestFailure; // Error outside any test block (parse errors, failing setup code, ...)
+    snapshots?: SnapshotSummary; // Set when the script ran with a snapshot store
+}
+
+export type TestReporter = 'spec' | 'tap' | 'junit' | 'json';
+
+/**
+ * Build a report (with counts) from the results of one script
+ */
+export function createTestReport(file: string | null, results: TestResult[], duration: number, error?: TestFailure): TestReport {
+    const report: TestReport = {
+        file,
+        results,
+        passed: results.filter(result => result.status === 'passed').length,
+        failed: results.filter(result => result.status === 'failed').length,
+        skipped: results.filter(result => result.status === 'skipped').length,
+        duration
+    };
+    if (error) {
+        report.error = error;
+    }
+    return report;
+}
+
+/**
+ * True when every test passed (or was skipped) and no script failed outside its tests
+ */
+export function testReportsPassed(reports: TestReport[]): boolean {
+    return reports.every(report => report.failed === 0 && !report.error);
+}
+
+/**
+ * Format the reports of one or more scripts with the given reporter
+ */
+export function formatTestReports(reports: TestReport[], reporter: TestReporter = 'spec'): string {
+    switch (reporter) {
+        case 'tap':
+            return formatTap(reports);
+        case 'junit':
+            return formatJUnit(reports);
+        case 'json':
+            return JSON.stringify(reports, null, 2) + '\n';
+        case 'spec':
+            return formatSpec(reports);
+        default:
+            throw new Error(`Unknown test reporter: ${reporter}`);
+    }
+}
+
+// 1-based "line:column" of a failure (for human-readable output)
+function formatLocation(codePos: CodePosition | null, file: string | null): string {
+    const position = codePos ? `${codePos.startRow + 1}:${codePos.startCol + 1}` : '';
+    if (file && position) return `${file}:${position}`;
+    return file ?? position;
+}
+
+function formatSpec(reports: TestReport[]): string {
+    const lines: string[] = [];
+    let passed = 0;
+    let failed = 0;
+    let skipped = 0;
+    const snapshots: SnapshotSummary = { matched: 0, added: 0, updated: 0, failed: 0, obsolete: 0 };
+    for (const report of reports) {
+        if (report.file) {
+            lines.push(report.file);
+        }
+        for (const result of report.results) {
+            if (result.status === 'passed') {
+                lines.push(`  ✓ ${result.fullName} (${result.duration}ms)`);
+            } else if (result.status === 'skipped') {
+                lines.push(`  - ${result.fullName} (skipped${result.skipReason ? `: ${result.skipReason}` : ''})`);
+            } else {
+                lines.push(`  ✗ ${result.fullName}`);
+                // Multi-line messages (e.g. snapshot diffs) keep the location on their first line
+                const [first, ...rest] = (result.error?.message ?? 'failed').split('\n');
+                lines.push(`      ${first} (${formatLocation(result.error?.codePos ?? null, report.file)})`);
+                lines.push(...rest.map(line => `      ${line}`));
+            }
+        }
+        if (report.error) {
+            lines.push(`  ✗ ${report.error.name}: ${report.error.message} (${formatLocation(report.error.codePos, report.file)})`);
+            failed++;
+        }
+        passed += report.passed;
+        failed += report.failed;
+        skipped += report.skipped;
+        if (report.snapshots) {
+            for (const key of Object.keys(snapshots) as (keyof SnapshotSummary)[]) {
+                snapshots[key] += report.snapshots[key];
+            }
+        }
+    }
+    lines.push('');
+    lines.push(`${passed} passed, ${failed} failed, ${skipped} skipped`);
+    if (Object.values(snapshots).some(count => count > 0)) {
+        lines.push(`Snapshots: ${snapshots.matched} matched, ${snapshots.added} added, ${snapshots.updated} updated, ${snapshots.failed} failed, ${snapshots.obsolete} obsolete`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+function formatTap(reports: TestReport[]): string {
+    const lines: string[] = ['TAP version 13'];
+    let count = 0;
+    for (const report of reports) {
+        const prefix = report.file ? `${report.file} > ` : '';
+        for (const result of report.results) {
+            count++;
+            const description = `${prefix}${result.fullName}`;
+            if (result.status === 'skipped') {
+                lines.push(`ok ${count} - ${description} # SKIP${result.skipReason ? ` ${result.skipReason}` : ''}`);
+            } else if (result.status === 'passed') {
+                lines.push(`ok ${count} - ${description}`);
+            } else {
+                lines.push(`not ok ${count} - ${description}`);
+                lines.push(...formatTapDiagnostics(result.error, report.file));
+            }
+        }
+        if (report.error) {
+            count++;
+            lines.push(`not ok ${count} - ${prefix}(script error)`);
+            lines.push(...formatTapDiagnostics(report.error, report.file));
+        }
+    }
+    lines.push(`1..${count}`);
+    return lines.join('\n') + '\n';
+}
+
+function formatTapDiagnostics(error: TestFailure | undefined, file: string | null): string[] {
+    if (!error) return [];
+    const lines = ['  ---', `  message: ${JSON.stringify(error.message)}`, `  code: ${error.code}`];
+    if (error.codePos) {
+        lines.push(`  line: ${error.codePos.startRow + 1}`, `  column: ${error.codePos.startCol + 1}`);
+    }
+    if (file) {
+        lines.push(`  file: ${JSON.stringify(file)}`);
+    }
+    lines.push('  ...');
+    return lines;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function formatJUnit(reports: TestReport[]): string {
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+    const totals = reports.reduce((sum, report) => ({
+        tests: sum.tests + report.results.length + (report.error ? 1 : 0),
+        failures: sum.failures + report.failed,
+        errors: sum.errors + (report.error ? 1 : 0),
+        skipped: sum.skipped + report.skipped,
+        duration: sum.duration + report.duration
+    }), { tests: 0, failures: 0, errors: 0, skipped: 0, duration: 0 });
+
+    const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+    lines.push(`<testsuites tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" skipped="${totals.skipped}" time="${seconds(totals.duration)}">`);
+    for (const report of reports) {
+        const suiteName = escapeXml(report.file ?? 'script');
+        const tests = report.results.length + (report.error ? 1 : 0);
+        lines.push(`  <testsuite name="${suiteName}" tests="${tests}" failures="${report.failed}" errors="${report.error ? 1 : 0}" skipped="${report.skipped}" time="${seconds(report.duration)}">`);
+        for (const result of report.results) {
+            const className = escapeXml([report.file ?? 'script', ...result.path].join(' > '));
+            const open = `    <testcase name="${escapeXml(result.name)}" classname="${className}" time="${seconds(result.duration)}"`;
+            if (result.status === 'passed') {
+                lines.push(`${open}/>`);
+            } else if (result.status === 'skipped') {
+                lines.push(`${open}>`);
+                lines.push(result.skipReason ? `      <skipped message="${escapeXml(result.skipReason)}"/>` : '      <skipped/>');
+                lines.push('    </testcase>');
+            } else {
+                const error = result.error;
+                lines.push(`${open}>`);
+                lines.push(`      <failure message="${escapeXml(error?.message ?? 'failed')}" type="${escapeXml(error?.code ?? 'RUNTIME_ERROR')}">${escapeXml(formatLocation(error?.codePos ?? null, report.file))}</failure>`);
+                lines.push('    </testcase>');
+            }
+        }
+        if (report.error) {
+            lines.push(`    <testcase name="(script error)" classname="${suiteName}" time="0.000">`);
+            lines.push(`      <error message="${escapeXml(report.error.message)}" type="${escapeXml(report.error.code)}">${escapeXml(formatLocation(report.error.codePos, report.file))}</error>`);
+            lines.push('    </testcase>');
+        }
+        lines.push('  </testsuite>');
+    }
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+}
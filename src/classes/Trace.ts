@@ -0,0 +1,313 @@
+/**
+ * Structured trace events of a run (what a script did, step by step)
+ *
+ * When a TraceSink is set, the executor reports every statement it starts and
+ * finishes, every builtin/def call with its evaluated arguments and result, every
+ * variable it sets, triggered events, together branches and errors. Statements,
+ * calls and together branches are spans: they get a spanId and name the span they
+ * run in as parentSpanId, so the events of a run form a tree (toOtelSpans turns
+ * them into OpenTelemetry spans). Values are passed to the sink as-is; a sink that
+ * keeps events after write returns should copy them (TraceCollector does).
+ */
+
+import type { Value, AttributePathSegment } from '../utils/types';
+import type { Statement, CodePosition } from '../types/Ast.type';
+
+export type TraceEventData =
+    | { type: 'statementStart'; parentSpanId: string | null; statement: Statement['type']; codePos: CodePosition }
+    | { type: 'statementEnd'; statement: Statement['type']; codePos: CodePosition; lastValue: Value; duration: number; failed: boolean }
+    | { type: 'commandCall'; parentSpanId: string | null; kind: 'builtin' | 'function'; name: string; args: Value[]; result: Value; startTime: number; duration: number; failed: boolean }
+    | { type: 'variableSet'; name: string; path: string | null; value: Value } // path: ".a[0]" for $x.a[0] = ...
+    | { type: 'eventTriggered'; event: string; args: Value[]; handlers: number }
+    | { type: 'togetherBranchStart'; parentSpanId: string | null; branch: number; codePos: CodePosition }
+    | { type: 'togetherBranchEnd'; branch: number; codePos: CodePosition; duration: number; failed: boolean }
+    | { type: 'error'; name: string; message: string; code?: string; codePos: CodePosition | null };
+
+export type TraceEventType = TraceEventData['type'];
+
+export interface TraceEventBase {
+    traceId: string; // Same for every event of a run
+    spanId: string | null; // Span of a statement/call/branch event, or the span an other event happened in
+    timestamp: number; // Milliseconds since the epoch (fractional)
+}
+
+export type TraceEvent = TraceEventData & TraceEventBase;
+
+export interface TraceSink {
+    write(event: TraceEvent): void;
+}
+
+/**
+ * Hands out the span ids of one run and stamps its events
+ */
+export class Tracer {
+    readonly traceId: string;
+    private sink: TraceSink;
+    private nextSpanId = 1;
+    private reportedErrors = new WeakSet<object>();
+
+    constructor(sink: TraceSink) {
+        this.sink = sink;
+        this.traceId = randomHex(32);
+    }
+
+    /**
+     * Current time in milliseconds since the epoch
+     */
+    now(): number {
+        return performance.timeOrigin + performance.now();
+    }
+
+    startSpan(): string {
+        return (this.nextSpanId++).toString(16).padStart(16, '0');
+    }
+
+    emit(event: TraceEventData, spanId: string | null): void {
+        this.sink.write({ ...event, traceId: this.traceId, spanId, timestamp: this.now() });
+    }
+
+    /**
+     * True the first time an error is seen (errors are reported once, where they happen)
+     */
+    isNewError(error: object): boolean {
+        if (this.reportedErrors.has(error)) {
+            return false;
+        }
+        this.reportedErrors.add(error);
+        return true;
+    }
+}
+
+function randomHex(length: number): string {
+    let hex = '';
+    while (hex.length < length) {
+        hex += Math.floor(Math.random() * 0x100000000).toString(16).padStart(8, '0');
+    }
+    return hex.slice(0, length);
+}
+
+/**
+ * ".a[0]" for the attribute path of $x.a[0]
+ */
+export function formatTracePath(path: AttributePathSegment[]): string {
+    return path.map(segment => segment.type === 'index' ? `[${segment.index}]` : `.${segment.name}`).join('');
+}
+
+/**
+ * Sink that keeps a copy of every event in memory (values as they were when reported):
+ *
+ *   const trace = new TraceCollector();
+ *   await rp.executeScript(script, { trace });
+ *   trace.ofType('commandCall'); // [{ name: 'math.add', args: [1, 2], result: 3, ... }]
+ */
+export class TraceCollector implements TraceSink {
+    events: TraceEvent[] = [];
+    private forward: TraceSink | null;
+
+    /**
+     * @param forward - Optional sink that also receives every event
+     */
+    constructor(forward: TraceSink | null = null) {
+        this.forward = forward;
+    }
+
+    write(event: TraceEvent): void {
+        this.events.push(copyEvent(event));
+        this.forward?.write(event);
+    }
+
+    /**
+     * Collected events of one type
+     */
+    ofType<T extends TraceEventType>(type: T): Extract<TraceEvent, { type: T }>[] {
+        return this.events.filter((event): event is Extract<TraceEvent, { type: T }> => event.type === type);
+    }
+
+    clear(): void {
+        this.events = [];
+    }
+}
+
+function copyEvent(event: TraceEvent): TraceEvent {
+    try {
+        return structuredClone(event);
+    } catch {
+        // Values that cannot be cloned (e.g. functions returned by custom builtins) are kept as they are
+        return { ...event };
+    }
+}
+
+type OtelAttributeValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+
+export interface OtelAttribute {
+    key: string;
+    value: OtelAttributeValue;
+}
+
+export interface OtelSpan {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    kind: number; // 1 = SPAN_KIND_INTERNAL
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: OtelAttribute[];
+    events: { timeUnixNano: string; name: string; attributes: OtelAttribute[] }[];
+    status: { code: number; message?: string }; // 0 = unset, 2 = error
+}
+
+/**
+ * OTLP/JSON trace export request (the body of POST /v1/traces)
+ */
+export interface OtelTraceExport {
+    resourceSpans: {
+        resource: { attributes: OtelAttribute[] };
+        scopeSpans: { scope: { name: string }; spans: OtelSpan[] }[];
+    }[];
+}
+
+export interface OtelExportOptions {
+    serviceName?: string; // service.name resource attribute (defaults to "robinpath")
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_UNSET = 0;
+const STATUS_ERROR = 2;
+
+function toUnixNano(ms: number): string {
+    const whole = Math.floor(ms);
+    return (BigInt(whole) * BigInt(1000000) + BigInt(Math.round((ms - whole) * 1000000))).toString();
+}
+
+function toJson(value: Value): string {
+    try {
+        return JSON.stringify(value) ?? 'null';
+    } catch {
+        return String(value);
+    }
+}
+
+function attribute(key: string, value: string | number | boolean): OtelAttribute {
+    if (typeof value === 'string') return { key, value: { stringValue: value } };
+    if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+    return Number.isInteger(value) ? { key, value: { intValue: String(value) } } : { key, value: { doubleValue: value } };
+}
+
+function codeAttributes(codePos: CodePosition): OtelAttribute[] {
+    return [attribute('code.lineno', codePos.startRow + 1), attribute('code.column', codePos.startCol + 1)];
+}
+
+/**
+ * OpenTelemetry spans (OTLP/JSON) of collected trace events: one span per statement,
+ * call and together branch; variable sets and triggered events become span events and
+ * errors "exception" events that also mark their span as failed. Spans that never
+ * ended (a cancelled run) end with the last event.
+ */
+export function toOtelSpans(events: TraceEvent[], options: OtelExportOptions = {}): OtelTraceExport {
+    const spans = new Map<string, OtelSpan>();
+    const key = (event: TraceEvent) => `${event.traceId}:${event.spanId}`;
+    let lastTimestamp = 0;
+
+    for (const event of events) {
+        lastTimestamp = Math.max(lastTimestamp, event.timestamp);
+        if (event.spanId === null) {
+            continue;
+        }
+        const span = spans.get(key(event));
+        const time = toUnixNano(event.timestamp);
+        switch (event.type) {
+            case 'statementStart':
+            case 'togetherBranchStart':
+                spans.set(key(event), {
+                    traceId: event.traceId,
+                    spanId: event.spanId,
+                    ...(event.parentSpanId ? { parentSpanId: event.parentSpanId } : {}),
+                    name: event.type === 'statementStart' ? event.statement : `together branch ${event.branch + 1}`,
+                    kind: SPAN_KIND_INTERNAL,
+                    startTimeUnixNano: time,
+                    endTimeUnixNano: '',
+                    attributes: [
+                        ...(event.type === 'statementStart' ? [attribute('robinpath.statement', event.statement)] : [attribute('robinpath.together.branch', event.branch + 1)]),
+                        ...codeAttributes(event.codePos)
+                    ],
+                    events: [],
+                    status: { code: STATUS_UNSET }
+                });
+                break;
+            case 'statementEnd':
+            case 'togetherBranchEnd':
+                if (span) {
+                    span.endTimeUnixNano = time;
+                    if (event.type === 'statementEnd') {
+                        span.attributes.push(attribute('robinpath.last_value', toJson(event.lastValue)));
+                    }
+                    if (event.failed) span.status = { ...span.status, code: STATUS_ERROR };
+                }
+                break;
+            case 'commandCall': {
+                // Reported when the call ends; statements of a def body are already recorded as its children
+                spans.set(key(event), {
+                    traceId: event.traceId,
+                    spanId: event.spanId,
+                    ...(event.parentSpanId ? { parentSpanId: event.parentSpanId } : {}),
+                    name: event.name,
+                    kind: SPAN_KIND_INTERNAL,
+                    startTimeUnixNano: toUnixNano(event.startTime),
+                    endTimeUnixNano: time,
+                    attributes: [
+                        attribute('robinpath.command.kind', event.kind),
+                        attribute('robinpath.command.args', toJson(event.args)),
+                        attribute('robinpath.command.result', toJson(event.result))
+                    ],
+                    events: span?.events ?? [],
+                    status: event.failed ? { ...span?.status, code: STATUS_ERROR } : span?.status ?? { code: STATUS_UNSET }
+                });
+                break;
+            }
+            case 'variableSet':
+                span?.events.push({
+                    timeUnixNano: time,
+                    name: 'variableSet',
+                    attributes: [
+                        attribute('robinpath.variable.name', event.name + (event.path ?? '')),
+                        attribute('robinpath.variable.value', toJson(event.value))
+                    ]
+                });
+                break;
+            case 'eventTriggered':
+                span?.events.push({
+                    timeUnixNano: time,
+                    name: 'eventTriggered',
+                    attributes: [
+                        attribute('robinpath.event.name', event.event),
+                        attribute('robinpath.event.args', toJson(event.args)),
+                        attribute('robinpath.event.handlers', event.handlers)
+                    ]
+                });
+                break;
+            case 'error':
+                if (span) {
+                    span.events.push({
+                        timeUnixNano: time,
+                        name: 'exception',
+                        attributes: [attribute('exception.type', event.name), attribute('exception.message', event.message)]
+                    });
+                    span.status = { code: STATUS_ERROR, message: event.message };
+                }
+                break;
+        }
+    }
+
+    const end = toUnixNano(lastTimestamp);
+    const spanList = [...spans.values()];
+    for (const span of spanList) {
+        if (!span.endTimeUnixNano) span.endTimeUnixNano = end;
+    }
+    return {
+        resourceSpans: [{
+            resource: { attributes: [attribute('service.name', options.serviceName ?? 'robinpath')] },
+            scopeSpans: [{ scope: { name: 'robinpath' }, spans: spanList }]
+        }]
+    };
+}
@@ -0,0 +1,214 @@
+/**
+ * Transports the fetch module sends its requests through (new RobinPath({ transport }))
+ *
+ * A FetchTransport has the signature of the global fetch. NetworkTransport (the
+ * default) uses the network; MockTransport answers from routes registered in memory,
+ * so tests can run scripts that call fetch.* without any network access. Its route
+ * syntax (matchRoute) and request bodies (parseRequestBody) are shared with http.serve.
+ */
+
+import type { Value } from '../utils/types';
+
+export interface FetchTransport {
+    fetch(url: string, init: RequestInit): Promise<Response>;
+}
+
+/**
+ * Transport using the global fetch
+ */
+export class NetworkTransport implements FetchTransport {
+    fetch(url: string, init: RequestInit): Promise<Response> {
+        return fetch(url, init);
+    }
+}
+
+export interface MockRequest {
+    method: string; // Upper case
+    url: string;
+    path: string; // Path of the URL, without the query
+    query: Record<string, string>; // Query parameters (the last value of repeated ones)
+    params: Record<string, string>; // Values of the :name segments of the matched route
+    headers: Record<string, string>; // Header names in lower case
+    body: string | null; // Request body as text
+    data: Value; // Request body parsed as JSON (or form fields) when it has that content type, otherwise the text
+}
+
+export interface MockResponse {
+    status?: number; // Default 200
+    statusText?: string;
+    headers?: Record<string, string>;
+    body?: Value; // Strings are sent as text, anything else as JSON
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+interface MockRoute {
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+    matchUrl: boolean;
+    handler: MockHandler;
+}
+
+/**
+ * Regular expression for a route path: ":name" captures one segment and a trailing
+ * "*" matches the rest of the path
+ */
+function compileRoute(path: string): { pattern: RegExp; keys: string[] } {
+    const keys: string[] = [];
+    let source = '';
+    for (const part of path.split(/(:[A-Za-z_][A-Za-z0-9_]*|\*$)/)) {
+        if (part.startsWith(':')) {
+            keys.push(part.slice(1));
+            source += '([^/]+)';
+        } else if (part === '*') {
+            source += '.*';
+        } else {
+            source += part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return { pattern: new RegExp(`^${source}/?$`), keys };
+}
+
+/**
+ * Values of the :name segments when a path matches a route path (see compileRoute),
+ * null when it does not
+ *
+ *   matchRoute('/users/:id', '/users/7'); // { id: '7' }
+ */
+export function matchRoute(route: string, path: string): Record<string, string> | null {
+    const { pattern, keys } = compileRoute(route);
+    const match = pattern.exec(path);
+    if (!match) {
+        return null;
+    }
+    return Object.fromEntries(keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+}
+
+/**
+ * Request body as a value: parsed JSON or form fields for those content types, otherwise the text
+ */
+export function parseRequestBody(body: string | null, contentType: string): Value {
+    if (body === null) {
+        return null;
+    }
+    if (contentType.includes('json')) {
+        try {
+            return JSON.parse(body);
+        } catch {
+            return body;
+        }
+    }
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+        return Object.fromEntries(new URLSearchParams(body));
+    }
+    return body;
+}
+
+/**
+ * Transport answering requests from routes kept in memory:
+ *
+ *   const api = new MockTransport()
+ *       .get('https://api.example.com/users/:id', request => ({ body: { id: request.params.id } }))
+ *       .post('/users', { status: 201, body: { created: true } });
+ *   const rp = new RobinPath({ transport: api });
+ *
+ * Routes are tried in the order they were added. Paths starting with http:// or
+ * https:// match the whole URL (without the query), others any host. Requests no
+ * route matches get a 404 response. All requests are recorded in `requests`.
+ */
+export class MockTransport implements FetchTransport {
+    readonly requests: MockRequest[] = [];
+    private routes: MockRoute[] = [];
+
+    /**
+     * Add a route
+     * @param method - HTTP method ("*" for any)
+     * @param path - Path or URL of the route (":name" segments, trailing "*")
+     * @param response - Handler or fixed response
+     */
+    route(method: string, path: string, response: MockHandler | MockResponse): this {
+        const { pattern, keys } = compileRoute(path);
+        const handler = typeof response === 'function' ? response : () => response;
+        this.routes.push({ method: method.toUpperCase(), pattern, keys, matchUrl: /^https?:\/\//.test(path), handler });
+        return this;
+    }
+
+    get(path: string, response: MockHandler | MockResponse): this {
+        return this.route('GET', path, response);
+    }
+
+    post(path: string, response: MockHandler | MockResponse): this {
+        return this.route('POST', path, response);
+    }
+
+    put(path: string, response: MockHandler | MockResponse): this {
+        return this.route('PUT', path, response);
+    }
+
+    patch(path: string, response: MockHandler | MockResponse): this {
+        return this.route('PATCH', path, response);
+    }
+
+    delete(path: string, response: MockHandler | MockResponse): this {
+        return this.route('DELETE', path, response);
+    }
+
+    /**
+     * Remove all routes and recorded requests
+     */
+    clear(): void {
+        this.routes = [];
+        this.requests.length = 0;
+    }
+
+    async fetch(url: string, init: RequestInit): Promise<Response> {
+        init.signal?.throwIfAborted();
+        const parsed = new URL(url);
+        const headers = Object.fromEntries(new Headers(init.headers).entries());
+        const body = init.body === undefined || init.body === null ? null : String(init.body);
+        const request: MockRequest = {
+            method: (init.method ?? 'GET').toUpperCase(),
+            url,
+            path: parsed.pathname,
+            query: Object.fromEntries(parsed.searchParams),
+            params: {},
+            headers,
+            body,
+            data: parseRequestBody(body, headers['content-type'] ?? '')
+        };
+        this.requests.push(request);
+
+        for (const route of this.routes) {
+            if (route.method !== '*' && route.method !== request.method) {
+                continue;
+            }
+            const match = route.pattern.exec(route.matchUrl ? `${parsed.origin}${parsed.pathname}` : parsed.pathname);
+            if (!match) {
+                continue;
+            }
+            route.keys.forEach((key, i) => {
+                request.params[key] = decodeURIComponent(match[i + 1]);
+            });
+            return this.createResponse(await route.handler(request));
+        }
+        return this.createResponse({ status: 404, body: `No mock route for ${request.method} ${url}` });
+    }
+
+    private createResponse(response: MockResponse): Response {
+        const headers = new Headers(response.headers);
+        let body: string | null = null;
+        if (typeof response.body === 'string') {
+            body = response.body;
+            if (!headers.has('content-type')) {
+                headers.set('content-type', 'text/plain');
+            }
+        } else if (response.body !== undefined) {
+            body = JSON.stringify(response.body);
+            if (!headers.has('content-type')) {
+                headers.set('content-type', 'application/json');
+            }
+        }
+        return new Response(body, { status: response.status ?? 200, statusText: response.statusText, headers });
+    }
+}
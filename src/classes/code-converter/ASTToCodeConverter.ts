@@ -997,8 +997,8 @@ export class PatchPlanner {
                 }
             }
             
-            // For forLoop, doBlock, and cell blocks, check body
-            if (shouldUseOriginalCode && (node.type === 'forLoop' || node.type === 'do' || node.type === 'cell')) {
+            // For loops, doBlock, test/describe blocks, module blocks and cell blocks, check body
+            if (shouldUseOriginalCode && (node.type === 'forLoop' || node.type === 'whileLoop' || node.type === 'repeatUntil' || node.type === 'do' || node.type === 'testBlock' || node.type === 'describeBlock' || node.type === 'moduleBlock' || node.type === 'cell')) {
                 const nodeBody = (node as any).body || [];
                 const originalBody = (originalNode as any).body || [];
                 if (nodeBody.length !== originalBody.length) {
@@ -1013,6 +1013,25 @@ export class PatchPlanner {
                 }
             }
             
+            // For try blocks, check every clause body
+            if (shouldUseOriginalCode && node.type === 'tryBlock') {
+                for (const key of ['body', 'catchBody', 'finallyBody'] as const) {
+                    if (!shouldUseOriginalCode) break;
+                    const nodeBody = (node as any)[key] || [];
+                    const originalBody = (originalNode as any)[key] || [];
+                    if (nodeBody.length !== originalBody.length) {
+                        shouldUseOriginalCode = false;
+                        break;
+                    }
+                    for (let i = 0; i < nodeBody.length; i++) {
+                        if (!this.nodesAreEqual(nodeBody[i], originalBody[i])) {
+                            shouldUseOriginalCode = false;
+                            break;
+                        }
+                    }
+                }
+            }
+            
             if (shouldUseOriginalCode) {
                 // Node hasn't changed - use original code with all formatting preserved
                 // Determine start position for extraction
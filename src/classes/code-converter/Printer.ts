@@ -39,7 +39,14 @@ export class Printer {
         do: Printer.printDo,
         together: Printer.printTogether,
         forLoop: Printer.printForLoop,
+        whileLoop: Printer.printWhileLoop,
+        repeatUntil: Printer.printRepeatUntil,
+        tryBlock: Printer.printTryBlock,
+        testBlock: Printer.printTestBlock,
+        describeBlock: Printer.printTestBlock,
+        moduleBlock: Printer.printModuleBlock,
         onBlock: Printer.printOnBlock,
+        import: Printer.printImport,
         return: (node, writer, ctx) => {
             let returnLine = '';
             if (node.value) {
@@ -774,6 +781,13 @@ export class Printer {
             for (const decorator of node.decorators) {
                 const decoratorArgs: string[] = [];
                 for (const arg of decorator.args || []) {
+                    if (arg && arg.type === 'namedArgs') {
+                        for (const [key, valueArg] of Object.entries(arg.args || {})) {
+                            const valueCode = Printer.printArg(valueArg as any, ctx);
+                            if (valueCode !== null) decoratorArgs.push(`${key}=${valueCode}`);
+                        }
+                        continue;
+                    }
                     const argCode = Printer.printArg(arg, ctx);
                     if (argCode !== null) decoratorArgs.push(argCode);
                 }
@@ -1018,6 +1032,126 @@ export class Printer {
         writer.pushLine('endfor');
     }
 
+    /**
+     * Print while loop node
+     */
+    static printWhileLoop(node: any, writer: Writer, ctx: PrintContext): void {
+        Printer.emitDecorators(node, writer, ctx);
+
+        const conditionStr = Printer.printArg(node.condition, ctx) ?? '';
+        let header = `while ${conditionStr}`.trimEnd();
+        const inlineComment = Printer.getInlineComment(node);
+        if (inlineComment) {
+            header += Printer.formatInlineComment(inlineComment);
+        }
+        writer.pushLine(header);
+        Printer.printBlockBody(node.body, writer, ctx);
+        writer.pushLine('endwhile');
+    }
+
+    /**
+     * Print repeat-until loop node
+     */
+    static printRepeatUntil(node: any, writer: Writer, ctx: PrintContext): void {
+        Printer.emitDecorators(node, writer, ctx);
+
+        let header = 'repeat';
+        const inlineComment = Printer.getInlineComment(node);
+        if (inlineComment) {
+            header += Printer.formatInlineComment(inlineComment);
+        }
+        writer.pushLine(header);
+        Printer.printBlockBody(node.body, writer, ctx);
+        const conditionStr = Printer.printArg(node.condition, ctx) ?? '';
+        writer.pushLine(`until ${conditionStr}`.trimEnd());
+    }
+
+    /**
+     * Print try block node
+     */
+    static printTryBlock(node: any, writer: Writer, ctx: PrintContext): void {
+        Printer.emitDecorators(node, writer, ctx);
+
+        let header = 'try';
+        const inlineComment = Printer.getInlineComment(node);
+        if (inlineComment) {
+            header += Printer.formatInlineComment(inlineComment);
+        }
+        writer.pushLine(header);
+        Printer.printBlockBody(node.body, writer, ctx);
+
+        if (node.hasCatch) {
+            writer.pushLine(node.catchVarName ? `catch $${node.catchVarName}` : 'catch');
+            Printer.printBlockBody(node.catchBody, writer, ctx);
+        }
+
+        if (node.finallyBody) {
+            writer.pushLine('finally');
+            Printer.printBlockBody(node.finallyBody, writer, ctx);
+        }
+
+        writer.pushLine('endtry');
+    }
+
+    /**
+     * Print test or describe block node
+     */
+    static printTestBlock(node: any, writer: Writer, ctx: PrintContext): void {
+        Printer.emitDecorators(node, writer, ctx);
+
+        const keyword = node.type === 'describeBlock' ? 'describe' : 'test';
+        let header = `${keyword} ${JSON.stringify(node.name ?? '')}`;
+        const inlineComment = Printer.getInlineComment(node);
+        if (inlineComment) {
+            header += Printer.formatInlineComment(inlineComment);
+        }
+        writer.pushLine(header);
+        Printer.printBlockBody(node.body, writer, ctx);
+        writer.pushLine(`end${keyword}`);
+    }
+
+    /**
+     * Print module block node
+     */
+    static printModuleBlock(node: any, writer: Writer, ctx: PrintContext): void {
+        Printer.emitDecorators(node, writer, ctx);
+
+        let header = `module ${node.name ?? ''}`;
+        const inlineComment = Printer.getInlineComment(node);
+        if (inlineComment) {
+            header += Printer.formatInlineComment(inlineComment);
+        }
+        writer.pushLine(header);
+        Printer.printBlockBody(node.body, writer, ctx);
+        writer.pushLine('endmodule');
+    }
+
+    static printImport(node: any, writer: Writer): void {
+        let line = `import ${JSON.stringify(node.path ?? '')}`;
+        if (node.alias) {
+            line += ` as ${node.alias}`;
+        }
+        const inlineComment = Printer.getInlineComment(node);
+        if (inlineComment) {
+            line += Printer.formatInlineComment(inlineComment);
+        }
+        writer.pushLine(line);
+    }
+
+    private static printBlockBody(body: Statement[] | undefined, writer: Writer, ctx: PrintContext): void {
+        if (!body || !Array.isArray(body)) return;
+        for (const stmt of body) {
+            if (!stmt) continue;
+            Printer.emitLeadingComments(stmt, writer, ctx, ctx.indentLevel + 1);
+            const stmtCode = Printer.printNode(stmt, { ...ctx, indentLevel: ctx.indentLevel + 1 });
+            if (stmtCode) writer.push(stmtCode.endsWith('\n') ? stmtCode : stmtCode + '\n');
+            const trailingBlankLines = (stmt as any)?.trailingBlankLines;
+            if (trailingBlankLines !== undefined && trailingBlankLines !== null && trailingBlankLines > 0) {
+                writer.push('\n'.repeat(trailingBlankLines));
+            }
+        }
+    }
+
     /**
      * Print ifBlock node
      */
@@ -0,0 +1,255 @@
+/**
+ * Typed errors raised by RobinPath (parse and runtime failures)
+ *
+ * Every error carries a stable `code`, the `codePos` of the offending source and,
+ * for runtime errors, the script call stack (innermost first). Use
+ * `formatWithContext(source)` to render the message with a code excerpt.
+ */
+
+import type { CodePosition } from '../types/Ast.type';
+import type { Value } from '../utils/types';
+import { formatErrorWithContext } from '../utils/errorFormatter';
+
+/**
+ * Stable error codes (safe to match on; messages may change)
+ */
+export const ErrorCode = {
+    PARSE_ERROR: 'PARSE_ERROR',
+    RUNTIME_ERROR: 'RUNTIME_ERROR',
+    TYPE_ERROR: 'TYPE_ERROR',
+    INVALID_ARGUMENT: 'INVALID_ARGUMENT',
+    UNKNOWN_COMMAND: 'UNKNOWN_COMMAND',
+    UNKNOWN_MODULE: 'UNKNOWN_MODULE',
+    CONSTANT_REASSIGNMENT: 'CONSTANT_REASSIGNMENT',
+    EXECUTION_LIMIT: 'EXECUTION_LIMIT',
+    CAPABILITY_DENIED: 'CAPABILITY_DENIED',
+    IMPORT_ERROR: 'IMPORT_ERROR',
+    TIMEOUT: 'TIMEOUT',
+    THROWN: 'THROWN'
+} as const;
+
+export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode];
+
+/**
+ * One entry of a script call stack: the def/on being executed and the statement it was at
+ */
+export interface ScriptStackFrame {
+    name: string; // def or event name, '<global>' for top-level code
+    codePos: CodePosition | null;
+}
+
+export interface RobinPathErrorOptions {
+    code?: ErrorCode;
+    codePos?: CodePosition | null;
+    cause?: unknown;
+}
+
+/**
+ * Base class of all RobinPath errors
+ */
+export class RobinPathError extends Error {
+    code: ErrorCode;
+    codePos: CodePosition | null;
+    scriptStack: ScriptStackFrame[] = [];
+
+    constructor(message: string, options: RobinPathErrorOptions = {}) {
+        super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+        this.name = 'RobinPathError';
+        this.code = options.code ?? ErrorCode.RUNTIME_ERROR;
+        this.codePos = options.codePos ?? null;
+    }
+
+    /**
+     * Render the message with position, a code excerpt (when source is given) and the script call stack
+     */
+    formatWithContext(source?: string): string {
+        let formatted = formatErrorWithContext({
+            message: `${this.name} [${this.code}]: ${this.message}`,
+            codePos: this.codePos ?? undefined,
+            code: source
+        });
+        if (this.scriptStack.length > 0) {
+            formatted += '\n\nCall stack:';
+            for (const frame of this.scriptStack) {
+                const location = frame.codePos ? ` (line ${frame.codePos.startRow + 1})` : '';
+                formatted += `\n  at ${frame.name}${location}`;
+            }
+        }
+        return formatted;
+    }
+
+    /**
+     * The error as a script value, as bound by `catch $err` (line and column are 1-based)
+     */
+    toObject(): Record<string, Value> {
+        return {
+            name: this.name,
+            message: this.message,
+            code: this.code,
+            line: this.codePos ? this.codePos.startRow + 1 : null,
+            column: this.codePos ? this.codePos.startCol + 1 : null,
+            stack: this.scriptStack.map(frame => ({
+                name: frame.name,
+                line: frame.codePos ? frame.codePos.startRow + 1 : null
+            }))
+        };
+    }
+}
+
+/**
+ * The source could not be parsed
+ */
+export class ParseError extends RobinPathError {
+    constructor(message: string, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.PARSE_ERROR, ...options });
+        this.name = 'ParseError';
+    }
+
+    /**
+     * Wrap an error thrown by the lexer/parsers, taking the position from its
+     * "line N, column C" text (1-based line, 0-based column)
+     */
+    static from(error: unknown): RobinPathError {
+        if (error instanceof RobinPathError) {
+            return error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        const match = /line (\d+)(?:, column (\d+))?/.exec(message);
+        let codePos: CodePosition | null = null;
+        if (match) {
+            const row = Math.max(0, Number(match[1]) - 1);
+            const col = match[2] !== undefined ? Number(match[2]) : 0;
+            codePos = { startRow: row, startCol: col, endRow: row, endCol: col };
+        }
+        return new ParseError(message, { codePos, cause: error });
+    }
+}
+
+/**
+ * A statement failed while executing
+ */
+export class RuntimeError extends RobinPathError {
+    constructor(message: string, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.RUNTIME_ERROR, ...options });
+        this.name = 'RuntimeError';
+    }
+}
+
+/**
+ * A value had the wrong type for the operation (named RobinPathTypeError to avoid shadowing the global TypeError)
+ */
+export class RobinPathTypeError extends RuntimeError {
+    constructor(message: string, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.TYPE_ERROR, ...options });
+        this.name = 'TypeError';
+    }
+}
+
+/**
+ * A command or builtin was called with missing or invalid arguments
+ */
+export class ArgumentError extends RuntimeError {
+    constructor(message: string, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.INVALID_ARGUMENT, ...options });
+        this.name = 'ArgumentError';
+    }
+}
+
+/**
+ * No builtin or def with the given name exists
+ */
+export class UnknownCommandError extends RuntimeError {
+    commandName: string;
+    constructor(commandName: string, message: string = `Unknown function: ${commandName}`, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.UNKNOWN_COMMAND, ...options });
+        this.name = 'UnknownCommandError';
+        this.commandName = commandName;
+    }
+}
+
+/**
+ * No module with the given name is registered
+ */
+export class UnknownModuleError extends RuntimeError {
+    moduleName: string;
+    constructor(moduleName: string, message: string = `Module "${moduleName}" not found`, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.UNKNOWN_MODULE, ...options });
+        this.name = 'UnknownModuleError';
+        this.moduleName = moduleName;
+    }
+}
+
+/**
+ * Raised by the `throw` command; `data` is the optional value passed along with the message
+ */
+export class ThrownError extends RuntimeError {
+    data: Value;
+    constructor(message: string, data: Value = null, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.THROWN, ...options });
+        this.name = 'ThrownError';
+        this.data = data;
+    }
+
+    toObject(): Record<string, Value> {
+        return { ...super.toObject(), data: this.data };
+    }
+}
+
+/**
+ * Thrown when a builtin is asked to do something the run's CapabilityPolicy does not grant
+ * (e.g. fetching a host that is not in fetch.allowedHosts)
+ */
+export class CapabilityError extends RuntimeError {
+    capability: string;
+    constructor(capability: string, message: string, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.CAPABILITY_DENIED, ...options });
+        this.name = 'CapabilityError';
+        this.capability = capability;
+    }
+}
+
+/**
+ * An import failed: the module could not be resolved, loaded, parsed or run,
+ * imports form a cycle, or its namespace is already taken
+ */
+export class ImportError extends RuntimeError {
+    modulePath: string;
+    constructor(modulePath: string, message: string, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.IMPORT_ERROR, ...options });
+        this.name = 'ImportError';
+        this.modulePath = modulePath;
+    }
+}
+
+/**
+ * A def or block decorated with @timeout did not finish in time (unlike the run's
+ * timeout limit, this error can be caught and retried)
+ */
+export class TimeoutError extends RuntimeError {
+    timeout: number; // Allowed time in milliseconds
+    constructor(timeout: number, message: string, options: RobinPathErrorOptions = {}) {
+        super(message, { code: ErrorCode.TIMEOUT, ...options });
+        this.name = 'TimeoutError';
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Name of an execution limit (see ExecutionLimits)
+ */
+export type ExecutionLimitKind = 'maxSteps' | 'timeout' | 'maxCallDepth' | 'maxCollectionSize';
+
+/**
+ * Thrown when a run exceeds one of its configured execution limits.
+ * codePos points at the statement that was executing when the limit was hit.
+ */
+export class ExecutionLimitError extends RuntimeError {
+    limit: ExecutionLimitKind;
+    value: number;
+    constructor(limit: ExecutionLimitKind, value: number, message: string, codePos: CodePosition | null = null) {
+        super(message, { code: ErrorCode.EXECUTION_LIMIT, codePos });
+        this.limit = limit;
+        this.value = value;
+        this.name = 'ExecutionLimitError';
+    }
+}
@@ -46,3 +46,14 @@ export class EndException extends Error {
     }
 }
 
+/**
+ * Special exception used to stop the current test block and mark it as skipped (test.skip)
+ */
+export class SkipException extends Error {
+    reason: string | null;
+    constructor(reason: string | null = null) {
+        super('Skip');
+        this.reason = reason;
+        this.name = 'SkipException';
+    }
+}
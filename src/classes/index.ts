@@ -9,8 +9,51 @@ export { Parser } from './Parser';
 export { ExpressionEvaluator } from './ExpressionEvaluator';
 export { Executor } from './Executor';
 export { ExecutionStateTracker } from './ExecutionStateTracker';
-export { ReturnException, BreakException, EndException } from './exceptions';
+export { ReturnException, BreakException, EndException, SkipException } from './exceptions';
+export {
+    ErrorCode,
+    RobinPathError,
+    ParseError,
+    RuntimeError,
+    RobinPathTypeError,
+    ArgumentError,
+    UnknownCommandError,
+    UnknownModuleError,
+    ThrownError,
+    CapabilityError,
+    ExecutionLimitError,
+    ImportError,
+    TimeoutError
+} from './errors';
+export type { ScriptStackFrame, RobinPathErrorOptions, ExecutionLimitKind } from './errors';
+export { consoleOutput, OutputCollector, formatOutputTimestamp } from './Output';
+export type { LogLevel, OutputRecord, OutputSink } from './Output';
+export { Capabilities } from './Capabilities';
+export type { CapabilityPolicy, HttpServePolicy } from './Capabilities';
+export { MemoryFileSystem, NodeFileSystem, resolveSandboxPath, getParentPath, globToRegExp } from './FileSystem';
+export type { FileSystem, FileStat } from './FileSystem';
+export { NetworkTransport, MockTransport, matchRoute, parseRequestBody } from './Transport';
+export type { FetchTransport, MockRequest, MockResponse, MockHandler } from './Transport';
+export { createTestReport, formatTestReports, testReportsPassed } from './TestReport';
+export type { TestStatus, TestFailure, TestResult, TestReport, TestReporter } from './TestReport';
+export { MockRegistry, getMockRegistry } from './Mocks';
+export { SnapshotStore, formatSnapshotDiff } from './Snapshots';
+export { CoverageCollector, summarizeCoverage, formatLcov, formatCoverageSummary } from './Coverage';
+export { Profiler, toCpuProfile, toFlameGraph, formatProfileSummary } from './Profiler';
+export { Tracer, TraceCollector, toOtelSpans, formatTracePath } from './Trace';
+export { ModuleRegistry, MemoryModuleLoader, resolveModulePath, getModuleNamespace } from './Modules';
+export type { SnapshotStatus, SnapshotCheck, SnapshotSummary, SnapshotStoreOptions } from './Snapshots';
+export type { StatementCoverage, BranchKind, BranchCoverage, FunctionCoverage, FileCoverage, CoverageCounts, CoverageSummary } from './Coverage';
+export type { ProfileKind, FunctionProfile, LineProfile, ProfileNode, ProfilerOptions, ProfileFrame, CpuProfile, FlameGraphNode } from './Profiler';
+export type { TraceEventData, TraceEventType, TraceEventBase, TraceEvent, TraceSink, OtelAttribute, OtelSpan, OtelTraceExport, OtelExportOptions } from './Trace';
+export type { MockKind, MockCall, BuiltinMock } from './Mocks';
+export type { ModuleLoader, ImportedModule } from './Modules';
 export { RobinPathThread } from './RobinPathThread';
+export { Debugger } from './Debugger';
+export type { Breakpoint, DebugFrame, PausedState, PauseReason, PauseListener, StepMode } from './Debugger';
+export { LanguageService } from './LanguageService';
+export type { TextPosition, TextRange, CompletionKind, CompletionItem, HoverResult, SignatureHelpResult, DefinitionResult, Diagnostic } from './LanguageService';
+export { RuntimeDecorators, RuntimeDecoratorMetadata } from './Decorators';
 export { ASTSerializer } from './ASTSerializer';
 export { ASTToCodeConverter } from './code-converter';
 
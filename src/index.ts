@@ -18,6 +18,11 @@ export interface ModuleAdapter {
 // Import utilities
 import { 
     extractNamedArgs,
+    createRegExp,
+    toGlobalRegExp,
+    matchToValue,
+    escapeRegExp,
+    isTruthy,
     type Value,
     type AttributePathSegment
 } from './utils';
@@ -28,18 +33,147 @@ import {
     Executor,
     RobinPathThread,
     ASTToCodeConverter,
-    ASTSerializer
+    ASTSerializer,
+    Debugger,
+    LanguageService,
+    ExpressionEvaluator,
+    ErrorCode,
+    RobinPathError,
+    ParseError,
+    RuntimeError,
+    RobinPathTypeError,
+    ArgumentError,
+    UnknownCommandError,
+    UnknownModuleError,
+    ThrownError,
+    CapabilityError,
+    ExecutionLimitError,
+    ImportError,
+    TimeoutError,
+    consoleOutput,
+    OutputCollector,
+    Capabilities,
+    MemoryFileSystem,
+    NodeFileSystem,
+    resolveSandboxPath,
+    getParentPath,
+    globToRegExp,
+    NetworkTransport,
+    MockTransport,
+    matchRoute,
+    parseRequestBody,
+    SkipException,
+    createTestReport,
+    formatTestReports,
+    testReportsPassed,
+    MockRegistry,
+    getMockRegistry,
+    SnapshotStore,
+    formatSnapshotDiff,
+    CoverageCollector,
+    summarizeCoverage,
+    formatLcov,
+    formatCoverageSummary,
+    Profiler,
+    toCpuProfile,
+    toFlameGraph,
+    formatProfileSummary,
+    Tracer,
+    TraceCollector,
+    toOtelSpans,
+    ModuleRegistry,
+    MemoryModuleLoader,
+    resolveModulePath,
+    RuntimeDecorators,
+    RuntimeDecoratorMetadata
 } from './classes';
+import type { OutputSink, CapabilityPolicy, FetchTransport, TestReport, TestFailure, TraceSink, TraceEventData, ModuleLoader } from './classes';
 
 // Re-export types for external use
 export type { Value, AttributePathSegment };
 
+// Re-export debugger for external use
+export { Debugger };
+export type { Breakpoint, DebugFrame, PausedState, PauseReason, PauseListener, StepMode } from './classes';
+
+// Re-export typed errors so hosts can catch and match on them
+export {
+    ErrorCode,
+    RobinPathError,
+    ParseError,
+    RuntimeError,
+    RobinPathTypeError,
+    ArgumentError,
+    UnknownCommandError,
+    UnknownModuleError,
+    ThrownError,
+    CapabilityError,
+    ExecutionLimitError,
+    ImportError,
+    TimeoutError
+};
+export type { ScriptStackFrame, RobinPathErrorOptions, ExecutionLimitKind } from './classes';
+export { formatErrorWithContext } from './utils';
+
+// Re-export output sinks so hosts can capture or redirect script output
+export { consoleOutput, OutputCollector };
+export type { LogLevel, OutputRecord, OutputSink } from './classes';
+
+// Re-export capabilities so hosts can sandbox what builtins may do
+export { Capabilities };
+export type { CapabilityPolicy, HttpServePolicy } from './classes';
+
+// Re-export file systems so hosts can grant the fs module a root directory (capabilities.fs)
+export { MemoryFileSystem, NodeFileSystem, resolveSandboxPath, getParentPath, globToRegExp };
+export type { FileSystem, FileStat } from './classes';
+
+// Re-export fetch transports so hosts and tests can replace network access (new RobinPath({ transport }))
+export { NetworkTransport, MockTransport, matchRoute, parseRequestBody };
+export type { FetchTransport, MockRequest, MockResponse, MockHandler } from './classes';
+
+// Re-export test reports so hosts and the CLI can run and report test blocks
+export { SkipException, formatTestReports, testReportsPassed };
+export type { TestStatus, TestFailure, TestResult, TestReport, TestReporter } from './classes';
+
+// Re-export mocks so builtins (test.mock/test.spy) and hosts can replace builtins during tests
+export { MockRegistry, getMockRegistry };
+export type { MockKind, MockCall, BuiltinMock } from './classes';
+
+// Re-export snapshots so test.assertSnapshot and the test runner can share snapshot files
+export { SnapshotStore, formatSnapshotDiff };
+export type { SnapshotStatus, SnapshotCheck, SnapshotSummary, SnapshotStoreOptions } from './classes';
+
+// Re-export coverage so the test runner and hosts can measure which parts of a script ran
+export { CoverageCollector, summarizeCoverage, formatLcov, formatCoverageSummary };
+export type { StatementCoverage, BranchKind, BranchCoverage, FunctionCoverage, FileCoverage, CoverageCounts, CoverageSummary } from './classes';
+
+// Re-export the profiler so hosts and the CLI can time the calls and lines of a script
+export { Profiler, toCpuProfile, toFlameGraph, formatProfileSummary };
+export type { ProfileKind, FunctionProfile, LineProfile, ProfileNode, ProfilerOptions, ProfileFrame, CpuProfile, FlameGraphNode } from './classes';
+
+// Re-export tracing so hosts can follow a run step by step and export it as OpenTelemetry spans
+export { TraceCollector, toOtelSpans };
+export type { TraceEventData, TraceEventType, TraceEventBase, TraceEvent, TraceSink, OtelAttribute, OtelSpan, OtelTraceExport, OtelExportOptions } from './classes';
+
+// Re-export module loading (import statements)
+export { MemoryModuleLoader, resolveModulePath };
+export type { ModuleLoader } from './classes';
+
+// Re-export language service for editor integrations
+export { LanguageService };
+export type { TextPosition, TextRange, CompletionKind, CompletionItem, HoverResult, SignatureHelpResult, DefinitionResult, Diagnostic } from './classes';
+
+// Re-export the evaluator of "name args" and JS-style conditions for custom builtins
+export { ExpressionEvaluator };
+
 // Import AST types for internal use
 import type {
     Statement,
     Arg,
     DefineFunction,
-    OnBlock
+    OnBlock,
+    ScopeBlock,
+    TogetherBlock
 } from './types/Ast.type';
 
 // Re-export AST types for external use (backward compatibility)
@@ -57,9 +191,16 @@ export type {
     ScopeBlock,
     TogetherBlock,
     ForLoop,
+    WhileLoop,
+    RepeatUntilLoop,
     ReturnStatement,
     BreakStatement,
+    TryBlock,
+    TestBlock,
+    DescribeBlock,
     OnBlock,
+    ImportStatement,
+    ModuleBlock,
     CommentStatement,
     ChunkMarkerStatement,
     CellBlock,
@@ -81,6 +222,10 @@ import ArrayModule from './modules/Array';
 import FetchModule from './modules/Fetch';
 import TestModule from './modules/Test';
 import DomModule from './modules/Dom';
+import FsModule from './modules/Fs';
+import CsvModule from './modules/Csv';
+import HttpModule from './modules/Http';
+import RegexModule from './modules/Regex';
 
 // ============================================================================
 // Types
@@ -91,16 +236,36 @@ import DomModule from './modules/Dom';
 // Note: AST types are already imported above for use throughout this file
 
 export type BuiltinCallback = (callbackArgs: Value[]) => Promise<Value> | Value | null;
-export type BuiltinHandler = (args: Value[], callback?: BuiltinCallback | null) => Promise<Value> | Value | null;
+export type BuiltinHandler = (args: Value[], callback?: BuiltinCallback | null, context?: BuiltinContext) => Promise<Value> | Value | null;
 export type DecoratorHandler = (targetName: string, func: DefineFunction | null, originalArgs: Value[], decoratorArgs: Value[], originalDecoratorArgs?: Arg[]) => Promise<Value[] | Value | null | undefined>;
 export type ParseDecoratorHandler = (targetName: string, func: DefineFunction | null, decoratorArgs: Arg[], environment: Environment) => Promise<void> | void;
 
+/**
+ * A def call, do block or together block run through wrap decorators
+ */
+export interface DecoratorTarget {
+    kind: 'def' | 'do' | 'together';
+    name: string; // Def name, or "do block (line N)" / "together block (line N)"
+    args: Value[]; // Call arguments of a def, values of a do block's parameters (empty for together)
+    node: DefineFunction | ScopeBlock | TogetherBlock; // Decorated node (stable across calls, e.g. to keep per-target state)
+    context: BuiltinContext; // Output, signal and capabilities of the run
+}
+
+/**
+ * Runtime decorator wrapping the execution of its target: call run() to execute the
+ * target (any number of times) and return its value. run(signal) executes it under
+ * another AbortSignal (derive it from target.context.signal to keep the run cancellable).
+ */
+export type WrapDecoratorHandler = (run: (signal?: AbortSignal) => Promise<Value>, decoratorArgs: Value[], target: DecoratorTarget) => Promise<Value>;
+
 export interface Environment {
     variables: Map<string, Value>;
     functions: Map<string, DefineFunction>;
     builtins: Map<string, BuiltinHandler>;
     decorators: Map<string, DecoratorHandler>; // Runtime decorators
     parseDecorators: Map<string, ParseDecoratorHandler>; // Parse-time decorators
+    wrapDecorators: Map<string, WrapDecoratorHandler>; // Runtime decorators wrapping def calls and do/together blocks
+    decoratorMetadata: Map<string, FunctionMetadata>; // Documentation of decorators (by name without @, shown by explain "@name")
     metadata: Map<string, FunctionMetadata>;
     moduleMetadata: Map<string, ModuleMetadata>;
     currentModule: string | null; // Current module context set by "use" command
@@ -108,6 +273,7 @@ export interface Environment {
     functionMetadata: Map<string, Map<string, Value>>; // function name -> (meta key -> value)
     constants: Set<string>; // Set of constant variable names (cannot be reassigned)
     eventHandlers: Map<string, OnBlock[]>; // event name -> array of event handlers
+    imports: Map<string, string>; // namespace -> path of the module imported under it
 }
 
 export interface Frame {
@@ -116,11 +282,49 @@ export interface Frame {
     isFunctionFrame?: boolean; // True if this frame is from a function (def/enddef), false/undefined if from subexpression
     forgotten?: Set<string>; // Names of variables/functions forgotten in this scope
     isIsolatedScope?: boolean; // True if this frame is from a scope with parameters (isolated, no parent access)
+    name?: string; // Function or event name for def/on frames (used by the debugger's call stack)
+}
+
+/**
+ * Per-run execution limits (all optional; omitted limits are not enforced)
+ */
+export interface ExecutionLimits {
+    maxSteps?: number; // Maximum number of statements executed per run
+    timeout?: number; // Maximum wall-clock time per run, in milliseconds
+    maxCallDepth?: number; // Maximum number of nested def/on calls
+    maxCollectionSize?: number; // Maximum array length / object key count of a single value
+}
+
+/**
+ * Execution context passed to builtin handlers as their third argument
+ */
+export interface BuiltinContext {
+    limits: ExecutionLimits | null; // Limits of the current run (null if unlimited)
+    executor: Executor; // Executor running the call (for builtins that run RobinPath code, e.g. trigger)
+    signal: AbortSignal | null; // Cancellation signal of the current run (long-running builtins should honor it)
+    output: OutputSink; // Where the current run's output goes (write records here instead of calling console)
+    capabilities: Capabilities; // Capabilities granted to the current run (clock, random source, allowed fetch hosts)
+    transport: FetchTransport; // Where fetch.* sends its requests (the network unless a transport was set)
+}
+
+/**
+ * Options accepted by executeScript / executeLine
+ */
+export interface ExecuteOptions {
+    signal?: AbortSignal; // Abort the run (rejects with signal.reason)
+    output?: OutputSink; // Output sink for this run only (defaults to the instance's sink)
+    file?: string; // File name of the script (used by test reports, coverage and profiles; imports resolve relative to it)
+    coverage?: CoverageCollector; // Record statement/branch/function hits of this run
+    profiler?: Profiler; // Time the calls and lines of this run
+    trace?: TraceSink; // Trace sink for this run only (defaults to the instance's sink, if any)
 }
 
 
-// extractNamedArgs is imported from utils
-export { extractNamedArgs };
+// extractNamedArgs and isTruthy are imported from utils
+export { extractNamedArgs, isTruthy };
+
+// Regular expression helpers shared by the regex and string modules
+export { createRegExp, toGlobalRegExp, matchToValue, escapeRegExp };
 
 // ============================================================================
 // Metadata Types
@@ -217,6 +421,13 @@ export class RobinPath {
     private environment: Environment;
     private persistentExecutor: Executor | null = null;
     private lastExecutor: Executor | null = null;
+    private activeDebugger: Debugger | null = null;
+    private limits: ExecutionLimits | null = null;
+    private output: OutputSink = consoleOutput;
+    private capabilities: CapabilityPolicy | null = null;
+    private transport: FetchTransport | null = null;
+    private trace: TraceSink | null = null;
+    private modules: ModuleRegistry; // Loader and cache of the modules of import statements (shared with threads)
     private threads: Map<string, RobinPathThread> = new Map();
     private currentThread: RobinPathThread | null = null;
     private threadControl: boolean = false;
@@ -224,8 +435,21 @@ export class RobinPath {
     private astToCodeConverter: ASTToCodeConverter;
     private serializer: ASTSerializer;
 
-    constructor(options?: { threadControl?: boolean }) {
+    /**
+     * @param options.modules Names of the native modules to load (default: all); core is always loaded
+     * @param options.capabilities Capability policy for every run (allowed fetch hosts, clock, random source)
+     * @param options.transport Transport fetch.* sends its requests through (default: the network; see MockTransport)
+     * @param options.trace Sink for the trace events of every run
+     * @param options.moduleLoader Loader of the files of import statements (without one, imports fail)
+     */
+    constructor(options?: { threadControl?: boolean; limits?: ExecutionLimits; output?: OutputSink; modules?: string[]; capabilities?: CapabilityPolicy; transport?: FetchTransport; trace?: TraceSink; moduleLoader?: ModuleLoader }) {
         this.threadControl = options?.threadControl ?? false;
+        this.limits = options?.limits ?? null;
+        this.output = options?.output ?? consoleOutput;
+        this.capabilities = options?.capabilities ?? null;
+        this.transport = options?.transport ?? null;
+        this.trace = options?.trace ?? null;
+        this.modules = new ModuleRegistry(options?.moduleLoader ?? null);
         // Initialize environment
         this.environment = {
             variables: new Map(),
@@ -233,13 +457,16 @@ export class RobinPath {
             builtins: new Map(),
             decorators: new Map(),
             parseDecorators: new Map(),
+            wrapDecorators: new Map(),
+            decoratorMetadata: new Map(),
             metadata: new Map(),
             moduleMetadata: new Map(),
             currentModule: null,
             variableMetadata: new Map(),
             functionMetadata: new Map(),
             constants: new Set(),
-            eventHandlers: new Map()
+            eventHandlers: new Map(),
+            imports: new Map()
         };
 
         // Create persistent executor for REPL mode
@@ -252,36 +479,33 @@ export class RobinPath {
         this.serializer = new ASTSerializer(this.environment);
 
         // Load native modules (includes Core module with built-in functions)
-        this.loadNativeModules();
+        this.loadNativeModules(options?.modules);
 
         // Register built-in decorators
         this.registerBuiltinDecorators();
 
         // Note: "use" command is handled specially in executeCommand to access the executor's environment
 
-        this.registerBuiltin('explain', (args) => {
+        this.registerBuiltin('explain', (args, _callback, context) => {
             const nameArg = args[0];
             if (!nameArg) {
-                const errorMsg = 'Error: explain requires a module or function name';
-                console.log(errorMsg);
-                return errorMsg;
+                throw new ArgumentError('explain requires a module or function name');
             }
             
             // Convert to string (handles both quoted strings and unquoted literals)
             const name = String(nameArg);
 
-            // Check if it's a module name (no dot) or module.function (has dot)
-            if (name.includes('.')) {
-                // It's a module.function - show function metadata
-                const functionMetadata = this.environment.metadata.get(name);
+            // Check if it's a decorator (@name), a module name (no dot) or module.function (has dot)
+            const isDecorator = name.startsWith('@');
+            if (isDecorator || name.includes('.')) {
+                // It's a module.function or decorator - show function metadata
+                const functionMetadata = isDecorator ? this.environment.decoratorMetadata.get(name.slice(1)) : this.environment.metadata.get(name);
                 if (!functionMetadata) {
-                    const errorMsg = `No documentation available for function: ${name}`;
-                    console.log(errorMsg);
-                    return errorMsg;
+                    throw new UnknownCommandError(name, `No documentation available for ${isDecorator ? 'decorator' : 'function'}: ${name}`);
                 }
 
                 // Format the function metadata as a readable string
-                let result = `Function: ${name}\n\n`;
+                let result = `${isDecorator ? 'Decorator' : 'Function'}: ${name}\n\n`;
                 result += `Description: ${functionMetadata.description}\n\n`;
 
                 if (functionMetadata.parameters && functionMetadata.parameters.length > 0) {
@@ -314,15 +538,19 @@ export class RobinPath {
                 }
 
                 // Automatically print the result
-                console.log(result);
+                (context?.output ?? this.output).write({
+                    level: 'log',
+                    message: result,
+                    args,
+                    source: 'explain',
+                    timestamp: Date.now()
+                });
                 return result;
             } else {
                 // It's a module name - show module metadata
                 const moduleMetadata = this.environment.moduleMetadata.get(name);
                 if (!moduleMetadata) {
-                    const errorMsg = `No documentation available for module: ${name}`;
-                    console.log(errorMsg);
-                    return errorMsg;
+                    throw new UnknownModuleError(name, `No documentation available for module: ${name}`);
                 }
 
                 // Format the module metadata as a readable string
@@ -339,7 +567,13 @@ export class RobinPath {
                 }
 
                 // Automatically print the result
-                console.log(result);
+                (context?.output ?? this.output).write({
+                    level: 'log',
+                    message: result,
+                    args,
+                    source: 'explain',
+                    timestamp: Date.now()
+                });
                 return result;
             }
         });
@@ -347,11 +581,9 @@ export class RobinPath {
         // Register trigger builtin command
         // Usage: trigger "eventName" [arg1] [arg2] ...
         // This allows triggering events from within RobinPath scripts
-        this.registerBuiltin('trigger', async (args) => {
+        this.registerBuiltin('trigger', async (args, _callback, context) => {
             if (args.length === 0) {
-                const errorMsg = 'Error: trigger requires an event name';
-                console.log(errorMsg);
-                return errorMsg;
+                throw new ArgumentError('trigger requires an event name');
             }
 
             // First argument is the event name
@@ -360,8 +592,8 @@ export class RobinPath {
             // Remaining arguments are passed to event handlers
             const eventArgs = args.slice(1);
 
-            // Trigger the event
-            await this.trigger(eventName, ...eventArgs);
+            // Trigger the event (handlers continue the calling script's run and its limits)
+            await this.runEventHandlers(eventName, eventArgs, context?.executor ?? null);
             
             return null;
         });
@@ -382,7 +614,11 @@ export class RobinPath {
         ArrayModule,
         FetchModule,
         TestModule,
-        DomModule
+        DomModule,
+        FsModule,
+        CsvModule,
+        HttpModule,
+        RegexModule
     ];
 
     /**
@@ -420,11 +656,26 @@ export class RobinPath {
     }
 
     /**
-     * Load all native modules
+     * Names of the native modules that can be passed to the modules constructor option
+     */
+    static getNativeModuleNames(): string[] {
+        return RobinPath.NATIVE_MODULES.map(module => module.name);
+    }
+
+    /**
+     * Load the native modules (all of them unless a selection is given; core is always loaded)
      */
-    private loadNativeModules(): void {
+    private loadNativeModules(selection?: string[]): void {
+        if (selection) {
+            const unknown = selection.find(name => !RobinPath.NATIVE_MODULES.some(module => module.name === name));
+            if (unknown !== undefined) {
+                throw new UnknownModuleError(unknown, `Unknown native module: ${unknown}`);
+            }
+        }
         for (const module of RobinPath.NATIVE_MODULES) {
-            this.loadModule(module);
+            if (!selection || module === CoreModule || selection.includes(module.name)) {
+                this.loadModule(module);
+            }
         }
     }
 
@@ -443,9 +694,26 @@ export class RobinPath {
      * @param handler Decorator handler function
      */
     registerDecorator(name: string, handler: DecoratorHandler): void {
+        this.environment.wrapDecorators.delete(name);
         this.environment.decorators.set(name, handler);
     }
 
+    /**
+     * Register a runtime decorator that wraps the execution of def calls and do/together blocks
+     * The handler decides whether, when and how often to run the target (see @retry, @timeout, @cache)
+     * @param name Decorator name (without @ prefix)
+     * @param handler Wrap decorator handler function
+     * @param metadata Optional documentation shown by explain "@name"
+     */
+    registerWrapDecorator(name: string, handler: WrapDecoratorHandler, metadata?: FunctionMetadata): void {
+        this.environment.decorators.delete(name);
+        this.environment.parseDecorators.delete(name);
+        this.environment.wrapDecorators.set(name, handler);
+        if (metadata) {
+            this.environment.decoratorMetadata.set(name, metadata);
+        }
+    }
+
     /**
      * Register a parse-time decorator function that executes during parsing
      * Parse decorators inject metadata into AST nodes (def, on, var, const)
@@ -454,14 +722,20 @@ export class RobinPath {
      * @param handler Parse decorator handler function
      */
     registerParseDecorator(name: string, handler: ParseDecoratorHandler): void {
+        this.environment.wrapDecorators.delete(name);
         this.environment.parseDecorators.set(name, handler);
     }
 
     /**
      * Register built-in parse-time decorators (@desc/@description, @title, @param, @arg, @required)
      * These decorators execute during parsing and inject metadata into AST nodes
+     * Also registers the runtime decorators (@retry, @timeout, @cache, @deprecated, @log)
      */
     private registerBuiltinDecorators(): void {
+        for (const [name, handler] of Object.entries(RuntimeDecorators)) {
+            this.registerWrapDecorator(name, handler, RuntimeDecoratorMetadata[name]);
+        }
+
         // @desc or @description - adds "description" metadata to function or variable
         const descHandler: ParseDecoratorHandler = async (targetName: string, func: DefineFunction | null, decoratorArgs: Arg[], environment: Environment) => {
             if (decoratorArgs.length === 0) {
@@ -1224,12 +1498,20 @@ export class RobinPath {
         };
     }
 
+    /**
+     * Create a language service (completion, hover, signature help, definitions, diagnostics)
+     * backed by this instance's builtins, modules and metadata
+     */
+    getLanguageService(): LanguageService {
+        return new LanguageService(this.environment);
+    }
+
     /**
      * Check if a script needs more input (incomplete block)
-     * Returns { needsMore: true, waitingFor: 'endif' | 'enddef' | 'endfor' | 'enddo' | 'endon' | 'subexpr' | 'paren' | 'object' | 'array' } if incomplete,
+     * Returns { needsMore: true, waitingFor: 'endif' | 'enddef' | 'endfor' | 'endwhile' | 'until' | 'enddo' | 'endtry' | 'endtest' | 'enddescribe' | 'endmodule' | 'endon' | 'subexpr' | 'paren' | 'object' | 'array' } if incomplete,
      * or { needsMore: false } if complete.
      */
-    async needsMoreInput(script: string): Promise<{ needsMore: boolean; waitingFor?: 'endif' | 'enddef' | 'endfor' | 'enddo' | 'endon' | 'subexpr' | 'paren' | 'object' | 'array' }> {
+    async needsMoreInput(script: string): Promise<{ needsMore: boolean; waitingFor?: 'endif' | 'enddef' | 'endfor' | 'endwhile' | 'until' | 'enddo' | 'endtry' | 'endtest' | 'enddescribe' | 'endmodule' | 'endon' | 'subexpr' | 'paren' | 'object' | 'array' }> {
         try {
             const parser = new Parser(script);
             await parser.parse();
@@ -1247,9 +1529,27 @@ export class RobinPath {
             if (errorMessage.includes('missing endfor')) {
                 return { needsMore: true, waitingFor: 'endfor' };
             }
+            if (errorMessage.includes('missing endwhile')) {
+                return { needsMore: true, waitingFor: 'endwhile' };
+            }
+            if (errorMessage.includes('missing until')) {
+                return { needsMore: true, waitingFor: 'until' };
+            }
             if (errorMessage.includes('missing enddo')) {
                 return { needsMore: true, waitingFor: 'enddo' };
             }
+            if (errorMessage.includes('missing endtry')) {
+                return { needsMore: true, waitingFor: 'endtry' };
+            }
+            if (errorMessage.includes('missing endtest')) {
+                return { needsMore: true, waitingFor: 'endtest' };
+            }
+            if (errorMessage.includes('missing enddescribe')) {
+                return { needsMore: true, waitingFor: 'enddescribe' };
+            }
+            if (errorMessage.includes('missing endmodule')) {
+                return { needsMore: true, waitingFor: 'endmodule' };
+            }
             if (errorMessage.includes('missing endon')) {
                 return { needsMore: true, waitingFor: 'endon' };
             }
@@ -1363,8 +1663,52 @@ export class RobinPath {
 
     /**
      * Execute a RobinPath script
+     * @param options.signal AbortSignal that cancels the run (also aborts sleep, fetch and together branches)
+     * @param options.output Sink for this run's output (defaults to the instance's sink)
+     */
+    async executeScript(script: string, options?: ExecuteOptions): Promise<Value> {
+        const { executor, statements } = await this.prepareScript(script, options);
+        this.lastExecutor = executor;
+        const result = await executor.execute(statements);
+        return result;
+    }
+
+    /**
+     * Run the test/describe blocks of a script and collect their results
+     * Unlike executeScript, errors outside test blocks (including parse errors) are recorded
+     * in the report instead of thrown; a cancelled run still rejects with signal.reason.
+     * @param options.file File name recorded in the report (used by reporters)
+     * @param options.snapshots Snapshots of the script for test.assertSnapshot
+     */
+    async runTests(script: string, options?: ExecuteOptions & { snapshots?: SnapshotStore }): Promise<TestReport> {
+        const startedAt = Date.now();
+        let executor: Executor | null = null;
+        let failure: TestFailure | undefined;
+        try {
+            const prepared = await this.prepareScript(script, options);
+            executor = prepared.executor;
+            executor.setReportTests(false);
+            executor.setSnapshots(options?.snapshots ?? null);
+            this.lastExecutor = executor;
+            await executor.execute(prepared.statements);
+        } catch (error) {
+            if (!(error instanceof RobinPathError)) {
+                throw error;
+            }
+            failure = { name: error.name, message: error.message, code: error.code, codePos: error.codePos };
+        }
+        const report = createTestReport(options?.file ?? null, executor?.getTestResults() ?? [], Date.now() - startedAt, failure);
+        if (options?.snapshots) {
+            report.snapshots = options.snapshots.summary();
+        }
+        return report;
+    }
+
+    /**
+     * Parse a script and create the executor for one run of it
+     * (registers its functions and event handlers and runs their runtime decorators)
      */
-    async executeScript(script: string): Promise<Value> {
+    private async prepareScript(script: string, options?: ExecuteOptions): Promise<{ executor: Executor; statements: Statement[] }> {
         // Parser now handles source directly via TokenStream
         // Pass environment to parser so it can execute parse decorators
         const parser = new Parser(script, this.environment);
@@ -1372,6 +1716,16 @@ export class RobinPath {
         
         // Create executor early so we can use it to execute runtime decorators
         const executor = new Executor(this.environment, null, script);
+        executor.setDebugger(this.activeDebugger);
+        executor.setLimits(this.limits);
+        executor.setSignal(options?.signal ?? null);
+        executor.setOutput(options?.output ?? this.output);
+        executor.setCapabilities(this.capabilities);
+        executor.setTransport(this.transport);
+        executor.setCoverage(options?.coverage ?? null);
+        executor.setProfiler(options?.profiler ?? null, options?.file ?? null);
+        executor.setTracer(this.createTracer(options));
+        executor.setModules(this.modules, options?.file ?? null);
         
         // Register extracted function definitions first (before executing other statements)
         const extractedFunctions = parser.getExtractedFunctions();
@@ -1397,10 +1751,11 @@ export class RobinPath {
                 await executor.executeDecorators(handler.decorators, handler.eventName, null, []);
             }
         }
+
+        options?.coverage?.addScript(options.file ?? null, [...statements, ...extractedFunctions, ...extractedEventHandlers]);
+        options?.profiler?.addScript(options.file ?? null, [...extractedFunctions, ...extractedEventHandlers]);
         
-        this.lastExecutor = executor;
-        const result = await executor.execute(statements);
-        return result;
+        return { executor, statements };
     }
 
     /**
@@ -1408,7 +1763,7 @@ export class RobinPath {
      * Uses a persistent executor to maintain state ($, variables) between calls.
      * Functions and builtins persist across calls.
      */
-    async executeLine(line: string): Promise<Value> {
+    async executeLine(line: string, options?: ExecuteOptions): Promise<Value> {
         // Parser now handles source directly via TokenStream
         const parser = new Parser(line);
         const statements = await parser.parse();
@@ -1421,9 +1776,17 @@ export class RobinPath {
         
         if (!this.persistentExecutor) {
             this.persistentExecutor = new Executor(this.environment, null);
+            this.persistentExecutor.setDebugger(this.activeDebugger);
         }
         
         this.lastExecutor = this.persistentExecutor;
+        this.persistentExecutor.setLimits(this.limits);
+        this.persistentExecutor.setSignal(options?.signal ?? null);
+        this.persistentExecutor.setOutput(options?.output ?? this.output);
+        this.persistentExecutor.setCapabilities(this.capabilities);
+        this.persistentExecutor.setTransport(this.transport);
+        this.persistentExecutor.setTracer(this.createTracer(options));
+        this.persistentExecutor.setModules(this.modules, options?.file ?? null);
         const result = await this.persistentExecutor.execute(statements);
         return result;
     }
@@ -1439,6 +1802,119 @@ export class RobinPath {
         return null;
     }
 
+    /**
+     * Attach a step-through debugger to scripts run by this instance
+     * Applies to executeScript, executeLine and triggered event handlers (not to threads,
+     * which have their own attachDebugger).
+     * @param debuggerInstance Debugger to attach (a new one is created if omitted)
+     * @returns The attached debugger
+     */
+    attachDebugger(debuggerInstance?: Debugger): Debugger {
+        this.activeDebugger = debuggerInstance ?? new Debugger();
+        this.persistentExecutor?.setDebugger(this.activeDebugger);
+        return this.activeDebugger;
+    }
+
+    /**
+     * Detach the current debugger (subsequent statements run without pausing)
+     */
+    detachDebugger(): void {
+        this.activeDebugger = null;
+        this.persistentExecutor?.setDebugger(null);
+    }
+
+    getDebugger(): Debugger | null {
+        return this.activeDebugger;
+    }
+
+    /**
+     * Set the execution limits applied to every subsequent run
+     * (executeScript, executeLine and trigger). Counters reset at the start of each run.
+     * Threads created afterwards inherit these limits unless given their own.
+     * @param limits Limits to enforce, or null to remove all limits
+     */
+    setLimits(limits: ExecutionLimits | null): void {
+        this.limits = limits;
+    }
+
+    getLimits(): ExecutionLimits | null {
+        return this.limits;
+    }
+
+    /**
+     * Set the sink that receives the output of subsequent runs (log, say, explain, handler errors, ...)
+     * Threads created afterwards write to this sink unless given their own.
+     * @param output Sink to write to (consoleOutput prints to the console)
+     */
+    setOutput(output: OutputSink): void {
+        this.output = output;
+    }
+
+    getOutput(): OutputSink {
+        return this.output;
+    }
+
+    /**
+     * Set the capability policy applied to every subsequent run (null grants everything)
+     * Threads created afterwards use this policy unless given their own.
+     */
+    setCapabilities(policy: CapabilityPolicy | null): void {
+        this.capabilities = policy;
+    }
+
+    getCapabilities(): CapabilityPolicy | null {
+        return this.capabilities;
+    }
+
+    /**
+     * Set the transport fetch.* sends the requests of subsequent runs through (null: the network)
+     * Threads created afterwards use this transport unless given their own.
+     */
+    setTransport(transport: FetchTransport | null): void {
+        this.transport = transport;
+    }
+
+    getTransport(): FetchTransport | null {
+        return this.transport;
+    }
+
+    /**
+     * Set the sink that receives the trace events of subsequent runs (null turns tracing off)
+     * Threads created afterwards use this sink unless given their own.
+     */
+    setTrace(trace: TraceSink | null): void {
+        this.trace = trace;
+    }
+
+    getTrace(): TraceSink | null {
+        return this.trace;
+    }
+
+    // One tracer (trace id) per run
+    private createTracer(options?: ExecuteOptions): Tracer | null {
+        const trace = options?.trace ?? this.trace;
+        return trace ? new Tracer(trace) : null;
+    }
+
+    /**
+     * Set the loader of the files of import statements (null turns imports off).
+     * Modules loaded so far are forgotten; threads use the new loader too.
+     */
+    setModuleLoader(loader: ModuleLoader | null): void {
+        this.modules.setLoader(loader);
+    }
+
+    getModuleLoader(): ModuleLoader | null {
+        return this.modules.getLoader();
+    }
+
+    /**
+     * Forget the modules loaded so far (the next import of each loads and runs it again)
+     */
+    clearModuleCache(): void {
+        this.modules.clear();
+    }
+
     /**
      * REPL-friendly execution that supports multi-line blocks (if/def/for and $( ... )).
      * 
@@ -1495,7 +1971,7 @@ export class RobinPath {
      * await thread.executeScript('math.add 5 5');
      * console.log(thread.getLastValue()); // 10
      */
-    createThread(id?: string): RobinPathThread {
+    createThread(id?: string, options?: { limits?: ExecutionLimits; output?: OutputSink; capabilities?: CapabilityPolicy; transport?: FetchTransport; trace?: TraceSink }): RobinPathThread {
         const threadId = id || this.generateUUID();
         
         // Check if thread with this ID already exists
@@ -1503,7 +1979,14 @@ export class RobinPath {
             throw new Error(`Thread with ID "${threadId}" already exists`);
         }
         
-        const thread = new RobinPathThread(this.environment, threadId, this);
+        const thread = new RobinPathThread(this.environment, threadId, this, {
+            limits: options?.limits ?? this.limits ?? undefined,
+            output: options?.output ?? this.output,
+            capabilities: options?.capabilities ?? this.capabilities ?? undefined,
+            transport: options?.transport ?? this.transport ?? undefined,
+            trace: options?.trace ?? this.trace ?? undefined,
+            modules: this.modules
+        });
         this.threads.set(threadId, thread);
         
         // Set as current thread if no current thread exists
@@ -1586,8 +2069,25 @@ export class RobinPath {
      * @returns Promise that resolves when all handlers have executed
      */
     async trigger(eventName: string, ...args: Value[]): Promise<void> {
+        await this.runEventHandlers(eventName, args, null);
+    }
+
+    /**
+     * Run the handlers of an event, either as a new run or (when started from a script)
+     * as part of the caller's run so that execution limits carry over
+     */
+    private async runEventHandlers(eventName: string, args: Value[], caller: Executor | null): Promise<void> {
         // Get all handlers for this event name
         const handlers = this.environment.eventHandlers.get(eventName) || [];
+
+        // Triggers from the host are a run of their own
+        const tracer = caller ? null : this.createTracer();
+        const event: TraceEventData = { type: 'eventTriggered', event: eventName, args, handlers: handlers.length };
+        if (caller) {
+            caller.emitTrace(event);
+        } else {
+            tracer?.emit(event, null);
+        }
         
         if (handlers.length === 0) {
             // No handlers registered for this event - silently return
@@ -1599,13 +2099,34 @@ export class RobinPath {
             // Create a new executor for each handler execution
             // This ensures each handler has its own execution context
             const executor = new Executor(this.environment, null);
+            executor.setDebugger(this.activeDebugger);
+            if (caller) {
+                executor.inheritLimits(caller);
+            } else {
+                executor.setLimits(this.limits);
+                executor.setOutput(this.output);
+                executor.setCapabilities(this.capabilities);
+                executor.setTransport(this.transport);
+                executor.setTracer(tracer);
+            }
             
             try {
                 // Execute handler with arguments
                 await executor.executeEventHandler(handler, args);
             } catch (error) {
+                // Exceeded limits abort the whole trigger instead of moving on to the next handler
+                if (error instanceof ExecutionLimitError) {
+                    throw error;
+                }
                 // If handler throws an error, log it but continue with other handlers
-                console.error(`Error executing event handler for "${eventName}":`, error);
+                const message = error instanceof Error ? error.message : String(error);
+                (caller?.getOutput() ?? this.output).write({
+                    level: 'error',
+                    message: `Error executing event handler for "${eventName}": ${message}`,
+                    args: [],
+                    source: 'trigger',
+                    timestamp: Date.now()
+                });
             }
         }
     }
@@ -1,15 +1,79 @@
 import type { 
     BuiltinHandler, 
+    BuiltinCallback,
     FunctionMetadata, 
+    ParameterMetadata,
     ModuleMetadata,
-    ModuleAdapter
+    ModuleAdapter,
+    Value
 } from '../index';
+import { extractNamedArgs, isTruthy } from '../index';
+import { CoreFunctions } from './Core';
 
 /**
  * Array module for RobinPath
- * Provides array manipulation operations
+ * Provides array manipulation operations, and higher-order functions running a
+ * with callback block for each item ($1 = item, $2 = index)
  */
 
+const getArray = (value: Value | undefined, command: string): Value[] => {
+    if (!Array.isArray(value)) {
+        throw new Error(`array.${command} requires an array, got ${value === undefined || value === null ? 'null' : typeof value}`);
+    }
+    return value;
+};
+
+const requireCallback = (callback: BuiltinCallback | null | undefined, command: string): BuiltinCallback => {
+    if (!callback) {
+        throw new Error(`array.${command} requires a with callback block`);
+    }
+    return callback;
+};
+
+const call = async (callback: BuiltinCallback, callbackArgs: Value[]): Promise<Value> => {
+    const result = await Promise.resolve(callback(callbackArgs));
+    return result === undefined ? null : result;
+};
+
+// Sort order of values of different types: null, booleans, numbers, strings, then arrays and objects
+const typeRank = (value: Value): number => {
+    if (value === null || value === undefined) {
+        return 0;
+    }
+    if (typeof value === 'boolean') {
+        return 1;
+    }
+    if (typeof value === 'number') {
+        return 2;
+    }
+    return typeof value === 'string' ? 3 : 4;
+};
+
+/**
+ * Compare two values for sorting: numbers numerically, strings by code point,
+ * arrays and objects by their JSON text
+ */
+const compareValues = (a: Value, b: Value): number => {
+    const rankA = typeRank(a);
+    const rankB = typeRank(b);
+    if (rankA !== rankB) {
+        return rankA - rankB;
+    }
+    if (typeof a === 'number' && typeof b === 'number') {
+        return a - b;
+    }
+    if (typeof a === 'boolean' && typeof b === 'boolean') {
+        return Number(a) - Number(b);
+    }
+    const textA = typeof a === 'string' ? a : JSON.stringify(a);
+    const textB = typeof b === 'string' ? b : JSON.stringify(b);
+    return textA < textB ? -1 : textA > textB ? 1 : 0;
+};
+
+const isDescending = (namedArgs: Record<string, Value>): boolean => {
+    return namedArgs.order === 'desc' || namedArgs.order === 'descending';
+};
+
 export const ArrayFunctions: Record<string, BuiltinHandler> = {
     length: (args) => {
         const arr = args[0];
@@ -90,9 +154,229 @@ export const ArrayFunctions: Record<string, BuiltinHandler> = {
     create: (args) => {
         // Return all arguments as an array
         return [...args];
+    },
+
+    map: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'map');
+        const fn = requireCallback(callback, 'map');
+        const result: Value[] = [];
+        for (let i = 0; i < arr.length; i++) {
+            result.push(await call(fn, [arr[i], i]));
+        }
+        return result;
+    },
+
+    filter: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'filter');
+        const fn = requireCallback(callback, 'filter');
+        const result: Value[] = [];
+        for (let i = 0; i < arr.length; i++) {
+            if (isTruthy(await call(fn, [arr[i], i]))) {
+                result.push(arr[i]);
+            }
+        }
+        return result;
+    },
+
+    reduce: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'reduce');
+        const fn = requireCallback(callback, 'reduce');
+        // Without an initial value the first item is the initial accumulator
+        let start = 0;
+        let accumulator: Value;
+        if (args.length >= 2) {
+            accumulator = args[1];
+        } else if (arr.length > 0) {
+            accumulator = arr[0];
+            start = 1;
+        } else {
+            throw new Error('array.reduce of an empty array requires an initial value');
+        }
+        for (let i = start; i < arr.length; i++) {
+            // $1 = accumulator, $2 = item, $3 = index
+            accumulator = await call(fn, [accumulator, arr[i], i]);
+        }
+        return accumulator;
+    },
+
+    find: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'find');
+        const fn = requireCallback(callback, 'find');
+        for (let i = 0; i < arr.length; i++) {
+            if (isTruthy(await call(fn, [arr[i], i]))) {
+                return arr[i];
+            }
+        }
+        return null;
+    },
+
+    findIndex: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'findIndex');
+        const fn = requireCallback(callback, 'findIndex');
+        for (let i = 0; i < arr.length; i++) {
+            if (isTruthy(await call(fn, [arr[i], i]))) {
+                return i;
+            }
+        }
+        return -1;
+    },
+
+    some: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'some');
+        const fn = requireCallback(callback, 'some');
+        for (let i = 0; i < arr.length; i++) {
+            if (isTruthy(await call(fn, [arr[i], i]))) {
+                return true;
+            }
+        }
+        return false;
+    },
+
+    every: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'every');
+        const fn = requireCallback(callback, 'every');
+        for (let i = 0; i < arr.length; i++) {
+            if (!isTruthy(await call(fn, [arr[i], i]))) {
+                return false;
+            }
+        }
+        return true;
+    },
+
+    sortBy: async (args, callback?: BuiltinCallback | null) => {
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const arr = getArray(positionalArgs[0], 'sortBy');
+        const fn = requireCallback(callback, 'sortBy');
+        const keyed: { key: Value; item: Value }[] = [];
+        for (let i = 0; i < arr.length; i++) {
+            keyed.push({ key: await call(fn, [arr[i], i]), item: arr[i] });
+        }
+        const direction = isDescending(namedArgs) ? -1 : 1;
+        // Array.prototype.sort is stable, so items with equal keys keep their order
+        return keyed.sort((a, b) => direction * compareValues(a.key, b.key)).map(entry => entry.item);
+    },
+
+    groupBy: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'groupBy');
+        const fn = requireCallback(callback, 'groupBy');
+        const groups: Record<string, Value[]> = {};
+        for (let i = 0; i < arr.length; i++) {
+            const key = await call(fn, [arr[i], i]);
+            const name = typeof key === 'string' ? key : JSON.stringify(key);
+            (groups[name] ??= []).push(arr[i]);
+        }
+        return groups;
+    },
+
+    flatMap: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'flatMap');
+        const fn = requireCallback(callback, 'flatMap');
+        const result: Value[] = [];
+        for (let i = 0; i < arr.length; i++) {
+            const value = await call(fn, [arr[i], i]);
+            if (Array.isArray(value)) {
+                result.push(...value);
+            } else {
+                result.push(value);
+            }
+        }
+        return result;
+    },
+
+    forEach: async (args, callback?: BuiltinCallback | null) => {
+        const arr = getArray(args[0], 'forEach');
+        const fn = requireCallback(callback, 'forEach');
+        for (let i = 0; i < arr.length; i++) {
+            await call(fn, [arr[i], i]);
+        }
+        return arr;
+    },
+
+    sort: (args) => {
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const arr = getArray(positionalArgs[0], 'sort');
+        const direction = isDescending(namedArgs) ? -1 : 1;
+        return [...arr].sort((a, b) => direction * compareValues(a, b));
+    },
+
+    reverse: (args) => {
+        return [...getArray(args[0], 'reverse')].reverse();
+    },
+
+    unique: (args) => {
+        const arr = getArray(args[0], 'unique');
+        // Arrays and objects are equal when their JSON text is
+        const seen = new Set<Value>();
+        return arr.filter(item => {
+            const key = typeof item === 'object' && item !== null ? `json:${JSON.stringify(item)}` : item;
+            if (seen.has(key)) {
+                return false;
+            }
+            seen.add(key);
+            return true;
+        });
+    },
+
+    flatten: (args) => {
+        const arr = getArray(args[0], 'flatten');
+        const depth = args[1] === undefined || args[1] === null ? 1 : Number(args[1]);
+        if (Number.isNaN(depth) || depth < 0) {
+            throw new Error('array.flatten requires a non-negative depth');
+        }
+        return arr.flat(depth) as Value[];
+    },
+
+    zip: (args) => {
+        if (args.length === 0 || !args.every(arr => Array.isArray(arr))) {
+            throw new Error('array.zip requires arrays');
+        }
+        const arrays = args as Value[][];
+        // As long as the shortest array
+        const length = Math.min(...arrays.map(arr => arr.length));
+        return Array.from({ length }, (_, i) => arrays.map(arr => arr[i]));
+    },
+
+    chunk: (args) => {
+        const arr = getArray(args[0], 'chunk');
+        const size = Number(args[1]);
+        if (!Number.isInteger(size) || size < 1) {
+            throw new Error('array.chunk requires a positive integer size');
+        }
+        const result: Value[] = [];
+        for (let i = 0; i < arr.length; i += size) {
+            result.push(arr.slice(i, i + size));
+        }
+        return result;
+    },
+
+    range: (args, callback, context) => {
+        // Same as the global range command
+        return CoreFunctions.range(args, callback, context);
+    },
+
+    sum: (args) => {
+        const arr = getArray(args[0], 'sum');
+        return arr.reduce((total: number, value) => total + (Number(value) || 0), 0);
     }
 };
 
+const arrayParameter: ParameterMetadata = {
+    name: 'arr',
+    dataType: 'array',
+    description: 'Array to work on',
+    formInputType: 'json',
+    required: true
+};
+
+const orderParameter: ParameterMetadata = {
+    name: 'order',
+    dataType: 'string',
+    description: 'Sort order (named argument): "asc" or "desc"',
+    formInputType: 'select',
+    required: false,
+    defaultValue: 'asc'
+};
+
 export const ArrayFunctionMetadata: Record<string, FunctionMetadata> = {
     length: {
         description: 'Returns the length of an array',
@@ -255,11 +539,259 @@ export const ArrayFunctionMetadata: Record<string, FunctionMetadata> = {
         returnType: 'array',
         returnDescription: 'New array containing all provided values',
         example: 'array.create 1 2 3 "hello"  # Returns [1, 2, 3, "hello"]'
+    },
+
+    map: {
+        description: 'Runs a with callback block for each item ($1 = item, $2 = index) and collects its values',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'array',
+        returnDescription: 'Array of the callback values',
+        example: 'array.map $prices with\n  math.multiply $1 1.2\nendwith'
+    },
+
+    filter: {
+        description: 'Keeps the items for which a with callback block ($1 = item, $2 = index) gives a truthy value',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'array',
+        returnDescription: 'Array of the kept items',
+        example: 'array.filter $users with\n  $user = $1\n  return $user.active\nendwith'
+    },
+
+    reduce: {
+        description: 'Combines the items into one value: a with callback block gets the accumulator as $1, the item as $2 and the index as $3, and its value is the next accumulator',
+        parameters: [
+            arrayParameter,
+            {
+                name: 'initial',
+                dataType: 'any',
+                description: 'Initial accumulator. If omitted, the first item is the initial accumulator',
+                formInputType: 'json',
+                required: false
+            }
+        ],
+        returnType: 'any',
+        returnDescription: 'The last accumulator',
+        example: 'array.reduce [1, 2, 3] 0 with\n  math.add $1 $2\nendwith  # Returns 6'
+    },
+
+    find: {
+        description: 'Finds the first item for which a with callback block ($1 = item, $2 = index) gives a truthy value',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'any',
+        returnDescription: 'The item, or null if none matches',
+        example: 'array.find $users with\n  $user = $1\n  test.isEqual $user.name "Ann"\nendwith'
+    },
+
+    findIndex: {
+        description: 'Finds the index of the first item for which a with callback block ($1 = item, $2 = index) gives a truthy value',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'number',
+        returnDescription: 'Index of the item, or -1 if none matches',
+        example: 'array.findIndex [5, 12, 8] with\n  test.isBigger $1 10\nendwith  # Returns 1'
+    },
+
+    some: {
+        description: 'Checks whether a with callback block ($1 = item, $2 = index) gives a truthy value for any item',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'boolean',
+        returnDescription: 'True if any item matches',
+        example: 'array.some [1, 2, 3] with\n  test.isBigger $1 2\nendwith  # Returns true'
+    },
+
+    every: {
+        description: 'Checks whether a with callback block ($1 = item, $2 = index) gives a truthy value for every item',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'boolean',
+        returnDescription: 'True if all items match (also for an empty array)',
+        example: 'array.every [1, 2, 3] with\n  test.isBigger $1 0\nendwith  # Returns true'
+    },
+
+    sortBy: {
+        description: 'Sorts the items by the key a with callback block ($1 = item, $2 = index) gives for them (stable; numbers numerically, strings by code point)',
+        parameters: [
+            arrayParameter,
+            orderParameter
+        ],
+        returnType: 'array',
+        returnDescription: 'New sorted array',
+        example: 'array.sortBy $users order="desc" with\n  $user = $1\n  return $user.age\nendwith'
+    },
+
+    groupBy: {
+        description: 'Groups the items by the key a with callback block ($1 = item, $2 = index) gives for them',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'object',
+        returnDescription: 'Object of arrays of items by key',
+        example: 'array.groupBy [1, 2, 3, 4] with\n  math.modulo $1 2\nendwith  # Returns {"1": [1, 3], "0": [2, 4]}'
+    },
+
+    flatMap: {
+        description: 'Runs a with callback block for each item ($1 = item, $2 = index) and collects its values, spreading arrays one level',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'array',
+        returnDescription: 'Flattened array of the callback values',
+        example: 'array.flatMap [1, 2] with\n  array.create $1 $1\nendwith  # Returns [1, 1, 2, 2]'
+    },
+
+    forEach: {
+        description: 'Runs a with callback block for each item ($1 = item, $2 = index)',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'array',
+        returnDescription: 'The array',
+        example: 'array.forEach $names with\n  log $2 $1\nendwith'
+    },
+
+    sort: {
+        description: 'Sorts the items (numbers numerically, strings by code point; null, booleans, numbers, strings, then arrays and objects)',
+        parameters: [
+            arrayParameter,
+            orderParameter
+        ],
+        returnType: 'array',
+        returnDescription: 'New sorted array',
+        example: 'array.sort [3, 1, 2]  # Returns [1, 2, 3]'
+    },
+
+    reverse: {
+        description: 'Reverses the order of the items',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'array',
+        returnDescription: 'New reversed array',
+        example: 'array.reverse [1, 2, 3]  # Returns [3, 2, 1]'
+    },
+
+    unique: {
+        description: 'Removes repeated items (arrays and objects are equal when their JSON is), keeping the first occurrence',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'array',
+        returnDescription: 'New array without repeated items',
+        example: 'array.unique [1, 2, 1, 3]  # Returns [1, 2, 3]'
+    },
+
+    flatten: {
+        description: 'Spreads nested arrays into the array',
+        parameters: [
+            arrayParameter,
+            {
+                name: 'depth',
+                dataType: 'number',
+                description: 'How many levels of nesting to spread',
+                formInputType: 'number',
+                required: false,
+                defaultValue: 1
+            }
+        ],
+        returnType: 'array',
+        returnDescription: 'New flattened array',
+        example: 'array.flatten [1, [2, [3]]]  # Returns [1, 2, [3]]'
+    },
+
+    zip: {
+        description: 'Pairs up the items at the same index of several arrays',
+        parameters: [
+            {
+                name: 'arrays',
+                label: 'Arrays',
+                dataType: 'array',
+                description: 'Arrays to combine (any number of arguments)',
+                formInputType: 'json',
+                required: true,
+                children: {
+                    name: 'array',
+                    dataType: 'array',
+                    description: 'Array to combine',
+                    formInputType: 'json',
+                    required: true
+                }
+            }
+        ],
+        returnType: 'array',
+        returnDescription: 'Array of arrays, as long as the shortest array',
+        example: 'array.zip ["a", "b"] [1, 2]  # Returns [["a", 1], ["b", 2]]'
+    },
+
+    chunk: {
+        description: 'Splits the array into arrays of a given size (the last one may be shorter)',
+        parameters: [
+            arrayParameter,
+            {
+                name: 'size',
+                dataType: 'number',
+                description: 'Number of items per chunk',
+                formInputType: 'number',
+                required: true
+            }
+        ],
+        returnType: 'array',
+        returnDescription: 'Array of chunks',
+        example: 'array.chunk [1, 2, 3, 4, 5] 2  # Returns [[1, 2], [3, 4], [5]]'
+    },
+
+    range: {
+        description: 'Generates an array of numbers from start to end, both included (same as the global range command)',
+        parameters: [
+            {
+                name: 'start',
+                dataType: 'number',
+                description: 'First number',
+                formInputType: 'number',
+                required: true
+            },
+            {
+                name: 'end',
+                dataType: 'number',
+                description: 'Last number',
+                formInputType: 'number',
+                required: true
+            },
+            {
+                name: 'step',
+                dataType: 'number',
+                description: 'Increment (negative to count down)',
+                formInputType: 'number',
+                required: false
+            }
+        ],
+        returnType: 'array',
+        returnDescription: 'Array of numbers',
+        example: 'array.range 0 10 5  # Returns [0, 5, 10]'
+    },
+
+    sum: {
+        description: 'Adds up the items (items that are not numbers count as 0)',
+        parameters: [
+            arrayParameter
+        ],
+        returnType: 'number',
+        returnDescription: 'Sum of the items',
+        example: 'array.sum [1, 2, 3]  # Returns 6'
     }
 };
 
 export const ArrayModuleMetadata: ModuleMetadata = {
-    description: 'Array manipulation operations including length, indexing, slicing, and joining',
+    description: 'Array manipulation operations including length, indexing, slicing, joining, sorting, and map/filter/reduce with callback blocks',
     methods: [
         'length',
         'get',
@@ -267,7 +799,26 @@ export const ArrayModuleMetadata: ModuleMetadata = {
         'push',
         'concat',
         'join',
-        'create'
+        'create',
+        'map',
+        'filter',
+        'reduce',
+        'find',
+        'findIndex',
+        'some',
+        'every',
+        'sortBy',
+        'groupBy',
+        'flatMap',
+        'forEach',
+        'sort',
+        'reverse',
+        'unique',
+        'flatten',
+        'zip',
+        'chunk',
+        'range',
+        'sum'
     ]
 };
 
@@ -4,8 +4,10 @@ import type {
     FunctionMetadata, 
     ModuleMetadata,
     ModuleAdapter,
-    Value
+    Value,
+    LogLevel
 } from '../index';
+import { ExecutionLimitError, ErrorCode, ThrownError, consoleOutput } from '../index';
 import JSON5 from 'json5';
 
 /**
@@ -13,62 +15,62 @@ import JSON5 from 'json5';
  * Provides core built-in functions like log, obj, array, tag, range, etc.
  */
 
-export const CoreFunctions: Record<string, BuiltinHandler> = {
-    log: async (args) => {
-        // Format arguments for logging
-        const formattedArgs = args.map(arg => {
-            if (arg === null) return 'null';
-            if (arg === undefined) return 'undefined';
-            if (typeof arg === 'object') {
-                try {
-                    return JSON.stringify(arg);
-                } catch {
-                    return String(arg);
-                }
+/**
+ * Format script values for output: null/undefined by name, objects as JSON
+ */
+function formatOutputArgs(args: Value[]): string[] {
+    return args.map(arg => {
+        if (arg === null) return 'null';
+        if (arg === undefined) return 'undefined';
+        if (typeof arg === 'object') {
+            try {
+                return JSON.stringify(arg);
+            } catch {
+                return String(arg);
             }
-            return arg;
-        });
-        
-        // Generate timestamp with millisecond precision
-        const now = new Date();
-        const year = now.getFullYear();
-        const month = String(now.getMonth() + 1).padStart(2, '0');
-        const day = String(now.getDate()).padStart(2, '0');
-        const hours = String(now.getHours()).padStart(2, '0');
-        const minutes = String(now.getMinutes()).padStart(2, '0');
-        const seconds = String(now.getSeconds()).padStart(2, '0');
-        const milliseconds = String(now.getMilliseconds()).padStart(3, '0');
-        const timestamp = `[${year}-${month}-${day} ${hours}:${minutes}:${seconds}.${milliseconds}]`;
-        
-        // Always use Promise to ensure log completes before next command
-        // The await in executeCommand will wait for this Promise to resolve
-        return new Promise<null>((resolve) => {
-            // Use console.log for consistent logging across environments
-            // Prepend timestamp to the log output
-            console.log(timestamp, ...formattedArgs);
-            resolve(null);
+        }
+        return String(arg);
+    });
+}
+
+/**
+ * Builtin that writes its arguments to the run's output sink at the given level
+ * (the console output of these lines is prefixed with a timestamp)
+ */
+function createLogHandler(level: LogLevel): BuiltinHandler {
+    return (args, _callback, context) => {
+        (context?.output ?? consoleOutput).write({
+            level,
+            message: formatOutputArgs(args).join(' '),
+            args,
+            source: level,
+            timestamp: Date.now(),
+            timestamped: true
         });
-    },
+        return null;
+    };
+}
 
-    say: async (args) => {
-        // Format arguments for printing (same as log but without timestamp)
-        const formattedArgs = args.map(arg => {
-            if (arg === null) return 'null';
-            if (arg === undefined) return 'undefined';
-            if (typeof arg === 'object') {
-                try {
-                    return JSON.stringify(arg);
-                } catch {
-                    return String(arg);
-                }
-            }
-            return String(arg);
+export const CoreFunctions: Record<string, BuiltinHandler> = {
+    log: createLogHandler('log'),
+
+    warn: createLogHandler('warn'),
+
+    error: createLogHandler('error'),
+
+    debug: createLogHandler('debug'),
+
+    say: (args, _callback, context) => {
+        // Join all arguments without spaces and print without timestamp
+        const output = formatOutputArgs(args).join('');
+        (context?.output ?? consoleOutput).write({
+            level: 'log',
+            message: output,
+            args,
+            source: 'say',
+            timestamp: Date.now()
         });
         
-        // Join all arguments without spaces and print to console without timestamp
-        const output = formattedArgs.join('');
-        console.log(output);
-        
         // Return the concatenated output string (not just the last argument)
         // This updates the last value ($) and allows: $a = say "hello" "world" where $a becomes "helloworld"
         // Also allows: say "Hello World"; log $  # logs "Hello World"
@@ -239,11 +241,19 @@ export const CoreFunctions: Record<string, BuiltinHandler> = {
         return current;
     },
 
-    range: (args) => {
+    range: (args, _callback, context) => {
         const start = Number(args[0]) || 0;
         const end = Number(args[1]) || 0;
         const step = args.length >= 3 ? Number(args[2]) : undefined;
         const result: number[] = [];
+        // Enforce maxCollectionSize while building, so huge ranges fail before allocating
+        const maxSize = context?.limits?.maxCollectionSize;
+        const push = (value: number) => {
+            if (maxSize !== undefined && result.length >= maxSize) {
+                throw new ExecutionLimitError('maxCollectionSize', maxSize, `range exceeds the maximum collection size of ${maxSize}`);
+            }
+            result.push(value);
+        };
 
         // If step is provided, use it
         if (step !== undefined) {
@@ -256,25 +266,25 @@ export const CoreFunctions: Record<string, BuiltinHandler> = {
                 // Positive step: count up from start to end
                 // If start > end, this will produce empty array (correct behavior)
                 for (let i = start; i <= end; i += step) {
-                    result.push(i);
+                    push(i);
                 }
             } else {
                 // Negative step: count down from start to end
                 // If start < end, this will produce empty array (correct behavior)
                 for (let i = start; i >= end; i += step) {
-                    result.push(i);
+                    push(i);
                 }
             }
         } else {
             // No step provided: use default behavior (step of 1 or -1)
             if (start <= end) {
                 for (let i = start; i <= end; i++) {
-                    result.push(i);
+                    push(i);
                 }
             } else {
                 // Reverse range
                 for (let i = start; i >= end; i--) {
-                    result.push(i);
+                    push(i);
                 }
             }
         }
@@ -282,6 +292,17 @@ export const CoreFunctions: Record<string, BuiltinHandler> = {
         return result;
     },
 
+    throw: (args) => {
+        const first = args[0] ?? null;
+        // Re-throwing a caught error object keeps its message, code and data
+        if (first !== null && typeof first === 'object' && !Array.isArray(first) && typeof (first as any).message === 'string') {
+            const caught = first as Record<string, any>;
+            const code = Object.values(ErrorCode).includes(caught.code) ? caught.code : ErrorCode.THROWN;
+            throw new ThrownError(caught.message, caught.data ?? null, { code });
+        }
+        throw new ThrownError(first === null ? 'Error' : String(first), args[1] ?? null);
+    },
+
     has: (_args) => {
         // has command implementation is in executeCommand for special handling
         // This registration ensures it's recognized as a valid command
@@ -346,6 +367,78 @@ export const CoreFunctionMetadata: Record<string, FunctionMetadata> = {
         example: 'log "Hello" "World"  # Prints: Hello World'
     },
 
+    warn: {
+        description: 'Logs values as a warning (console.warn by default)',
+        parameters: [
+            {
+                name: 'args',
+                label: 'Arguments',
+                dataType: 'any',
+                description: 'Values to log (any number of arguments)',
+                formInputType: 'json',
+                required: false,
+                children: {
+                    name: 'value',
+                    dataType: 'any',
+                    description: 'Value to log',
+                    formInputType: 'json',
+                    required: false
+                }
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Always returns null (does not affect last value)',
+        example: 'warn "Disk almost full"  # Prints: [timestamp] Disk almost full'
+    },
+
+    error: {
+        description: 'Logs values as an error (console.error by default)',
+        parameters: [
+            {
+                name: 'args',
+                label: 'Arguments',
+                dataType: 'any',
+                description: 'Values to log (any number of arguments)',
+                formInputType: 'json',
+                required: false,
+                children: {
+                    name: 'value',
+                    dataType: 'any',
+                    description: 'Value to log',
+                    formInputType: 'json',
+                    required: false
+                }
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Always returns null (does not affect last value)',
+        example: 'error "Request failed" $status'
+    },
+
+    debug: {
+        description: 'Logs values at debug level (console.debug by default)',
+        parameters: [
+            {
+                name: 'args',
+                label: 'Arguments',
+                dataType: 'any',
+                description: 'Values to log (any number of arguments)',
+                formInputType: 'json',
+                required: false,
+                children: {
+                    name: 'value',
+                    dataType: 'any',
+                    description: 'Value to log',
+                    formInputType: 'json',
+                    required: false
+                }
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Always returns null (does not affect last value)',
+        example: 'debug "payload" $payload'
+    },
+
     say: {
         description: 'Prints values to the console without timestamp and returns the last value. Unlike log, say returns the value, allowing assignments like: $a = say "hello"',
         parameters: [
@@ -616,6 +709,29 @@ export const CoreFunctionMetadata: Record<string, FunctionMetadata> = {
         example: 'get {user: {name: "John"}} "user.name"  # Returns "John"'
     },
 
+    throw: {
+        description: 'Raises an error that can be caught by a try/catch block (or stops the script)',
+        parameters: [
+            {
+                name: 'message',
+                dataType: 'any',
+                description: 'Error message, or an error object from catch $err to re-throw it',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'data',
+                dataType: 'any',
+                description: 'Optional value attached to the error (available as $err.data)',
+                formInputType: 'json',
+                required: false
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Never returns',
+        example: 'throw "Invalid input" {field: "email"}'
+    },
+
     has: {
         description: 'Checks if a variable or function exists',
         parameters: [
@@ -683,6 +799,9 @@ export const CoreModuleMetadata: ModuleMetadata = {
     description: 'Core built-in functions including logging, object creation, arrays, metadata, and utilities',
     methods: [
         'log',
+        'warn',
+        'error',
+        'debug',
         'obj',
         'array',
         'tag',
@@ -695,6 +814,7 @@ export const CoreModuleMetadata: ModuleMetadata = {
         'set',
         'get',
         'range',
+        'throw',
         'has',
         'repeat'
     ]
@@ -0,0 +1,432 @@
+import type {
+    BuiltinHandler,
+    BuiltinCallback,
+    FunctionMetadata,
+    ModuleMetadata,
+    ModuleAdapter,
+    Value
+} from '../index';
+import { extractNamedArgs } from '../index';
+
+/**
+ * CSV module for RobinPath
+ * Provides CSV parsing (whole text or row by row) and stringification (RFC 4180 quoting)
+ */
+
+interface CsvParseOptions {
+    headers: boolean | string[]; // First row holds the column names / rows are arrays / these column names
+    delimiter: string;
+    quote: string;
+    infer: boolean; // Unquoted numbers and booleans become numbers and booleans, empty fields null
+    skipEmpty: boolean; // Skip blank lines
+    trim: boolean; // Trim whitespace around unquoted fields
+}
+
+interface CsvStringifyOptions {
+    headers: boolean | string[]; // Write a header row / no header row / these columns (in this order)
+    delimiter: string;
+    quote: string;
+    newline: string;
+}
+
+const NUMBER_PATTERN = /^[-+]?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?$|^[-+]?\.\d+$/;
+
+// A double keeps every decimal number of up to 15 significant digits
+const MAX_EXACT_DIGITS = 15;
+
+const getString = (value: Value | undefined, name: string, fallback: string): string => {
+    if (value === undefined || value === null) {
+        return fallback;
+    }
+    if (typeof value !== 'string' || value.length !== 1) {
+        throw new Error(`csv ${name} must be a single character, got ${JSON.stringify(value)}`);
+    }
+    return value;
+};
+
+const getHeaders = (value: Value | undefined): boolean | string[] => {
+    if (value === undefined || value === null) {
+        return true;
+    }
+    if (Array.isArray(value)) {
+        return value.map(name => String(name));
+    }
+    return Boolean(value);
+};
+
+/**
+ * Split the arguments of a csv command into its subject (text or rows) and options
+ * (named arguments or an options object after the subject)
+ */
+const splitArgs = (args: Value[]): { subject: Value | undefined; options: Record<string, Value> } => {
+    const { positionalArgs, namedArgs } = extractNamedArgs(args);
+    const extra = positionalArgs[1];
+    const options = typeof extra === 'object' && extra !== null && !Array.isArray(extra) ? extra as Record<string, Value> : {};
+    return { subject: positionalArgs[0], options: { ...options, ...namedArgs } };
+};
+
+const getParseOptions = (options: Record<string, Value>): CsvParseOptions => {
+    const delimiter = getString(options.delimiter, 'delimiter', ',');
+    const quote = getString(options.quote, 'quote', '"');
+    if (delimiter === quote) {
+        throw new Error('csv delimiter and quote must differ');
+    }
+    return {
+        headers: getHeaders(options.headers),
+        delimiter,
+        quote,
+        infer: options.infer === undefined ? true : Boolean(options.infer),
+        skipEmpty: options.skipEmpty === undefined ? true : Boolean(options.skipEmpty),
+        trim: Boolean(options.trim)
+    };
+};
+
+const getText = (value: Value | undefined, command: string): string => {
+    if (typeof value !== 'string') {
+        throw new Error(`csv.${command} requires CSV text`);
+    }
+    return value;
+};
+
+/**
+ * Fields of each record of a CSV text, one record at a time; quoted fields may contain
+ * delimiters, doubled quotes and line breaks ("\n", "\r\n" or "\r")
+ */
+function* readRecords(text: string, options: CsvParseOptions): Generator<{ fields: Value[]; line: number }> {
+    const { delimiter, quote } = options;
+    let index = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Skip a byte order mark
+    let line = 1;
+
+    while (index < text.length) {
+        const startLine = line;
+        const fields: Value[] = [];
+        let blank = true;
+
+        // One record: fields until an unquoted line break or the end of the text
+        while (true) {
+            let value: string;
+            let quoted = false;
+            let start = index;
+            // Leading whitespace before a quoted field is ignored
+            while (options.trim && (text[start] === ' ' || text[start] === '\t')) {
+                start++;
+            }
+            if (text[start] === quote) {
+                quoted = true;
+                blank = false;
+                let end = start + 1;
+                value = '';
+                while (true) {
+                    const next = text.indexOf(quote, end);
+                    if (next === -1) {
+                        throw new Error(`Unterminated quoted field at line ${line}`);
+                    }
+                    value += text.slice(end, next);
+                    line += countLineBreaks(text, end, next);
+                    if (text[next + 1] === quote) {
+                        value += quote;
+                        end = next + 2;
+                    } else {
+                        end = next + 1;
+                        break;
+                    }
+                }
+                // Anything between the closing quote and the delimiter is kept
+                index = end;
+                while (index < text.length && text[index] !== delimiter && text[index] !== '\n' && text[index] !== '\r') {
+                    index++;
+                }
+                value += options.trim ? text.slice(end, index).trim() : text.slice(end, index);
+            } else {
+                index = start;
+                while (index < text.length && text[index] !== delimiter && text[index] !== '\n' && text[index] !== '\r') {
+                    index++;
+                }
+                value = text.slice(start, index);
+                if (options.trim) {
+                    value = value.trim();
+                }
+            }
+
+            if (value !== '' || text[index] === delimiter) {
+                blank = false;
+            }
+            fields.push(quoted || !options.infer ? value : inferValue(value));
+
+            if (index < text.length && text[index] === delimiter) {
+                index++;
+                continue;
+            }
+            break;
+        }
+
+        // Consume the line break ending the record
+        if (text[index] === '\r' && text[index + 1] === '\n') {
+            index += 2;
+            line++;
+        } else if (text[index] === '\n' || text[index] === '\r') {
+            index++;
+            line++;
+        }
+
+        if (blank && options.skipEmpty) {
+            continue;
+        }
+        yield { fields: blank ? [] : fields, line: startLine };
+    }
+}
+
+function countLineBreaks(text: string, start: number, end: number): number {
+    let count = 0;
+    for (let i = start; i < end; i++) {
+        if (text[i] === '\n' || (text[i] === '\r' && text[i + 1] !== '\n')) {
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * Whether a number parsed from a field still has the field's value: integers must be safe
+ * integers, other numbers must not have more significant digits than a double keeps
+ */
+function isExactNumber(value: string, number: number): boolean {
+    if (/^[-+]?\d+$/.test(value)) {
+        return Number.isSafeInteger(number);
+    }
+    const digits = value.replace(/[eE].*$/, '').replace(/\D/g, '').replace(/^0+|0+$/g, '');
+    return digits.length <= MAX_EXACT_DIGITS && (number !== 0 || digits === '');
+}
+
+function inferValue(value: string): Value {
+    if (value === '') {
+        return null;
+    }
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    if (NUMBER_PATTERN.test(value)) {
+        const number = Number(value);
+        // Numbers a double cannot hold exactly (such as long IDs) stay strings
+        if (Number.isFinite(number) && isExactNumber(value, number)) {
+            return number;
+        }
+    }
+    return value;
+}
+
+/**
+ * Rows of a CSV text, one at a time: objects keyed by the column names, or arrays
+ * of fields when headers is false. Missing fields are null; fields beyond the named
+ * columns are kept as column<N> (1-based)
+ */
+function* readRows(text: string, options: CsvParseOptions): Generator<Value> {
+    let columns: string[] | null = Array.isArray(options.headers) ? options.headers : null;
+    for (const { fields } of readRecords(text, options)) {
+        if (options.headers === false) {
+            yield fields;
+            continue;
+        }
+        if (columns === null) {
+            columns = uniqueColumns(fields.map(field => field === null ? '' : String(field)));
+            continue;
+        }
+        const row: Record<string, Value> = {};
+        const count = Math.max(columns.length, fields.length);
+        for (let i = 0; i < count; i++) {
+            row[i < columns.length ? columns[i] : `column${i + 1}`] = fields[i] ?? null;
+        }
+        yield row;
+    }
+}
+
+/**
+ * Column names of a header row; empty and repeated names get a unique name
+ */
+function uniqueColumns(names: string[]): string[] {
+    const seen = new Set<string>();
+    return names.map((name, i) => {
+        let column = name === '' ? `column${i + 1}` : name;
+        for (let n = 2; seen.has(column); n++) {
+            column = `${name || `column${i + 1}`}_${n}`;
+        }
+        seen.add(column);
+        return column;
+    });
+}
+
+const formatField = (value: Value | undefined, options: CsvStringifyOptions): string => {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const { delimiter, quote } = options;
+    const needsQuotes = text.includes(delimiter) || text.includes(quote) || text.includes('\n') || text.includes('\r') ||
+        text !== text.trim();
+    return needsQuotes ? quote + text.split(quote).join(quote + quote) + quote : text;
+};
+
+export const CsvFunctions: Record<string, BuiltinHandler> = {
+    parse: (args) => {
+        const { subject, options } = splitArgs(args);
+        const text = getText(subject, 'parse');
+        return [...readRows(text, getParseOptions(options))];
+    },
+
+    each: async (args, callback?: BuiltinCallback | null) => {
+        const { subject, options } = splitArgs(args);
+        const text = getText(subject, 'each');
+        if (!callback) {
+            throw new Error('csv.each requires a with callback block');
+        }
+        // Rows are parsed as the callback asks for them, so the whole table is never held at once
+        let index = 0;
+        for (const row of readRows(text, getParseOptions(options))) {
+            await Promise.resolve(callback([row, index]));
+            index++;
+        }
+        return index;
+    },
+
+    stringify: (args) => {
+        const { subject, options } = splitArgs(args);
+        if (!Array.isArray(subject)) {
+            throw new Error('csv.stringify requires an array of rows (objects or arrays)');
+        }
+        const delimiter = getString(options.delimiter, 'delimiter', ',');
+        const quote = getString(options.quote, 'quote', '"');
+        const stringifyOptions: CsvStringifyOptions = {
+            headers: getHeaders(options.headers),
+            delimiter,
+            quote,
+            newline: typeof options.newline === 'string' ? options.newline : '\n'
+        };
+
+        const rows = subject as Value[];
+        const objectRows = rows.some(row => typeof row === 'object' && row !== null && !Array.isArray(row));
+        const lines: string[] = [];
+        let columns: string[] | null = null;
+        if (Array.isArray(stringifyOptions.headers)) {
+            columns = stringifyOptions.headers;
+        } else if (objectRows) {
+            // Columns in the order their keys first appear
+            const keys = new Set<string>();
+            for (const row of rows) {
+                if (typeof row === 'object' && row !== null && !Array.isArray(row)) {
+                    Object.keys(row).forEach(key => keys.add(key));
+                }
+            }
+            columns = [...keys];
+        }
+        if (columns && stringifyOptions.headers !== false) {
+            lines.push(columns.map(column => formatField(column, stringifyOptions)).join(delimiter));
+        }
+
+        for (const row of rows) {
+            let fields: Value[];
+            if (Array.isArray(row)) {
+                fields = row;
+            } else if (typeof row === 'object' && row !== null) {
+                const record = row as Record<string, Value>;
+                fields = (columns ?? []).map(column => record[column]);
+            } else {
+                fields = [row];
+            }
+            lines.push(fields.map(field => formatField(field, stringifyOptions)).join(delimiter));
+        }
+        return lines.join(stringifyOptions.newline);
+    }
+};
+
+const parseOptionsDescription = 'Options (named arguments or an object): headers (true: the first row names the columns, false: rows are arrays, or an array of column names), delimiter (","), quote (\'"\'), infer (true: unquoted numbers and booleans are converted, empty fields become null), skipEmpty (true: blank lines are skipped), trim (false: trim unquoted fields)';
+
+export const CsvFunctionMetadata: Record<string, FunctionMetadata> = {
+    parse: {
+        description: 'Parses CSV text into rows; quoted fields may contain delimiters, quotes ("") and line breaks',
+        parameters: [
+            {
+                name: 'text',
+                dataType: 'string',
+                description: 'CSV text to parse',
+                formInputType: 'textarea',
+                required: true
+            },
+            {
+                name: 'options',
+                dataType: 'object',
+                description: parseOptionsDescription,
+                formInputType: 'json',
+                required: false
+            }
+        ],
+        returnType: 'array',
+        returnDescription: 'Array of objects keyed by column name (or arrays of fields when headers is false)',
+        example: 'csv.parse $text delimiter=";"'
+    },
+
+    each: {
+        description: 'Parses CSV text row by row, running a with callback block for each row ($1 = row, $2 = index starting at 0) without building the whole table',
+        parameters: [
+            {
+                name: 'text',
+                dataType: 'string',
+                description: 'CSV text to parse',
+                formInputType: 'textarea',
+                required: true
+            },
+            {
+                name: 'options',
+                dataType: 'object',
+                description: parseOptionsDescription,
+                formInputType: 'json',
+                required: false
+            }
+        ],
+        returnType: 'number',
+        returnDescription: 'Number of rows passed to the callback',
+        example: 'csv.each $text with\n  log $1.name\nendwith'
+    },
+
+    stringify: {
+        description: 'Converts rows to CSV text, quoting fields that contain delimiters, quotes, line breaks or surrounding spaces',
+        parameters: [
+            {
+                name: 'rows',
+                dataType: 'array',
+                description: 'Array of objects (columns in the order their keys first appear) or arrays of fields',
+                formInputType: 'json',
+                required: true
+            },
+            {
+                name: 'options',
+                dataType: 'object',
+                description: 'Options (named arguments or an object): headers (true: write a header row for object rows, false: no header row, or an array of the columns to write), delimiter (","), quote (\'"\'), newline ("\\n")',
+                formInputType: 'json',
+                required: false
+            }
+        ],
+        returnType: 'string',
+        returnDescription: 'CSV text (without a trailing line break)',
+        example: 'csv.stringify $rows delimiter=";"'
+    }
+};
+
+export const CsvModuleMetadata: ModuleMetadata = {
+    description: 'CSV operations: parse text into objects or arrays (with type inference), iterate large inputs row by row and stringify rows',
+    methods: [
+        'parse',
+        'each',
+        'stringify'
+    ]
+};
+
+// Module adapter for auto-loading
+const CsvModule: ModuleAdapter = {
+    name: 'csv',
+    functions: CsvFunctions,
+    functionMetadata: CsvFunctionMetadata,
+    moduleMetadata: CsvModuleMetadata,
+    global: false
+};
+
+export default CsvModule;
@@ -1,23 +1,64 @@
 import type { 
     BuiltinHandler, 
+    BuiltinContext,
     FunctionMetadata, 
     ModuleMetadata,
     ModuleAdapter
 } from '../index';
-import { extractNamedArgs } from '../index';
+import { extractNamedArgs, TimeoutError, CapabilityError } from '../index';
 
 /**
  * Fetch module for RobinPath
  * Provides HTTP request operations using the native fetch API
+ * (or the transport set on RobinPath, e.g. a MockTransport in tests)
  */
 
+type ResponseType = 'auto' | 'json' | 'text' | 'base64';
+
 interface FetchOptions {
     url: string;
     body?: any;
     headers?: Record<string, string>;
     method?: string;
+    query?: Record<string, any>;
+    form?: Record<string, any>;
+    timeout?: number; // Milliseconds per attempt
+    retries: number;
+    retryDelay: number; // Milliseconds before the first retry (doubled for every further retry)
+    responseType: ResponseType;
+    full: boolean; // Return the response object (false: only its body)
 }
 
+const RESPONSE_TYPES: ResponseType[] = ['auto', 'json', 'text', 'base64'];
+
+// Statuses worth another attempt: request timeout, too many requests and server errors
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+// Redirects followed for one request before giving up (as the native fetch does)
+const MAX_REDIRECTS = 20;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+const getObjectOption = (value: any, name: string): Record<string, any> | undefined => {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`${name} must be an object, got ${JSON.stringify(value)}`);
+    }
+    return value;
+};
+
+const getNumberOption = (value: any, name: string): number | undefined => {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+        throw new Error(`${name} must be a non-negative number, got ${JSON.stringify(value)}`);
+    }
+    return number;
+};
+
 const parseFetchOptions = (args: any[]): FetchOptions => {
     // Use the utility function to extract named arguments
     const { positionalArgs, namedArgs } = extractNamedArgs(args);
@@ -75,25 +116,185 @@ const parseFetchOptions = (args: any[]): FetchOptions => {
             headers = headersVal as Record<string, string>;
         }
     }
+
+    const form = getObjectOption(namedArgs.form, 'form');
+    if (form && body !== undefined) {
+        throw new Error('body and form cannot be used together');
+    }
+
+    const responseType = String(namedArgs.responseType ?? 'auto') as ResponseType;
+    if (!RESPONSE_TYPES.includes(responseType)) {
+        throw new Error(`responseType must be one of ${RESPONSE_TYPES.join(', ')}, got ${JSON.stringify(namedArgs.responseType)}`);
+    }
     
     return {
         url,
         body,
         headers,
-        method: namedArgs.method ? String(namedArgs.method).toUpperCase() : undefined
+        method: namedArgs.method ? String(namedArgs.method).toUpperCase() : undefined,
+        query: getObjectOption(namedArgs.query, 'query'),
+        form,
+        timeout: getNumberOption(namedArgs.timeout, 'timeout'),
+        retries: Math.floor(getNumberOption(namedArgs.retries, 'retries') ?? 0),
+        retryDelay: getNumberOption(namedArgs.retryDelay, 'retryDelay') ?? 100,
+        responseType,
+        full: namedArgs.full === undefined ? true : Boolean(namedArgs.full)
     };
 };
 
-const executeFetch = async (options: FetchOptions, defaultMethod: string): Promise<any> => {
+/**
+ * Append query parameters to a URL (arrays repeat the parameter, null values are left out)
+ */
+const withQuery = (url: string, query: Record<string, any> | undefined): string => {
+    if (!query) {
+        return url;
+    }
+    const parsed = new URL(url);
+    for (const [key, value] of Object.entries(query)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (item !== null && item !== undefined) {
+                parsed.searchParams.append(key, typeof item === 'object' ? JSON.stringify(item) : String(item));
+            }
+        }
+    }
+    return parsed.toString();
+};
+
+/**
+ * Wait for ms milliseconds, rejecting with the abort reason when the run is cancelled
+ */
+const sleep = (ms: number, signal: AbortSignal | null | undefined): Promise<void> => {
+    signal?.throwIfAborted();
+    return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const readResponseBody = async (response: Response, responseType: ResponseType): Promise<any> => {
+    if (responseType === 'base64') {
+        return toBase64(new Uint8Array(await response.arrayBuffer()));
+    }
+    const text = await response.text();
+    if (responseType === 'text') {
+        return text;
+    }
+    // Try to parse as JSON, fallback to text
+    const contentType = response.headers.get('content-type');
+    if (responseType === 'json' || (contentType && contentType.includes('application/json'))) {
+        try {
+            return text === '' ? null : JSON.parse(text);
+        } catch {
+            if (responseType === 'json') {
+                throw new Error(`Response of ${response.url || 'the request'} is not valid JSON`);
+            }
+            return text;
+        }
+    }
+    return text;
+};
+
+/**
+ * Send the request through the run's transport. Redirects are followed here rather than
+ * by the transport, so that every URL on the way is checked against the capability policy
+ */
+const followRedirects = async (url: string, init: RequestInit, signal: AbortSignal | undefined, context?: BuiltinContext): Promise<Response> => {
+    const transport = context?.transport;
+    let request: RequestInit = { ...init, signal, redirect: 'manual' };
+    for (let redirects = 0; ; redirects++) {
+        // Only hosts granted by the run's capability policy may be reached
+        context?.capabilities.checkFetch(url);
+        const response = await (transport ? transport.fetch(url, request) : fetch(url, request));
+        if (response.type === 'opaqueredirect') {
+            // Browsers hide the target of manual redirects
+            throw new Error(`${url} redirects to a location that cannot be checked`);
+        }
+        const location = response.headers.get('location');
+        if (!REDIRECT_STATUSES.includes(response.status) || location === null) {
+            return response;
+        }
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+            throw new Error(`${url} redirected more than ${MAX_REDIRECTS} times`);
+        }
+
+        const next = new URL(location, url).toString();
+        const method = (request.method ?? 'GET').toUpperCase();
+        const headers = new Headers(request.headers);
+        // 303 (and 301/302 after a POST) continue as a GET without the body, as browsers do
+        if ((response.status === 303 && method !== 'HEAD') || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+            request = { ...request, method: 'GET', body: undefined };
+            headers.delete('content-type');
+        }
+        // Credentials are not sent on to another origin
+        if (new URL(next).origin !== new URL(url).origin) {
+            headers.delete('authorization');
+            headers.delete('cookie');
+        }
+        request = { ...request, headers };
+        url = next;
+    }
+};
+
+/**
+ * Send the request once (following its redirects), aborting it after options.timeout
+ */
+const sendRequest = async (url: string, init: RequestInit, options: FetchOptions, context?: BuiltinContext): Promise<Response> => {
+    const signal = context?.signal ?? undefined;
+    if (options.timeout === undefined) {
+        return followRedirects(url, init, signal, context);
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => {
+        controller.abort(new TimeoutError(options.timeout!, `Request to ${url} timed out after ${options.timeout}ms`));
+    }, options.timeout);
+    try {
+        const request = followRedirects(url, init, controller.signal, context);
+        // Transports that ignore the signal are not waited for
+        const aborted = new Promise<never>((_resolve, reject) => {
+            controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        });
+        return await Promise.race([request, aborted]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+const executeFetch = async (options: FetchOptions, defaultMethod: string, context?: BuiltinContext): Promise<any> => {
+    const url = withQuery(options.url, options.query);
+    const signal = context?.signal;
     const method = options.method || defaultMethod;
     const headers: Record<string, string> = {
         ...(options.headers || {})
     };
+    const hasContentType = Object.keys(headers).some(name => name.toLowerCase() === 'content-type');
     
     // Set Content-Type to application/json if body is provided and no Content-Type header is set
-    if (options.body !== undefined && !headers['Content-Type'] && !headers['content-type']) {
+    if (options.body !== undefined && !hasContentType) {
         headers['Content-Type'] = 'application/json';
     }
+    if (options.form && !hasContentType) {
+        headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    }
     
     const fetchOptions: RequestInit = {
         method,
@@ -101,68 +302,155 @@ const executeFetch = async (options: FetchOptions, defaultMethod: string): Promi
     };
     
     // Add body for methods that support it
-    if (options.body !== undefined && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
-        if (typeof options.body === 'string') {
+    if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
+        if (options.form) {
+            fetchOptions.body = new URLSearchParams(Object.entries(options.form).map(([key, value]) => [key, String(value)])).toString();
+        } else if (typeof options.body === 'string') {
             fetchOptions.body = options.body;
-        } else {
+        } else if (options.body !== undefined) {
             fetchOptions.body = JSON.stringify(options.body);
         }
     }
     
-    try {
-        // Validate URL before calling fetch
-        if (!options.url || typeof options.url !== 'string') {
-            throw new Error(`Invalid URL: ${JSON.stringify(options.url)}`);
-        }
-        const response = await fetch(options.url, fetchOptions);
-        
-        // Try to parse as JSON, fallback to text
-        let data: any;
-        const contentType = response.headers.get('content-type');
-        if (contentType && contentType.includes('application/json')) {
-            try {
-                data = await response.json();
-            } catch {
-                data = await response.text();
+    for (let attempt = 0; ; attempt++) {
+        const retry = attempt < options.retries;
+        let response: Response;
+        try {
+            response = await sendRequest(url, fetchOptions, options, context);
+        } catch (error) {
+            // Cancellation is not a fetch failure: surface the abort reason unchanged
+            if (signal?.aborted) {
+                throw signal.reason;
             }
-        } else {
-            data = await response.text();
+            // Denied hosts are not retried either
+            if (error instanceof CapabilityError) {
+                throw error;
+            }
+            if (retry) {
+                await sleep(options.retryDelay * 2 ** attempt, signal);
+                continue;
+            }
+            if (error instanceof TimeoutError) {
+                throw error;
+            }
+            throw new Error(`Fetch failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (retry && isRetryableStatus(response.status)) {
+            await response.body?.cancel();
+            await sleep(options.retryDelay * 2 ** attempt, signal);
+            continue;
+        }
+
+        const data = await readResponseBody(response, options.responseType);
+        if (!options.full) {
+            return data;
         }
-        
         return {
             ok: response.ok,
             status: response.status,
             statusText: response.statusText,
             headers: Object.fromEntries(response.headers.entries()),
+            body: data,
             data: data
         };
-    } catch (error) {
-        throw new Error(`Fetch failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 };
 
 export const FetchFunctions: Record<string, BuiltinHandler> = {
-    get: async (args) => {
+    get: async (args, _callback, context) => {
+        const options = parseFetchOptions(args);
+        return await executeFetch(options, 'GET', context);
+    },
+
+    post: async (args, _callback, context) => {
+        const options = parseFetchOptions(args);
+        return await executeFetch(options, 'POST', context);
+    },
+
+    delete: async (args, _callback, context) => {
         const options = parseFetchOptions(args);
-        return await executeFetch(options, 'GET');
+        return await executeFetch(options, 'DELETE', context);
     },
 
-    post: async (args) => {
+    put: async (args, _callback, context) => {
         const options = parseFetchOptions(args);
-        return await executeFetch(options, 'POST');
+        return await executeFetch(options, 'PUT', context);
     },
 
-    delete: async (args) => {
+    patch: async (args, _callback, context) => {
         const options = parseFetchOptions(args);
-        return await executeFetch(options, 'DELETE');
+        return await executeFetch(options, 'PATCH', context);
     },
 
-    put: async (args) => {
+    request: async (args, _callback, context) => {
         const options = parseFetchOptions(args);
-        return await executeFetch(options, 'PUT');
+        return await executeFetch(options, 'GET', context);
     }
 };
 
+// Named options every fetch function accepts
+const optionParameters: FunctionMetadata['parameters'] = [
+    {
+        name: 'query',
+        dataType: 'object',
+        description: 'Query parameters appended to the URL (arrays repeat the parameter)',
+        formInputType: 'json',
+        required: false
+    },
+    {
+        name: 'timeout',
+        dataType: 'number',
+        description: 'Milliseconds each attempt may take before it fails with a TimeoutError',
+        formInputType: 'number',
+        required: false
+    },
+    {
+        name: 'retries',
+        dataType: 'number',
+        description: 'Retries after network errors, timeouts and 408, 429 or 5xx responses',
+        formInputType: 'number',
+        required: false,
+        defaultValue: 0
+    },
+    {
+        name: 'retryDelay',
+        dataType: 'number',
+        description: 'Milliseconds before the first retry (doubled for every further retry)',
+        formInputType: 'number',
+        required: false,
+        defaultValue: 100
+    },
+    {
+        name: 'responseType',
+        dataType: 'string',
+        description: 'How to read the response body: auto (JSON by content type, otherwise text), json, text or base64 (binary data)',
+        formInputType: 'select',
+        required: false,
+        defaultValue: 'auto'
+    },
+    {
+        name: 'full',
+        dataType: 'boolean',
+        description: 'Return the response object (false returns only the body)',
+        formInputType: 'checkbox',
+        required: false,
+        defaultValue: true
+    }
+];
+
+const bodyParameters: FunctionMetadata['parameters'] = [
+    {
+        name: 'form',
+        dataType: 'object',
+        description: 'Form fields sent URL-encoded (instead of body)',
+        formInputType: 'json',
+        required: false
+    }
+];
+
+const RESPONSE_DESCRIPTION = 'Response object with ok, status, statusText, headers and body (also as data) properties, or only the body with full=false';
+
 export const FetchFunctionMetadata: Record<string, FunctionMetadata> = {
     get: {
         description: 'Performs an HTTP GET request',
@@ -180,10 +468,11 @@ export const FetchFunctionMetadata: Record<string, FunctionMetadata> = {
                 description: 'HTTP headers as key-value pairs',
                 formInputType: 'json',
                 required: false
-            }
+            },
+            ...optionParameters
         ],
         returnType: 'object',
-        returnDescription: 'Response object with ok, status, statusText, headers, and data properties',
+        returnDescription: RESPONSE_DESCRIPTION,
         example: 'fetch.get(url="https://api.example.com/data", headers=obj`{"Authorization": "Bearer token"}`)'
     },
 
@@ -210,10 +499,12 @@ export const FetchFunctionMetadata: Record<string, FunctionMetadata> = {
                 description: 'HTTP headers as key-value pairs',
                 formInputType: 'json',
                 required: false
-            }
+            },
+            ...bodyParameters,
+            ...optionParameters
         ],
         returnType: 'object',
-        returnDescription: 'Response object with ok, status, statusText, headers, and data properties',
+        returnDescription: RESPONSE_DESCRIPTION,
         example: 'fetch.post(url="https://api.example.com/users", body=obj`{"name": "John"}`, headers=obj`{"Content-Type": "application/json"}`)'
     },
 
@@ -233,10 +524,11 @@ export const FetchFunctionMetadata: Record<string, FunctionMetadata> = {
                 description: 'HTTP headers as key-value pairs',
                 formInputType: 'json',
                 required: false
-            }
+            },
+            ...optionParameters
         ],
         returnType: 'object',
-        returnDescription: 'Response object with ok, status, statusText, headers, and data properties',
+        returnDescription: RESPONSE_DESCRIPTION,
         example: 'fetch.delete(url="https://api.example.com/users/123", headers=obj`{"Authorization": "Bearer token"}`)'
     },
 
@@ -263,21 +555,97 @@ export const FetchFunctionMetadata: Record<string, FunctionMetadata> = {
                 description: 'HTTP headers as key-value pairs',
                 formInputType: 'json',
                 required: false
-            }
+            },
+            ...bodyParameters,
+            ...optionParameters
         ],
         returnType: 'object',
-        returnDescription: 'Response object with ok, status, statusText, headers, and data properties',
+        returnDescription: RESPONSE_DESCRIPTION,
         example: 'fetch.put(url="https://api.example.com/users/123", body=obj`{"name": "Jane"}`, headers=obj`{"Content-Type": "application/json"}`)'
+    },
+
+    patch: {
+        description: 'Performs an HTTP PATCH request',
+        parameters: [
+            {
+                name: 'url',
+                dataType: 'string',
+                description: 'URL to send request to',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'body',
+                dataType: 'any',
+                description: 'Request body (will be JSON stringified if object)',
+                formInputType: 'json',
+                required: false
+            },
+            {
+                name: 'headers',
+                dataType: 'object',
+                description: 'HTTP headers as key-value pairs',
+                formInputType: 'json',
+                required: false
+            },
+            ...bodyParameters,
+            ...optionParameters
+        ],
+        returnType: 'object',
+        returnDescription: RESPONSE_DESCRIPTION,
+        example: 'fetch.patch "https://api.example.com/users/123" {"status": "active"}'
+    },
+
+    request: {
+        description: 'Performs an HTTP request with any method (options as named arguments or one object)',
+        parameters: [
+            {
+                name: 'url',
+                dataType: 'string',
+                description: 'URL to send request to',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'method',
+                dataType: 'string',
+                description: 'HTTP method (GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS, ...)',
+                formInputType: 'text',
+                required: false,
+                defaultValue: 'GET'
+            },
+            {
+                name: 'body',
+                dataType: 'any',
+                description: 'Request body (will be JSON stringified if object)',
+                formInputType: 'json',
+                required: false
+            },
+            {
+                name: 'headers',
+                dataType: 'object',
+                description: 'HTTP headers as key-value pairs',
+                formInputType: 'json',
+                required: false
+            },
+            ...bodyParameters,
+            ...optionParameters
+        ],
+        returnType: 'object',
+        returnDescription: RESPONSE_DESCRIPTION,
+        example: 'fetch.request {"url": "https://api.example.com/users", "method": "HEAD", "timeout": 2000}'
     }
 };
 
 export const FetchModuleMetadata: ModuleMetadata = {
-    description: 'HTTP request operations using the native fetch API. Supports GET, POST, DELETE, and PUT methods.',
+    description: 'HTTP request operations using the native fetch API (or the transport set on RobinPath). Supports GET, POST, DELETE, PUT and PATCH methods, and any other through fetch.request, with query parameters, form bodies, timeouts and retries.',
     methods: [
         'get',
         'post',
         'delete',
-        'put'
+        'put',
+        'patch',
+        'request'
     ]
 };
 
@@ -0,0 +1,503 @@
+import type {
+    BuiltinHandler,
+    BuiltinContext,
+    FunctionMetadata,
+    ModuleMetadata,
+    ModuleAdapter,
+    FileSystem,
+    Value
+} from '../index';
+import { CapabilityError, resolveSandboxPath, getParentPath, globToRegExp } from '../index';
+
+/**
+ * Filesystem module for RobinPath
+ * Provides file and directory operations in the file system granted by the
+ * capability policy (capabilities.fs); paths are relative to its root directory
+ */
+
+const getFileSystem = (context?: BuiltinContext): FileSystem => {
+    if (!context) {
+        throw new CapabilityError('fs', 'fs denied: no file system is available (set capabilities.fs)');
+    }
+    return context.capabilities.fileSystem();
+};
+
+const getPath = (args: Value[], index: number, command: string, name = 'path'): string => {
+    const value = args[index];
+    if (typeof value !== 'string' || value === '') {
+        throw new Error(`fs.${command} requires a ${name} string`);
+    }
+    return resolveSandboxPath(value);
+};
+
+const toText = (value: Value): string => {
+    return typeof value === 'string' ? value : JSON.stringify(value ?? null);
+};
+
+// Errors of the file system name the script's path instead of the storage's
+const run = async <T>(action: string, path: string, operation: () => T | Promise<T>): Promise<T> => {
+    try {
+        return await operation();
+    } catch (error) {
+        if (error instanceof CapabilityError) {
+            throw error;
+        }
+        throw new Error(`Cannot ${action} "${path || '.'}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+/**
+ * Root-relative paths of all entries under a directory (depth first, sorted);
+ * entries the file system refuses (links leading outside the root) are left out
+ */
+const walk = async (fs: FileSystem, directory: string, paths: string[]): Promise<void> => {
+    const names = [...await fs.readDir(directory)].sort();
+    for (const name of names) {
+        const path = directory === '' ? name : `${directory}/${name}`;
+        let stat;
+        try {
+            stat = await fs.stat(path);
+        } catch (error) {
+            if (error instanceof CapabilityError) {
+                continue;
+            }
+            throw error;
+        }
+        paths.push(path);
+        if (stat?.type === 'directory') {
+            await walk(fs, path, paths);
+        }
+    }
+};
+
+export const FsFunctions: Record<string, BuiltinHandler> = {
+    read: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = getPath(args, 0, 'read');
+        return await run('read', path, () => fs.readFile(path));
+    },
+
+    readJson: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = getPath(args, 0, 'readJson');
+        const text = await run('read', path, () => fs.readFile(path));
+        try {
+            return JSON.parse(text);
+        } catch (error) {
+            throw new Error(`Invalid JSON in "${path}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+    },
+
+    write: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = getPath(args, 0, 'write');
+        await run('write', path, async () => {
+            await fs.mkdir(getParentPath(path));
+            await fs.writeFile(path, toText(args[1] ?? ''));
+        });
+        return null;
+    },
+
+    writeJson: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = getPath(args, 0, 'writeJson');
+        const indent = args[2] !== undefined ? Number(args[2]) : 2;
+        await run('write', path, async () => {
+            await fs.mkdir(getParentPath(path));
+            await fs.writeFile(path, JSON.stringify(args[1] ?? null, null, indent) + '\n');
+        });
+        return null;
+    },
+
+    append: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = getPath(args, 0, 'append');
+        await run('append to', path, async () => {
+            await fs.mkdir(getParentPath(path));
+            await fs.appendFile(path, toText(args[1] ?? ''));
+        });
+        return null;
+    },
+
+    list: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = args[0] === undefined ? '' : getPath(args, 0, 'list');
+        const names = await run('list', path, () => fs.readDir(path));
+        return [...names].sort();
+    },
+
+    glob: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        if (typeof args[0] !== 'string' || args[0] === '') {
+            throw new Error('fs.glob requires a pattern string');
+        }
+        const pattern = args[0].split('\\').join('/').replace(/^(\.\/|\/)+/, '');
+        if (pattern.split('/').includes('..')) {
+            throw new CapabilityError('fs', `fs denied: "${args[0]}" is outside the root directory`);
+        }
+        // Only walk below the directory the pattern starts with
+        const segments = pattern.split('/');
+        const firstWildcard = segments.findIndex(segment => /[*?[{]/.test(segment));
+        const base = firstWildcard === -1 ? getParentPath(pattern) : segments.slice(0, firstWildcard).join('/');
+        if ((await fs.stat(base))?.type !== 'directory') {
+            return [];
+        }
+        const paths: string[] = [];
+        await run('list', base, () => walk(fs, base, paths));
+        const matcher = globToRegExp(pattern);
+        return paths.filter(path => matcher.test(path));
+    },
+
+    exists: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = getPath(args, 0, 'exists');
+        return (await run('check', path, () => fs.stat(path))) !== null;
+    },
+
+    stat: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = getPath(args, 0, 'stat');
+        const stat = await run('stat', path, () => fs.stat(path));
+        if (!stat) {
+            throw new Error(`Cannot stat "${path || '.'}": no such file or directory`);
+        }
+        return {
+            path,
+            name: path.slice(path.lastIndexOf('/') + 1),
+            type: stat.type,
+            size: stat.size,
+            modified: stat.modified
+        };
+    },
+
+    mkdir: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = getPath(args, 0, 'mkdir');
+        await run('create directory', path, () => fs.mkdir(path));
+        return null;
+    },
+
+    remove: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const path = getPath(args, 0, 'remove');
+        if (path === '') {
+            throw new Error('fs.remove cannot remove the root directory');
+        }
+        await run('remove', path, () => fs.remove(path));
+        return null;
+    },
+
+    copy: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const from = getPath(args, 0, 'copy', 'source path');
+        const to = getPath(args, 1, 'copy', 'destination path');
+        await run('copy', from, async () => {
+            if (!await fs.stat(from)) {
+                throw new Error('no such file or directory');
+            }
+            await fs.mkdir(getParentPath(to));
+            await fs.copy(from, to);
+        });
+        return null;
+    },
+
+    move: async (args, _callback, context) => {
+        const fs = getFileSystem(context);
+        const from = getPath(args, 0, 'move', 'source path');
+        const to = getPath(args, 1, 'move', 'destination path');
+        if (from === '') {
+            throw new Error('fs.move cannot move the root directory');
+        }
+        await run('move', from, async () => {
+            if (!await fs.stat(from)) {
+                throw new Error('no such file or directory');
+            }
+            await fs.mkdir(getParentPath(to));
+            await fs.move(from, to);
+        });
+        return null;
+    }
+};
+
+export const FsFunctionMetadata: Record<string, FunctionMetadata> = {
+    read: {
+        description: 'Reads a text file',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path of the file (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'string',
+        returnDescription: 'Contents of the file',
+        example: 'fs.read "notes/todo.txt"'
+    },
+
+    readJson: {
+        description: 'Reads and parses a JSON file',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path of the file (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'any',
+        returnDescription: 'Parsed contents of the file',
+        example: 'fs.readJson "data/users.json"'
+    },
+
+    write: {
+        description: 'Writes a text file, replacing its contents (missing directories are created)',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path of the file (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'content',
+                dataType: 'any',
+                description: 'Text to write (other values are written as JSON)',
+                formInputType: 'textarea',
+                required: true
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Returns null',
+        example: 'fs.write "out/report.txt" "done"'
+    },
+
+    writeJson: {
+        description: 'Writes a value as a JSON file, replacing its contents (missing directories are created)',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path of the file (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'value',
+                dataType: 'any',
+                description: 'Value to write',
+                formInputType: 'json',
+                required: true
+            },
+            {
+                name: 'indent',
+                dataType: 'number',
+                description: 'Spaces of indentation (0 for a single line)',
+                formInputType: 'number',
+                required: false,
+                defaultValue: 2
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Returns null',
+        example: 'fs.writeJson "data/users.json" $users'
+    },
+
+    append: {
+        description: 'Appends text to a file (the file and missing directories are created)',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path of the file (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'content',
+                dataType: 'any',
+                description: 'Text to append (other values are appended as JSON)',
+                formInputType: 'textarea',
+                required: true
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Returns null',
+        example: 'fs.append "logs/run.log" "started\\n"'
+    },
+
+    list: {
+        description: 'Lists the names of the entries of a directory',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path of the directory (defaults to the root directory)',
+                formInputType: 'text',
+                required: false
+            }
+        ],
+        returnType: 'array',
+        returnDescription: 'Sorted names of the files and directories in the directory',
+        example: 'fs.list "data"'
+    },
+
+    glob: {
+        description: 'Finds files and directories matching a glob pattern (*, ?, **, [abc], {a,b})',
+        parameters: [
+            {
+                name: 'pattern',
+                dataType: 'string',
+                description: 'Glob pattern (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'array',
+        returnDescription: 'Sorted paths (relative to the root directory) matching the pattern',
+        example: 'fs.glob "data/**/*.json"'
+    },
+
+    exists: {
+        description: 'Checks whether a file or directory exists',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path to check (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'boolean',
+        returnDescription: 'True if something exists at the path',
+        example: 'fs.exists "config.json"'
+    },
+
+    stat: {
+        description: 'Returns information about a file or directory',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path of the file or directory (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'object',
+        returnDescription: 'Object with path, name, type ("file" or "directory"), size (bytes) and modified (ms since epoch)',
+        example: 'fs.stat "data/users.json"'
+    },
+
+    mkdir: {
+        description: 'Creates a directory and any missing parent directories',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path of the directory (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Returns null',
+        example: 'fs.mkdir "out/reports"'
+    },
+
+    remove: {
+        description: 'Removes a file or a directory with everything in it (nothing happens if it does not exist)',
+        parameters: [
+            {
+                name: 'path',
+                dataType: 'string',
+                description: 'Path to remove (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Returns null',
+        example: 'fs.remove "out/tmp"'
+    },
+
+    copy: {
+        description: 'Copies a file or a directory with everything in it',
+        parameters: [
+            {
+                name: 'from',
+                dataType: 'string',
+                description: 'Path to copy (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'to',
+                dataType: 'string',
+                description: 'Path of the copy (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Returns null',
+        example: 'fs.copy "data/users.json" "backup/users.json"'
+    },
+
+    move: {
+        description: 'Moves or renames a file or directory',
+        parameters: [
+            {
+                name: 'from',
+                dataType: 'string',
+                description: 'Path to move (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'to',
+                dataType: 'string',
+                description: 'New path (relative to the root directory)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Returns null',
+        example: 'fs.move "out/draft.txt" "out/final.txt"'
+    }
+};
+
+export const FsModuleMetadata: ModuleMetadata = {
+    description: 'File and directory operations confined to the root directory of the file system granted by the host (capabilities.fs).',
+    methods: [
+        'read',
+        'readJson',
+        'write',
+        'writeJson',
+        'append',
+        'list',
+        'glob',
+        'exists',
+        'stat',
+        'mkdir',
+        'remove',
+        'copy',
+        'move'
+    ]
+};
+
+// Module adapter for auto-loading
+const FsModule: ModuleAdapter = {
+    name: 'fs',
+    functions: FsFunctions,
+    functionMetadata: FsFunctionMetadata,
+    moduleMetadata: FsModuleMetadata,
+    global: false
+};
+
+export default FsModule;
@@ -0,0 +1,351 @@
+import type {
+    BuiltinHandler,
+    BuiltinContext,
+    Environment,
+    FunctionMetadata,
+    ModuleMetadata,
+    ModuleAdapter,
+    OnBlock,
+    Value
+} from '../index';
+import { extractNamedArgs, matchRoute, parseRequestBody } from '../index';
+
+/**
+ * HTTP module for RobinPath
+ * Serves the script's route handlers (on "GET /users/:id" ... endon) with the
+ * Node.js http server: the handler gets the request as $1, and its return value
+ * (or last value) becomes the response. Serving needs capabilities.http
+ */
+
+/**
+ * Subset of node:http used by http.serve
+ */
+interface NodeHttp {
+    createServer(listener: (request: NodeIncomingMessage, response: NodeServerResponse) => void): NodeServer;
+}
+
+interface NodeServer {
+    listen(port: number, host: string, callback: () => void): void;
+    close(callback?: () => void): void;
+    closeAllConnections?(): void;
+    address(): { port: number } | string | null;
+    once(event: 'error', listener: (error: Error) => void): void;
+    off(event: 'error', listener: (error: Error) => void): void;
+}
+
+interface NodeIncomingMessage extends AsyncIterable<Uint8Array> {
+    method?: string;
+    url?: string;
+    headers: Record<string, string | string[] | undefined>;
+}
+
+interface NodeServerResponse {
+    headersSent: boolean;
+    writeHead(status: number, headers: Record<string, string>): void;
+    end(body?: string): void;
+}
+
+interface RunningServer {
+    server: NodeServer;
+    host: string;
+    port: number;
+    registry: Map<number, RunningServer>;
+}
+
+interface HttpResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+}
+
+// Servers started by http.serve in each environment (RobinPath instance or thread), by port.
+// They outlive the run that started them until http.close
+const registries = new WeakMap<Environment, Map<number, RunningServer>>();
+
+const getServers = (context: BuiltinContext): Map<number, RunningServer> => {
+    const environment = context.executor.getEnvironment();
+    let servers = registries.get(environment);
+    if (!servers) {
+        servers = new Map();
+        registries.set(environment, servers);
+    }
+    return servers;
+};
+
+// Route handlers are on blocks named "<METHOD> <path>" ("*" matches any method)
+const ROUTE_PATTERN = /^([A-Za-z]+|\*)\s+(\/\S*)$/;
+
+const getNodeHttp = (): NodeHttp => {
+    // Loaded at runtime so the library still bundles for browsers
+    const proc = (globalThis as any).process;
+    if (typeof proc?.getBuiltinModule !== 'function') {
+        throw new Error('http.serve requires Node.js 20.16 or later');
+    }
+    return proc.getBuiltinModule('node:http');
+};
+
+/**
+ * Handler of the first route matching the request (the last handler registered under that route)
+ */
+const findRoute = (context: BuiltinContext, method: string, path: string): { handler: OnBlock; params: Record<string, string> } | null => {
+    for (const [eventName, handlers] of context.executor.getEnvironment().eventHandlers) {
+        const route = ROUTE_PATTERN.exec(eventName);
+        if (!route || handlers.length === 0) {
+            continue;
+        }
+        if (route[1] !== '*' && route[1].toUpperCase() !== method) {
+            continue;
+        }
+        const params = matchRoute(route[2], path);
+        if (params) {
+            return { handler: handlers[handlers.length - 1], params };
+        }
+    }
+    return null;
+};
+
+/**
+ * Request body as text, or undefined when it is larger than maxSize bytes (reading stops there)
+ */
+const readBody = async (request: NodeIncomingMessage, maxSize: number): Promise<string | null | undefined> => {
+    const decoder = new TextDecoder();
+    let body = '';
+    let size = 0;
+    for await (const chunk of request) {
+        size += chunk.byteLength;
+        if (size > maxSize) {
+            return undefined;
+        }
+        body += decoder.decode(chunk, { stream: true });
+    }
+    body += decoder.decode();
+    return body === '' ? null : body;
+};
+
+const isResponseObject = (value: Value): value is Record<string, Value> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value) || typeof (value as Record<string, Value>).status !== 'number') {
+        return false;
+    }
+    return Object.keys(value).every(key => key === 'status' || key === 'headers' || key === 'body');
+};
+
+/**
+ * Response for a handler's value: {status, headers, body} objects are used as they are,
+ * any other value is the body (strings as text, null as 204 No Content, the rest as JSON)
+ */
+const toResponse = (value: Value): HttpResponse => {
+    const response = isResponseObject(value) ? value : { body: value };
+    const headers: Record<string, string> = {};
+    if (typeof response.headers === 'object' && response.headers !== null && !Array.isArray(response.headers)) {
+        for (const [name, headerValue] of Object.entries(response.headers)) {
+            headers[name.toLowerCase()] = String(headerValue);
+        }
+    }
+    const body = response.body ?? null;
+    if (body === null) {
+        return { status: typeof response.status === 'number' ? response.status : 204, headers, body: '' };
+    }
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    headers['content-type'] ??= typeof body === 'string' ? 'text/plain; charset=utf-8' : 'application/json';
+    return { status: typeof response.status === 'number' ? response.status : 200, headers, body: text };
+};
+
+const handleRequest = async (context: BuiltinContext, request: NodeIncomingMessage, maxBodySize: number): Promise<HttpResponse> => {
+    const method = (request.method ?? 'GET').toUpperCase();
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const route = findRoute(context, method, url.pathname);
+    if (!route) {
+        return toResponse({ status: 404, body: { error: `No route for ${method} ${url.pathname}` } });
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+        if (value !== undefined) {
+            headers[name] = Array.isArray(value) ? value.join(', ') : value;
+        }
+    }
+    const body = await readBody(request, maxBodySize);
+    if (body === undefined) {
+        const response = toResponse({ status: 413, body: { error: `Request body exceeds ${maxBodySize} bytes` } });
+        response.headers.connection = 'close';
+        return response;
+    }
+    const requestValue: Value = {
+        method,
+        path: url.pathname,
+        params: route.params,
+        query: Object.fromEntries(url.searchParams),
+        headers,
+        body,
+        data: parseRequestBody(body, headers['content-type'] ?? '')
+    };
+
+    try {
+        // Every request is a run of its own (fresh execution limits)
+        return toResponse(await context.executor.spawnRun().executeEventHandler(route.handler, [requestValue]));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        context.output.write({
+            level: 'error',
+            message: `Error handling ${method} ${url.pathname}: ${message}`,
+            args: [],
+            source: 'http',
+            timestamp: Date.now()
+        });
+        // Details stay in the output (they may show the script's source)
+        return toResponse({ status: 500, body: { error: 'Internal Server Error' } });
+    }
+};
+
+const closeServer = (running: RunningServer): Promise<void> => {
+    // Already stopped (its port may serve a newer server by now)
+    if (running.registry.get(running.port) !== running) {
+        return Promise.resolve();
+    }
+    running.registry.delete(running.port);
+    return new Promise(resolve => {
+        running.server.close(() => resolve());
+        running.server.closeAllConnections?.();
+    });
+};
+
+export const HttpFunctions: Record<string, BuiltinHandler> = {
+    serve: async (args, _callback, context) => {
+        if (!context) {
+            throw new Error('http.serve requires a run context');
+        }
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const port = Number(namedArgs.port ?? positionalArgs[0]);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+            throw new Error(`http.serve requires a port number (0 picks a free port), got ${JSON.stringify(namedArgs.port ?? positionalArgs[0] ?? null)}`);
+        }
+        const host = String(namedArgs.host ?? '127.0.0.1');
+        context.signal?.throwIfAborted();
+        context.capabilities.checkServe(host, port);
+        const maxBodySize = context.capabilities.maxRequestBodySize();
+
+        const server = getNodeHttp().createServer((request, response) => {
+            handleRequest(context, request, maxBodySize).then(result => {
+                response.writeHead(result.status, result.headers);
+                response.end(result.body);
+            }).catch(error => {
+                if (!response.headersSent) {
+                    response.writeHead(500, { 'content-type': 'text/plain; charset=utf-8' });
+                }
+                response.end(error instanceof Error ? error.message : String(error));
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            const onError = (error: Error) => reject(new Error(`http.serve cannot listen on ${host}:${port}: ${error.message}`));
+            server.once('error', onError);
+            server.listen(port, host, () => {
+                server.off('error', onError);
+                resolve();
+            });
+        });
+
+        const address = server.address();
+        const servers = getServers(context);
+        const running: RunningServer = { server, host, port: typeof address === 'object' && address ? address.port : port, registry: servers };
+        servers.set(running.port, running);
+        // Cancelling the run that started the server stops it (its execution timeout does not)
+        context.executor.getSignal()?.addEventListener('abort', () => closeServer(running), { once: true });
+
+        return { host, port: running.port, url: `http://${host.includes(':') ? `[${host}]` : host}:${running.port}` };
+    },
+
+    close: async (args, _callback, context) => {
+        if (!context) {
+            return 0;
+        }
+        const servers = getServers(context);
+        if (args[0] === undefined || args[0] === null) {
+            const running = [...servers.values()];
+            await Promise.all(running.map(closeServer));
+            return running.length;
+        }
+        const running = servers.get(Number(args[0]));
+        if (!running) {
+            return 0;
+        }
+        await closeServer(running);
+        return 1;
+    },
+
+    servers: (_args, _callback, context) => {
+        if (!context) {
+            return [];
+        }
+        return [...getServers(context).values()].map(running => ({ host: running.host, port: running.port }));
+    }
+};
+
+export const HttpFunctionMetadata: Record<string, FunctionMetadata> = {
+    serve: {
+        description: 'Starts an HTTP server answering requests with the route handlers of the script (on "GET /users/:id" ... endon). The handler gets the request ({method, path, params, query, headers, body, data}) as $1; its return value (or last value) is the response: a {status, headers, body} object, or any other value as the body. Requests no route matches get a 404, failing handlers a 500, bodies over capabilities.http.maxBodySize a 413. Needs capabilities.http (the host and port must be allowed)',
+        parameters: [
+            {
+                name: 'port',
+                dataType: 'number',
+                description: 'Port to listen on (0 picks a free port)',
+                formInputType: 'number',
+                required: true
+            },
+            {
+                name: 'host',
+                dataType: 'string',
+                description: 'Address to listen on (must be in capabilities.http.allowedHosts; loopback addresses by default)',
+                formInputType: 'text',
+                required: false,
+                defaultValue: '127.0.0.1'
+            }
+        ],
+        returnType: 'object',
+        returnDescription: 'The server\'s host, port and url',
+        example: 'on "GET /users/:id"\n  $request = $1\n  return {"id": $request.params.id}\nendon\nhttp.serve 8080'
+    },
+
+    close: {
+        description: 'Stops a server started by http.serve in this instance (all of them without a port)',
+        parameters: [
+            {
+                name: 'port',
+                dataType: 'number',
+                description: 'Port of the server to stop',
+                formInputType: 'number',
+                required: false
+            }
+        ],
+        returnType: 'number',
+        returnDescription: 'Number of servers stopped',
+        example: 'http.close 8080'
+    },
+
+    servers: {
+        description: 'Lists the servers started by http.serve in this instance that are still running',
+        parameters: [],
+        returnType: 'array',
+        returnDescription: 'Array of {host, port} objects',
+        example: 'http.servers'
+    }
+};
+
+export const HttpModuleMetadata: ModuleMetadata = {
+    description: 'HTTP server serving the script\'s route handlers (on "GET /path/:param" blocks) with Node.js',
+    methods: [
+        'serve',
+        'close',
+        'servers'
+    ]
+};
+
+// Module adapter for auto-loading
+const HttpModule: ModuleAdapter = {
+    name: 'http',
+    functions: HttpFunctions,
+    functionMetadata: HttpFunctionMetadata,
+    moduleMetadata: HttpModuleMetadata,
+    global: false
+};
+
+export default HttpModule;
@@ -1,5 +1,6 @@
 import type { 
     BuiltinHandler, 
+    BuiltinContext,
     FunctionMetadata, 
     ModuleMetadata,
     ModuleAdapter
@@ -10,17 +11,22 @@ import type {
  * Provides random number generation and selection utilities
  */
 
+// Random source of the run (seeded or custom when the capability policy sets one)
+function getRandomSource(context?: BuiltinContext): () => number {
+    return context ? () => context.capabilities.random() : Math.random;
+}
+
 // Simple UUID v4 generator
-function generateUUID(): string {
+function generateUUID(random: () => number): string {
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-        const r = Math.random() * 16 | 0;
+        const r = random() * 16 | 0;
         const v = c === 'x' ? r : (r & 0x3 | 0x8);
         return v.toString(16);
     });
 }
 
 export const RandomFunctions: Record<string, BuiltinHandler> = {
-    int: (args) => {
+    int: (args, _callback, context) => {
         const min = Number(args[0]) || 0;
         const max = Number(args[1]) || 1;
         const minInt = Math.ceil(min);
@@ -28,18 +34,18 @@ export const RandomFunctions: Record<string, BuiltinHandler> = {
         if (minInt > maxInt) {
             throw new Error('Min must be less than or equal to max');
         }
-        return Math.floor(Math.random() * (maxInt - minInt + 1)) + minInt;
+        return Math.floor(getRandomSource(context)() * (maxInt - minInt + 1)) + minInt;
     },
 
-    float: () => {
-        return Math.random();
+    float: (_args, _callback, context) => {
+        return getRandomSource(context)();
     },
 
-    uuid: () => {
-        return generateUUID();
+    uuid: (_args, _callback, context) => {
+        return generateUUID(getRandomSource(context));
     },
 
-    choice: (args) => {
+    choice: (args, _callback, context) => {
         const arr = args[0];
         if (!Array.isArray(arr)) {
             throw new Error('First argument must be an array');
@@ -47,7 +53,7 @@ export const RandomFunctions: Record<string, BuiltinHandler> = {
         if (arr.length === 0) {
             throw new Error('Array cannot be empty');
         }
-        const index = Math.floor(Math.random() * arr.length);
+        const index = Math.floor(getRandomSource(context)() * arr.length);
         return arr[index];
     }
 };
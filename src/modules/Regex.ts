@@ -0,0 +1,213 @@
+import type {
+    BuiltinHandler,
+    BuiltinCallback,
+    FunctionMetadata,
+    ParameterMetadata,
+    ModuleMetadata,
+    ModuleAdapter,
+    Value
+} from '../index';
+import { extractNamedArgs, createRegExp, toGlobalRegExp, matchToValue, escapeRegExp } from '../index';
+
+/**
+ * Regex module for RobinPath
+ * Provides regular expression matching, replacing and splitting. Patterns are strings
+ * without slashes (backslashes doubled in script strings: "\\d+"); flags go in flags=
+ */
+
+/**
+ * Split the arguments of a regex command into the text, the pattern, further positional
+ * arguments and the named arguments
+ */
+const splitArgs = (args: Value[], command: string): { text: string; regex: RegExp; rest: Value[]; namedArgs: Record<string, Value> } => {
+    const { positionalArgs, namedArgs } = extractNamedArgs(args);
+    const [text, pattern, ...rest] = positionalArgs;
+    return { text: String(text ?? ''), regex: createRegExp(pattern, namedArgs.flags, `regex.${command}`), rest, namedArgs };
+};
+
+export const RegexFunctions: Record<string, BuiltinHandler> = {
+    test: (args) => {
+        const { text, regex } = splitArgs(args, 'test');
+        return regex.test(text);
+    },
+
+    match: (args) => {
+        const { text, regex } = splitArgs(args, 'match');
+        const match = regex.exec(text);
+        return match ? matchToValue(match) : null;
+    },
+
+    matchAll: (args) => {
+        const { text, regex } = splitArgs(args, 'matchAll');
+        return [...text.matchAll(toGlobalRegExp(regex))].map(matchToValue);
+    },
+
+    replace: async (args, callback?: BuiltinCallback | null) => {
+        const { text, regex, rest, namedArgs } = splitArgs(args, 'replace');
+        const all = namedArgs.all === undefined ? true : Boolean(namedArgs.all);
+        const target = all ? toGlobalRegExp(regex) : new RegExp(regex.source, regex.flags.replace('g', ''));
+        if (!callback) {
+            if (rest[0] === undefined) {
+                throw new Error('regex.replace requires a replacement or a with callback block');
+            }
+            return text.replace(target, String(rest[0] ?? ''));
+        }
+
+        // The callback gets the matched text as $1 and the match object as $2; its value replaces the match
+        const matches = all ? [...text.matchAll(target)] : [target.exec(text)].filter(match => match !== null);
+        let result = '';
+        let position = 0;
+        for (const match of matches) {
+            const index = match.index ?? 0;
+            const replacement = await Promise.resolve(callback([match[0], matchToValue(match)]));
+            result += text.slice(position, index) + String(replacement ?? '');
+            position = index + match[0].length;
+        }
+        return result + text.slice(position);
+    },
+
+    split: (args) => {
+        const { text, regex, rest, namedArgs } = splitArgs(args, 'split');
+        const limit = namedArgs.limit ?? rest[0];
+        return text.split(regex, limit === undefined || limit === null ? undefined : Number(limit));
+    },
+
+    escape: (args) => {
+        return escapeRegExp(String(args[0] ?? ''));
+    }
+};
+
+const textParameter: ParameterMetadata = {
+    name: 'text',
+    dataType: 'string',
+    description: 'Text to search',
+    formInputType: 'text',
+    required: true
+};
+
+const patternParameter: ParameterMetadata = {
+    name: 'pattern',
+    dataType: 'string',
+    description: 'Regular expression, without slashes',
+    formInputType: 'text',
+    required: true
+};
+
+const flagsParameter: ParameterMetadata = {
+    name: 'flags',
+    dataType: 'string',
+    description: 'Flags (named argument): i (ignore case), m (multiline), s (dot matches newlines), u (unicode)',
+    formInputType: 'text',
+    required: false
+};
+
+export const RegexFunctionMetadata: Record<string, FunctionMetadata> = {
+    test: {
+        description: 'Checks whether a pattern matches a text',
+        parameters: [textParameter, patternParameter, flagsParameter],
+        returnType: 'boolean',
+        returnDescription: 'True if the pattern matches somewhere in the text',
+        example: 'regex.test "Error: disk full" "^error" flags="i"  # Returns true'
+    },
+
+    match: {
+        description: 'Finds the first match of a pattern',
+        parameters: [textParameter, patternParameter, flagsParameter],
+        returnType: 'object',
+        returnDescription: 'The match as {match, index, captures, groups} (groups holds the named groups), or null',
+        example: 'regex.match "2024-05-01" "(?<year>\\\\d{4})-(?<month>\\\\d{2})"  # groups: {"year": "2024", "month": "05"}'
+    },
+
+    matchAll: {
+        description: 'Finds all matches of a pattern',
+        parameters: [textParameter, patternParameter, flagsParameter],
+        returnType: 'array',
+        returnDescription: 'Array of {match, index, captures, groups} objects',
+        example: 'regex.matchAll "a1 b22 c333" "\\\\d+"'
+    },
+
+    replace: {
+        description: 'Replaces the matches of a pattern. The replacement may refer to groups as $1, $2 or $<name>; with a with callback block instead, the block gets the matched text as $1 and the match object as $2 and its value replaces the match',
+        parameters: [
+            textParameter,
+            patternParameter,
+            {
+                name: 'replacement',
+                dataType: 'string',
+                description: 'Replacement text (omit when using a with callback block)',
+                formInputType: 'text',
+                required: false
+            },
+            flagsParameter,
+            {
+                name: 'all',
+                dataType: 'boolean',
+                description: 'Replace every match (named argument; false replaces the first one only)',
+                formInputType: 'checkbox',
+                required: false,
+                defaultValue: true
+            }
+        ],
+        returnType: 'string',
+        returnDescription: 'Text with the matches replaced',
+        example: 'regex.replace "2024-05-01" "(\\\\d+)-(\\\\d+)-(\\\\d+)" "$3/$2/$1"  # Returns "01/05/2024"'
+    },
+
+    split: {
+        description: 'Splits a text on the matches of a pattern (captured groups are included in the result)',
+        parameters: [
+            textParameter,
+            patternParameter,
+            {
+                name: 'limit',
+                dataType: 'number',
+                description: 'Maximum number of parts',
+                formInputType: 'number',
+                required: false
+            },
+            flagsParameter
+        ],
+        returnType: 'array',
+        returnDescription: 'Array of parts',
+        example: 'regex.split "a, b;c" "[,;]\\\\s*"  # Returns ["a", "b", "c"]'
+    },
+
+    escape: {
+        description: 'Escapes the characters with a meaning in patterns, to match a text literally',
+        parameters: [
+            {
+                name: 'text',
+                dataType: 'string',
+                description: 'Text to escape',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'string',
+        returnDescription: 'Pattern matching the text literally',
+        example: 'regex.escape "1+1=2"  # Returns "1\\\\+1=2"'
+    }
+};
+
+export const RegexModuleMetadata: ModuleMetadata = {
+    description: 'Regular expressions: test, match (with named groups), replace (with group references or a callback), split and escape',
+    methods: [
+        'test',
+        'match',
+        'matchAll',
+        'replace',
+        'split',
+        'escape'
+    ]
+};
+
+// Module adapter for auto-loading
+const RegexModule: ModuleAdapter = {
+    name: 'regex',
+    functions: RegexFunctions,
+    functionMetadata: RegexFunctionMetadata,
+    moduleMetadata: RegexModuleMetadata,
+    global: false
+};
+
+export default RegexModule;
@@ -2,14 +2,27 @@ import type {
     BuiltinHandler, 
     FunctionMetadata, 
     ModuleMetadata,
-    ModuleAdapter
+    ModuleAdapter,
+    Value
 } from '../index';
+import { extractNamedArgs, createRegExp, toGlobalRegExp } from '../index';
 
 /**
  * String module for RobinPath
  * Provides string manipulation operations and functions
  */
 
+/**
+ * Pattern of the search argument when a command is called with regex=true (or flags=),
+ * null for literal matching
+ */
+const getSearchPattern = (search: Value | undefined, namedArgs: Record<string, Value>, command: string): RegExp | null => {
+    if (!namedArgs.regex && (namedArgs.flags === undefined || namedArgs.flags === null)) {
+        return null;
+    }
+    return createRegExp(search, namedArgs.flags, `string.${command}`);
+};
+
 export const StringFunctions: Record<string, BuiltinHandler> = {
     length: (args) => {
         const str = String(args[0] ?? '');
@@ -39,22 +52,37 @@ export const StringFunctions: Record<string, BuiltinHandler> = {
     },
 
     replace: (args) => {
-        const str = String(args[0] ?? '');
-        const search = String(args[1] ?? '');
-        const replace = String(args[2] ?? '');
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const str = String(positionalArgs[0] ?? '');
+        const replace = String(positionalArgs[2] ?? '');
+        const pattern = getSearchPattern(positionalArgs[1], namedArgs, 'replace');
+        if (pattern) {
+            return str.replace(toGlobalRegExp(pattern), replace);
+        }
+        const search = String(positionalArgs[1] ?? '');
         return str.replace(new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), replace);
     },
 
     replaceAll: (args) => {
-        const str = String(args[0] ?? '');
-        const search = String(args[1] ?? '');
-        const replace = String(args[2] ?? '');
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const str = String(positionalArgs[0] ?? '');
+        const replace = String(positionalArgs[2] ?? '');
+        const pattern = getSearchPattern(positionalArgs[1], namedArgs, 'replaceAll');
+        if (pattern) {
+            return str.replace(toGlobalRegExp(pattern), replace);
+        }
+        const search = String(positionalArgs[1] ?? '');
         return str.split(search).join(replace);
     },
 
     split: (args) => {
-        const str = String(args[0] ?? '');
-        const delimiter = args[1] !== undefined ? String(args[1]) : '';
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const str = String(positionalArgs[0] ?? '');
+        const pattern = getSearchPattern(positionalArgs[1], namedArgs, 'split');
+        if (pattern) {
+            return str.split(pattern);
+        }
+        const delimiter = positionalArgs[1] !== undefined ? String(positionalArgs[1]) : '';
         return str.split(delimiter);
     },
 
@@ -79,8 +107,13 @@ export const StringFunctions: Record<string, BuiltinHandler> = {
     },
 
     contains: (args) => {
-        const str = String(args[0] ?? '');
-        const search = String(args[1] ?? '');
+        const { positionalArgs, namedArgs } = extractNamedArgs(args);
+        const str = String(positionalArgs[0] ?? '');
+        const pattern = getSearchPattern(positionalArgs[1], namedArgs, 'contains');
+        if (pattern) {
+            return pattern.test(str);
+        }
+        const search = String(positionalArgs[1] ?? '');
         return str.includes(search);
     },
 
@@ -127,6 +160,24 @@ export const StringFunctions: Record<string, BuiltinHandler> = {
     }
 };
 
+const regexParameters: FunctionMetadata['parameters'] = [
+    {
+        name: 'regex',
+        dataType: 'boolean',
+        description: 'Treat the search string as a regular expression (named argument; see the regex module)',
+        formInputType: 'checkbox',
+        required: false,
+        defaultValue: false
+    },
+    {
+        name: 'flags',
+        dataType: 'string',
+        description: 'Regular expression flags such as "i" (named argument; implies regex=true)',
+        formInputType: 'text',
+        required: false
+    }
+];
+
 export const StringFunctionMetadata: Record<string, FunctionMetadata> = {
     length: {
         description: 'Returns the length of a string',
@@ -245,11 +296,12 @@ export const StringFunctionMetadata: Record<string, FunctionMetadata> = {
                 description: 'Replacement string',
                 formInputType: 'text',
                 required: true
-            }
+            },
+            ...regexParameters
         ],
         returnType: 'string',
         returnDescription: 'String with first occurrence replaced',
-        example: 'replace "hello world" "world" "universe"  # Returns "hello universe"'
+        example: 'replace "hello world" "world" "universe"  # Returns "hello universe"\nreplace "a1b22" "\\\\d+" "#" regex=true  # Returns "a#b#"'
     },
 
     replaceAll: {
@@ -275,11 +327,12 @@ export const StringFunctionMetadata: Record<string, FunctionMetadata> = {
                 description: 'Replacement string',
                 formInputType: 'text',
                 required: true
-            }
+            },
+            ...regexParameters
         ],
         returnType: 'string',
         returnDescription: 'String with all occurrences replaced',
-        example: 'replaceAll "a b a" "a" "x"  # Returns "x b x"'
+        example: 'replaceAll "a b a" "a" "x"  # Returns "x b x"\nreplaceAll "Cat cat" "cat" "dog" flags="i"  # Returns "dog dog"'
     },
 
     split: {
@@ -298,11 +351,12 @@ export const StringFunctionMetadata: Record<string, FunctionMetadata> = {
                 description: 'Delimiter to split on. If omitted, splits into individual characters',
                 formInputType: 'text',
                 required: false
-            }
+            },
+            ...regexParameters
         ],
         returnType: 'array',
         returnDescription: 'Array of substrings',
-        example: 'split "a,b,c" ","  # Returns ["a", "b", "c"]'
+        example: 'split "a,b,c" ","  # Returns ["a", "b", "c"]\nsplit "a, b;c" "[,;]\\\\s*" regex=true  # Returns ["a", "b", "c"]'
     },
 
     join: {
@@ -391,11 +445,12 @@ export const StringFunctionMetadata: Record<string, FunctionMetadata> = {
                 description: 'Substring to search for',
                 formInputType: 'text',
                 required: true
-            }
+            },
+            ...regexParameters
         ],
         returnType: 'boolean',
         returnDescription: 'True if string contains the substring',
-        example: 'contains "hello" "ell"  # Returns true'
+        example: 'contains "hello" "ell"  # Returns true\ncontains "Error: disk full" "^error" flags="i"  # Returns true'
     },
 
     indexOf: {
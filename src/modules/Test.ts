@@ -1,9 +1,14 @@
 import type { 
     BuiltinHandler, 
+    BuiltinContext,
+    BuiltinMock,
     FunctionMetadata, 
     ModuleMetadata,
-    ModuleAdapter
+    ModuleAdapter,
+    MockRegistry,
+    Value
 } from '../index';
+import { ArgumentError, SkipException, UnknownCommandError, getMockRegistry, formatSnapshotDiff } from '../index';
 
 /**
  * Test module for RobinPath
@@ -249,6 +254,22 @@ export const TestFunctions: Record<string, BuiltinHandler> = {
         return true;
     },
 
+    assertSnapshot: (args, _callback, context) => {
+        if (args.length < 2) {
+            throw new Error('assertSnapshot requires a value and a snapshot name');
+        }
+        const name = String(args[1]);
+        const snapshots = context?.executor.getSnapshots();
+        if (!snapshots) {
+            throw new ArgumentError('assertSnapshot needs a snapshot file (run the script with "robinpath test")');
+        }
+        const check = snapshots.check(name, args[0], deepEqual);
+        if (check.status === 'failed') {
+            throw new Error(`Snapshot "${name}" does not match (- snapshot, + received; run "robinpath test --update-snapshots" to update it)\n${formatSnapshotDiff(check.expected, check.actual)}`);
+        }
+        return true;
+    },
+
     assertType: (args) => {
         if (args.length < 2) {
             throw new Error('assertType requires two arguments');
@@ -313,9 +334,115 @@ export const TestFunctions: Record<string, BuiltinHandler> = {
     fail: (args) => {
         const message = args.length > 0 ? String(args[0]) : 'Test failed';
         throw new Error(message);
+    },
+
+    skip: (args, _callback, context) => {
+        if (context && !context.executor.isRunningTest()) {
+            throw new ArgumentError('skip can only be used inside a test block');
+        }
+        // Stops the current test; the runner records it as skipped
+        throw new SkipException(args.length > 0 ? String(args[0]) : null);
+    },
+
+    mock: (args, callback, context) => {
+        if (args.length === 0) {
+            throw new Error('mock requires a builtin name');
+        }
+        const name = String(args[0]);
+        const registry = getRegistry(context, 'mock', name);
+        if (callback) {
+            // The with block runs for every call, with the call's arguments as $1, $2, ...
+            registry.mock(name, (callArgs) => callback(callArgs));
+        } else {
+            const value = args.length > 1 ? args[1] : null;
+            registry.mock(name, () => value);
+        }
+        return null;
+    },
+
+    spy: (args, _callback, context) => {
+        if (args.length === 0) {
+            throw new Error('spy requires a builtin name');
+        }
+        const name = String(args[0]);
+        getRegistry(context, 'spy', name).spy(name);
+        return null;
+    },
+
+    restore: (args, _callback, context) => {
+        const registry = getRegistry(context, 'restore');
+        return registry.restore(args.length > 0 ? String(args[0]) : undefined);
+    },
+
+    calls: (args, _callback, context) => {
+        return findMock(args, context, 'calls').calls.map(call => call.args);
+    },
+
+    callCount: (args, _callback, context) => {
+        return findMock(args, context, 'callCount').calls.length;
+    },
+
+    assertCalled: (args, _callback, context) => {
+        const mock = findMock(args, context, 'assertCalled');
+        const count = mock.calls.length;
+        if (args.length > 1) {
+            const expected = Number(args[1]);
+            if (count !== expected) {
+                throw new Error(`Expected ${mock.name} to be called ${formatTimes(expected)}, but it was called ${formatTimes(count)}`);
+            }
+        } else if (count === 0) {
+            throw new Error(`Expected ${mock.name} to be called, but it was never called`);
+        }
+        return true;
+    },
+
+    assertNotCalled: (args, _callback, context) => {
+        const mock = findMock(args, context, 'assertNotCalled');
+        if (mock.calls.length > 0) {
+            throw new Error(`Expected ${mock.name} not to be called, but it was called ${formatTimes(mock.calls.length)}`);
+        }
+        return true;
+    },
+
+    assertCalledWith: (args, _callback, context) => {
+        const mock = findMock(args, context, 'assertCalledWith');
+        const expected = args.slice(1);
+        if (!mock.calls.some(call => deepEqual(call.args, expected))) {
+            const actual = mock.calls.map(call => JSON.stringify(call.args)).join(', ') || 'no calls';
+            throw new Error(`Expected ${mock.name} to be called with ${JSON.stringify(expected)}, got ${actual}`);
+        }
+        return true;
     }
 };
 
+// Mock helpers
+function getRegistry(context: BuiltinContext | undefined, functionName: string, builtinName?: string): MockRegistry {
+    if (!context) {
+        throw new Error(`${functionName} can only be used while a script is running`);
+    }
+    const builtins = context.executor.getEnvironment().builtins;
+    if (builtinName !== undefined && !builtins.has(builtinName)) {
+        throw new UnknownCommandError(builtinName);
+    }
+    return getMockRegistry(builtins);
+}
+
+function findMock(args: Value[], context: BuiltinContext | undefined, functionName: string): BuiltinMock {
+    if (args.length === 0) {
+        throw new Error(`${functionName} requires a builtin name`);
+    }
+    const name = String(args[0]);
+    const mock = getRegistry(context, functionName).get(name);
+    if (!mock) {
+        throw new ArgumentError(`${name} is not mocked or spied on (use test.mock or test.spy first)`);
+    }
+    return mock;
+}
+
+function formatTimes(count: number): string {
+    return count === 1 ? '1 time' : `${count} times`;
+}
+
 // Helper functions
 function isTruthy(value: any): boolean {
     if (value === null || value === undefined) {
@@ -760,6 +887,29 @@ export const TestFunctionMetadata: Record<string, FunctionMetadata> = {
         example: 'assertNotContains range 1 3 5  # Passes if array does not contain 5'
     },
 
+    assertSnapshot: {
+        description: 'Asserts that a value matches the named snapshot stored next to the script (the first run records it)',
+        parameters: [
+            {
+                name: 'value',
+                dataType: 'any',
+                description: 'Value to compare',
+                formInputType: 'json',
+                required: true
+            },
+            {
+                name: 'name',
+                dataType: 'string',
+                description: 'Snapshot name (unique within the script)',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'boolean',
+        returnDescription: 'Returns true if assertion passes, throws error otherwise',
+        example: 'test.assertSnapshot $user "user profile"'
+    },
+
     assertType: {
         description: 'Asserts that a value has a specific type',
         parameters: [
@@ -919,6 +1069,171 @@ export const TestFunctionMetadata: Record<string, FunctionMetadata> = {
         returnType: 'boolean',
         returnDescription: 'Never returns (throws an error)',
         example: 'fail "Test intentionally failed"  # Throws an error'
+    },
+
+    skip: {
+        description: 'Stops the current test block and marks it as skipped',
+        parameters: [
+            {
+                name: 'reason',
+                dataType: 'string',
+                description: 'Why the test is skipped (shown by reporters)',
+                formInputType: 'text',
+                required: false
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Never returns (ends the test)',
+        example: 'test.skip "Needs a network connection"'
+    },
+
+    mock: {
+        description: 'Replaces a builtin until the end of the current test block (or test.restore). The with block (if any) runs for every call with the call arguments as $1, $2, ...; otherwise each call returns the given value',
+        parameters: [
+            {
+                name: 'name',
+                dataType: 'string',
+                description: 'Builtin to replace (e.g. "fetch.get")',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'value',
+                dataType: 'any',
+                description: 'Value returned by every call (ignored when a with block is given)',
+                formInputType: 'json',
+                required: false
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Returns null',
+        example: 'test.mock "time.now" "2024-01-15T12:00:00.000Z"'
+    },
+
+    spy: {
+        description: 'Records the calls of a builtin (which still runs) until the end of the current test block (or test.restore)',
+        parameters: [
+            {
+                name: 'name',
+                dataType: 'string',
+                description: 'Builtin to spy on (e.g. "math.add")',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'null',
+        returnDescription: 'Returns null',
+        example: 'test.spy "math.add"'
+    },
+
+    restore: {
+        description: 'Removes the mocks and spies of a builtin, or all of them when no name is given',
+        parameters: [
+            {
+                name: 'name',
+                dataType: 'string',
+                description: 'Builtin to restore',
+                formInputType: 'text',
+                required: false
+            }
+        ],
+        returnType: 'number',
+        returnDescription: 'Number of mocks and spies removed',
+        example: 'test.restore "fetch.get"'
+    },
+
+    calls: {
+        description: 'Returns the arguments of every call made to a mocked or spied builtin',
+        parameters: [
+            {
+                name: 'name',
+                dataType: 'string',
+                description: 'Mocked or spied builtin',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'array',
+        returnDescription: 'One array of arguments per call',
+        example: 'test.calls "fetch.get"  # Returns [["https://example.com"]]'
+    },
+
+    callCount: {
+        description: 'Returns how many times a mocked or spied builtin was called',
+        parameters: [
+            {
+                name: 'name',
+                dataType: 'string',
+                description: 'Mocked or spied builtin',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'number',
+        returnDescription: 'Number of calls',
+        example: 'test.callCount "fetch.get"  # Returns 1'
+    },
+
+    assertCalled: {
+        description: 'Asserts that a mocked or spied builtin was called (exactly the given number of times, if given)',
+        parameters: [
+            {
+                name: 'name',
+                dataType: 'string',
+                description: 'Mocked or spied builtin',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'times',
+                dataType: 'number',
+                description: 'Expected number of calls',
+                formInputType: 'number',
+                required: false
+            }
+        ],
+        returnType: 'boolean',
+        returnDescription: 'Returns true if assertion passes, throws error otherwise',
+        example: 'test.assertCalled "fetch.get" 2'
+    },
+
+    assertNotCalled: {
+        description: 'Asserts that a mocked or spied builtin was never called',
+        parameters: [
+            {
+                name: 'name',
+                dataType: 'string',
+                description: 'Mocked or spied builtin',
+                formInputType: 'text',
+                required: true
+            }
+        ],
+        returnType: 'boolean',
+        returnDescription: 'Returns true if assertion passes, throws error otherwise',
+        example: 'test.assertNotCalled "fetch.post"'
+    },
+
+    assertCalledWith: {
+        description: 'Asserts that a mocked or spied builtin was called at least once with exactly the given arguments',
+        parameters: [
+            {
+                name: 'name',
+                dataType: 'string',
+                description: 'Mocked or spied builtin',
+                formInputType: 'text',
+                required: true
+            },
+            {
+                name: 'args',
+                dataType: 'any',
+                description: 'Expected arguments',
+                formInputType: 'json',
+                required: false
+            }
+        ],
+        returnType: 'boolean',
+        returnDescription: 'Returns true if assertion passes, throws error otherwise',
+        example: 'test.assertCalledWith "fetch.get" "https://example.com"'
     }
 };
 
@@ -939,13 +1254,23 @@ export const TestModuleMetadata: ModuleMetadata = {
         'assertLessOrEqual',
         'assertContains',
         'assertNotContains',
+        'assertSnapshot',
         'assertType',
         'isEqual',
         'isBigger',
         'isSmaller',
         'isEqualOrBigger',
         'isEqualOrSmaller',
-        'fail'
+        'fail',
+        'skip',
+        'mock',
+        'spy',
+        'restore',
+        'calls',
+        'callCount',
+        'assertCalled',
+        'assertNotCalled',
+        'assertCalledWith'
     ]
 };
 
@@ -11,12 +11,13 @@ import type {
  */
 
 export const TimeFunctions: Record<string, BuiltinHandler> = {
-    now: () => {
-        return new Date().toISOString();
+    // Both read the run's clock (fixed or custom when the capability policy sets one)
+    now: (_args, _callback, context) => {
+        return new Date(context?.capabilities.now() ?? Date.now()).toISOString();
     },
 
-    timestamp: () => {
-        return Date.now();
+    timestamp: (_args, _callback, context) => {
+        return context?.capabilities.now() ?? Date.now();
     },
 
     format: (args) => {
@@ -70,12 +71,25 @@ export const TimeFunctions: Record<string, BuiltinHandler> = {
         return diffDays;
     },
 
-    sleep: async (args) => {
+    sleep: async (args, _callback, context) => {
         const ms = Number(args[0]) || 0;
         if (ms < 0) {
             throw new Error('Sleep duration must be non-negative');
         }
-        await new Promise(resolve => setTimeout(resolve, ms));
+        // Wake up early (rejecting with the abort reason) when the run is cancelled
+        const signal = context?.signal;
+        signal?.throwIfAborted();
+        await new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(signal!.reason);
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
         return null;
     }
 };
@@ -7,13 +7,14 @@
  *   @param number $age 25 "description"
  *   @arg number
  *   @required $name
+ *   @retry 3 backoff=500
  */
 
 import { TokenStream } from '../classes/TokenStream';
 import { TokenKind } from '../classes/Lexer';
 import type { Token } from '../classes/Lexer';
 import { CommandParser } from './CommandParser';
-import type { DecoratorCall, CodePosition, Arg } from '../types/Ast.type';
+import type { DecoratorCall, CodePosition, Arg, Expression } from '../types/Ast.type';
 
 export interface DecoratorParserContext {
     parseStatement: (stream: TokenStream) => any;
@@ -49,6 +50,7 @@ export function parseDecorator(
     
     // Parse decorator arguments (similar to command arguments)
     const args: Arg[] = [];
+    const namedArgs: Record<string, Arg> = {};
     let endToken = decoratorToken;
     const startLine = decoratorToken.line;
     
@@ -76,6 +78,16 @@ export function parseDecorator(
             continue;
         }
         
+        // Named argument: key=value
+        let key: string | null = null;
+        const assignToken = stream.peek(1);
+        if ((token.kind === TokenKind.IDENTIFIER || token.kind === TokenKind.KEYWORD) && assignToken && assignToken.kind === TokenKind.ASSIGN) {
+            key = token.text;
+            stream.next(); // Consume key
+            stream.next(); // Consume '='
+            stream.skipWhitespaceAndComments();
+        }
+
         // Parse argument using CommandParser's parseArgumentValue logic
         // This handles literals, variables, subexpressions, objects, arrays, etc.
         const arg = CommandParser.parseArgumentValue(stream, {
@@ -89,7 +101,11 @@ export function parseDecorator(
         });
         
             if (arg) {
-                args.push(arg);
+                if (key !== null) {
+                    namedArgs[key] = arg;
+                } else {
+                    args.push(arg);
+                }
                 endToken = token;
             // Skip whitespace before checking for next argument
             stream.skipWhitespaceAndComments();
@@ -108,6 +124,11 @@ export function parseDecorator(
         }
     }
     
+    // Named arguments are passed as a trailing object (like for commands)
+    if (Object.keys(namedArgs).length > 0) {
+        args.push({ type: 'namedArgs', args: namedArgs as Record<string, Expression> });
+    }
+
     // Create code position
     const codePos: CodePosition = {
         startRow: decoratorToken.line - 1,
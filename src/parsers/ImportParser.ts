@@ -0,0 +1,79 @@
+/**
+ * Parser for import statements
+ * Syntax: import "./lib/helpers.robin" [as ns]
+ */
+
+import { TokenStream } from '../classes/TokenStream';
+import { TokenKind } from '../classes/Lexer';
+import type { Token } from '../classes/Lexer';
+import type { ImportStatement, CodePosition } from '../types/Ast.type';
+
+export interface ImportParserContext {
+    createCodePosition: (start: Token, end: Token) => CodePosition;
+}
+
+/**
+ * True when the stream is at an import statement: the identifier 'import'
+ * directly followed by the module path string
+ */
+export function isImportStart(stream: TokenStream): boolean {
+    const token = stream.current();
+    if (!token || token.kind !== TokenKind.IDENTIFIER || token.text !== 'import') {
+        return false;
+    }
+    return stream.peek(1)?.kind === TokenKind.STRING;
+}
+
+/**
+ * Parse an import statement
+ *
+ * @param stream - TokenStream positioned at the 'import' identifier
+ * @param context - Context with helper methods
+ * @returns Parsed ImportStatement
+ */
+export function parseImport(
+    stream: TokenStream,
+    context: ImportParserContext
+): ImportStatement {
+    const importToken = stream.current();
+    if (!importToken || importToken.text !== 'import') {
+        throw new Error(`parseImport expected 'import', got '${importToken?.text || 'EOF'}'`);
+    }
+
+    // Consume 'import' and the module path
+    stream.next();
+    const pathToken = stream.current();
+    if (!pathToken || pathToken.kind !== TokenKind.STRING) {
+        throw new Error(`'import' requires a module path string at line ${importToken.line}, column ${importToken.column}`);
+    }
+    const path = pathToken.value !== undefined ? String(pathToken.value) : pathToken.text.slice(1, -1);
+    stream.next();
+    let endToken = pathToken;
+
+    // Optional namespace: as <name>
+    let alias: string | undefined;
+    const asToken = stream.current();
+    if (asToken && (asToken.kind === TokenKind.KEYWORD || asToken.kind === TokenKind.IDENTIFIER) && asToken.text === 'as') {
+        stream.next();
+        const nameToken = stream.current();
+        if (!nameToken || nameToken.kind !== TokenKind.IDENTIFIER || nameToken.text.includes('.')) {
+            throw new Error(`'import ... as' requires a namespace name at line ${asToken.line}, column ${asToken.column}`);
+        }
+        alias = nameToken.text;
+        endToken = nameToken;
+        stream.next();
+    }
+
+    // Only an inline comment may follow (attached by the caller)
+    const next = stream.current();
+    if (next && next.kind !== TokenKind.NEWLINE && next.kind !== TokenKind.EOF && next.kind !== TokenKind.COMMENT) {
+        throw new Error(`Unexpected token '${next.text}' after import path at line ${next.line}, column ${next.column}`);
+    }
+
+    return {
+        type: 'import',
+        path,
+        ...(alias !== undefined ? { alias } : {}),
+        codePos: context.createCodePosition(importToken, endToken)
+    };
+}
@@ -0,0 +1,255 @@
+/**
+ * Parser for 'module' blocks
+ * Syntax: module name ... endmodule
+ *
+ * The body holds def blocks (with their decorators) and comments; each def becomes
+ * the command name.fn when the block runs.
+ */
+
+import { TokenStream } from '../classes/TokenStream';
+import { TokenKind } from '../classes/Lexer';
+import type { Token } from '../classes/Lexer';
+import { CommentParser } from './CommentParser';
+import { DefineParser } from './DefineParser';
+import { parseDecorators } from './DecoratorParser';
+import type { ModuleBlock, Statement, CommentWithPosition, CodePosition, DecoratorCall } from '../types/Ast.type';
+
+export interface ModuleBlockParserContext {
+    parseStatement: (stream: TokenStream) => Statement | null;
+    parseComment: (stream: TokenStream) => Statement | null;
+    createCodePosition: (start: Token, end: Token) => CodePosition;
+}
+
+/**
+ * True when the stream is at the header of a module block: the identifier 'module'
+ * followed by a name and the end of the line (so a command named module stays a command)
+ */
+export function isModuleBlockStart(stream: TokenStream): boolean {
+    const token = stream.current();
+    if (!token || token.kind !== TokenKind.IDENTIFIER || token.text !== 'module') {
+        return false;
+    }
+    const name = stream.peek(1);
+    if (!name || name.kind !== TokenKind.IDENTIFIER || name.text.includes('.')) {
+        return false;
+    }
+    const next = stream.peek(2);
+    return !next || next.kind === TokenKind.NEWLINE || next.kind === TokenKind.EOF || next.kind === TokenKind.COMMENT;
+}
+
+/**
+ * Parse a 'module' block from TokenStream
+ *
+ * @param stream - TokenStream positioned at the 'module' identifier
+ * @param context - Context with helper methods
+ * @param decorators - Optional decorators to attach to this block
+ * @returns Parsed ModuleBlock
+ */
+export async function parseModuleBlock(
+    stream: TokenStream,
+    context: ModuleBlockParserContext,
+    decorators?: DecoratorCall[]
+): Promise<ModuleBlock> {
+    const moduleToken = stream.current();
+    if (!moduleToken || moduleToken.text !== 'module') {
+        throw new Error(`parseModuleBlock expected 'module', got '${moduleToken?.text || 'EOF'}'`);
+    }
+
+    // Consume 'module' and the name
+    stream.next();
+    const nameToken = stream.current();
+    if (!nameToken || nameToken.kind !== TokenKind.IDENTIFIER || nameToken.text.includes('.')) {
+        throw new Error(`'module' requires a name at line ${moduleToken.line}, column ${moduleToken.column}`);
+    }
+    const name = nameToken.text;
+    stream.next();
+
+    // Only an inline comment may follow the name
+    const headerComments: CommentWithPosition[] = [];
+    while (!stream.isAtEnd()) {
+        const t = stream.current();
+        if (!t || t.kind === TokenKind.NEWLINE || t.kind === TokenKind.EOF) break;
+        if (t.kind === TokenKind.COMMENT) {
+            headerComments.push({
+                text: t.value ?? t.text.replace(/^#\s*/, ''),
+                inline: true,
+                codePos: context.createCodePosition(t, t)
+            });
+            stream.next();
+            continue;
+        }
+        throw new Error(`Unexpected token '${t.text}' after module name at line ${t.line}, column ${t.column}`);
+    }
+    if (stream.current()?.kind === TokenKind.NEWLINE) {
+        stream.next();
+    }
+
+    const { body, endToken } = await parseModuleBody(stream, context, moduleToken, name);
+
+    // Consume everything until end of line after 'endmodule'
+    while (!stream.isAtEnd() && stream.current()?.kind !== TokenKind.NEWLINE) {
+        stream.next();
+    }
+    if (stream.current()?.kind === TokenKind.NEWLINE) {
+        stream.next();
+    }
+
+    const result: ModuleBlock = {
+        type: 'moduleBlock',
+        name,
+        body,
+        codePos: context.createCodePosition(moduleToken, endToken)
+    };
+
+    if (headerComments.length > 0) {
+        result.comments = headerComments;
+    }
+
+    // Attach decorators if provided
+    if (decorators && decorators.length > 0) {
+        result.decorators = decorators;
+    }
+
+    return result;
+}
+
+/**
+ * Parse defs and comments until 'endmodule'; returns the (consumed) closing token
+ */
+async function parseModuleBody(
+    stream: TokenStream,
+    context: ModuleBlockParserContext,
+    moduleToken: Token,
+    name: string
+): Promise<{ body: Statement[]; endToken: Token }> {
+    const body: Statement[] = [];
+    let pendingComments: CommentWithPosition[] = [];
+    let pendingDecorators: DecoratorCall[] = [];
+
+    let lastIndex = -1;
+    let loopCount = 0;
+
+    while (!stream.isAtEnd()) {
+        const currentIndex = stream.getPosition();
+        if (currentIndex === lastIndex) {
+            loopCount++;
+            if (loopCount > 100) {
+                const token = stream.current();
+                console.error(`Infinite loop detected in ModuleBlockParser at index: ${currentIndex}, Token: ${token?.text}`);
+                throw new Error(`Infinite loop in ModuleBlockParser`);
+            }
+        } else {
+            lastIndex = currentIndex;
+            loopCount = 0;
+        }
+
+        const t = stream.current();
+        if (!t || t.kind === TokenKind.EOF) break;
+
+        if (t.kind === TokenKind.NEWLINE) {
+            stream.next();
+            continue;
+        }
+
+        // Blank lines after the previous statement (defs consume the newline after enddef)
+        if (body.length > 0) {
+            const lastStmt = body[body.length - 1];
+            const blankLines = t.line - 2 - getEndRow(lastStmt);
+            if (blankLines > 0 && lastStmt.trailingBlankLines === undefined) {
+                lastStmt.trailingBlankLines = blankLines;
+            }
+        }
+
+        if (t.kind === TokenKind.KEYWORD && t.text === 'endmodule') {
+            if (pendingDecorators.length > 0) {
+                throw new Error(`Orphaned decorators before endmodule at line ${t.line}. Decorators in a module must be followed by a def.`);
+            }
+            body.push(...orphanComments(pendingComments));
+            stream.next();
+            return { body, endToken: t };
+        }
+
+        if (t.kind === TokenKind.COMMENT) {
+            const commentResult = CommentParser.parseComments(stream);
+            if (commentResult.commentNode) {
+                body.push(...orphanComments(pendingComments), commentResult.commentNode);
+                pendingComments = [];
+            } else {
+                pendingComments.push(...commentResult.comments);
+            }
+            if (!commentResult.consumed) {
+                stream.next();
+            }
+            continue;
+        }
+
+        if (t.kind === TokenKind.DECORATOR) {
+            const decoratorResult = parseDecorators(stream, {
+                parseStatement: context.parseStatement,
+                parseComment: context.parseComment
+            });
+            pendingDecorators.push(...decoratorResult.decorators);
+            continue;
+        }
+
+        const isDef = t.kind === TokenKind.KEYWORD && t.text === 'def';
+        const isDefine = t.kind === TokenKind.IDENTIFIER && t.text === 'define';
+        if (!isDef && !isDefine) {
+            throw new Error(
+                `Only def blocks are allowed in module "${name}". ` +
+                `Found '${t.text}' at line ${t.line}, column ${t.column}.`
+            );
+        }
+
+        // Parse decorators run when the module is registered (they describe name.fn, not a script function)
+        const func = await DefineParser.parse(
+            stream,
+            context.parseStatement,
+            context.parseComment,
+            pendingDecorators.length > 0 ? pendingDecorators : undefined,
+            null
+        );
+        pendingDecorators = [];
+        if (pendingComments.length > 0) {
+            CommentParser.attachComments(func, pendingComments);
+            pendingComments = [];
+        }
+        body.push(func);
+    }
+
+    throw new Error(`module block missing endmodule at line ${moduleToken.line}, column ${moduleToken.column}`);
+}
+
+/**
+ * Last source row of a body statement (0-based)
+ */
+function getEndRow(stmt: Statement): number {
+    if (stmt.type === 'comment') {
+        const last = stmt.comments[stmt.comments.length - 1];
+        return last?.codePos?.endRow ?? stmt.lineNumber;
+    }
+    return 'codePos' in stmt && stmt.codePos ? stmt.codePos.endRow : -1;
+}
+
+/**
+ * Comments not followed by a def become a standalone comment node
+ */
+function orphanComments(comments: CommentWithPosition[]): Statement[] {
+    if (comments.length === 0) {
+        return [];
+    }
+    return [{
+        type: 'comment',
+        comments: [{
+            text: comments.map(c => c.text).join('\n'),
+            codePos: {
+                startRow: comments[0].codePos.startRow,
+                startCol: comments[0].codePos.startCol,
+                endRow: comments[comments.length - 1].codePos.endRow,
+                endCol: comments[comments.length - 1].codePos.endCol
+            },
+            inline: false
+        }],
+        lineNumber: comments[0].codePos.startRow
+    }];
+}
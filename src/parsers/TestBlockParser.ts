@@ -0,0 +1,189 @@
+/**
+ * Parser for 'test' and 'describe' blocks
+ * Syntax: test "name" ... endtest
+ *         describe "name" ... enddescribe
+ */
+
+import { TokenStream } from '../classes/TokenStream';
+import { TokenKind } from '../classes/Lexer';
+import type { Token } from '../classes/Lexer';
+import { CommentParser } from './CommentParser';
+import type { TestBlock, DescribeBlock, Statement, CommentWithPosition, CodePosition, DecoratorCall } from '../types/Ast.type';
+
+export interface TestBlockParserContext {
+    parseStatement: (stream: TokenStream) => Statement | null;
+    parseComment: (stream: TokenStream) => Statement | null;
+    createCodePosition: (start: Token, end: Token) => CodePosition;
+}
+
+/**
+ * True when the stream is at the header of a test or describe block: the identifier
+ * 'test'/'describe' directly followed by a string (so test.assertEqual stays a command)
+ */
+export function isTestBlockStart(stream: TokenStream): boolean {
+    const token = stream.current();
+    if (!token || token.kind !== TokenKind.IDENTIFIER || (token.text !== 'test' && token.text !== 'describe')) {
+        return false;
+    }
+    return stream.peek(1)?.kind === TokenKind.STRING;
+}
+
+/**
+ * Parse a 'test' or 'describe' block from TokenStream
+ *
+ * @param stream - TokenStream positioned at the 'test' or 'describe' identifier
+ * @param context - Context with helper methods
+ * @param decorators - Optional decorators to attach to this block
+ * @returns Parsed TestBlock or DescribeBlock
+ */
+export function parseTestBlock(
+    stream: TokenStream,
+    context: TestBlockParserContext,
+    decorators?: DecoratorCall[]
+): TestBlock | DescribeBlock {
+    const headerToken = stream.current();
+    if (!headerToken || (headerToken.text !== 'test' && headerToken.text !== 'describe')) {
+        throw new Error(`parseTestBlock expected 'test' or 'describe', got '${headerToken?.text || 'EOF'}'`);
+    }
+    const closingKeyword = headerToken.text === 'test' ? 'endtest' : 'enddescribe';
+
+    // Consume 'test'/'describe' and the name
+    stream.next();
+    const nameToken = stream.current();
+    if (!nameToken || nameToken.kind !== TokenKind.STRING) {
+        throw new Error(`'${headerToken.text}' requires a name string at line ${headerToken.line}, column ${headerToken.column}`);
+    }
+    const name = nameToken.value !== undefined ? String(nameToken.value) : nameToken.text.slice(1, -1);
+    stream.next();
+
+    // Only an inline comment may follow the name
+    const headerComments: CommentWithPosition[] = [];
+    while (!stream.isAtEnd()) {
+        const t = stream.current();
+        if (!t || t.kind === TokenKind.NEWLINE || t.kind === TokenKind.EOF) break;
+        if (t.kind === TokenKind.COMMENT) {
+            headerComments.push({
+                text: t.value ?? t.text.replace(/^#\s*/, ''),
+                inline: true,
+                codePos: context.createCodePosition(t, t)
+            });
+            stream.next();
+            continue;
+        }
+        throw new Error(`Unexpected token '${t.text}' after ${headerToken.text} name at line ${t.line}, column ${t.column}`);
+    }
+    if (stream.current()?.kind === TokenKind.NEWLINE) {
+        stream.next();
+    }
+
+    const { body, endToken } = parseBlockBody(stream, context, headerToken, closingKeyword);
+
+    // Consume everything until end of line after the closing keyword
+    while (!stream.isAtEnd() && stream.current()?.kind !== TokenKind.NEWLINE) {
+        stream.next();
+    }
+    if (stream.current()?.kind === TokenKind.NEWLINE) {
+        stream.next();
+    }
+
+    const result: TestBlock | DescribeBlock = {
+        type: headerToken.text === 'test' ? 'testBlock' : 'describeBlock',
+        name,
+        body,
+        codePos: context.createCodePosition(headerToken, endToken)
+    };
+
+    if (headerComments.length > 0) {
+        result.comments = headerComments;
+    }
+
+    // Attach decorators if provided
+    if (decorators && decorators.length > 0) {
+        result.decorators = decorators;
+    }
+
+    return result;
+}
+
+/**
+ * Parse body statements until the closing keyword; returns the (consumed) closing token
+ */
+function parseBlockBody(
+    stream: TokenStream,
+    context: TestBlockParserContext,
+    headerToken: Token,
+    closingKeyword: 'endtest' | 'enddescribe'
+): { body: Statement[]; endToken: Token } {
+    const body: Statement[] = [];
+
+    let lastIndex = -1;
+    let loopCount = 0;
+
+    while (!stream.isAtEnd()) {
+        const currentIndex = stream.getPosition();
+        if (currentIndex === lastIndex) {
+            loopCount++;
+            if (loopCount > 100) {
+                const token = stream.current();
+                console.error(`Infinite loop detected in TestBlockParser at index: ${currentIndex}, Token: ${token?.text}`);
+                throw new Error(`Infinite loop in TestBlockParser`);
+            }
+        } else {
+            lastIndex = currentIndex;
+            loopCount = 0;
+        }
+
+        const t = stream.current();
+        if (!t || t.kind === TokenKind.EOF) break;
+
+        // The closing keyword ends our block
+        if (t.kind === TokenKind.KEYWORD && t.text === closingKeyword) {
+            stream.next();
+            return { body, endToken: t };
+        }
+
+        // Skip newlines at the statement boundary, recording blank lines on the previous statement
+        if (t.kind === TokenKind.NEWLINE) {
+            let newlineCount = 0;
+            while (stream.current()?.kind === TokenKind.NEWLINE) {
+                newlineCount++;
+                stream.next();
+            }
+            if (body.length > 0 && newlineCount > 1) {
+                const lastStmt = body[body.length - 1];
+                lastStmt.trailingBlankLines = (lastStmt.trailingBlankLines || 0) + (newlineCount - 1);
+            }
+            continue;
+        }
+
+        if (t.kind === TokenKind.COMMENT) {
+            const commentBeforeParse = stream.getPosition();
+            const comment = context.parseComment(stream);
+            const stillOnComment = stream.current()?.kind === TokenKind.COMMENT;
+            if (stream.getPosition() === commentBeforeParse || stillOnComment) {
+                stream.next(); // Manually advance if parseComment didn't
+            }
+            if (comment) {
+                body.push(comment);
+            }
+            continue;
+        }
+
+        const stmt = context.parseStatement(stream);
+        if (stmt) {
+            // Check for inline comment immediately after statement
+            if ('codePos' in stmt && stmt.codePos) {
+                const inlineComment = CommentParser.parseInlineComment(stream, stmt.codePos.endRow);
+                if (inlineComment) {
+                    CommentParser.attachComments(stmt, [inlineComment]);
+                }
+            }
+            body.push(stmt);
+        } else {
+            // If parseStatement returns null, ensure progress
+            stream.next();
+        }
+    }
+
+    throw new Error(`${headerToken.text} block missing ${closingKeyword} at line ${headerToken.line}, column ${headerToken.column}`);
+}
@@ -0,0 +1,240 @@
+/**
+ * Parser for 'try' blocks
+ * Syntax: try ... [catch [$err] ...] [finally ...] endtry
+ */
+
+import { TokenStream } from '../classes/TokenStream';
+import { TokenKind } from '../classes/Lexer';
+import type { Token } from '../classes/Lexer';
+import { LexerUtils } from '../utils';
+import { CommentParser } from './CommentParser';
+import type { TryBlock, Statement, CommentWithPosition, CodePosition, DecoratorCall } from '../types/Ast.type';
+
+export interface TryBlockParserContext {
+    parseStatement: (stream: TokenStream) => Statement | null;
+    parseComment: (stream: TokenStream) => Statement | null;
+    createCodePosition: (start: Token, end: Token) => CodePosition;
+}
+
+type TryClauseKeyword = 'catch' | 'finally' | 'endtry';
+
+/**
+ * Parse a 'try' block from TokenStream
+ *
+ * @param stream - TokenStream positioned at the 'try' keyword
+ * @param context - Context with helper methods
+ * @param decorators - Optional decorators to attach to this try block
+ * @returns Parsed TryBlock
+ */
+export function parseTry(
+    stream: TokenStream,
+    context: TryBlockParserContext,
+    decorators?: DecoratorCall[]
+): TryBlock {
+    const headerToken = stream.current();
+    if (!headerToken || headerToken.text !== 'try') {
+        throw new Error(`parseTry expected 'try' keyword, got '${headerToken?.text || 'EOF'}'`);
+    }
+
+    // Consume 'try' keyword; only an inline comment may follow it
+    stream.next();
+    const headerComments: CommentWithPosition[] = [];
+    skipToNextLine(stream, context, headerToken, headerComments);
+
+    const tryPart = parseClauseBody(stream, context, headerToken);
+
+    let hasCatch = false;
+    let catchVarName: string | undefined;
+    let catchBody: Statement[] | undefined;
+    let finallyBody: Statement[] | undefined;
+    let clause = tryPart.terminator;
+
+    if (clause.text === 'catch') {
+        const catchToken = clause;
+        stream.next(); // consume 'catch'
+        hasCatch = true;
+
+        // Optional error variable on the same line: catch $err
+        const varToken = stream.current();
+        if (varToken && varToken.kind === TokenKind.VARIABLE) {
+            if (!LexerUtils.isVariable(varToken.text)) {
+                throw new Error(`catch variable must be a variable (e.g., $err) at line ${varToken.line}, column ${varToken.column}`);
+            }
+            catchVarName = LexerUtils.parseVariablePath(varToken.text).name;
+            stream.next();
+        }
+        skipToNextLine(stream, context, catchToken);
+
+        const catchPart = parseClauseBody(stream, context, headerToken);
+        catchBody = catchPart.body;
+        clause = catchPart.terminator;
+        if (clause.text === 'catch') {
+            throw new Error(`try block can only have one catch clause at line ${clause.line}, column ${clause.column}`);
+        }
+    }
+
+    if (clause.text === 'finally') {
+        const finallyToken = clause;
+        stream.next(); // consume 'finally'
+        skipToNextLine(stream, context, finallyToken);
+
+        const finallyPart = parseClauseBody(stream, context, headerToken);
+        finallyBody = finallyPart.body;
+        clause = finallyPart.terminator;
+        if (clause.text !== 'endtry') {
+            throw new Error(`'${clause.text}' is not allowed after finally at line ${clause.line}, column ${clause.column}`);
+        }
+    }
+
+    if (!hasCatch && !finallyBody) {
+        throw new Error(`try block requires a catch or finally clause at line ${headerToken.line}, column ${headerToken.column}`);
+    }
+
+    // Consume 'endtry' and everything until end of line
+    const endToken = clause;
+    stream.next();
+    while (!stream.isAtEnd() && stream.current()?.kind !== TokenKind.NEWLINE) {
+        stream.next();
+    }
+    if (stream.current()?.kind === TokenKind.NEWLINE) {
+        stream.next();
+    }
+
+    const result: TryBlock = {
+        type: 'tryBlock',
+        body: tryPart.body,
+        hasCatch,
+        codePos: context.createCodePosition(headerToken, endToken)
+    };
+    if (catchVarName) {
+        result.catchVarName = catchVarName;
+    }
+    if (catchBody) {
+        result.catchBody = catchBody;
+    }
+    if (finallyBody) {
+        result.finallyBody = finallyBody;
+    }
+
+    if (headerComments.length > 0) {
+        result.comments = headerComments;
+    }
+
+    // Attach decorators if provided
+    if (decorators && decorators.length > 0) {
+        result.decorators = decorators;
+    }
+
+    return result;
+}
+
+/**
+ * Consume the rest of a clause line (try/catch/finally), keeping an inline comment if requested
+ */
+function skipToNextLine(
+    stream: TokenStream,
+    context: TryBlockParserContext,
+    clauseToken: Token,
+    comments?: CommentWithPosition[]
+): void {
+    while (!stream.isAtEnd()) {
+        const t = stream.current();
+        if (!t || t.kind === TokenKind.NEWLINE) break;
+
+        if (t.kind === TokenKind.COMMENT) {
+            comments?.push({
+                text: t.value ?? t.text.replace(/^#\s*/, ''),
+                inline: true,
+                codePos: context.createCodePosition(t, t)
+            });
+            stream.next();
+            continue;
+        }
+
+        throw new Error(`Unexpected token '${t.text}' after '${clauseToken.text}' at line ${t.line}, column ${t.column}`);
+    }
+
+    if (stream.current()?.kind === TokenKind.NEWLINE) {
+        stream.next();
+    }
+}
+
+/**
+ * Parse statements until the next catch/finally/endtry keyword (left unconsumed)
+ */
+function parseClauseBody(
+    stream: TokenStream,
+    context: TryBlockParserContext,
+    headerToken: Token
+): { body: Statement[]; terminator: Token & { text: TryClauseKeyword } } {
+    const body: Statement[] = [];
+
+    let lastIndex = -1;
+    let loopCount = 0;
+
+    while (!stream.isAtEnd()) {
+        const currentIndex = stream.getPosition();
+        if (currentIndex === lastIndex) {
+            loopCount++;
+            if (loopCount > 100) {
+                const token = stream.current();
+                console.error(`Infinite loop detected in TryBlockParser at index: ${currentIndex}, Token: ${token?.text}`);
+                throw new Error(`Infinite loop in TryBlockParser`);
+            }
+        } else {
+            lastIndex = currentIndex;
+            loopCount = 0;
+        }
+
+        const t = stream.current();
+        if (!t || t.kind === TokenKind.EOF) break;
+
+        if (t.kind === TokenKind.KEYWORD && (t.text === 'catch' || t.text === 'finally' || t.text === 'endtry')) {
+            return { body, terminator: t as Token & { text: TryClauseKeyword } };
+        }
+
+        // Skip newlines at the statement boundary, recording blank lines on the previous statement
+        if (t.kind === TokenKind.NEWLINE) {
+            let newlineCount = 0;
+            while (stream.current()?.kind === TokenKind.NEWLINE) {
+                newlineCount++;
+                stream.next();
+            }
+            if (body.length > 0 && newlineCount > 1) {
+                const lastStmt = body[body.length - 1];
+                lastStmt.trailingBlankLines = (lastStmt.trailingBlankLines || 0) + (newlineCount - 1);
+            }
+            continue;
+        }
+
+        if (t.kind === TokenKind.COMMENT) {
+            const commentBeforeParse = stream.getPosition();
+            const comment = context.parseComment(stream);
+            const stillOnComment = stream.current()?.kind === TokenKind.COMMENT;
+            if (stream.getPosition() === commentBeforeParse || stillOnComment) {
+                stream.next(); // Manually advance if parseComment didn't
+            }
+            if (comment) {
+                body.push(comment);
+            }
+            continue;
+        }
+
+        const stmt = context.parseStatement(stream);
+        if (stmt) {
+            // Check for inline comment immediately after statement
+            if ('codePos' in stmt && stmt.codePos) {
+                const inlineComment = CommentParser.parseInlineComment(stream, stmt.codePos.endRow);
+                if (inlineComment) {
+                    CommentParser.attachComments(stmt, [inlineComment]);
+                }
+            }
+            body.push(stmt);
+        } else {
+            // If parseStatement returns null, ensure progress
+            stream.next();
+        }
+    }
+
+    throw new Error(`try block missing endtry at line ${headerToken.line}, column ${headerToken.column}`);
+}
@@ -0,0 +1,257 @@
+/**
+ * Parser for 'while' and 'repeat ... until' loops
+ * Syntax: while <expr> ... endwhile
+ *         repeat ... until <expr>
+ */
+
+import { TokenStream } from '../classes/TokenStream';
+import { TokenKind } from '../classes/Lexer';
+import type { Token } from '../classes/Lexer';
+import { parseExpression } from './ExpressionParser';
+import { CommentParser } from './CommentParser';
+import type { WhileLoop, RepeatUntilLoop, Statement, CommentWithPosition, CodePosition, Expression, DecoratorCall } from '../types/Ast.type';
+
+export interface WhileLoopParserContext {
+    parseStatement: (stream: TokenStream) => Statement | null;
+    parseComment: (stream: TokenStream) => Statement | null;
+    createCodePosition: (start: Token, end: Token) => CodePosition;
+}
+
+/**
+ * Parse a 'while' loop from TokenStream
+ *
+ * @param stream - TokenStream positioned at the 'while' keyword
+ * @param context - Context with helper methods
+ * @param decorators - Optional decorators to attach to this while loop
+ * @returns Parsed WhileLoop
+ */
+export function parseWhileLoop(
+    stream: TokenStream,
+    context: WhileLoopParserContext,
+    decorators?: DecoratorCall[]
+): WhileLoop {
+    const headerToken = stream.current();
+    if (!headerToken || headerToken.text !== 'while') {
+        throw new Error(`parseWhileLoop expected 'while' keyword, got '${headerToken?.text || 'EOF'}'`);
+    }
+
+    // Consume 'while' keyword
+    stream.next();
+
+    const headerComments: CommentWithPosition[] = [];
+    const { condition } = parseConditionToEndOfLine(stream, context, headerToken, headerComments);
+
+    const { body, endToken } = parseLoopBody(stream, context, headerToken, 'endwhile');
+
+    // Consume everything until end of line after 'endwhile'
+    while (!stream.isAtEnd() && stream.current()?.kind !== TokenKind.NEWLINE) {
+        stream.next();
+    }
+    if (stream.current()?.kind === TokenKind.NEWLINE) {
+        stream.next();
+    }
+
+    const result: WhileLoop = {
+        type: 'whileLoop',
+        condition,
+        body,
+        codePos: context.createCodePosition(headerToken, endToken)
+    };
+
+    if (headerComments.length > 0) {
+        result.comments = headerComments;
+    }
+
+    // Attach decorators if provided
+    if (decorators && decorators.length > 0) {
+        result.decorators = decorators;
+    }
+
+    return result;
+}
+
+/**
+ * Parse a 'repeat ... until' loop from TokenStream
+ * (a bare 'repeat' line; 'repeat N with ... endwith' is the repeat command)
+ *
+ * @param stream - TokenStream positioned at the 'repeat' keyword
+ * @param context - Context with helper methods
+ * @param decorators - Optional decorators to attach to this loop
+ * @returns Parsed RepeatUntilLoop
+ */
+export function parseRepeatUntil(
+    stream: TokenStream,
+    context: WhileLoopParserContext,
+    decorators?: DecoratorCall[]
+): RepeatUntilLoop {
+    const headerToken = stream.current();
+    if (!headerToken || headerToken.text !== 'repeat') {
+        throw new Error(`parseRepeatUntil expected 'repeat' keyword, got '${headerToken?.text || 'EOF'}'`);
+    }
+
+    // Consume 'repeat' keyword; only an inline comment may follow it
+    stream.next();
+    const headerComments: CommentWithPosition[] = [];
+    if (stream.current()?.kind === TokenKind.COMMENT) {
+        const t = stream.current()!;
+        headerComments.push({
+            text: t.value ?? t.text.replace(/^#\s*/, ''),
+            inline: true,
+            codePos: context.createCodePosition(t, t)
+        });
+        stream.next();
+    }
+    if (stream.current()?.kind === TokenKind.NEWLINE) {
+        stream.next();
+    }
+
+    const { body, endToken: untilToken } = parseLoopBody(stream, context, headerToken, 'until');
+
+    // Condition runs to the end of the 'until' line (an inline comment there is not kept)
+    const { condition, lastToken } = parseConditionToEndOfLine(stream, context, untilToken, []);
+
+    const result: RepeatUntilLoop = {
+        type: 'repeatUntil',
+        condition,
+        body,
+        codePos: context.createCodePosition(headerToken, lastToken)
+    };
+
+    if (headerComments.length > 0) {
+        result.comments = headerComments;
+    }
+
+    // Attach decorators if provided
+    if (decorators && decorators.length > 0) {
+        result.decorators = decorators;
+    }
+
+    return result;
+}
+
+/**
+ * Parse the expression following a 'while'/'until' keyword up to the end of the line
+ * (lastToken is the final token of the expression)
+ */
+function parseConditionToEndOfLine(
+    stream: TokenStream,
+    context: WhileLoopParserContext,
+    keywordToken: Token,
+    comments: CommentWithPosition[]
+): { condition: Expression; lastToken: Token } {
+    const exprTokens: Token[] = [];
+    while (!stream.isAtEnd()) {
+        const t = stream.current();
+        if (!t || t.kind === TokenKind.NEWLINE || t.kind === TokenKind.EOF) break;
+
+        if (t.kind === TokenKind.COMMENT) {
+            comments.push({
+                text: t.value ?? t.text.replace(/^#\s*/, ''),
+                inline: true,
+                codePos: context.createCodePosition(t, t)
+            });
+            stream.next();
+            break;
+        }
+
+        exprTokens.push(t);
+        stream.next();
+    }
+
+    if (exprTokens.length === 0) {
+        throw new Error(`'${keywordToken.text}' requires a condition at line ${keywordToken.line}, column ${keywordToken.column}`);
+    }
+
+    // Move to next line if we stopped at NEWLINE
+    if (stream.current()?.kind === TokenKind.NEWLINE) {
+        stream.next();
+    }
+
+    return {
+        condition: parseExpression(new TokenStream(exprTokens), context.parseStatement, context.parseComment),
+        lastToken: exprTokens[exprTokens.length - 1]
+    };
+}
+
+/**
+ * Parse body statements until the closing keyword; returns the (consumed) closing token
+ */
+function parseLoopBody(
+    stream: TokenStream,
+    context: WhileLoopParserContext,
+    headerToken: Token,
+    closingKeyword: 'endwhile' | 'until'
+): { body: Statement[]; endToken: Token } {
+    const body: Statement[] = [];
+
+    let lastIndex = -1;
+    let loopCount = 0;
+
+    while (!stream.isAtEnd()) {
+        const currentIndex = stream.getPosition();
+        if (currentIndex === lastIndex) {
+            loopCount++;
+            if (loopCount > 100) {
+                const token = stream.current();
+                console.error(`Infinite loop detected in WhileLoopParser at index: ${currentIndex}, Token: ${token?.text}`);
+                throw new Error(`Infinite loop in WhileLoopParser`);
+            }
+        } else {
+            lastIndex = currentIndex;
+            loopCount = 0;
+        }
+
+        const t = stream.current();
+        if (!t || t.kind === TokenKind.EOF) break;
+
+        // The closing keyword ends our block
+        if (t.kind === TokenKind.KEYWORD && t.text === closingKeyword) {
+            stream.next();
+            return { body, endToken: t };
+        }
+
+        // Skip newlines at the statement boundary, recording blank lines on the previous statement
+        if (t.kind === TokenKind.NEWLINE) {
+            let newlineCount = 0;
+            while (stream.current()?.kind === TokenKind.NEWLINE) {
+                newlineCount++;
+                stream.next();
+            }
+            if (body.length > 0 && newlineCount > 1) {
+                const lastStmt = body[body.length - 1];
+                lastStmt.trailingBlankLines = (lastStmt.trailingBlankLines || 0) + (newlineCount - 1);
+            }
+            continue;
+        }
+
+        if (t.kind === TokenKind.COMMENT) {
+            const commentBeforeParse = stream.getPosition();
+            const comment = context.parseComment(stream);
+            const stillOnComment = stream.current()?.kind === TokenKind.COMMENT;
+            if (stream.getPosition() === commentBeforeParse || stillOnComment) {
+                stream.next(); // Manually advance if parseComment didn't
+            }
+            if (comment) {
+                body.push(comment);
+            }
+            continue;
+        }
+
+        const stmt = context.parseStatement(stream);
+        if (stmt) {
+            // Check for inline comment immediately after statement
+            if ('codePos' in stmt && stmt.codePos) {
+                const inlineComment = CommentParser.parseInlineComment(stream, stmt.codePos.endRow);
+                if (inlineComment) {
+                    CommentParser.attachComments(stmt, [inlineComment]);
+                }
+            }
+            body.push(stmt);
+        } else {
+            // If parseStatement returns null, ensure progress
+            stream.next();
+        }
+    }
+
+    throw new Error(`${headerToken.text} loop missing ${closingKeyword} at line ${headerToken.line}, column ${headerToken.column}`);
+}
@@ -413,6 +413,32 @@ export interface ForLoop {
     codePos: CodePosition; // Code position (row/col) in source code
 }
 
+/**
+ * Represents a while loop (while/endwhile)
+ */
+export interface WhileLoop {
+    type: 'whileLoop';
+    condition: Expression; // Checked before each iteration
+    body: Statement[];
+    decorators?: DecoratorCall[]; // Decorators attached to this while loop
+    comments?: CommentWithPosition[]; // Comments attached to this while loop (above and inline)
+    trailingBlankLines?: number; // Number of blank lines after this statement (for preserving formatting)
+    codePos: CodePosition; // Code position (row/col) in source code
+}
+
+/**
+ * Represents a repeat-until loop (repeat/until <expr>); the body always runs at least once
+ */
+export interface RepeatUntilLoop {
+    type: 'repeatUntil';
+    condition: Expression; // Checked after each iteration; the loop stops once it is truthy
+    body: Statement[];
+    decorators?: DecoratorCall[]; // Decorators attached to this repeat loop
+    comments?: CommentWithPosition[]; // Comments attached to this repeat loop (above and inline)
+    trailingBlankLines?: number; // Number of blank lines after this statement (for preserving formatting)
+    codePos: CodePosition; // Code position (row/col) in source code
+}
+
 // ============================================================================
 // Control Flow
 // ============================================================================
@@ -448,6 +474,52 @@ export interface ContinueStatement {
     codePos: CodePosition; // Code position (row/col) in source code
 }
 
+/**
+ * Represents a try block (try/catch/finally/endtry)
+ */
+export interface TryBlock {
+    type: 'tryBlock';
+    body: Statement[];
+    hasCatch: boolean; // A catch clause is present (its variable is optional)
+    catchVarName?: string; // catch $err - receives the error object (message, code, line, column, ...)
+    catchBody?: Statement[];
+    finallyBody?: Statement[]; // Always runs, whether body/catch completed, threw or returned
+    decorators?: DecoratorCall[]; // Decorators attached to this try block
+    comments?: CommentWithPosition[]; // Comments attached to this try block (above and inline)
+    trailingBlankLines?: number; // Number of blank lines after this statement (for preserving formatting)
+    codePos: CodePosition; // Code position (row/col) in source code
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+/**
+ * Represents a test case (test "name" ... endtest); failures are recorded instead of aborting the run
+ */
+export interface TestBlock {
+    type: 'testBlock';
+    name: string;
+    body: Statement[];
+    decorators?: DecoratorCall[]; // Decorators attached to this test
+    comments?: CommentWithPosition[]; // Comments attached to this test (above and inline)
+    trailingBlankLines?: number; // Number of blank lines after this statement (for preserving formatting)
+    codePos: CodePosition; // Code position (row/col) in source code
+}
+
+/**
+ * Represents a group of tests (describe "name" ... enddescribe); its name prefixes the names of its tests
+ */
+export interface DescribeBlock {
+    type: 'describeBlock';
+    name: string;
+    body: Statement[];
+    decorators?: DecoratorCall[]; // Decorators attached to this group
+    comments?: CommentWithPosition[]; // Comments attached to this group (above and inline)
+    trailingBlankLines?: number; // Number of blank lines after this statement (for preserving formatting)
+    codePos: CodePosition; // Code position (row/col) in source code
+}
+
 // ============================================================================
 // Events
 // ============================================================================
@@ -465,6 +537,35 @@ export interface OnBlock {
     codePos: CodePosition; // Code position (row/col) in source code
 }
 
+// ============================================================================
+// Modules
+// ============================================================================
+
+/**
+ * Represents an import of another .robin file (import "./lib/helpers.robin" [as ns])
+ */
+export interface ImportStatement {
+    type: 'import';
+    path: string; // Module path as written (resolved by the module loader)
+    alias?: string; // Namespace given with "as" (defaults to the file name without extension)
+    comments?: CommentWithPosition[]; // Comments attached to this import (above and inline)
+    trailingBlankLines?: number; // Number of blank lines after this statement (for preserving formatting)
+    codePos: CodePosition; // Code position (row/col) in source code
+}
+
+/**
+ * Represents a module written in RobinPath (module name ... endmodule); its defs become name.fn commands
+ */
+export interface ModuleBlock {
+    type: 'moduleBlock';
+    name: string; // Module name (prefix of its commands)
+    body: Statement[]; // def blocks (and comments)
+    decorators?: DecoratorCall[]; // Decorators attached to this module (@desc becomes the module description)
+    comments?: CommentWithPosition[]; // Comments attached to this module (above and inline)
+    trailingBlankLines?: number; // Number of blank lines after this statement (for preserving formatting)
+    codePos: CodePosition; // Code position (row/col) in source code
+}
+
 // ============================================================================
 // Cell Blocks
 // ============================================================================
@@ -540,10 +641,17 @@ export type Statement =
     | ScopeBlock
     | TogetherBlock
     | ForLoop
+    | WhileLoop
+    | RepeatUntilLoop
     | ReturnStatement
     | BreakStatement
     | ContinueStatement
+    | TryBlock
+    | TestBlock
+    | DescribeBlock
     | OnBlock
+    | ImportStatement
+    | ModuleBlock
     | CommentStatement
     | ChunkMarkerStatement
     | CellBlock
@@ -1,21 +1,50 @@
 import type { Value } from '../utils';
+import type { Executor } from '../classes/Executor';
+import type { OutputSink } from '../classes/Output';
+import type { Capabilities } from '../classes/Capabilities';
+import type { CoverageCollector } from '../classes/Coverage';
+import type { Profiler } from '../classes/Profiler';
+import type { TraceSink } from '../classes/Trace';
+import type { FetchTransport } from '../classes/Transport';
 import type { 
     DefineFunction, 
     OnBlock,
+    ScopeBlock,
+    TogetherBlock,
     Arg
 } from './Ast.type';
 
 export type BuiltinCallback = (callbackArgs: Value[]) => Promise<Value> | Value | null;
-export type BuiltinHandler = (args: Value[], callback?: BuiltinCallback | null) => Promise<Value> | Value | null;
+export type BuiltinHandler = (args: Value[], callback?: BuiltinCallback | null, context?: BuiltinContext) => Promise<Value> | Value | null;
 export type DecoratorHandler = (targetName: string, func: DefineFunction | null, originalArgs: Value[], decoratorArgs: Value[], originalDecoratorArgs?: Arg[]) => Promise<Value[] | Value | null | undefined>;
 export type ParseDecoratorHandler = (targetName: string, func: DefineFunction | null, decoratorArgs: Arg[], environment: Environment) => Promise<void> | void;
 
+/**
+ * A def call, do block or together block run through wrap decorators
+ */
+export interface DecoratorTarget {
+    kind: 'def' | 'do' | 'together';
+    name: string; // Def name, or "do block (line N)" / "together block (line N)"
+    args: Value[]; // Call arguments of a def, values of a do block's parameters (empty for together)
+    node: DefineFunction | ScopeBlock | TogetherBlock; // Decorated node (stable across calls, e.g. to keep per-target state)
+    context: BuiltinContext; // Output, signal and capabilities of the run
+}
+
+/**
+ * Runtime decorator wrapping the execution of its target: call run() to execute the
+ * target (any number of times) and return its value. run(signal) executes it under
+ * another AbortSignal (derive it from target.context.signal to keep the run cancellable).
+ */
+export type WrapDecoratorHandler = (run: (signal?: AbortSignal) => Promise<Value>, decoratorArgs: Value[], target: DecoratorTarget) => Promise<Value>;
+
 export interface Environment {
     variables: Map<string, Value>;
     functions: Map<string, DefineFunction>;
     builtins: Map<string, BuiltinHandler>;
     decorators: Map<string, DecoratorHandler>; // Runtime decorators
     parseDecorators: Map<string, ParseDecoratorHandler>; // Parse-time decorators
+    wrapDecorators: Map<string, WrapDecoratorHandler>; // Runtime decorators wrapping def calls and do/together blocks
+    decoratorMetadata: Map<string, FunctionMetadata>; // Documentation of decorators (by name without @, shown by explain "@name")
     metadata: Map<string, FunctionMetadata>;
     moduleMetadata: Map<string, ModuleMetadata>;
     currentModule: string | null; // Current module context set by "use" command
@@ -23,6 +52,7 @@ export interface Environment {
     functionMetadata: Map<string, Map<string, Value>>; // function name -> (meta key -> value)
     constants: Set<string>; // Set of constant variable names (cannot be reassigned)
     eventHandlers: Map<string, OnBlock[]>; // event name -> array of event handlers
+    imports: Map<string, string>; // namespace -> path of the module imported under it
 }
 
 export interface Frame {
@@ -31,6 +61,41 @@ export interface Frame {
     isFunctionFrame?: boolean; // True if this frame is from a function (def/enddef), false/undefined if from subexpression
     forgotten?: Set<string>; // Names of variables/functions forgotten in this scope
     isIsolatedScope?: boolean; // True if this frame is from a scope with parameters (isolated, no parent access)
+    name?: string; // Function or event name for def/on frames (used by the debugger's call stack)
+}
+
+/**
+ * Per-run execution limits (all optional; omitted limits are not enforced)
+ */
+export interface ExecutionLimits {
+    maxSteps?: number; // Maximum number of statements executed per run
+    timeout?: number; // Maximum wall-clock time per run, in milliseconds
+    maxCallDepth?: number; // Maximum number of nested def/on calls
+    maxCollectionSize?: number; // Maximum array length / object key count of a single value
+}
+
+/**
+ * Execution context passed to builtin handlers as their third argument
+ */
+export interface BuiltinContext {
+    limits: ExecutionLimits | null; // Limits of the current run (null if unlimited)
+    executor: Executor; // Executor running the call (for builtins that run RobinPath code, e.g. trigger)
+    signal: AbortSignal | null; // Cancellation signal of the current run (long-running builtins should honor it)
+    output: OutputSink; // Where the current run's output goes (write records here instead of calling console)
+    capabilities: Capabilities; // Capabilities granted to the current run (clock, random source, allowed fetch hosts)
+    transport: FetchTransport; // Where fetch.* sends its requests (the network unless a transport was set)
+}
+
+/**
+ * Options accepted by executeScript / executeLine
+ */
+export interface ExecuteOptions {
+    signal?: AbortSignal; // Abort the run (rejects with signal.reason)
+    output?: OutputSink; // Output sink for this run only (defaults to the instance's sink)
+    file?: string; // File name of the script (used by test reports, coverage and profiles; imports resolve relative to it)
+    coverage?: CoverageCollector; // Record statement/branch/function hits of this run
+    profiler?: Profiler; // Time the calls and lines of this run
+    trace?: TraceSink; // Trace sink for this run only (defaults to the instance's sink, if any)
 }
 
 export type DataType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null' | 'any';
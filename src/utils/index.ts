@@ -8,3 +8,4 @@ export * from './valueConversion';
 export * from './args';
 export * from './errorFormatter';
 
+export * from './regex';
@@ -0,0 +1,52 @@
+/**
+ * Regular expression utilities for RobinPath (used by the regex module and the
+ * regex options of the string module)
+ */
+
+import type { Value } from './types';
+
+/**
+ * Compile a pattern given to a script command
+ * @param pattern - Pattern source (without slashes)
+ * @param flags - Flags such as "i", "m", "s" or "u" (null for none)
+ * @param command - Command name for error messages
+ */
+export function createRegExp(pattern: Value | undefined, flags: Value | undefined, command: string): RegExp {
+    if (typeof pattern !== 'string') {
+        throw new Error(`${command} requires a pattern string, got ${JSON.stringify(pattern ?? null)}`);
+    }
+    const flagText = flags === undefined || flags === null ? '' : String(flags);
+    try {
+        return new RegExp(pattern, flagText);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`${command} got an invalid pattern: ${message}`);
+    }
+}
+
+/**
+ * Same pattern with the g flag, for commands working on every match
+ */
+export function toGlobalRegExp(regex: RegExp): RegExp {
+    return regex.global ? new RegExp(regex.source, regex.flags) : new RegExp(regex.source, `${regex.flags}g`);
+}
+
+/**
+ * A match as a value: { match, index, captures, groups } where captures holds the
+ * numbered groups (null when a group did not take part) and groups the named ones
+ */
+export function matchToValue(match: RegExpExecArray | RegExpMatchArray): Value {
+    return {
+        match: match[0],
+        index: match.index ?? 0,
+        captures: match.slice(1).map(capture => capture ?? null),
+        groups: match.groups ? Object.fromEntries(Object.entries(match.groups).map(([name, value]) => [name, value ?? null])) : {}
+    };
+}
+
+/**
+ * Escape the characters with a meaning in patterns
+ */
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,68 @@
+// Test Case a27: Try/Catch AST tests
+// Tests AST update accuracy for try/catch/finally blocks
+
+import { RobinPath } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing Try/Catch AST - Structure Preservation (a27)');
+    console.log('='.repeat(60));
+
+    const testRp = new RobinPath();
+    const originalScript = `
+# Guard the request
+try  # risky part
+  log "Step 1"
+catch $err
+  log "Failed" $err.message
+finally
+  log "Done"
+endtry
+`;
+
+    // Test 1: Updating values inside each clause keeps the surrounding formatting
+    const initialAST = await testRp.getAST(originalScript);
+    const modifiedAST = JSON.parse(JSON.stringify(initialAST));
+    const tryNode = modifiedAST.find(node => node.type === 'tryBlock');
+    if (!tryNode || !tryNode.hasCatch || tryNode.catchVarName !== 'err') {
+        throw new Error('Test 1 FAILED: tryBlock node with catch $err not found.');
+    }
+    tryNode.body[0].args[0].value = 'Step A';
+    tryNode.catchBody[0].args[0].value = 'Oops';
+    tryNode.finallyBody[0].args[0].value = 'Cleanup';
+
+    const regeneratedCode = await testRp.updateCodeFromAST(originalScript, modifiedAST);
+    const replacedCode = originalScript
+        .replace('"Step 1"', '"Step A"')
+        .replace('"Failed"', '"Oops"')
+        .replace('"Done"', '"Cleanup"');
+
+    console.log('\n--- TRY/CATCH COMPARISON ---');
+    console.log('ORIGINAL:\n' + originalScript);
+    console.log('\nREGENERATED:\n' + regeneratedCode);
+
+    if (regeneratedCode !== replacedCode) throw new Error('Test 1 FAILED: Try block mismatch.');
+    console.log('\n✓ Test 1 PASSED: Try block structure preserved.');
+
+    // Test 2: Removing the catch clause regenerates the block
+    const withoutCatch = JSON.parse(JSON.stringify(initialAST));
+    const tryOnly = withoutCatch.find(node => node.type === 'tryBlock');
+    tryOnly.hasCatch = false;
+    delete tryOnly.catchVarName;
+    delete tryOnly.catchBody;
+
+    const withoutCatchCode = await testRp.updateCodeFromAST(originalScript, withoutCatch);
+    const expectedCode = `
+# Guard the request
+try  # risky part
+  log "Step 1"
+finally
+  log "Done"
+endtry
+`;
+
+    console.log('\nREGENERATED (no catch):\n' + withoutCatchCode);
+
+    if (withoutCatchCode !== expectedCode) throw new Error('Test 2 FAILED: Regenerated try block mismatch.');
+    console.log('\n✓ Test 2 PASSED: Try block regenerated.');
+}
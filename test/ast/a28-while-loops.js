@@ -0,0 +1,58 @@
+// Test Case a28: While Loop AST tests
+// Tests AST update accuracy for while/endwhile and repeat/until loops
+
+import { RobinPath } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing While Loop AST - Structure Preservation (a28)');
+    console.log('='.repeat(60));
+
+    const testRp = new RobinPath();
+    const originalScript = `
+# Poll until ready
+while $status != "ready"  # wait
+  log "Polling"
+endwhile
+
+repeat
+  log "Attempt"
+until $done == true
+`;
+
+    // Test 1: Updating body values keeps the original formatting
+    const initialAST = await testRp.getAST(originalScript);
+    const modifiedAST = JSON.parse(JSON.stringify(initialAST));
+    const whileNode = modifiedAST.find(node => node.type === 'whileLoop');
+    const repeatNode = modifiedAST.find(node => node.type === 'repeatUntil');
+    if (!whileNode || !repeatNode) {
+        throw new Error('Test 1 FAILED: whileLoop/repeatUntil nodes not found.');
+    }
+    whileNode.body[0].args[0].value = 'Checking';
+    repeatNode.body[0].args[0].value = 'Try';
+
+    const regeneratedCode = await testRp.updateCodeFromAST(originalScript, modifiedAST);
+    const replacedCode = originalScript.replace('"Polling"', '"Checking"').replace('"Attempt"', '"Try"');
+
+    console.log('\n--- WHILE LOOP COMPARISON ---');
+    console.log('ORIGINAL:\n' + originalScript);
+    console.log('\nREGENERATED:\n' + regeneratedCode);
+
+    if (regeneratedCode !== replacedCode) throw new Error('Test 1 FAILED: While loop mismatch.');
+    console.log('\n✓ Test 1 PASSED: Loop structure preserved.');
+
+    // Test 2: Changing the conditions regenerates the headers
+    const conditionAST = JSON.parse(JSON.stringify(initialAST));
+    conditionAST.find(node => node.type === 'whileLoop').condition.right.value = 'done';
+    conditionAST.find(node => node.type === 'repeatUntil').condition.right.value = false;
+
+    const conditionCode = await testRp.updateCodeFromAST(originalScript, conditionAST);
+    const expectedCode = originalScript
+        .replace('$status != "ready"', '$status != "done"')
+        .replace('until $done == true', 'until $done == false');
+
+    console.log('\nREGENERATED (conditions):\n' + conditionCode);
+
+    if (conditionCode !== expectedCode) throw new Error('Test 2 FAILED: Loop condition mismatch.');
+    console.log('\n✓ Test 2 PASSED: Loop conditions regenerated.');
+}
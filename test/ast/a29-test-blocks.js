@@ -0,0 +1,57 @@
+// Test Case a29: Test Block AST tests
+// Tests AST update accuracy for test/endtest and describe/enddescribe blocks
+
+import { RobinPath } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing Test Block AST - Structure Preservation (a29)');
+    console.log('='.repeat(60));
+
+    const testRp = new RobinPath();
+    const originalScript = `
+# Math suite
+describe "math"  # arithmetic
+  test "adds"
+    math.add 1 2
+    test.assertEqual $ 3
+  endtest
+enddescribe
+`;
+
+    // Test 1: Updating body values keeps the original formatting
+    const initialAST = await testRp.getAST(originalScript);
+    const modifiedAST = JSON.parse(JSON.stringify(initialAST));
+    const describeNode = modifiedAST.find(node => node.type === 'describeBlock');
+    const testNode = describeNode?.body.find(node => node.type === 'testBlock');
+    if (!describeNode || !testNode) {
+        throw new Error('Test 1 FAILED: describeBlock/testBlock nodes not found.');
+    }
+    testNode.body[0].args[1].value = 5;
+
+    const regeneratedCode = await testRp.updateCodeFromAST(originalScript, modifiedAST);
+    const replacedCode = originalScript.replace('math.add 1 2', 'math.add 1 5');
+
+    console.log('\n--- TEST BLOCK COMPARISON ---');
+    console.log('ORIGINAL:\n' + originalScript);
+    console.log('\nREGENERATED:\n' + regeneratedCode);
+
+    if (regeneratedCode !== replacedCode) throw new Error('Test 1 FAILED: Test block mismatch.');
+    console.log('\n✓ Test 1 PASSED: Test block structure preserved.');
+
+    // Test 2: Renaming blocks regenerates the headers
+    const renamedAST = JSON.parse(JSON.stringify(initialAST));
+    const renamedDescribe = renamedAST.find(node => node.type === 'describeBlock');
+    renamedDescribe.name = 'arithmetic';
+    renamedDescribe.body.find(node => node.type === 'testBlock').name = 'adds "small" numbers';
+
+    const renamedCode = await testRp.updateCodeFromAST(originalScript, renamedAST);
+    const expectedCode = originalScript
+        .replace('describe "math"', 'describe "arithmetic"')
+        .replace('test "adds"', 'test "adds \\"small\\" numbers"');
+
+    console.log('\nREGENERATED (names):\n' + renamedCode);
+
+    if (renamedCode !== expectedCode) throw new Error('Test 2 FAILED: Test block name mismatch.');
+    console.log('\n✓ Test 2 PASSED: Test block names regenerated.');
+}
@@ -0,0 +1,58 @@
+// Test Case a30: Module Block AST tests
+// Tests AST update accuracy for module/endmodule blocks
+
+import { RobinPath } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing Module Block AST - Structure Preservation (a30)');
+    console.log('='.repeat(60));
+
+    const testRp = new RobinPath();
+    const originalScript = `
+# Shape helpers
+@desc "Area helpers"
+module shapes  # geometry
+  @desc "Area of a rectangle"
+  def area $width $height
+    math.multiply $width $height
+  enddef
+
+  def square $side
+    shapes.area $side $side
+  enddef
+endmodule
+`;
+
+    // Test 1: Updating def bodies keeps the original formatting
+    const initialAST = await testRp.getAST(originalScript);
+    const modifiedAST = JSON.parse(JSON.stringify(initialAST));
+    const moduleNode = modifiedAST.find(node => node.type === 'moduleBlock');
+    const squareNode = moduleNode?.body.find(node => node.type === 'define' && node.name === 'square');
+    if (!moduleNode || !squareNode) {
+        throw new Error('Test 1 FAILED: moduleBlock/define nodes not found.');
+    }
+    squareNode.body[0].name = 'shapes.rect';
+
+    const regeneratedCode = await testRp.updateCodeFromAST(originalScript, modifiedAST);
+    const replacedCode = originalScript.replace('shapes.area $side', 'shapes.rect $side');
+
+    console.log('\n--- MODULE BLOCK COMPARISON ---');
+    console.log('ORIGINAL:\n' + originalScript);
+    console.log('\nREGENERATED:\n' + regeneratedCode);
+
+    if (regeneratedCode !== replacedCode) throw new Error('Test 1 FAILED: Module block mismatch.');
+    console.log('\n✓ Test 1 PASSED: Module block structure preserved.');
+
+    // Test 2: Renaming the module regenerates its header
+    const renamedAST = JSON.parse(JSON.stringify(initialAST));
+    renamedAST.find(node => node.type === 'moduleBlock').name = 'geometry';
+
+    const renamedCode = await testRp.updateCodeFromAST(originalScript, renamedAST);
+    const expectedCode = originalScript.replace('module shapes', 'module geometry');
+
+    console.log('\nREGENERATED (name):\n' + renamedCode);
+
+    if (renamedCode !== expectedCode) throw new Error('Test 2 FAILED: Module block name mismatch.');
+    console.log('\n✓ Test 2 PASSED: Module block name regenerated.');
+}
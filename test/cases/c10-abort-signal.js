@@ -0,0 +1,92 @@
+// Test Case c10: AbortSignal Tests
+// Tests cancelling executeScript/executeLine, time.sleep, fetch and together blocks via an AbortSignal
+
+import { createServer } from 'http';
+import { RobinPath } from '../../dist/index.js';
+
+async function expectAbort(promise, reason, label) {
+    try {
+        await promise;
+    } catch (error) {
+        if (reason !== undefined ? error !== reason : error?.name !== 'AbortError') {
+            throw new Error(`${label} FAILED - Unexpected rejection: ${error}`);
+        }
+        return;
+    }
+    throw new Error(`${label} FAILED - Expected the run to be aborted`);
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing AbortSignal cancellation');
+    console.log('='.repeat(60));
+
+    // Test 1: An already aborted signal runs nothing
+    const rp1 = new RobinPath();
+    await expectAbort(rp1.executeScript('$ran = 1', { signal: AbortSignal.abort() }), undefined, 'Test 1');
+    if (await rp1.executeScript('$ran') !== null) {
+        throw new Error('Test 1 FAILED - Statements ran despite an aborted signal');
+    }
+    console.log('✓ Test 1 PASSED - Pre-aborted signal');
+
+    // Test 2: time.sleep wakes up and the run rejects with the abort reason
+    const rp2 = new RobinPath();
+    const controller2 = new AbortController();
+    const reason = new Error('host gave up');
+    const started = Date.now();
+    setTimeout(() => controller2.abort(reason), 20);
+    await expectAbort(rp2.executeScript('time.sleep 5000\n$after = 1', { signal: controller2.signal }), reason, 'Test 2');
+    if (Date.now() - started > 2000) {
+        throw new Error('Test 2 FAILED - Sleep was not interrupted');
+    }
+    console.log('✓ Test 2 PASSED - time.sleep');
+
+    // Test 3: together branches stop as well
+    const rp3 = new RobinPath();
+    const controller3 = new AbortController();
+    setTimeout(() => controller3.abort(), 20);
+    await expectAbort(rp3.executeScript(`together
+  do
+    time.sleep 100
+    $first = "ran"
+  enddo
+  do
+    for $i in range 1 1000000
+      $second = $i
+    endfor
+  enddo
+endtogether
+`, { signal: controller3.signal }), undefined, 'Test 3');
+    await new Promise(resolve => setTimeout(resolve, 150));
+    if (await rp3.executeScript('$first') !== null) {
+        throw new Error('Test 3 FAILED - Sleeping branch continued after abort');
+    }
+    console.log('✓ Test 3 PASSED - together branches');
+
+    // Test 4: fetch requests are aborted
+    const server = createServer(() => { /* never respond */ });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+        const rp4 = new RobinPath();
+        const controller4 = new AbortController();
+        setTimeout(() => controller4.abort(), 50);
+        const url = `http://127.0.0.1:${server.address().port}/slow`;
+        await expectAbort(rp4.executeScript(`fetch.get "${url}"`, { signal: controller4.signal }), undefined, 'Test 4');
+    } finally {
+        server.closeAllConnections();
+        server.close();
+    }
+    console.log('✓ Test 4 PASSED - fetch');
+
+    // Test 5: executeLine accepts a signal; later runs without one are unaffected
+    const rp5 = new RobinPath();
+    await expectAbort(rp5.executeLine('$x = 1', { signal: AbortSignal.abort() }), undefined, 'Test 5');
+    if (await rp5.executeLine('math.add 1 2') !== 3) {
+        throw new Error('Test 5 FAILED - Signal should not carry over to the next run');
+    }
+    console.log('✓ Test 5 PASSED - executeLine');
+
+    console.log('='.repeat(60));
+    console.log('✓ All AbortSignal tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,114 @@
+// Test Case c11: Typed Error Tests
+// Tests the RobinPathError hierarchy: codes, codePos, script call stacks, formatting and builtins that throw
+
+import {
+    RobinPath,
+    ErrorCode,
+    RobinPathError,
+    ParseError,
+    RuntimeError,
+    RobinPathTypeError,
+    ArgumentError,
+    UnknownCommandError,
+    UnknownModuleError,
+    ExecutionLimitError
+} from '../../dist/index.js';
+
+async function expectError(run, ErrorClass, code, label) {
+    try {
+        await run();
+    } catch (error) {
+        if (!(error instanceof ErrorClass) || error.code !== code) {
+            throw new Error(`${label} FAILED - Expected ${ErrorClass.name} (${code}), got ${error?.name} (${error?.code}): ${error?.message}`);
+        }
+        return error;
+    }
+    throw new Error(`${label} FAILED - Expected ${ErrorClass.name} to be thrown`);
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing typed errors');
+    console.log('='.repeat(60));
+
+    const rp = new RobinPath();
+
+    // Test 1: Parse errors
+    const parseError = await expectError(() => rp.executeScript('log 1\nfor x in 1\nendfor'), ParseError, ErrorCode.PARSE_ERROR, 'Test 1');
+    if (parseError.codePos?.startRow !== 1) {
+        throw new Error(`Test 1 FAILED - Expected codePos on row 1, got ${JSON.stringify(parseError.codePos)}`);
+    }
+    console.log('✓ Test 1 PASSED - ParseError');
+
+    // Test 2: Unknown commands carry the command name and position
+    const unknown = await expectError(() => rp.executeScript('log "start"\n  nosuchcommand 1'), UnknownCommandError, ErrorCode.UNKNOWN_COMMAND, 'Test 2');
+    if (unknown.commandName !== 'nosuchcommand' || unknown.codePos?.startRow !== 1 || !(unknown instanceof RuntimeError)) {
+        throw new Error(`Test 2 FAILED - Unexpected details: ${unknown.commandName} ${JSON.stringify(unknown.codePos)}`);
+    }
+    console.log('✓ Test 2 PASSED - UnknownCommandError');
+
+    // Test 3: Script call stack (innermost first) and formatWithContext
+    const script = `def inner
+  for $i in 5
+    log $i
+  endfor
+enddef
+def outer
+  inner
+enddef
+outer
+`;
+    const typeError = await expectError(() => rp.executeScript(script), RobinPathTypeError, ErrorCode.TYPE_ERROR, 'Test 3');
+    const stack = typeError.scriptStack.map(frame => `${frame.name}:${frame.codePos?.startRow}`);
+    if (stack.join(',') !== 'inner:1,outer:6,<global>:8') {
+        throw new Error(`Test 3 FAILED - Unexpected script stack: ${stack.join(',')}`);
+    }
+    const formatted = typeError.formatWithContext(script);
+    if (!formatted.includes('TypeError [TYPE_ERROR]') || !formatted.includes('  for $i in 5') || !formatted.includes('at outer (line 7)')) {
+        throw new Error(`Test 3 FAILED - Unexpected formatting:\n${formatted}`);
+    }
+    console.log('✓ Test 3 PASSED - Script call stack');
+
+    // Test 4: Builtins throw instead of returning error strings
+    await expectError(() => rp.executeScript('use nosuchmodule'), UnknownModuleError, ErrorCode.UNKNOWN_MODULE, 'Test 4');
+    await expectError(() => rp.executeScript('trigger'), ArgumentError, ErrorCode.INVALID_ARGUMENT, 'Test 4');
+    await expectError(() => rp.executeScript('explain math.nosuchfunction'), UnknownCommandError, ErrorCode.UNKNOWN_COMMAND, 'Test 4');
+    await expectError(() => rp.executeScript('const $LIMIT 1\n$LIMIT = 2'), RuntimeError, ErrorCode.CONSTANT_REASSIGNMENT, 'Test 4');
+    console.log('✓ Test 4 PASSED - Builtins throw');
+
+    // Test 5: Errors from host builtins become RuntimeErrors that keep the original as cause
+    const original = new Error('backend unavailable');
+    rp.registerBuiltin('callBackend', () => { throw original; });
+    const wrapped = await expectError(() => rp.executeScript('callBackend'), RuntimeError, ErrorCode.RUNTIME_ERROR, 'Test 5');
+    if (wrapped.cause !== original || wrapped.message !== original.message || wrapped.codePos?.startRow !== 0) {
+        throw new Error('Test 5 FAILED - Wrapped error should keep message, cause and codePos');
+    }
+    console.log('✓ Test 5 PASSED - Wrapped host errors');
+
+    // Test 6: Execution limit errors are part of the hierarchy
+    const limited = new RobinPath({ limits: { maxSteps: 1 } });
+    const limitError = await expectError(() => limited.executeScript('$a = 1\n$a = 2'), ExecutionLimitError, ErrorCode.EXECUTION_LIMIT, 'Test 6');
+    if (!(limitError instanceof RobinPathError)) {
+        throw new Error('Test 6 FAILED - ExecutionLimitError should extend RobinPathError');
+    }
+    console.log('✓ Test 6 PASSED - ExecutionLimitError');
+
+    // Test 7: try/catch in scripts never catches execution limits
+    const guarded = new RobinPath({ limits: { maxSteps: 20 } });
+    await expectError(() => guarded.executeScript(`try
+  for $i in range 1 100
+    $a = $i
+  endfor
+catch $err
+  $caught = $err.code
+endtry
+`), ExecutionLimitError, ErrorCode.EXECUTION_LIMIT, 'Test 7');
+    if (guarded.getVariable('caught') != null) {
+        throw new Error('Test 7 FAILED - catch should not see execution limit errors');
+    }
+    console.log('✓ Test 7 PASSED - Limits are not catchable');
+
+    console.log('='.repeat(60));
+    console.log('✓ All typed error tests PASSED');
+    console.log('='.repeat(60));
+}
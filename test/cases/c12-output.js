@@ -0,0 +1,96 @@
+// Test Case c12: Output Sink Tests
+// Tests routing script output through OutputSinks: levels, OutputCollector, per-run sinks, threads and trigger errors
+
+import { RobinPath, OutputCollector } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing output sinks');
+    console.log('='.repeat(60));
+
+    // Test 1: log/say write structured records to the instance's sink
+    const output = new OutputCollector();
+    const rp = new RobinPath({ output });
+    await rp.executeScript('log "hello" 42 {a: 1}\n$greeting = say "Hi, " "there"');
+    const [logRecord, sayRecord] = output.records;
+    if (output.records.length !== 2 || logRecord.message !== 'hello 42 {"a":1}' || logRecord.source !== 'log' || !logRecord.timestamped) {
+        throw new Error(`Test 1 FAILED - Unexpected log record: ${JSON.stringify(output.records)}`);
+    }
+    if (sayRecord.message !== 'Hi, there' || sayRecord.level !== 'log' || sayRecord.timestamped || rp.getVariable('greeting') !== 'Hi, there') {
+        throw new Error(`Test 1 FAILED - Unexpected say record: ${JSON.stringify(sayRecord)}`);
+    }
+    if (logRecord.args[1] !== 42 || typeof logRecord.timestamp !== 'number') {
+        throw new Error('Test 1 FAILED - Records should keep raw args and a timestamp');
+    }
+    console.log('✓ Test 1 PASSED - log and say records');
+
+    // Test 2: warn/error/debug write at their own levels
+    output.clear();
+    await rp.executeScript('math.add 3 4\nwarn "careful"\nerror "failed" 1\ndebug "details"\n$after = $');
+    const levels = output.records.map(record => `${record.level}:${record.message}`).join(',');
+    if (levels !== 'warn:careful,error:failed 1,debug:details' || output.messages('error').join() !== 'failed 1') {
+        throw new Error(`Test 2 FAILED - Unexpected levels: ${levels}`);
+    }
+    if (rp.getVariable('after') !== 7) {
+        throw new Error(`Test 2 FAILED - Logging should not change $, got ${rp.getVariable('after')}`);
+    }
+    console.log('✓ Test 2 PASSED - Log levels');
+
+    // Test 3: use/explain help output goes to the sink too
+    output.clear();
+    await rp.executeScript('use\nexplain');
+    const sources = output.records.map(record => record.source).join(',');
+    if (sources !== 'use,explain' || !output.records[1].message.includes('Explain Command')) {
+        throw new Error(`Test 3 FAILED - Unexpected records: ${sources}`);
+    }
+    console.log('✓ Test 3 PASSED - use and explain');
+
+    // Test 4: A per-run sink overrides the instance's sink for that run only
+    output.clear();
+    const runOutput = new OutputCollector();
+    await rp.executeScript('log "scoped"', { output: runOutput });
+    await rp.executeLine('log "line"');
+    if (runOutput.messages().join() !== 'scoped' || output.messages().join() !== 'line') {
+        throw new Error(`Test 4 FAILED - Run: ${runOutput.messages()}, instance: ${output.messages()}`);
+    }
+    console.log('✓ Test 4 PASSED - Per-run sink');
+
+    // Test 5: Threads inherit the parent's sink unless given their own
+    output.clear();
+    const inherited = rp.createThread('inherits');
+    await inherited.executeScript('say "from thread"');
+    const ownOutput = new OutputCollector();
+    const own = rp.createThread('own', { output: ownOutput });
+    await own.executeScript('say "own sink"');
+    if (output.messages().join() !== 'from thread' || ownOutput.messages().join() !== 'own sink') {
+        throw new Error(`Test 5 FAILED - Parent: ${output.messages()}, thread: ${ownOutput.messages()}`);
+    }
+    console.log('✓ Test 5 PASSED - Thread sinks');
+
+    // Test 6: Errors in event handlers are reported at error level to the run's sink
+    const triggerOutput = new OutputCollector();
+    await rp.executeScript(`on "broken"
+  nosuchcommand
+endon
+trigger "broken"
+log "after"
+`, { output: triggerOutput });
+    const [handlerError, after] = triggerOutput.records;
+    if (handlerError?.level !== 'error' || handlerError.source !== 'trigger' || !handlerError.message.includes('"broken"') || after?.message !== 'after') {
+        throw new Error(`Test 6 FAILED - Unexpected records: ${JSON.stringify(triggerOutput.records)}`);
+    }
+    console.log('✓ Test 6 PASSED - Event handler errors');
+
+    // Test 7: A collector can forward records to another sink
+    const forwarded = new OutputCollector();
+    const both = new OutputCollector(forwarded);
+    await new RobinPath({ output: both }).executeScript('say "twice"');
+    if (both.messages().join() !== 'twice' || forwarded.messages().join() !== 'twice') {
+        throw new Error('Test 7 FAILED - Records should be forwarded');
+    }
+    console.log('✓ Test 7 PASSED - Forwarding');
+
+    console.log('='.repeat(60));
+    console.log('✓ All output sink tests PASSED');
+    console.log('='.repeat(60));
+}
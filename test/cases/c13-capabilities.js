@@ -0,0 +1,127 @@
+// Test Case c13: Capability Tests
+// Tests native module selection and capability policies (allowed fetch hosts, fixed clock, seeded random)
+
+import { createServer } from 'http';
+import {
+    RobinPath,
+    Capabilities,
+    CapabilityError,
+    ErrorCode,
+    UnknownModuleError,
+    UnknownCommandError
+} from '../../dist/index.js';
+
+async function expectError(run, ErrorClass, label) {
+    try {
+        await run();
+    } catch (error) {
+        if (!(error instanceof ErrorClass)) {
+            throw new Error(`${label} FAILED - Expected ${ErrorClass.name}, got ${error?.name}: ${error?.message}`);
+        }
+        return error;
+    }
+    throw new Error(`${label} FAILED - Expected ${ErrorClass.name} to be thrown`);
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing capabilities');
+    console.log('='.repeat(60));
+
+    // Test 1: Only the selected native modules (plus core) are loaded
+    const minimal = new RobinPath({ modules: ['math'] });
+    if (await minimal.executeScript('math.add 2 3') !== 5) {
+        throw new Error('Test 1 FAILED - Selected module should be available');
+    }
+    await minimal.executeScript('$joined = say "a" "b"');
+    if (minimal.getVariable('joined') !== 'ab') {
+        throw new Error('Test 1 FAILED - Core should always be loaded');
+    }
+    await expectError(() => minimal.executeScript('fetch.get "https://example.com"'), UnknownCommandError, 'Test 1');
+    await expectError(() => minimal.executeScript('use time'), UnknownModuleError, 'Test 1');
+    await expectError(() => new RobinPath({ modules: ['math', 'nosuchmodule'] }), UnknownModuleError, 'Test 1');
+    if (!RobinPath.getNativeModuleNames().includes('fetch')) {
+        throw new Error('Test 1 FAILED - getNativeModuleNames should list fetch');
+    }
+    console.log('✓ Test 1 PASSED - Module selection');
+
+    // Test 2: fetch may only reach allowed hosts
+    let requests = 0;
+    const server = createServer((_req, res) => {
+        requests++;
+        res.end('ok');
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+        const url = `http://127.0.0.1:${server.address().port}/data`;
+        const allowed = new RobinPath({ capabilities: { fetch: { allowedHosts: ['127.0.0.1'] } } });
+        const response = await allowed.executeScript(`fetch.get "${url}"`);
+        if (response?.data !== 'ok') {
+            throw new Error(`Test 2 FAILED - Allowed host should be fetched, got ${JSON.stringify(response)}`);
+        }
+
+        const denied = new RobinPath({ capabilities: { fetch: { allowedHosts: ['api.example.com'] } } });
+        const error = await expectError(() => denied.executeScript(`fetch.post "${url}"`), CapabilityError, 'Test 2');
+        if (error.code !== ErrorCode.CAPABILITY_DENIED || error.capability !== 'fetch' || requests !== 1) {
+            throw new Error(`Test 2 FAILED - Denied fetch should not reach the server (${error.code}, ${requests} requests)`);
+        }
+    } finally {
+        server.closeAllConnections();
+        server.close();
+    }
+
+    const wildcard = new Capabilities({ fetch: { allowedHosts: ['*.example.com'] } });
+    wildcard.checkFetch('https://api.example.com/users');
+    await expectError(() => wildcard.checkFetch('https://example.com.evil.io/'), CapabilityError, 'Test 2');
+    console.log('✓ Test 2 PASSED - Allowed fetch hosts');
+
+    // Test 3: A fixed or custom clock replaces the system time
+    const fixedTime = Date.UTC(2024, 0, 15, 12, 0, 0);
+    const frozen = new RobinPath({ capabilities: { clock: fixedTime } });
+    await frozen.executeScript('$now = time.now\n$ts = time.timestamp');
+    if (frozen.getVariable('now') !== '2024-01-15T12:00:00.000Z' || frozen.getVariable('ts') !== fixedTime) {
+        throw new Error(`Test 3 FAILED - Unexpected time: ${frozen.getVariable('now')} ${frozen.getVariable('ts')}`);
+    }
+    let tick = 0;
+    frozen.setCapabilities({ clock: () => ++tick * 1000 });
+    await frozen.executeScript('$a = time.timestamp\n$b = time.timestamp');
+    if (frozen.getVariable('a') !== 1000 || frozen.getVariable('b') !== 2000) {
+        throw new Error('Test 3 FAILED - Custom clock should be called on every read');
+    }
+    console.log('✓ Test 3 PASSED - Clock');
+
+    // Test 4: A seed makes random.* reproducible (the sequence restarts every run)
+    const script = '$int = random.int 1 1000\n$float = random.float\n$uuid = random.uuid\n$choice = random.choice ["a", "b", "c"]';
+    const values = rp => JSON.stringify(['int', 'float', 'uuid', 'choice'].map(name => rp.getVariable(name)));
+    const seeded = new RobinPath({ capabilities: { random: { seed: 42 } } });
+    await seeded.executeScript(script);
+    const first = values(seeded);
+    await seeded.executeScript(script);
+    const second = values(seeded);
+    const other = new RobinPath({ capabilities: { random: { seed: 42 } } });
+    await other.executeScript(script);
+    if (first !== second || first !== values(other)) {
+        throw new Error(`Test 4 FAILED - Seeded runs differ: ${first} / ${second}`);
+    }
+    const differentSeed = new RobinPath({ capabilities: { random: { seed: 7 } } });
+    await differentSeed.executeScript(script);
+    if (values(differentSeed) === first) {
+        throw new Error('Test 4 FAILED - Different seeds should give different values');
+    }
+    console.log('✓ Test 4 PASSED - Seeded random');
+
+    // Test 5: Threads use the parent's policy unless given their own
+    const parent = new RobinPath({ capabilities: { clock: fixedTime } });
+    const inherited = parent.createThread('inherits');
+    await inherited.executeScript('$ts = time.timestamp');
+    const own = parent.createThread('own', { capabilities: { clock: 0 } });
+    await own.executeScript('$ts = time.timestamp');
+    if (inherited.getVariable('ts') !== fixedTime || own.getVariable('ts') !== 0) {
+        throw new Error(`Test 5 FAILED - Thread clocks: ${inherited.getVariable('ts')}, ${own.getVariable('ts')}`);
+    }
+    console.log('✓ Test 5 PASSED - Thread policies');
+
+    console.log('='.repeat(60));
+    console.log('✓ All capability tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,126 @@
+// Test Case c14: Test Block Tests
+// Tests test/describe blocks, runTests reports and the TAP/JUnit/JSON reporters
+
+import {
+    RobinPath,
+    OutputCollector,
+    ArgumentError,
+    formatTestReports,
+    testReportsPassed
+} from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing test blocks');
+    console.log('='.repeat(60));
+
+    const source = `
+$setup = 1
+describe "math"
+  test "adds"
+    math.add 1 2
+    test.assertEqual $ 3
+  endtest
+  test "fails"
+    test.assertEqual 1 2 "one is not two"
+    $afterFailure = true
+  endtest
+  describe "nested"
+    test "skipped"
+      test.skip "not ready"
+    endtest
+  enddescribe
+enddescribe
+test "after"
+  $ran = true
+endtest
+$done = true
+`;
+
+    // Test 1: runTests records passed, failed and skipped tests with their describe path
+    const rp = new RobinPath();
+    const report = await rp.runTests(source, { file: 'math.test.robin' });
+    if (report.passed !== 2 || report.failed !== 1 || report.skipped !== 1 || report.error) {
+        throw new Error(`Test 1 FAILED - Unexpected counts: ${JSON.stringify(report)}`);
+    }
+    const names = report.results.map(result => result.fullName);
+    const expected = ['math > adds', 'math > fails', 'math > nested > skipped', 'after'];
+    if (JSON.stringify(names) !== JSON.stringify(expected)) {
+        throw new Error(`Test 1 FAILED - Unexpected names: ${JSON.stringify(names)}`);
+    }
+    const skipped = report.results[2];
+    if (skipped.status !== 'skipped' || skipped.skipReason !== 'not ready' || JSON.stringify(skipped.path) !== '["math","nested"]') {
+        throw new Error(`Test 1 FAILED - Unexpected skip result: ${JSON.stringify(skipped)}`);
+    }
+    console.log('✓ Test 1 PASSED - Results and describe paths');
+
+    // Test 2: A failure ends only its own test and records where it happened
+    const failed = report.results[1];
+    if (failed.status !== 'failed' || !failed.error.message.includes('one is not two') || failed.error.codePos?.startRow !== 8) {
+        throw new Error(`Test 2 FAILED - Unexpected failure: ${JSON.stringify(failed.error)}`);
+    }
+    if (rp.getVariable('done') !== true || rp.getVariable('setup') !== 1) {
+        throw new Error('Test 2 FAILED - The script should continue after a failing test');
+    }
+    if (testReportsPassed([report])) {
+        throw new Error('Test 2 FAILED - A report with a failed test should not pass');
+    }
+    console.log('✓ Test 2 PASSED - Failures are isolated');
+
+    // Test 3: Errors outside test blocks end up in report.error
+    const broken = await new RobinPath().runTests('test "unclosed"\n  $a = 1\n', { file: 'broken.robin' });
+    if (!broken.error || broken.error.name !== 'ParseError' || testReportsPassed([broken])) {
+        throw new Error(`Test 3 FAILED - Parse errors should be reported: ${JSON.stringify(broken)}`);
+    }
+    const clean = await new RobinPath().runTests('test "ok"\n  test.assertTrue true\nendtest\n');
+    if (!testReportsPassed([clean]) || clean.file !== null) {
+        throw new Error(`Test 3 FAILED - A passing script should pass: ${JSON.stringify(clean)}`);
+    }
+    console.log('✓ Test 3 PASSED - Script errors');
+
+    // Test 4: Reporters
+    const tap = formatTestReports([report], 'tap');
+    if (!tap.startsWith('TAP version 13') || !tap.includes('not ok 2 - math.test.robin > math > fails') ||
+        !tap.includes('# SKIP not ready') || !tap.trimEnd().endsWith('1..4')) {
+        throw new Error(`Test 4 FAILED - Unexpected TAP output:\n${tap}`);
+    }
+    const junit = formatTestReports([report, broken], 'junit');
+    if (!junit.includes('<testsuites tests="5" failures="1" errors="1" skipped="1"') ||
+        !junit.includes('<failure message="one is not two') || !junit.includes('<skipped message="not ready"/>')) {
+        throw new Error(`Test 4 FAILED - Unexpected JUnit output:\n${junit}`);
+    }
+    const json = JSON.parse(formatTestReports([report], 'json'));
+    if (json[0].file !== 'math.test.robin' || json[0].results.length !== 4) {
+        throw new Error('Test 4 FAILED - Unexpected JSON output');
+    }
+    const spec = formatTestReports([report], 'spec');
+    if (!spec.includes('✓ math > adds') || !spec.includes('✗ math > fails') || !spec.includes('2 passed, 1 failed, 1 skipped')) {
+        throw new Error(`Test 4 FAILED - Unexpected spec output:\n${spec}`);
+    }
+    console.log('✓ Test 4 PASSED - Reporters');
+
+    // Test 5: executeScript runs test blocks and writes one line per test to the output
+    const output = new OutputCollector();
+    const reporter = new RobinPath({ output });
+    await reporter.executeScript('test "passes"\n  test.assertTrue true\nendtest\ntest "fails"\n  test.assertTrue false\nendtest\n');
+    const lines = output.messages();
+    if (lines.length !== 2 || !lines[0].startsWith('✓ passes') || !lines[1].startsWith('✗ fails')) {
+        throw new Error(`Test 5 FAILED - Unexpected output: ${JSON.stringify(lines)}`);
+    }
+    console.log('✓ Test 5 PASSED - Test blocks in executeScript');
+
+    // Test 6: test.skip is only allowed inside a test block
+    try {
+        await new RobinPath().executeScript('test.skip "nope"');
+        throw new Error('Test 6 FAILED - test.skip outside a test should throw');
+    } catch (error) {
+        if (!(error instanceof ArgumentError)) {
+            throw new Error(`Test 6 FAILED - Expected ArgumentError, got ${error?.name}: ${error?.message}`);
+        }
+    }
+    console.log('✓ Test 6 PASSED - test.skip outside a test');
+
+    console.log('='.repeat(60));
+    console.log('✓ All test block tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,132 @@
+// Test Case c15: Mock Tests
+// Tests test.mock/test.spy, call assertions and restoring builtins at the end of test blocks
+
+import { RobinPath, UnknownCommandError, ArgumentError } from '../../dist/index.js';
+
+async function expectError(run, ErrorClass, label) {
+    try {
+        await run();
+    } catch (error) {
+        if (!(error instanceof ErrorClass)) {
+            throw new Error(`${label} FAILED - Expected ${ErrorClass.name}, got ${error?.name}: ${error?.message}`);
+        }
+        return error;
+    }
+    throw new Error(`${label} FAILED - Expected ${ErrorClass.name} to be thrown`);
+}
+
+function expectPassed(report, label) {
+    const failures = report.results.filter(result => result.status !== 'passed');
+    if (failures.length > 0 || report.error) {
+        throw new Error(`${label} FAILED - ${JSON.stringify(failures.map(result => result.error ?? result))} ${report.error?.message ?? ''}`);
+    }
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing mocks and spies');
+    console.log('='.repeat(60));
+
+    // Test 1: A with block replaces the builtin and receives the call's arguments
+    const rp = new RobinPath();
+    const mocked = await rp.runTests(`
+test "mocked fetch"
+  test.mock "fetch.get" with $url
+    return {status: 200, url: $url}
+  endwith
+  fetch.get "https://api.example.com/users"
+  test.assertEqual $.status 200
+  test.assertEqual $.url "https://api.example.com/users"
+  test.assertCalled "fetch.get" 1
+  test.assertCalledWith "fetch.get" "https://api.example.com/users"
+  test.spy "fetch.post"
+  test.assertNotCalled "fetch.post"
+endtest
+`);
+    expectPassed(mocked, 'Test 1');
+    const withFixedValue = await rp.runTests(`
+test "fixed value"
+  test.mock "time.now" "2024-01-15T12:00:00.000Z"
+  time.now
+  test.assertEqual $ "2024-01-15T12:00:00.000Z"
+  time.now
+  test.callCount "time.now"
+  test.assertEqual $ 2
+endtest
+`);
+    expectPassed(withFixedValue, 'Test 1');
+    console.log('✓ Test 1 PASSED - Mocks');
+
+    // Test 2: Spies call through and record arguments (also for the unprefixed alias of global modules)
+    const spied = await rp.runTests(`
+test "spy"
+  test.spy "math.add"
+  math.add 1 2
+  test.assertEqual $ 3
+  math.add 4 5
+  test.assertCalled "math.add" 2
+  test.assertCalledWith "math.add" 4 5
+  test.calls "math.add"
+  test.assertEqual $ [[1, 2], [4, 5]]
+endtest
+test "alias"
+  test.spy "test.isEqual"
+  isEqual 1 1
+  test.assertCalled "test.isEqual" 1
+endtest
+`);
+    expectPassed(spied, 'Test 2');
+    console.log('✓ Test 2 PASSED - Spies');
+
+    // Test 3: Mocks are restored when their test (or describe) block ends, also when it fails
+    const restored = await rp.runTests(`
+describe "suite"
+  test.mock "random.uuid" "fixed-uuid"
+  test "failing"
+    test.mock "math.add" 0
+    test.fail "boom"
+  endtest
+  test "uses describe mock"
+    random.uuid
+    test.assertEqual $ "fixed-uuid"
+    math.add 1 2
+    test.assertEqual $ 3
+  endtest
+enddescribe
+test "after describe"
+  random.uuid
+  test.assertNotEqual $ "fixed-uuid"
+endtest
+`);
+    if (restored.failed !== 1 || restored.passed !== 2) {
+        throw new Error(`Test 3 FAILED - Unexpected results: ${JSON.stringify(restored.results.map(result => [result.fullName, result.status, result.error?.message]))}`);
+    }
+    if (await rp.executeScript('math.add 2 2') !== 4 || await rp.executeScript('time.now') === '2024-01-15T12:00:00.000Z') {
+        throw new Error('Test 3 FAILED - Builtins should be restored after the run');
+    }
+    console.log('✓ Test 3 PASSED - Automatic restore');
+
+    // Test 4: Mocks outside test blocks stay until test.restore
+    const host = new RobinPath();
+    await host.executeScript('test.mock "math.multiply" 42');
+    if (await host.executeScript('math.multiply 2 3') !== 42) {
+        throw new Error('Test 4 FAILED - Mock outside a test should persist');
+    }
+    if (await host.executeScript('test.restore "math.multiply"') !== 1 || await host.executeScript('math.multiply 2 3') !== 6) {
+        throw new Error('Test 4 FAILED - test.restore should remove the mock');
+    }
+    console.log('✓ Test 4 PASSED - test.restore');
+
+    // Test 5: Errors
+    await expectError(() => host.executeScript('test.mock "nosuch.command" 1'), UnknownCommandError, 'Test 5');
+    await expectError(() => host.executeScript('test.callCount "math.add"'), ArgumentError, 'Test 5');
+    const failing = await host.runTests('test "count"\n  test.spy "math.add"\n  test.assertCalled "math.add"\nendtest\n');
+    if (!failing.results[0].error?.message.includes('Expected math.add to be called, but it was never called')) {
+        throw new Error(`Test 5 FAILED - Unexpected message: ${JSON.stringify(failing.results[0])}`);
+    }
+    console.log('✓ Test 5 PASSED - Errors');
+
+    console.log('='.repeat(60));
+    console.log('✓ All mock tests PASSED');
+    console.log('='.repeat(60));
+}
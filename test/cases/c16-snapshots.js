@@ -0,0 +1,91 @@
+// Test Case c16: Snapshot Tests
+// Tests test.assertSnapshot, SnapshotStore (add/match/update/prune) and snapshot diffs
+
+import { RobinPath, SnapshotStore, ArgumentError, formatSnapshotDiff, formatTestReports } from '../../dist/index.js';
+
+const script = `
+test "user"
+  $user = {name: "Ann", roles: ["admin", "dev"]}
+  test.assertSnapshot $user "user profile"
+  test.assertSnapshot "hello" "greeting"
+endtest
+`;
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing snapshots');
+    console.log('='.repeat(60));
+
+    // Test 1: The first run records the snapshots, the next run matches them
+    const rp = new RobinPath();
+    const snapshots = new SnapshotStore();
+    const first = await rp.runTests(script, { snapshots });
+    if (first.passed !== 1 || first.snapshots?.added !== 2 || !snapshots.isChanged()) {
+        throw new Error(`Test 1 FAILED - Snapshots should be added: ${JSON.stringify(first)}`);
+    }
+    const saved = snapshots.serialize();
+    const reloaded = SnapshotStore.parse(saved);
+    const second = await rp.runTests(script, { snapshots: reloaded });
+    if (second.passed !== 1 || second.snapshots?.matched !== 2 || reloaded.isChanged()) {
+        throw new Error(`Test 1 FAILED - Snapshots should match: ${JSON.stringify(second)}`);
+    }
+    if (Object.keys(JSON.parse(saved)).join(',') !== 'greeting,user profile') {
+        throw new Error(`Test 1 FAILED - Snapshot file should be sorted by name: ${saved}`);
+    }
+    console.log('✓ Test 1 PASSED - Record and match');
+
+    // Test 2: A changed value fails its test with a diff
+    const changed = script.replace('"dev"', '"ops"');
+    const mismatch = await rp.runTests(changed, { snapshots: SnapshotStore.parse(saved) });
+    const message = mismatch.results[0].error?.message ?? '';
+    if (mismatch.failed !== 1 || !message.includes('Snapshot "user profile" does not match') ||
+        !message.includes('-     "dev"\n+     "ops"')) {
+        throw new Error(`Test 2 FAILED - Unexpected failure: ${message}`);
+    }
+    const spec = formatTestReports([mismatch], 'spec');
+    if (!spec.includes('Snapshots: 0 matched, 0 added, 0 updated, 1 failed, 1 obsolete')) {
+        throw new Error(`Test 2 FAILED - Spec output should summarize snapshots:\n${spec}`);
+    }
+    console.log('✓ Test 2 PASSED - Mismatch diff');
+
+    // Test 3: Update mode overwrites mismatching snapshots and prunes unused ones
+    const updating = SnapshotStore.parse(saved, { update: true });
+    const updated = await rp.runTests(changed.replace('  test.assertSnapshot "hello" "greeting"\n', ''), { snapshots: updating });
+    if (updated.passed !== 1 || updated.snapshots?.updated !== 1) {
+        throw new Error(`Test 3 FAILED - Snapshot should be updated: ${JSON.stringify(updated)}`);
+    }
+    if (JSON.stringify(updating.pruneObsolete()) !== '["greeting"]' ||
+        JSON.stringify(JSON.parse(updating.serialize())) !== '{"user profile":{"name":"Ann","roles":["admin","ops"]}}') {
+        throw new Error(`Test 3 FAILED - Unexpected snapshot file: ${updating.serialize()}`);
+    }
+    console.log('✓ Test 3 PASSED - Update mode');
+
+    // Test 4: Hosts can snapshot AST output with the same store
+    const astStore = new SnapshotStore();
+    const ast = await rp.getAST('$a = 1\nlog $a');
+    astStore.check('ast', ast);
+    if (astStore.check('ast', await rp.getAST('$a = 1\nlog $a')).status !== 'matched' ||
+        astStore.check('ast', await rp.getAST('$a = 2\nlog $a')).status !== 'failed') {
+        throw new Error('Test 4 FAILED - AST snapshots should match only identical output');
+    }
+    const diff = formatSnapshotDiff({ a: 1, b: 2 }, { a: 1, b: 3 });
+    if (diff !== '  {\n    "a": 1,\n-   "b": 2\n+   "b": 3\n  }') {
+        throw new Error(`Test 4 FAILED - Unexpected diff:\n${diff}`);
+    }
+    console.log('✓ Test 4 PASSED - AST snapshots and diffs');
+
+    // Test 5: assertSnapshot needs a snapshot store
+    try {
+        await new RobinPath().executeScript('test.assertSnapshot 1 "one"');
+        throw new Error('Test 5 FAILED - assertSnapshot without a store should throw');
+    } catch (error) {
+        if (!(error instanceof ArgumentError)) {
+            throw new Error(`Test 5 FAILED - Expected ArgumentError, got ${error?.name}: ${error?.message}`);
+        }
+    }
+    console.log('✓ Test 5 PASSED - Missing snapshot store');
+
+    console.log('='.repeat(60));
+    console.log('✓ All snapshot tests PASSED');
+    console.log('='.repeat(60));
+}
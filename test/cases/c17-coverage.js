@@ -0,0 +1,113 @@
+// Test Case c17: Coverage Tests
+// Tests statement, branch and function coverage and the lcov/text summary formatters
+
+import { RobinPath, CoverageCollector, summarizeCoverage, formatLcov, formatCoverageSummary } from '../../dist/index.js';
+
+const script = `
+def classify $n
+  if $n > 10
+    return "big"
+  elseif $n > 5
+    return "medium"
+  endif
+  return "small"
+enddef
+
+def unused
+  log "never"
+enddef
+
+on "ping"
+  $pinged = true
+endon
+
+classify 20
+classify 1
+for $i in []
+  log $i
+endfor
+$count = 0
+while $count < 2
+  $count = math.add $count 1
+endwhile
+`;
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing coverage');
+    console.log('='.repeat(60));
+
+    // Test 1: Statements and functions that ran are counted, the others stay at zero
+    const coverage = new CoverageCollector();
+    const rp = new RobinPath();
+    await rp.executeScript(script, { coverage, file: 'flow.robin' });
+    const [file] = coverage.getFiles();
+    if (file?.file !== 'flow.robin') {
+        throw new Error(`Test 1 FAILED - Unexpected files: ${JSON.stringify(coverage.getFiles().map(f => f.file))}`);
+    }
+    const hitsOnLine = line => file.statements.filter(s => s.codePos.startRow + 1 === line).map(s => s.hits);
+    if (JSON.stringify(hitsOnLine(3)) !== '[2]' || JSON.stringify(hitsOnLine(6)) !== '[0]' ||
+        JSON.stringify(hitsOnLine(12)) !== '[0]' || JSON.stringify(hitsOnLine(26)) !== '[2]') {
+        throw new Error(`Test 1 FAILED - Unexpected statement hits: ${JSON.stringify(file.statements)}`);
+    }
+    const functions = file.functions.map(func => `${func.name}:${func.hits}`).join(',');
+    if (functions !== 'classify:2,unused:0') {
+        throw new Error(`Test 1 FAILED - Unexpected function hits: ${functions}`);
+    }
+    console.log('✓ Test 1 PASSED - Statements and functions');
+
+    // Test 2: Every if arm (including the omitted else), loop body and on handler is a branch
+    const arms = file.branches.map(branch => `${branch.kind}@${branch.codePos.startRow + 1}:${branch.arms.map(arm => `${arm.label}=${arm.hits}`).join('|')}`);
+    const expected = [
+        'if@3:then=1|elseif 1=0|else=1',
+        'on@15:on "ping"=0',
+        'loop@21:body=0|skipped=1',
+        'loop@25:body=1|skipped=0'
+    ];
+    if (JSON.stringify(arms) !== JSON.stringify(expected)) {
+        throw new Error(`Test 2 FAILED - Unexpected branches: ${JSON.stringify(arms)}`);
+    }
+    await rp.executeScript('trigger "ping"', { coverage, file: 'trigger.robin' });
+    if (coverage.getFiles()[0].branches[1].arms[0].hits !== 1) {
+        throw new Error('Test 2 FAILED - Triggered on handler should be counted');
+    }
+    console.log('✓ Test 2 PASSED - Branches');
+
+    // Test 3: Running the same file again adds to the same records
+    await new RobinPath().executeScript(script, { coverage, file: 'flow.robin' });
+    const again = coverage.getFiles().find(f => f.file === 'flow.robin');
+    if (again.statements.length !== file.statements.length || again.functions[0].hits !== 4) {
+        throw new Error(`Test 3 FAILED - Records should be merged: ${JSON.stringify(again.functions)}`);
+    }
+    console.log('✓ Test 3 PASSED - Repeated runs');
+
+    // Test 4: lcov and the text summary
+    const lcov = formatLcov([again]);
+    for (const line of ['SF:flow.robin', 'FN:2,classify', 'FNDA:0,unused', 'FNF:2', 'FNH:1', 'BRDA:3,0,1,0', 'BRDA:21,2,0,0', 'DA:12,0', 'end_of_record']) {
+        if (!lcov.split('\n').includes(line)) {
+            throw new Error(`Test 4 FAILED - lcov is missing "${line}":\n${lcov}`);
+        }
+    }
+    const summary = summarizeCoverage([again]);
+    if (summary.functions.covered !== 1 || summary.functions.total !== 2 || summary.branches.total !== 8) {
+        throw new Error(`Test 4 FAILED - Unexpected summary: ${JSON.stringify(summary)}`);
+    }
+    const table = formatCoverageSummary([again]);
+    if (!/flow\.robin\s+\d+\.\d\d%/.test(table) || !table.includes('6, 12, 22') || !table.includes('All files')) {
+        throw new Error(`Test 4 FAILED - Unexpected summary table:\n${table}`);
+    }
+    console.log('✓ Test 4 PASSED - lcov and summary');
+
+    // Test 5: runTests records coverage of test blocks
+    const testCoverage = new CoverageCollector();
+    await new RobinPath().runTests('test "t"\n  if true\n    log "yes"\n  else\n    log "no"\n  endif\nendtest\n', { coverage: testCoverage, file: 'a.test.robin' });
+    const testFile = testCoverage.getFiles()[0];
+    if (testFile.file !== 'a.test.robin' || testFile.statements.filter(s => s.hits === 0).length !== 1) {
+        throw new Error(`Test 5 FAILED - Unexpected coverage: ${JSON.stringify(testFile)}`);
+    }
+    console.log('✓ Test 5 PASSED - runTests coverage');
+
+    console.log('='.repeat(60));
+    console.log('✓ All coverage tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,113 @@
+// Test Case c18: Profiler Tests
+// Tests per-function and per-line timing and the .cpuprofile/flame graph/summary output
+
+import { RobinPath, Profiler, toCpuProfile, toFlameGraph, formatProfileSummary } from '../../dist/index.js';
+
+const script = `
+def slow $n
+  work 10
+  if $n > 0
+    math.subtract $n 1
+    slow $
+  endif
+enddef
+
+on "ping"
+  work 5
+endon
+
+slow 1
+work 3
+trigger "ping"
+`;
+
+// Clock that only moves when the "work" builtin runs, so every time is exact
+function createProfiledRobinPath() {
+    let now = 0;
+    const profiler = new Profiler({ now: () => now });
+    const rp = new RobinPath();
+    rp.registerBuiltin('work', (args) => {
+        now += Number(args[0]);
+        return null;
+    });
+    return { rp, profiler };
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing profiler');
+    console.log('='.repeat(60));
+
+    // Test 1: Calls, self and total time per def function, on handler and builtin
+    const { rp, profiler } = createProfiledRobinPath();
+    await rp.executeScript(script, { profiler, file: 'profile.robin' });
+    const functions = profiler.getFunctions().map(func => `${func.kind}:${func.name}:${func.calls}:${func.selfTime}/${func.totalTime}`);
+    const expected = [
+        'builtin:work:4:28/28',
+        'builtin:math.subtract:1:0/0',
+        'event:ping:1:0/5',
+        'function:slow:2:0/20',
+        'builtin:trigger:1:0/5'
+    ];
+    if (JSON.stringify(functions) !== JSON.stringify(expected)) {
+        throw new Error(`Test 1 FAILED - Unexpected functions: ${JSON.stringify(functions)}`);
+    }
+    const slow = profiler.getFunctions().find(func => func.name === 'slow');
+    if (slow.file !== 'profile.robin' || slow.line !== 2) {
+        throw new Error(`Test 1 FAILED - Unexpected def position: ${JSON.stringify(slow)}`);
+    }
+    console.log('✓ Test 1 PASSED - Functions');
+
+    // Test 2: Lines (recursive calls count a line's total time once)
+    const lines = profiler.getLines().map(line => `${line.line}:${line.count}:${line.selfTime}/${line.totalTime}`);
+    const expectedLines = ['3:2:20/20', '4:2:0/10', '5:1:0/0', '6:1:0/10', '11:1:5/5', '14:1:0/20', '15:1:3/3', '16:1:0/5'];
+    if (JSON.stringify(lines) !== JSON.stringify(expectedLines) || profiler.getDuration() !== 28) {
+        throw new Error(`Test 2 FAILED - Unexpected lines: ${JSON.stringify(lines)} (${profiler.getDuration()}ms)`);
+    }
+    console.log('✓ Test 2 PASSED - Lines');
+
+    // Test 3: The .cpuprofile samples add up to the time of each call tree node
+    const cpuProfile = toCpuProfile(profiler);
+    const byId = new Map(cpuProfile.nodes.map(node => [node.id, node]));
+    const sampled = new Map();
+    let time = cpuProfile.startTime;
+    cpuProfile.samples.forEach((id, index) => {
+        time += cpuProfile.timeDeltas[index];
+        const next = index + 1 < cpuProfile.samples.length ? time + cpuProfile.timeDeltas[index + 1] : cpuProfile.endTime;
+        const name = byId.get(id).callFrame.functionName;
+        sampled.set(name, (sampled.get(name) ?? 0) + next - time);
+    });
+    if (sampled.get('work') !== 28000 || cpuProfile.endTime - cpuProfile.startTime !== 28000 ||
+        byId.get(cpuProfile.nodes[0].children[0]).callFrame.url !== 'profile.robin') {
+        throw new Error(`Test 3 FAILED - Unexpected cpuprofile: ${JSON.stringify([...sampled])}`);
+    }
+    const flameGraph = toFlameGraph(profiler);
+    const children = flameGraph.children.map(child => `${child.name}=${child.value}`).join(',');
+    if (flameGraph.value !== 28 || children !== 'slow (profile.robin:2)=20,work=3,trigger=5' ||
+        flameGraph.children[0].children[2].children[0].name !== 'work') {
+        throw new Error(`Test 3 FAILED - Unexpected flame graph: ${JSON.stringify(flameGraph)}`);
+    }
+    console.log('✓ Test 3 PASSED - cpuprofile and flame graph');
+
+    // Test 4: Lines of a def keep the file it was defined in
+    const shared = createProfiledRobinPath();
+    await shared.rp.executeScript('def helper\n  work 2\nenddef\n', { profiler: shared.profiler, file: 'lib.robin' });
+    await shared.rp.executeScript('helper\nwork 1\n', { profiler: shared.profiler, file: 'main.robin' });
+    const files = shared.profiler.getLines().map(line => `${line.file}:${line.line}`).join(',');
+    if (files !== 'lib.robin:2,main.robin:1,main.robin:2') {
+        throw new Error(`Test 4 FAILED - Unexpected line files: ${files}`);
+    }
+    console.log('✓ Test 4 PASSED - Files');
+
+    // Test 5: Text summary
+    const summary = formatProfileSummary(profiler, 2);
+    if (!summary.startsWith('Profiled 28.00ms') || !/work\s+4\s+28\.00ms\s+28\.00ms/.test(summary) ||
+        !/profile\.robin:3\s+2\s+20\.00ms/.test(summary) || summary.includes('trigger')) {
+        throw new Error(`Test 5 FAILED - Unexpected summary:\n${summary}`);
+    }
+    console.log('✓ Test 5 PASSED - Summary');
+
+    console.log('='.repeat(60));
+    console.log('✓ All profiler tests PASSED');
+    console.log('='.repeat(60));
+}
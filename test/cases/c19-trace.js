@@ -0,0 +1,119 @@
+// Test Case c19: Trace Tests
+// Tests trace events (statements, calls, variables, events, together branches, errors) and OpenTelemetry span export
+
+import { RobinPath, TraceCollector, toOtelSpans } from '../../dist/index.js';
+
+const silent = { write() {} };
+
+const script = `
+def double $x
+  math.multiply $x 2
+enddef
+
+on "saved"
+  log $1
+endon
+
+$user = {name: "Ann"}
+$user.age = 30
+double 21
+trigger "saved" "done"
+together
+  do
+    $a = 1
+  enddo
+  do
+    $b = 2
+  enddo
+endtogether
+`;
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing trace events');
+    console.log('='.repeat(60));
+
+    // Test 1: Statements start and end in order, with their position and $ afterwards
+    const trace = new TraceCollector();
+    const rp = new RobinPath({ output: silent });
+    await rp.executeScript(script, { trace });
+    const topLevel = trace.ofType('statementEnd').filter(event => event.codePos.startRow >= 9).map(event => `${event.codePos.startRow + 1}:${event.statement}`);
+    if (JSON.stringify(topLevel) !== JSON.stringify(['10:assignment', '11:assignment', '12:command', '13:command', '16:assignment', '19:assignment', '14:together'])) {
+        throw new Error(`Test 1 FAILED - Unexpected statements: ${JSON.stringify(topLevel)}`);
+    }
+    const doubled = trace.ofType('statementEnd').find(event => event.codePos.startRow === 11);
+    if (doubled.lastValue !== 42 || doubled.failed || !(doubled.duration >= 0)) {
+        throw new Error(`Test 1 FAILED - Unexpected statementEnd: ${JSON.stringify(doubled)}`);
+    }
+    if (new Set(trace.events.map(event => event.traceId)).size !== 1) {
+        throw new Error('Test 1 FAILED - All events of a run should share a trace id');
+    }
+    console.log('✓ Test 1 PASSED - Statements');
+
+    // Test 2: Calls carry their evaluated args and result and nest under the statement that made them
+    const calls = trace.ofType('commandCall').map(event => `${event.kind}:${event.name}(${JSON.stringify(event.args)})=${JSON.stringify(event.result)}`);
+    if (JSON.stringify(calls) !== JSON.stringify(['builtin:math.multiply([21,2])=42', 'function:double([21])=42', 'builtin:log(["done"])=null', 'builtin:trigger(["saved","done"])=null'])) {
+        throw new Error(`Test 2 FAILED - Unexpected calls: ${JSON.stringify(calls)}`);
+    }
+    const spans = new Map(trace.events.filter(event => event.type === 'statementStart' || event.type === 'commandCall').map(event => [event.spanId, event]));
+    const multiply = trace.ofType('commandCall')[0];
+    const bodyStatement = spans.get(multiply.parentSpanId);
+    const doubleCall = spans.get(bodyStatement.parentSpanId);
+    if (bodyStatement.codePos.startRow !== 2 || doubleCall.name !== 'double' || spans.get(doubleCall.parentSpanId).codePos.startRow !== 11) {
+        throw new Error('Test 2 FAILED - math.multiply should nest under the def body statement, the double call and line 12');
+    }
+    console.log('✓ Test 2 PASSED - Calls');
+
+    // Test 3: Variable sets (with attribute paths, values as they were), triggered events and together branches
+    const variables = trace.ofType('variableSet').map(event => `${event.name}${event.path ?? ''}=${JSON.stringify(event.value)}`);
+    if (JSON.stringify(variables) !== JSON.stringify(['user={"name":"Ann"}', 'user.age=30', 'a=1', 'b=2'])) {
+        throw new Error(`Test 3 FAILED - Unexpected variables: ${JSON.stringify(variables)}`);
+    }
+    const [triggered] = trace.ofType('eventTriggered');
+    if (triggered?.event !== 'saved' || triggered.handlers !== 1 || JSON.stringify(triggered.args) !== '["done"]') {
+        throw new Error(`Test 3 FAILED - Unexpected eventTriggered: ${JSON.stringify(triggered)}`);
+    }
+    const branches = trace.ofType('togetherBranchStart');
+    const together = trace.ofType('statementStart').find(event => event.statement === 'together');
+    if (branches.length !== 2 || branches.some(branch => branch.parentSpanId !== together.spanId) || trace.ofType('togetherBranchEnd').length !== 2) {
+        throw new Error(`Test 3 FAILED - Unexpected together branches: ${JSON.stringify(branches)}`);
+    }
+    console.log('✓ Test 3 PASSED - Variables, events and together branches');
+
+    // Test 4: Errors are reported once, in the statement they happen in
+    const failing = new TraceCollector();
+    try {
+        await new RobinPath({ trace: failing, output: silent }).executeScript('def boom\n  math.divide 1 0\nenddef\nboom\n');
+        throw new Error('Test 4 FAILED - Script should fail');
+    } catch (error) {
+        if (error.message.startsWith('Test 4')) throw error;
+    }
+    const errors = failing.ofType('error');
+    const failedStatement = failing.ofType('statementEnd').find(event => event.spanId === errors[0]?.spanId);
+    if (errors.length !== 1 || errors[0].message !== 'Division by zero' || failedStatement?.codePos.startRow !== 1 || !failedStatement.failed) {
+        throw new Error(`Test 4 FAILED - Unexpected errors: ${JSON.stringify(errors)}`);
+    }
+    if (!failing.ofType('commandCall').every(event => event.failed)) {
+        throw new Error('Test 4 FAILED - Calls the error escaped from should be marked failed');
+    }
+    console.log('✓ Test 4 PASSED - Errors');
+
+    // Test 5: OpenTelemetry export
+    const exported = toOtelSpans(failing.events, { serviceName: 'workflows' });
+    const resource = exported.resourceSpans[0];
+    const otelSpans = resource.scopeSpans[0].spans;
+    const boom = otelSpans.find(span => span.name === 'boom');
+    const divide = otelSpans.find(span => span.name === 'math.divide');
+    const statement = otelSpans.find(span => span.spanId === divide.parentSpanId);
+    if (resource.resource.attributes[0].value.stringValue !== 'workflows' || otelSpans.length !== 4 ||
+        statement.parentSpanId !== boom.spanId || statement.status.code !== 2 || statement.events[0].name !== 'exception' ||
+        !/^[0-9a-f]{32}$/.test(boom.traceId) || BigInt(boom.endTimeUnixNano) < BigInt(boom.startTimeUnixNano) ||
+        !divide.attributes.some(attr => attr.key === 'robinpath.command.args' && attr.value.stringValue === '[1,0]')) {
+        throw new Error(`Test 5 FAILED - Unexpected spans: ${JSON.stringify(otelSpans)}`);
+    }
+    console.log('✓ Test 5 PASSED - OpenTelemetry export');
+
+    console.log('='.repeat(60));
+    console.log('✓ All trace tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,164 @@
+// Test Case c20: Import Tests
+// Tests import/import ... as of other .robin files, module loaders, caching and cycle detection
+
+import { RobinPath, MemoryModuleLoader, ImportError, resolveModulePath } from '../../dist/index.js';
+
+const silent = { write() {} };
+
+const helpers = `
+const $GREETING "Hello"
+$calls = 0
+
+def greet $name
+  math.add $calls 1
+  $calls = $
+  format $name
+enddef
+
+def format $name
+  string.concat $GREETING ", " $name
+enddef
+
+def callCount
+  return $calls
+enddef
+
+on "saved"
+  notify $1
+endon
+`;
+
+// Interpreter with a "notify" builtin recording its arguments and a "loaded" builtin counting module runs
+function createRobinPath(files) {
+    const notified = [];
+    const loads = [];
+    const rp = new RobinPath({ output: silent, moduleLoader: new MemoryModuleLoader(files) });
+    rp.registerBuiltin('notify', (args) => {
+        notified.push(args[0]);
+        return null;
+    });
+    rp.registerBuiltin('loaded', (args) => {
+        loads.push(args[0]);
+        return null;
+    });
+    return { rp, notified, loads };
+}
+
+async function expectImportError(promise, pattern, test) {
+    try {
+        await promise;
+    } catch (error) {
+        if (!(error instanceof ImportError) || error.code !== 'IMPORT_ERROR' || !pattern.test(error.message)) {
+            throw new Error(`${test} FAILED - Unexpected error: ${error.name}: ${error.message}`);
+        }
+        return error;
+    }
+    throw new Error(`${test} FAILED - Import should fail`);
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing imports');
+    console.log('='.repeat(60));
+
+    // Test 1: Defs are called as ns.fn (default namespace: the file name) and see the module's other defs and constants
+    const { rp, notified } = createRobinPath({ 'lib/helpers.robin': helpers });
+    const greeting = await rp.executeScript(`
+import "./lib/helpers.robin"
+import "lib/helpers" as h
+helpers.greet "Ann"
+h.greet "Bob"
+`, { file: 'main.robin' });
+    if (greeting !== 'Hello, Bob' || await rp.executeScript('helpers.callCount') !== 2) {
+        throw new Error(`Test 1 FAILED - Unexpected results: ${greeting}`);
+    }
+    if (rp.getVariable('helpers')?.GREETING !== 'Hello' || rp.getVariable('h')?.GREETING !== 'Hello' || rp.getVariable('calls') !== null) {
+        throw new Error('Test 1 FAILED - Constants should be readable as $ns.NAME and other module variables stay private');
+    }
+    console.log('✓ Test 1 PASSED - Namespaced defs and constants');
+
+    // Test 2: On handlers of a module hear triggers of the importing script (once, however often it is imported)
+    await rp.executeScript('trigger "saved" "report.pdf"');
+    await rp.trigger('saved', 'notes.txt');
+    if (JSON.stringify(notified) !== '["report.pdf","notes.txt"]') {
+        throw new Error(`Test 2 FAILED - Unexpected notifications: ${JSON.stringify(notified)}`);
+    }
+    console.log('✓ Test 2 PASSED - Event handlers');
+
+    // Test 3: Modules run once per interpreter; imports resolve relative to the importing module
+    const cached = createRobinPath({
+        'lib/shared.robin': 'loaded "shared"\ndef id\n  return "shared"\nenddef\n',
+        'lib/a.robin': 'import "./shared.robin"\ndef name\n  shared.id\nenddef\n',
+        'lib/b.robin': 'import "../lib/shared.robin"\n'
+    });
+    const shared = await cached.rp.executeScript('import "lib/a.robin"\nimport "lib/b.robin"\na.name', { file: 'main.robin' });
+    try {
+        await cached.rp.executeScript('shared.id');
+        throw new Error('Test 3 FAILED - Imports of a module should not be visible to its importer');
+    } catch (error) {
+        if (error.message.startsWith('Test 3')) throw error;
+    }
+    await cached.rp.executeScript('import "lib/shared.robin"');
+    if (shared !== 'shared' || JSON.stringify(cached.loads) !== '["shared"]') {
+        throw new Error(`Test 3 FAILED - Module should run once: ${shared} ${JSON.stringify(cached.loads)}`);
+    }
+    cached.rp.clearModuleCache();
+    await cached.rp.executeScript('import "lib/shared.robin"');
+    if (cached.loads.length !== 2 || resolveModulePath('../util', 'lib/a.robin') !== 'util.robin') {
+        throw new Error(`Test 3 FAILED - clearModuleCache should run modules again: ${JSON.stringify(cached.loads)}`);
+    }
+    console.log('✓ Test 3 PASSED - Caching and relative paths');
+
+    // Test 4: Custom (async) loaders with their own resolution, e.g. modules kept in a database
+    const table = new Map([['db:pricing', 'def total $price\n  math.multiply $price 2\nenddef\n']]);
+    const requests = [];
+    const db = new RobinPath({ output: silent });
+    db.setModuleLoader({
+        resolve: (specifier) => `db:${specifier}`,
+        load: async (path) => {
+            requests.push(path);
+            return table.get(path);
+        }
+    });
+    const total = await db.executeScript('import "pricing" as prices\nprices.total 21');
+    if (total !== 42 || JSON.stringify(requests) !== '["db:pricing"]') {
+        throw new Error(`Test 4 FAILED - Unexpected result: ${total} ${JSON.stringify(requests)}`);
+    }
+    console.log('✓ Test 4 PASSED - Custom loaders');
+
+    // Test 5: Cycles, missing modules and taken namespaces fail with an ImportError
+    const failing = createRobinPath({
+        'a.robin': 'import "./b.robin"\n',
+        'b.robin': 'import "./a.robin"\n',
+        'broken.robin': 'def ok\nenddef\nmath.divide 1 0\n',
+        'my-lib.robin': ''
+    });
+    await expectImportError(failing.rp.executeScript('import "a.robin"', { file: 'main.robin' }), /^Circular import: main\.robin -> a\.robin -> b\.robin -> a\.robin$/, 'Test 5');
+    await expectImportError(failing.rp.executeScript('import "missing.robin"'), /Cannot load module "missing\.robin"/, 'Test 5');
+    await expectImportError(failing.rp.executeScript('import "broken.robin"'), /^Error in module "broken\.robin" \(line 3\): Division by zero$/, 'Test 5');
+    await expectImportError(failing.rp.executeScript('import "my-lib.robin"'), /not a valid namespace/, 'Test 5');
+    await expectImportError(failing.rp.executeScript('import "my-lib.robin" as math'), /math is the name of a module/, 'Test 5');
+    await expectImportError(failing.rp.executeScript('$data = 1\nimport "my-lib.robin" as data'), /\$data already exists/, 'Test 5');
+    const error = await expectImportError(new RobinPath({ output: silent }).executeScript('log 1\nimport "a.robin"'), /no module loader is set/, 'Test 5');
+    if (error.codePos?.startRow !== 1) {
+        throw new Error(`Test 5 FAILED - The error should point at the import: ${JSON.stringify(error.codePos)}`);
+    }
+    console.log('✓ Test 5 PASSED - Errors');
+
+    // Test 6: AST and code generation
+    const source = 'import "./lib/helpers.robin" as h  # shared helpers\n';
+    const ast = await rp.getAST(source);
+    if (ast[0]?.type !== 'import' || ast[0].path !== './lib/helpers.robin' || ast[0].alias !== 'h') {
+        throw new Error(`Test 6 FAILED - Unexpected AST: ${JSON.stringify(ast)}`);
+    }
+    ast[0].alias = 'util';
+    const updated = await rp.updateCodeFromAST(source, ast);
+    if (updated !== 'import "./lib/helpers.robin" as util  # shared helpers\n') {
+        throw new Error(`Test 6 FAILED - Unexpected code: ${JSON.stringify(updated)}`);
+    }
+    console.log('✓ Test 6 PASSED - AST');
+
+    console.log('='.repeat(60));
+    console.log('✓ All import tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,102 @@
+// Test Case c21: Module Block Tests
+// Tests module/endmodule blocks: name.fn builtins, FunctionMetadata/ModuleMetadata from decorators and name clashes
+
+import { RobinPath, MemoryModuleLoader } from '../../dist/index.js';
+
+const silent = { write() {} };
+
+const script = `
+$unit = "cm"
+
+@desc "Length conversions"
+module length
+  @desc "Centimeters to inches"
+  @param number $value "Length in centimeters"
+  def toInches $value
+    math.divide $value 2.54
+  enddef
+
+  def label $value
+    string.concat $value $unit
+  enddef
+endmodule
+`;
+
+async function expectError(promise, pattern, test) {
+    try {
+        await promise;
+    } catch (error) {
+        if (!pattern.test(error.message)) {
+            throw new Error(`${test} FAILED - Unexpected error: ${error.message}`);
+        }
+        return;
+    }
+    throw new Error(`${test} FAILED - Script should fail`);
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing module blocks');
+    console.log('='.repeat(60));
+
+    // Test 1: Defs are registered as builtins and see the globals of the script that defined them
+    const rp = new RobinPath({ output: silent });
+    await rp.executeScript(script);
+    const inches = await rp.executeScript('length.toInches 254');
+    const label = await rp.executeScript('length.label 3');
+    if (inches !== 100 || label !== '3cm' || rp.getFunctionMetadata('length.toInches')?.description !== 'Centimeters to inches') {
+        throw new Error(`Test 1 FAILED - Unexpected results: ${inches} ${label}`);
+    }
+    console.log('✓ Test 1 PASSED - Module functions');
+
+    // Test 2: Decorators become FunctionMetadata/ModuleMetadata listed like native modules
+    const commands = rp.getAvailableCommands();
+    const module = commands.modules.find(entry => entry.name === 'length');
+    const functions = commands.moduleFunctions.filter(entry => entry.name.startsWith('length.')).map(entry => `${entry.name}: ${entry.description}`);
+    if (module?.description !== 'Length conversions' || JSON.stringify(functions) !== '["length.label: Module function","length.toInches: Centimeters to inches"]') {
+        throw new Error(`Test 2 FAILED - Unexpected commands: ${JSON.stringify(module)} ${JSON.stringify(functions)}`);
+    }
+    const explained = await rp.executeScript('explain "length.toInches"');
+    const [param] = explained.parameters;
+    if (param?.name !== 'value' || param.dataType !== 'number' || param.description !== 'Length in centimeters' || explained.returnType !== 'any') {
+        throw new Error(`Test 2 FAILED - Unexpected metadata: ${JSON.stringify(explained)}`);
+    }
+    if (rp.getAvailableCommands().userFunctions.some(entry => entry.name === 'toInches' || entry.name === 'label')) {
+        throw new Error('Test 2 FAILED - Module defs should not be script functions');
+    }
+    console.log('✓ Test 2 PASSED - Metadata');
+
+    // Test 3: Running a module block again replaces the module (removed defs disappear)
+    await rp.executeScript('module length\n  def toFeet $value\n    math.divide $value 30.48\n  enddef\nendmodule');
+    const feet = await rp.executeScript('length.toFeet 3048');
+    const replaced = await rp.executeScript('explain length');
+    if (feet !== 100 || JSON.stringify(replaced.methods) !== '["toFeet"]' || replaced.description !== '') {
+        throw new Error(`Test 3 FAILED - Unexpected module: ${feet} ${JSON.stringify(replaced)}`);
+    }
+    await expectError(rp.executeScript('length.toInches 1'), /length\.toInches/, 'Test 3');
+    console.log('✓ Test 3 PASSED - Redefinition');
+
+    // Test 4: Module blocks of imported files define commands for the importer
+    const importing = new RobinPath({
+        output: silent,
+        moduleLoader: new MemoryModuleLoader({
+            'lib/units.robin': 'const $RATE 2\nmodule units\n  def double $value\n    math.multiply $value $RATE\n  enddef\nendmodule\n'
+        })
+    });
+    const doubled = await importing.executeScript('import "lib/units.robin" as lib\nunits.double 21');
+    if (doubled !== 42) {
+        throw new Error(`Test 4 FAILED - Unexpected result: ${doubled}`);
+    }
+    console.log('✓ Test 4 PASSED - Imported module blocks');
+
+    // Test 5: Names of native modules and import namespaces cannot be taken
+    await expectError(rp.executeScript('module math\nendmodule'), /Cannot define module "math": a native module with that name exists/, 'Test 5');
+    await expectError(importing.executeScript('module lib\nendmodule'), /the name is used by import "lib\/units\.robin"/, 'Test 5');
+    await expectError(rp.executeScript('module units\n  log "not a def"\nendmodule'), /Only def blocks are allowed in module "units"/, 'Test 5');
+    await expectError(rp.executeScript('if true\n  module units\n  endmodule\nendif'), /only allowed at the top level/, 'Test 5');
+    console.log('✓ Test 5 PASSED - Errors');
+
+    console.log('='.repeat(60));
+    console.log('✓ All module block tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,160 @@
+// Test Case c22: Filesystem Module Tests
+// Tests fs.* on memory and disk file systems granted through capabilities.fs, confined to their root
+
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, symlinkSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RobinPath, MemoryFileSystem, NodeFileSystem, CapabilityError } from '../../dist/index.js';
+
+const silent = { write() {} };
+
+async function expectCapabilityError(promise, pattern, test) {
+    try {
+        await promise;
+    } catch (error) {
+        if (!(error instanceof CapabilityError) || error.code !== 'CAPABILITY_DENIED' || !pattern.test(error.message)) {
+            throw new Error(`${test} FAILED - Unexpected error: ${error.name}: ${error.message}`);
+        }
+        return;
+    }
+    throw new Error(`${test} FAILED - Access should be denied`);
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing fs module');
+    console.log('='.repeat(60));
+
+    // Test 1: Text and JSON files (missing directories are created)
+    const files = new MemoryFileSystem({ 'data/users.json': '[{"name":"Ann"}]' });
+    const rp = new RobinPath({ output: silent, capabilities: { fs: files } });
+    const users = await rp.executeScript('fs.readJson "data/users.json"');
+    await rp.executeScript(`
+fs.write "out/report.txt" "Users: "
+fs.append "out/report.txt" "1"
+fs.writeJson "/out/../out/users.json" $(fs.readJson "data/users.json") 0
+fs.append "logs/run.log" "started"
+`);
+    const report = await rp.executeScript('fs.read "./out/report.txt"');
+    if (users[0]?.name !== 'Ann' || report !== 'Users: 1') {
+        throw new Error(`Test 1 FAILED - Unexpected contents: ${JSON.stringify(users)} ${report}`);
+    }
+    const written = files.toObject();
+    if (written['out/users.json'] !== '[{"name":"Ann"}]\n' || written['logs/run.log'] !== 'started') {
+        throw new Error(`Test 1 FAILED - Unexpected files: ${JSON.stringify(written)}`);
+    }
+    console.log('✓ Test 1 PASSED - Reading and writing files');
+
+    // Test 2: Listing, globbing, exists and stat
+    const listing = await rp.executeScript('fs.list');
+    const outFiles = await rp.executeScript('fs.list "out"');
+    const json = await rp.executeScript('fs.glob "**/*.json"');
+    const outGlob = await rp.executeScript('fs.glob "out/*.{txt,log}"');
+    const exists = await rp.executeScript('fs.exists "out/report.txt"');
+    const missing = await rp.executeScript('fs.exists "out/missing.txt"');
+    const stat = await rp.executeScript('fs.stat "out/report.txt"');
+    const dirStat = await rp.executeScript('fs.stat "data"');
+    if (JSON.stringify(listing) !== '["data","logs","out"]' || JSON.stringify(outFiles) !== '["report.txt","users.json"]') {
+        throw new Error(`Test 2 FAILED - Unexpected listings: ${JSON.stringify(listing)} ${JSON.stringify(outFiles)}`);
+    }
+    if (JSON.stringify(json) !== '["data/users.json","out/users.json"]' || JSON.stringify(outGlob) !== '["out/report.txt"]') {
+        throw new Error(`Test 2 FAILED - Unexpected glob results: ${JSON.stringify(json)} ${JSON.stringify(outGlob)}`);
+    }
+    if (exists !== true || missing !== false) {
+        throw new Error(`Test 2 FAILED - Unexpected exists results: ${exists} ${missing}`);
+    }
+    if (stat.path !== 'out/report.txt' || stat.name !== 'report.txt' || stat.type !== 'file' || stat.size !== 8 || typeof stat.modified !== 'number' || dirStat.type !== 'directory') {
+        throw new Error(`Test 2 FAILED - Unexpected stat: ${JSON.stringify(stat)} ${JSON.stringify(dirStat)}`);
+    }
+    console.log('✓ Test 2 PASSED - Listing and file information');
+
+    // Test 3: mkdir, copy, move and remove
+    await rp.executeScript(`
+fs.mkdir "archive/2024"
+fs.copy "out" "archive/2024/out"
+fs.move "archive/2024/out/report.txt" "archive/report.txt"
+fs.remove "out"
+fs.remove "never/existed"
+`);
+    const archive = files.toObject();
+    if (JSON.stringify(Object.keys(archive)) !== '["archive/2024/out/users.json","archive/report.txt","data/users.json","logs/run.log"]') {
+        throw new Error(`Test 3 FAILED - Unexpected files: ${JSON.stringify(Object.keys(archive))}`);
+    }
+    if (await rp.executeScript('fs.exists "out"') !== false || JSON.stringify(await rp.executeScript('fs.list "archive/2024"')) !== '["out"]') {
+        throw new Error('Test 3 FAILED - out should be removed and the copied directory kept');
+    }
+    console.log('✓ Test 3 PASSED - Managing files and directories');
+
+    // Test 4: Errors name the script's path
+    const errors = [
+        ['fs.read "missing.txt"', /^Cannot read "missing\.txt": No such file/],
+        ['fs.read "data"', /^Cannot read "data": Is a directory/],
+        ['fs.write "data/users.json/x" "1"', /^Cannot write "data\/users\.json\/x": Not a directory/],
+        ['fs.stat "missing.txt"', /^Cannot stat "missing\.txt": no such file or directory/],
+        ['fs.copy "missing.txt" "copy.txt"', /^Cannot copy "missing\.txt": no such file or directory/],
+        ['fs.remove "/"', /cannot remove the root directory/],
+        ['fs.read ""', /requires a path string/]
+    ];
+    files.writeFile('broken.json', '{');
+    errors.push(['fs.readJson "broken.json"', /^Invalid JSON in "broken\.json"/]);
+    for (const [script, pattern] of errors) {
+        try {
+            await rp.executeScript(script);
+            throw new Error(`Test 4 FAILED - ${script} should fail`);
+        } catch (error) {
+            if (!pattern.test(error.message)) {
+                throw new Error(`Test 4 FAILED - Unexpected error for ${script}: ${error.message}`);
+            }
+        }
+    }
+    console.log('✓ Test 4 PASSED - Errors');
+
+    // Test 5: Paths outside the root and runs without a file system are denied
+    await expectCapabilityError(rp.executeScript('fs.read "../secret.txt"'), /outside the root directory/, 'Test 5');
+    await expectCapabilityError(rp.executeScript('fs.write "data/../../x.txt" "1"'), /outside the root directory/, 'Test 5');
+    await expectCapabilityError(rp.executeScript('fs.glob "../**/*.json"'), /outside the root directory/, 'Test 5');
+    await expectCapabilityError(new RobinPath({ output: silent }).executeScript('fs.exists "a.txt"'), /no file system is available/, 'Test 5');
+    const thread = rp.createThread('worker');
+    if (await thread.executeScript('fs.read "logs/run.log"') !== 'started') {
+        throw new Error('Test 5 FAILED - Threads should inherit the file system');
+    }
+    console.log('✓ Test 5 PASSED - Sandbox');
+
+    // Test 6: NodeFileSystem works in a directory on disk and refuses links leading out of it
+    const temp = mkdtempSync(join(tmpdir(), 'robinpath-fs-'));
+    try {
+        const root = join(temp, 'workspace');
+        mkdirSync(root);
+        writeFileSync(join(temp, 'secret.txt'), 'secret');
+        writeFileSync(join(root, 'notes.txt'), 'hello');
+        symlinkSync(temp, join(root, 'outside'));
+        const disk = new RobinPath({ output: silent, capabilities: { fs: new NodeFileSystem(root) } });
+        await disk.executeScript('fs.writeJson "out/data.json" $(fs.read "notes.txt")\nfs.copy "out" "copy"');
+        const listed = await disk.executeScript('fs.glob "*/*.json"');
+        if (readFileSync(join(root, 'out', 'data.json'), 'utf-8') !== '"hello"\n' || JSON.stringify(listed) !== '["copy/data.json","out/data.json"]') {
+            throw new Error(`Test 6 FAILED - Unexpected files: ${JSON.stringify(listed)}`);
+        }
+        await expectCapabilityError(disk.executeScript('fs.read "outside/secret.txt"'), /leads outside the root directory/, 'Test 6');
+        await expectCapabilityError(disk.executeScript('fs.read "../secret.txt"'), /outside the root directory/, 'Test 6');
+        // Dangling links are checked by their target: writing through them would create it
+        symlinkSync(join(temp, 'escaped.txt'), join(root, 'dangling'));
+        symlinkSync(join(temp, 'escaped'), join(root, 'dangling-dir'));
+        symlinkSync(join(root, 'created.txt'), join(root, 'inner'));
+        await expectCapabilityError(disk.executeScript('fs.write "dangling" "x"'), /leads outside the root directory/, 'Test 6');
+        await expectCapabilityError(disk.executeScript('fs.write "dangling-dir/x.txt" "x"'), /leads outside the root directory/, 'Test 6');
+        if (existsSync(join(temp, 'escaped.txt')) || existsSync(join(temp, 'escaped'))) {
+            throw new Error('Test 6 FAILED - Writing through a dangling link should not create its target');
+        }
+        await disk.executeScript('fs.write "inner" "inside"');
+        if (readFileSync(join(root, 'created.txt'), 'utf-8') !== 'inside') {
+            throw new Error('Test 6 FAILED - Dangling links inside the root should be writable');
+        }
+    } finally {
+        rmSync(temp, { recursive: true, force: true });
+    }
+    console.log('✓ Test 6 PASSED - Disk file system');
+
+    console.log('='.repeat(60));
+    console.log('✓ All fs module tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,116 @@
+// Test Case c23: CSV Module Tests
+// Tests csv.parse (headers, delimiter, quoting, type inference), csv.each row callbacks and csv.stringify
+
+import { RobinPath } from '../../dist/index.js';
+
+const silent = { write() {} };
+
+const people = [
+    'name,age,city,member',
+    '"Smith, Ann",42,"New',
+    'York",true',
+    '',
+    'Bob,007,Paris,"said ""hi"""',
+    'Eve,-1.5e2,,false,extra'
+].join('\r\n') + '\n';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing csv module');
+    console.log('='.repeat(60));
+
+    const rp = new RobinPath({ output: silent });
+    rp.setVariable('people', people);
+
+    // Test 1: Header row, quoted fields with delimiters, quotes and line breaks, type inference
+    const rows = await rp.executeScript('csv.parse $people');
+    const expected = [
+        { name: 'Smith, Ann', age: 42, city: 'New\r\nYork', member: true },
+        { name: 'Bob', age: '007', city: 'Paris', member: 'said "hi"' },
+        { name: 'Eve', age: -150, city: null, member: false, column5: 'extra' }
+    ];
+    if (JSON.stringify(rows) !== JSON.stringify(expected)) {
+        throw new Error(`Test 1 FAILED - Unexpected rows: ${JSON.stringify(rows)}`);
+    }
+    console.log('✓ Test 1 PASSED - Parsing with headers');
+
+    // Test 2: Options as named arguments or an object; inferred numbers keep their value
+    const arrays = await rp.executeScript('csv.parse "a;b\\n1;\\"2\\"" delimiter=";" headers=false');
+    const strings = await rp.executeScript('csv.parse("x|y\\n 1 |true" {"delimiter": "|", "infer": false, "trim": true})');
+    const named = await rp.executeScript('csv.parse "1,2\\n3" headers=["x", "y"]');
+    const duplicates = await rp.executeScript('csv.parse "id,id,\\n1,2,3"');
+    if (JSON.stringify(arrays) !== '[["a","b"],[1,"2"]]' || JSON.stringify(strings) !== '[{"x":"1","y":"true"}]') {
+        throw new Error(`Test 2 FAILED - Unexpected rows: ${JSON.stringify(arrays)} ${JSON.stringify(strings)}`);
+    }
+    if (JSON.stringify(named) !== '[{"x":1,"y":2},{"x":3,"y":null}]' || JSON.stringify(duplicates) !== '[{"id":1,"id_2":2,"column3":3}]') {
+        throw new Error(`Test 2 FAILED - Unexpected columns: ${JSON.stringify(named)} ${JSON.stringify(duplicates)}`);
+    }
+    const precise = await rp.executeScript('csv.parse "12345678901234567890,9007199254740993,9007199254740991,0.1,1.50,3.14159265358979323846,1e-400" headers=false');
+    if (JSON.stringify(precise) !== '[["12345678901234567890","9007199254740993",9007199254740991,0.1,1.5,"3.14159265358979323846","1e-400"]]') {
+        throw new Error(`Test 2 FAILED - Numbers should only be inferred when they keep their value: ${JSON.stringify(precise)}`);
+    }
+    console.log('✓ Test 2 PASSED - Options');
+
+    // Test 3: csv.each runs the with block for every row ($1 = row, $2 = index) and returns the row count
+    const seen = [];
+    rp.registerBuiltin('collect', (args) => {
+        seen.push(args);
+        return null;
+    });
+    const count = await rp.executeScript(`
+csv.each $people with
+  collect $1.name $2
+endwith
+`);
+    if (count !== 3 || JSON.stringify(seen) !== '[["Smith, Ann",0],["Bob",1],["Eve",2]]') {
+        throw new Error(`Test 3 FAILED - Unexpected rows: ${count} ${JSON.stringify(seen)}`);
+    }
+    console.log('✓ Test 3 PASSED - Row by row iteration');
+
+    // Test 4: Stringify quotes fields when needed and round-trips through parse
+    const text = await rp.executeScript('csv.stringify $(csv.parse $people)');
+    const expectedText = [
+        'name,age,city,member,column5',
+        '"Smith, Ann",42,"New\r\nYork",true,',
+        'Bob,007,Paris,"said ""hi""",',
+        'Eve,-150,,false,extra'
+    ].join('\n');
+    if (text !== expectedText) {
+        throw new Error(`Test 4 FAILED - Unexpected CSV: ${JSON.stringify(text)}`);
+    }
+    rp.setVariable('text', text);
+    const reparsed = await rp.executeScript('csv.parse $text');
+    if (JSON.stringify(reparsed) !== JSON.stringify([{ ...expected[0], column5: null }, { ...expected[1], column5: null }, expected[2]])) {
+        throw new Error('Test 4 FAILED - Stringified rows should parse back to the same rows');
+    }
+    const custom = await rp.executeScript('csv.stringify [[1, " a"], [null, {"k": 1}]] delimiter=";" newline="\\r\\n"');
+    const columns = await rp.executeScript('csv.stringify [{"a": 1, "b": 2}] headers=["b"]');
+    if (custom !== '1;" a"\r\n;"{""k"":1}"' || columns !== 'b\n2') {
+        throw new Error(`Test 4 FAILED - Unexpected CSV: ${JSON.stringify(custom)} ${JSON.stringify(columns)}`);
+    }
+    console.log('✓ Test 4 PASSED - Stringify');
+
+    // Test 5: Errors
+    const errors = [
+        ['csv.parse "a\\n\\"unterminated"', /Unterminated quoted field at line 2/],
+        ['csv.parse 42', /requires CSV text/],
+        ['csv.parse "a" delimiter="::"', /delimiter must be a single character/],
+        ['csv.each "a\\n1"', /requires a with callback block/],
+        ['csv.stringify "a,b"', /requires an array of rows/]
+    ];
+    for (const [script, pattern] of errors) {
+        try {
+            await rp.executeScript(script);
+            throw new Error(`Test 5 FAILED - ${script} should fail`);
+        } catch (error) {
+            if (!pattern.test(error.message)) {
+                throw new Error(`Test 5 FAILED - Unexpected error for ${script}: ${error.message}`);
+            }
+        }
+    }
+    console.log('✓ Test 5 PASSED - Errors');
+
+    console.log('='.repeat(60));
+    console.log('✓ All csv module tests PASSED');
+    console.log('='.repeat(60));
+}
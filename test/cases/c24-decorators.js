@@ -0,0 +1,146 @@
+// Test Case c24: Runtime Decorator Tests
+// Tests @retry, @timeout, @cache, @deprecated and @log on def, do and together blocks, explain "@name" and custom wrap decorators
+
+import { RobinPath, OutputCollector, TimeoutError } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing runtime decorators');
+    console.log('='.repeat(60));
+
+    let clock = 0;
+    const output = new OutputCollector();
+    const rp = new RobinPath({ output, capabilities: { clock: () => clock } });
+    let calls = 0;
+    let failures = 0;
+    rp.registerBuiltin('flaky', () => {
+        calls++;
+        if (calls <= failures) {
+            throw new Error(`attempt ${calls} failed`);
+        }
+        return calls;
+    });
+    rp.registerBuiltin('slow', () => new Promise(resolve => setTimeout(() => resolve('done'), 100)));
+
+    // Test 1: @retry runs the def again until it succeeds, and rethrows the last error after the last retry
+    failures = 2;
+    await rp.executeScript('@retry 3 backoff=1\ndef load\n  flaky\nenddef\n$result = load');
+    if (rp.getVariable('result') !== 3 || calls !== 3) {
+        throw new Error(`Test 1 FAILED - Expected success on the third attempt, got ${rp.getVariable('result')} after ${calls} calls`);
+    }
+    calls = 0;
+    failures = 10;
+    try {
+        await rp.executeScript('@retry times=1\ndo\n  flaky\nenddo');
+        throw new Error('Test 1 FAILED - Retries should give up');
+    } catch (error) {
+        if (error.message !== 'attempt 2 failed' || calls !== 2) {
+            throw new Error(`Test 1 FAILED - Unexpected error after ${calls} calls: ${error.message}`);
+        }
+    }
+    console.log('✓ Test 1 PASSED - @retry');
+
+    // Test 2: @timeout fails with a catchable TimeoutError and stops the body at its next statement
+    output.clear();
+    try {
+        await rp.executeScript('@timeout 10\ndef report\n  slow\n  log "finished"\nenddef\nreport');
+        throw new Error('Test 2 FAILED - The def should time out');
+    } catch (error) {
+        if (!(error instanceof TimeoutError) || error.code !== 'TIMEOUT' || error.timeout !== 10 || error.message !== 'report timed out after 10ms') {
+            throw new Error(`Test 2 FAILED - Unexpected error: ${error.name} ${error.message}`);
+        }
+    }
+    await new Promise(resolve => setTimeout(resolve, 150));
+    if (output.records.length !== 0) {
+        throw new Error(`Test 2 FAILED - The body should stop after the timeout: ${output.messages().join()}`);
+    }
+    await rp.executeScript('try\n  @timeout 10\n  do\n    slow\n  enddo\ncatch $e\n  $caught = $e.message\nendtry\n@timeout 1000\ndo into $fast\n  math.add 1 2\nenddo');
+    if (rp.getVariable('caught') !== 'do block (line 3) timed out after 10ms' || rp.getVariable('fast') !== 3) {
+        throw new Error(`Test 2 FAILED - Unexpected results: ${rp.getVariable('caught')} ${rp.getVariable('fast')}`);
+    }
+    console.log('✓ Test 2 PASSED - @timeout');
+
+    // Test 3: @cache reuses results by argument values until the ttl (in seconds of the capability clock) expires
+    calls = 0;
+    failures = 0;
+    await rp.executeScript('@cache ttl=60\ndef rate $currency\n  flaky\nenddef\n$a = rate "EUR"\n$b = rate "EUR"\n$c = rate "USD"\n$d = [$(rate "GBP"), $(rate "GBP")]');
+    if (calls !== 3 || rp.getVariable('a') !== 1 || rp.getVariable('b') !== 1 || rp.getVariable('c') !== 2 || JSON.stringify(rp.getVariable('d')) !== '[3,3]') {
+        throw new Error(`Test 3 FAILED - Unexpected cached results after ${calls} calls`);
+    }
+    clock = 61000;
+    await rp.executeScript('$a = rate "EUR"');
+    if (calls !== 4 || rp.getVariable('a') !== 4) {
+        throw new Error('Test 3 FAILED - Results should expire after the ttl');
+    }
+    console.log('✓ Test 3 PASSED - @cache');
+
+    // Test 4: @deprecated warns once, @log writes entry and exit records
+    output.clear();
+    await rp.executeScript('@deprecated "use add"\n@log "log"\ndef plus $x $y\n  math.add $x $y\nenddef\nplus 1 2\nplus 3 4');
+    const messages = output.records.map(record => `${record.level}:${record.source}:${record.message.replace(/\d+ms/, 'Nms')}`);
+    const expected = [
+        'warn:@deprecated:plus is deprecated: use add',
+        'log:@log:plus called with [1,2]',
+        'log:@log:plus returned 3 in Nms',
+        'log:@log:plus called with [3,4]',
+        'log:@log:plus returned 7 in Nms'
+    ];
+    if (JSON.stringify(messages) !== JSON.stringify(expected)) {
+        throw new Error(`Test 4 FAILED - Unexpected records: ${JSON.stringify(messages)}`);
+    }
+    output.clear();
+    await rp.executeScript('@log\ntogether\n  do\n    $x = 1\n  enddo\nendtogether');
+    if (output.messages('debug').join('|').replace(/\d+ms/, 'Nms') !== 'together block (line 2) started|together block (line 2) returned null in Nms') {
+        throw new Error(`Test 4 FAILED - Unexpected together records: ${output.messages().join('|')}`);
+    }
+    console.log('✓ Test 4 PASSED - @deprecated and @log');
+
+    // Test 5: explain documents decorators
+    const docs = await rp.executeScript('explain "@retry"');
+    if (docs.type !== 'decorator' || docs.parameters.map(param => param.name).join() !== 'times,backoff' || !docs.example.includes('@retry')) {
+        throw new Error(`Test 5 FAILED - Unexpected documentation: ${JSON.stringify(docs)}`);
+    }
+    console.log('✓ Test 5 PASSED - explain "@retry"');
+
+    // Test 6: Named decorator arguments survive the AST round-trip
+    const script = '@retry 2 backoff=500\ndef load\n  flaky\nenddef';
+    const ast = await rp.getAST(script);
+    const [, named] = ast[0].decorators[0].args;
+    if (named?.type !== 'namedArgs' || !named.args.backoff) {
+        throw new Error(`Test 6 FAILED - Unexpected decorator args: ${JSON.stringify(ast[0].decorators)}`);
+    }
+    const code = await rp.updateCodeFromAST(script, ast);
+    if (!code.includes('@retry 2 backoff=500')) {
+        throw new Error(`Test 6 FAILED - Unexpected code: ${code}`);
+    }
+    console.log('✓ Test 6 PASSED - Named decorator arguments');
+
+    // Test 7: Custom wrap decorators and errors
+    rp.registerWrapDecorator('twice', async (run) => [await run(), await run()]);
+    calls = 0;
+    await rp.executeScript('@twice\ndef next\n  flaky\nenddef\n$pair = next');
+    if (JSON.stringify(rp.getVariable('pair')) !== '[1,2]') {
+        throw new Error(`Test 7 FAILED - Unexpected result: ${JSON.stringify(rp.getVariable('pair'))}`);
+    }
+    const errors = [
+        ['@cache\ntogether\n  do\n    $x = 1\n  enddo\nendtogether', /@cache cannot be used on together blocks/],
+        ['@retry\nvar $x 1', /@retry can only be used on def, do and together blocks/],
+        ['@timeout\ndo\n  $x = 1\nenddo', /@timeout requires a duration/],
+        ['explain "@missing"', /No documentation available for decorator: @missing/]
+    ];
+    for (const [source, pattern] of errors) {
+        try {
+            await rp.executeScript(source);
+            throw new Error(`Test 7 FAILED - ${JSON.stringify(source)} should fail`);
+        } catch (error) {
+            if (!pattern.test(error.message)) {
+                throw new Error(`Test 7 FAILED - Unexpected error for ${JSON.stringify(source)}: ${error.message}`);
+            }
+        }
+    }
+    console.log('✓ Test 7 PASSED - Custom decorators and errors');
+
+    console.log('='.repeat(60));
+    console.log('✓ All runtime decorator tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,147 @@
+// Test Case c25: Fetch Module Tests
+// Tests fetch.* through a MockTransport: response objects, patch/request, query, form, timeouts, retries, binary bodies and redirects
+
+import { RobinPath, MockTransport, TimeoutError, CapabilityError } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing fetch module');
+    console.log('='.repeat(60));
+
+    let failures = 0;
+    const api = new MockTransport()
+        .get('https://api.example.com/users/:id', request => ({ headers: { 'x-request-id': '42' }, body: { id: Number(request.params.id), query: request.query } }))
+        .post('/users', request => ({ status: 201, body: { created: request.data } }))
+        .patch('/users/:id', request => ({ body: { id: request.params.id, method: request.method, changes: request.data } }))
+        .route('*', '/echo', request => ({ body: { method: request.method, headers: request.headers, body: request.body } }))
+        .get('/flaky', () => (failures-- > 0 ? { status: 503, body: 'unavailable' } : { body: 'recovered' }))
+        .get('/slow', () => new Promise(resolve => setTimeout(() => resolve({ body: 'late' }), 200)))
+        .get('/bytes', { headers: { 'content-type': 'application/octet-stream' }, body: 'hi!' })
+        .get('/moved', { status: 301, headers: { location: '/users/7?from=moved' } })
+        .post('/submit', { status: 303, headers: { location: 'https://api.example.com/echo' } })
+        .get('/leave', { status: 302, headers: { location: 'https://evil.example.com/users/1' } })
+        .get('/loop', { status: 307, headers: { location: '/loop' } });
+    const rp = new RobinPath({ transport: api, output: { write() {} } });
+
+    // Test 1: Response objects with status, headers and body; full=false returns only the body
+    const response = await rp.executeScript('fetch.get "https://api.example.com/users/7" query={"fields": ["name", "email"], "skip": null}');
+    if (response.status !== 200 || !response.ok || response.headers['x-request-id'] !== '42' || response.body.id !== 7 || response.data !== response.body) {
+        throw new Error(`Test 1 FAILED - Unexpected response: ${JSON.stringify(response)}`);
+    }
+    if (api.requests[0].url !== 'https://api.example.com/users/7?fields=name&fields=email' || response.body.query.fields !== 'email') {
+        throw new Error(`Test 1 FAILED - Unexpected request URL: ${api.requests[0].url}`);
+    }
+    const body = await rp.executeScript('fetch.post "https://other.example.com/users" {"name": "Ann"} full=false');
+    if (JSON.stringify(body) !== '{"created":{"name":"Ann"}}') {
+        throw new Error(`Test 1 FAILED - Unexpected body: ${JSON.stringify(body)}`);
+    }
+    const missing = await rp.executeScript('fetch.get "https://api.example.com/nothing"');
+    if (missing.status !== 404 || missing.ok !== false) {
+        throw new Error(`Test 1 FAILED - Unmatched requests should get a 404, got ${missing.status}`);
+    }
+    console.log('✓ Test 1 PASSED - Response objects');
+
+    // Test 2: fetch.patch, fetch.request with any method, form bodies
+    const patched = await rp.executeScript('fetch.patch "https://api.example.com/users/3" {"active": true} full=false');
+    if (JSON.stringify(patched) !== '{"id":"3","method":"PATCH","changes":{"active":true}}') {
+        throw new Error(`Test 2 FAILED - Unexpected patch result: ${JSON.stringify(patched)}`);
+    }
+    const options = await rp.executeScript('fetch.request {"url": "https://api.example.com/echo", "method": "options", "full": false}');
+    const form = await rp.executeScript('fetch.request "https://api.example.com/echo" method="POST" form={"q": "a b", "page": 2} full=false');
+    if (options.method !== 'OPTIONS' || form.method !== 'POST' || form.body !== 'q=a+b&page=2' || form.headers['content-type'] !== 'application/x-www-form-urlencoded') {
+        throw new Error(`Test 2 FAILED - Unexpected requests: ${JSON.stringify(options)} ${JSON.stringify(form)}`);
+    }
+    console.log('✓ Test 2 PASSED - patch, request and form bodies');
+
+    // Test 3: Timeouts fail with a TimeoutError; retries repeat failed requests
+    try {
+        await rp.executeScript('fetch.get "https://api.example.com/slow" timeout=20');
+        throw new Error('Test 3 FAILED - The request should time out');
+    } catch (error) {
+        if (!(error instanceof TimeoutError) || error.timeout !== 20 || !error.message.includes('timed out after 20ms')) {
+            throw new Error(`Test 3 FAILED - Unexpected error: ${error.name} ${error.message}`);
+        }
+    }
+    failures = 2;
+    api.requests.length = 0;
+    const recovered = await rp.executeScript('fetch.get "https://api.example.com/flaky" retries=2 retryDelay=1 full=false');
+    if (recovered !== 'recovered' || api.requests.length !== 3) {
+        throw new Error(`Test 3 FAILED - Expected success after 3 requests, got ${JSON.stringify(recovered)} after ${api.requests.length}`);
+    }
+    failures = 5;
+    const unavailable = await rp.executeScript('fetch.get "https://api.example.com/flaky" retries=1 retryDelay=1');
+    if (unavailable.status !== 503 || unavailable.body !== 'unavailable') {
+        throw new Error(`Test 3 FAILED - The last response should be returned after the retries, got ${unavailable.status}`);
+    }
+    console.log('✓ Test 3 PASSED - Timeouts and retries');
+
+    // Test 4: Binary bodies as base64, capability checks before the transport
+    const bytes = await rp.executeScript('fetch.get "https://api.example.com/bytes" responseType="base64" full=false');
+    if (bytes !== 'aGkh') {
+        throw new Error(`Test 4 FAILED - Unexpected base64 body: ${bytes}`);
+    }
+    const sandboxed = new RobinPath({ transport: api, capabilities: { fetch: { allowedHosts: ['api.example.com'] } } });
+    api.requests.length = 0;
+    try {
+        await sandboxed.executeScript('fetch.get "https://evil.example.com/users/1"');
+        throw new Error('Test 4 FAILED - Denied hosts should not be fetched');
+    } catch (error) {
+        if (!(error instanceof CapabilityError) || api.requests.length !== 0) {
+            throw new Error(`Test 4 FAILED - Unexpected error: ${error.message}`);
+        }
+    }
+    console.log('✓ Test 4 PASSED - Binary bodies and capabilities');
+
+    // Test 5: Redirects are followed and every hop is checked against the capabilities
+    const moved = await sandboxed.executeScript('fetch.get "https://api.example.com/moved" full=false');
+    const submitted = await sandboxed.executeScript('fetch.post "https://api.example.com/submit" {"a": 1} full=false');
+    if (moved.id !== 7 || moved.query.from !== 'moved' || submitted.method !== 'GET' || submitted.body !== null) {
+        throw new Error(`Test 5 FAILED - Unexpected redirect results: ${JSON.stringify([moved, submitted])}`);
+    }
+    api.requests.length = 0;
+    try {
+        await sandboxed.executeScript('fetch.get "https://api.example.com/leave" retries=2');
+        throw new Error('Test 5 FAILED - Redirects to denied hosts should not be followed');
+    } catch (error) {
+        if (!(error instanceof CapabilityError) || !/evil\.example\.com/.test(error.message) || api.requests.length !== 1) {
+            throw new Error(`Test 5 FAILED - Unexpected error: ${error.message}`);
+        }
+    }
+    try {
+        await rp.executeScript('fetch.get "https://api.example.com/loop"');
+        throw new Error('Test 5 FAILED - Redirect loops should fail');
+    } catch (error) {
+        if (!/redirected more than 20 times/.test(error.message)) {
+            throw new Error(`Test 5 FAILED - Unexpected error: ${error.message}`);
+        }
+    }
+    console.log('✓ Test 5 PASSED - Redirects');
+
+    // Test 6: Threads use the transport; invalid options fail
+    const thread = rp.createThread('fetcher');
+    const threaded = await thread.executeScript('fetch.get "https://api.example.com/users/1" full=false');
+    if (threaded.id !== 1) {
+        throw new Error(`Test 6 FAILED - Threads should use the transport, got ${JSON.stringify(threaded)}`);
+    }
+    const errors = [
+        ['fetch.get "https://api.example.com/users/1" timeout=-1', /timeout must be a non-negative number/],
+        ['fetch.post "https://api.example.com/users" {"a": 1} form={"b": 2}', /body and form cannot be used together/],
+        ['fetch.get "https://api.example.com/users/1" responseType="xml"', /responseType must be one of/],
+        ['fetch.get "https://api.example.com/users/1" query="a=1"', /query must be an object/]
+    ];
+    for (const [script, pattern] of errors) {
+        try {
+            await rp.executeScript(script);
+            throw new Error(`Test 6 FAILED - ${script} should fail`);
+        } catch (error) {
+            if (!pattern.test(error.message)) {
+                throw new Error(`Test 6 FAILED - Unexpected error for ${script}: ${error.message}`);
+            }
+        }
+    }
+    console.log('✓ Test 6 PASSED - Threads and errors');
+
+    console.log('='.repeat(60));
+    console.log('✓ All fetch module tests PASSED');
+    console.log('='.repeat(60));
+}
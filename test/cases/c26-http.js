@@ -0,0 +1,163 @@
+// Test Case c26: HTTP Module Tests
+// Tests http.serve routing requests to on "METHOD /path" handlers, response mapping, errors, limits, capabilities and http.close
+
+import { RobinPath, OutputCollector, CapabilityError } from '../../dist/index.js';
+
+const routes = `
+on "GET /users/:id"
+  $request = $1
+  return {"id": $request.params.id, "fields": $request.query.fields}
+endon
+
+on "POST /users"
+  $user = $1.data
+  return {"status": 201, "headers": {"Location": "/users/1"}, "body": {"created": $user.name}}
+endon
+
+on "* /echo/*"
+  $request = $1
+  return $request.method
+endon
+
+on "DELETE /users/:id"
+  $deleted = true
+endon
+
+on "GET /fail"
+  throw "database unavailable"
+endon
+
+on "GET /loop"
+  repeat
+    $x = 1
+  until false
+endon
+`;
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing http module');
+    console.log('='.repeat(60));
+
+    const output = new OutputCollector();
+    const rp = new RobinPath({ output, limits: { maxSteps: 1000 }, capabilities: { http: { maxBodySize: 64 } } });
+    await rp.executeScript(routes);
+    const server = await rp.executeScript('http.serve 0');
+
+    try {
+        // Test 1: Route parameters and query, last value or return as the response
+        if (server.host !== '127.0.0.1' || !(server.port > 0) || server.url !== `http://127.0.0.1:${server.port}`) {
+            throw new Error(`Test 1 FAILED - Unexpected server: ${JSON.stringify(server)}`);
+        }
+        const user = await fetch(`${server.url}/users/7?fields=name`);
+        if (user.status !== 200 || user.headers.get('content-type') !== 'application/json' || await user.text() !== '{"id":"7","fields":"name"}') {
+            throw new Error(`Test 1 FAILED - Unexpected response: ${user.status}`);
+        }
+        const echo = await fetch(`${server.url}/echo/any/path`, { method: 'PUT' });
+        if (echo.status !== 200 || !echo.headers.get('content-type').startsWith('text/plain') || await echo.text() !== 'PUT') {
+            throw new Error('Test 1 FAILED - Wildcard routes should answer with text');
+        }
+        console.log('✓ Test 1 PASSED - Routes and responses');
+
+        // Test 2: Request bodies, {status, headers, body} responses and 204 for handlers without a value
+        const created = await fetch(`${server.url}/users`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{"name": "Ann"}' });
+        if (created.status !== 201 || created.headers.get('location') !== '/users/1' || await created.text() !== '{"created":"Ann"}') {
+            throw new Error(`Test 2 FAILED - Unexpected response: ${created.status}`);
+        }
+        const large = await fetch(`${server.url}/users`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ name: 'x'.repeat(100) }) });
+        if (large.status !== 413) {
+            throw new Error(`Test 2 FAILED - Bodies over maxBodySize should answer 413, got ${large.status}`);
+        }
+        const deleted = await fetch(`${server.url}/users/7`, { method: 'DELETE' });
+        if (deleted.status !== 204 || await deleted.text() !== '') {
+            throw new Error(`Test 2 FAILED - Handlers without a value should answer 204, got ${deleted.status}`);
+        }
+        console.log('✓ Test 2 PASSED - Request bodies and response objects');
+
+        // Test 3: Unknown routes, failing handlers and exceeded limits (each request is a run of its own)
+        const missing = await fetch(`${server.url}/nothing`);
+        if (missing.status !== 404 || await missing.text() !== '{"error":"No route for GET /nothing"}') {
+            throw new Error(`Test 3 FAILED - Unexpected response for unknown routes: ${missing.status}`);
+        }
+        const failed = await fetch(`${server.url}/fail`);
+        const looped = await fetch(`${server.url}/loop`);
+        if (failed.status !== 500 || (await failed.json()).error !== 'Internal Server Error' || looped.status !== 500) {
+            throw new Error(`Test 3 FAILED - Failing handlers should answer 500, got ${failed.status} ${looped.status}`);
+        }
+        const errors = output.messages('error');
+        if (errors.length !== 2 || !errors[0].startsWith('Error handling GET /fail: database unavailable')) {
+            throw new Error(`Test 3 FAILED - Unexpected error records: ${JSON.stringify(errors)}`);
+        }
+        const again = await fetch(`${server.url}/users/8?fields=id`);
+        if (again.status !== 200) {
+            throw new Error(`Test 3 FAILED - Later requests should get fresh limits, got ${again.status}`);
+        }
+        console.log('✓ Test 3 PASSED - Errors');
+
+        // Test 4: Handlers added after serve are routed too; http.servers lists running servers
+        await rp.executeScript('on "GET /late"\n  "late"\nendon');
+        const late = await fetch(`${server.url}/late`);
+        const listed = await rp.executeScript('http.servers');
+        if (await late.text() !== 'late' || !listed.some(entry => entry.port === server.port)) {
+            throw new Error('Test 4 FAILED - Unexpected late route or server list');
+        }
+        // Other instances neither see nor close this instance's servers
+        const other = new RobinPath({ capabilities: { http: {} } });
+        const otherListed = await other.executeScript('http.servers');
+        const otherClosed = await other.executeScript('http.close');
+        if (otherListed.length !== 0 || otherClosed !== 0 || (await fetch(`${server.url}/late`)).status !== 200) {
+            throw new Error('Test 4 FAILED - Servers should belong to the instance that started them');
+        }
+        console.log('✓ Test 4 PASSED - Late routes and server list');
+    } finally {
+        await rp.executeScript(`http.close ${server.port}`);
+    }
+
+    // Test 5: Closed servers refuse connections; cancelling the serving run stops its server
+    try {
+        await fetch(`${server.url}/users/7`);
+        throw new Error('Test 5 FAILED - The server should be closed');
+    } catch (error) {
+        if (error.message.startsWith('Test 5')) {
+            throw error;
+        }
+    }
+    const controller = new AbortController();
+    const cancelled = await rp.executeScript('http.serve 0', { signal: controller.signal });
+    controller.abort();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    if (await rp.executeScript('http.close') !== 0) {
+        throw new Error(`Test 5 FAILED - Aborting the run should stop the server on port ${cancelled.port}`);
+    }
+    try {
+        await rp.executeScript('http.serve 70000');
+        throw new Error('Test 5 FAILED - Invalid ports should fail');
+    } catch (error) {
+        if (!/requires a port number/.test(error.message)) {
+            throw new Error(`Test 5 FAILED - Unexpected error: ${error.message}`);
+        }
+    }
+    console.log('✓ Test 5 PASSED - Closing servers');
+
+    // Test 6: Serving needs capabilities.http, and only on allowed hosts and ports
+    const denied = [
+        [new RobinPath({ output }), 'http.serve 0', /serving is not allowed/],
+        [rp, 'http.serve 0 host="0.0.0.0"', /host "0.0.0.0" is not allowed/],
+        [new RobinPath({ output, capabilities: { http: { allowedPorts: [8080] } } }), 'http.serve 0', /port 0 is not allowed/]
+    ];
+    for (const [instance, script, pattern] of denied) {
+        try {
+            await instance.executeScript(script);
+            throw new Error(`Test 6 FAILED - ${script} should be denied`);
+        } catch (error) {
+            if (!(error instanceof CapabilityError) || error.capability !== 'http' || !pattern.test(error.message)) {
+                throw new Error(`Test 6 FAILED - Unexpected error for ${script}: ${error.message}`);
+            }
+        }
+    }
+    console.log('✓ Test 6 PASSED - Capabilities');
+
+    console.log('='.repeat(60));
+    console.log('✓ All http module tests PASSED');
+    console.log('='.repeat(60));
+}
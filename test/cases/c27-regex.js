@@ -0,0 +1,86 @@
+// Test Case c27: Regex Module Tests
+// Tests regex.test/match/matchAll/replace/split/escape with flags and named groups, and the regex options of string.*
+
+import { RobinPath } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing regex module');
+    console.log('='.repeat(60));
+
+    const rp = new RobinPath();
+
+    // Test 1: test and match with flags; named groups become an object
+    if (await rp.executeScript('regex.test "Error: disk full" "^error" flags="i"') !== true ||
+        await rp.executeScript('regex.test "Error: disk full" "^error"') !== false) {
+        throw new Error('Test 1 FAILED - regex.test should honour flags');
+    }
+    const match = await rp.executeScript('regex.match "released on 2024-05-01" "(?<year>\\\\d{4})-(?<month>\\\\d{2})-(\\\\d{2})"');
+    if (JSON.stringify(match) !== '{"match":"2024-05-01","index":12,"captures":["2024","05","01"],"groups":{"year":"2024","month":"05"}}') {
+        throw new Error(`Test 1 FAILED - Unexpected match: ${JSON.stringify(match)}`);
+    }
+    if (await rp.executeScript('regex.match "abc" "\\\\d"') !== null) {
+        throw new Error('Test 1 FAILED - No match should give null');
+    }
+    console.log('✓ Test 1 PASSED - test and match');
+
+    // Test 2: matchAll returns every match
+    const matches = await rp.executeScript('regex.matchAll "GET /a 200\\nPOST /b 500" "^(?<method>[A-Z]+) (\\\\S+)" flags="m"');
+    if (matches.length !== 2 || matches[1].groups.method !== 'POST' || matches[1].captures[1] !== '/b' || matches[1].index !== 11) {
+        throw new Error(`Test 2 FAILED - Unexpected matches: ${JSON.stringify(matches)}`);
+    }
+    console.log('✓ Test 2 PASSED - matchAll');
+
+    // Test 3: replace with group references, all=false and a with callback replacer
+    const dates = await rp.executeScript('regex.replace "2024-05-01, 2023-12-24" "(\\\\d+)-(\\\\d+)-(?<day>\\\\d+)" "$<day>.$2.$1"');
+    const first = await rp.executeScript('regex.replace "a b c" "\\\\w" "X" all=false');
+    if (dates !== '01.05.2024, 24.12.2023' || first !== 'X b c') {
+        throw new Error(`Test 3 FAILED - Unexpected replacements: ${dates} ${first}`);
+    }
+    const upper = await rp.executeScript('regex.replace "hello big world" "\\\\b(\\\\w)(\\\\w*)" with\n  $match = $2\n  $initial = string.toUpperCase $match.captures[0]\n  string.concat $initial $match.captures[1]\nendwith');
+    if (upper !== 'Hello Big World') {
+        throw new Error(`Test 3 FAILED - Unexpected callback replacement: ${upper}`);
+    }
+    console.log('✓ Test 3 PASSED - replace');
+
+    // Test 4: split and escape
+    const parts = await rp.executeScript('regex.split "a, b;c ;d" "\\\\s*[,;]\\\\s*"');
+    const limited = await rp.executeScript('regex.split "a, b;c" "[,;]\\\\s*" 2');
+    const escaped = await rp.executeScript('$pattern = regex.escape "1+1=(2)"\nregex.test "is 1+1=(2)?" $pattern');
+    if (JSON.stringify(parts) !== '["a","b","c","d"]' || JSON.stringify(limited) !== '["a","b"]' || escaped !== true) {
+        throw new Error(`Test 4 FAILED - Unexpected results: ${JSON.stringify(parts)} ${JSON.stringify(limited)} ${escaped}`);
+    }
+    console.log('✓ Test 4 PASSED - split and escape');
+
+    // Test 5: regex options of the string module; literal matching stays the default
+    await rp.executeScript('$a = string.replace "a1b22" "\\\\d+" "#" regex=true\n$b = string.replaceAll "Cat cat" "cat" "dog" flags="i"\n$c = string.split "a1b22c" "\\\\d+" regex=true\n$d = string.contains "Error: x" "^error" flags="i"\n$e = string.replace "a.b.c" "." "-"\n$f = string.contains "abc" "."');
+    const results = ['a', 'b', 'c', 'd', 'e', 'f'].map(name => rp.getVariable(name));
+    if (JSON.stringify(results) !== '["a#b#","dog dog",["a","b","c"],true,"a-b-c",false]') {
+        throw new Error(`Test 5 FAILED - Unexpected results: ${JSON.stringify(results)}`);
+    }
+    console.log('✓ Test 5 PASSED - string regex options');
+
+    // Test 6: Invalid patterns fail with the command name
+    const errors = [
+        ['regex.test "x" "("', /regex\.test got an invalid pattern/],
+        ['regex.match "x" "a" flags="q"', /regex\.match got an invalid pattern/],
+        ['regex.test "x"', /regex\.test requires a pattern string/],
+        ['regex.replace "x" "x"', /regex\.replace requires a replacement or a with callback block/],
+        ['string.split "x" "[" regex=true', /string\.split got an invalid pattern/]
+    ];
+    for (const [script, pattern] of errors) {
+        try {
+            await rp.executeScript(script);
+            throw new Error(`Test 6 FAILED - ${script} should fail`);
+        } catch (error) {
+            if (!pattern.test(error.message)) {
+                throw new Error(`Test 6 FAILED - Unexpected error for ${script}: ${error.message}`);
+            }
+        }
+    }
+    console.log('✓ Test 6 PASSED - Errors');
+
+    console.log('='.repeat(60));
+    console.log('✓ All regex module tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,106 @@
+// Test Case c28: Array Function Tests
+// Tests array.map/filter/reduce/find/findIndex/some/every/sortBy/groupBy/flatMap/forEach with callbacks, and sort/reverse/unique/flatten/zip/chunk/range/sum
+
+import { RobinPath, OutputCollector } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing array functions');
+    console.log('='.repeat(60));
+
+    const output = new OutputCollector();
+    const rp = new RobinPath({ output });
+    const run = script => rp.executeScript(script);
+
+    // Test 1: map, filter and flatMap get the item as $1 and the index as $2
+    const mapped = await run('array.map [10, 20, 30] with\n  math.add $1 $2\nendwith');
+    const filtered = await run('array.filter [1, 5, 2, 8] with\n  test.isBigger $1 2\nendwith');
+    const flat = await run('array.flatMap [1, 2] with\n  array.create $1 $2\nendwith');
+    if (JSON.stringify(mapped) !== '[10,21,32]' || JSON.stringify(filtered) !== '[5,8]' || JSON.stringify(flat) !== '[1,0,2,1]') {
+        throw new Error(`Test 1 FAILED - Unexpected results: ${JSON.stringify([mapped, filtered, flat])}`);
+    }
+    await run('array.map [1, 2, 3] with\n  math.multiply $1 2\nendwith\n$doubled = $');
+    if (JSON.stringify(rp.getVariable('doubled')) !== '[2,4,6]') {
+        throw new Error('Test 1 FAILED - The result should be the last value');
+    }
+    console.log('✓ Test 1 PASSED - map, filter and flatMap');
+
+    // Test 2: reduce passes the accumulator as $1, the item as $2 and the index as $3
+    const total = await run('array.reduce [1, 2, 3] 10 with\n  math.add $1 $2\nendwith');
+    const indexes = await run('array.reduce ["a", "b", "c"] with\n  string.concat $1 $3\nendwith');
+    if (total !== 16 || indexes !== 'a12') {
+        throw new Error(`Test 2 FAILED - Unexpected results: ${total} ${indexes}`);
+    }
+    console.log('✓ Test 2 PASSED - reduce');
+
+    // Test 3: find, findIndex, some and every stop at the deciding item
+    await run('$users = [{"name": "Bo", "age": 31}, {"name": "Ann", "age": 25}, {"name": "Cy", "age": 31}]');
+    const found = await run('array.find $users with\n  $user = $1\n  test.isEqual $user.name "Ann"\nendwith');
+    const index = await run('array.findIndex $users with\n  $user = $1\n  test.isBigger $user.age 40\nendwith');
+    output.clear();
+    const some = await run('array.some [1, 2, 3] with\n  log $1\n  test.isEqual $1 2\nendwith');
+    const every = await run('array.every $users with\n  $user = $1\n  test.isBigger $user.age 18\nendwith');
+    if (found?.name !== 'Ann' || index !== -1 || some !== true || every !== true || output.messages().join() !== '1,2') {
+        throw new Error(`Test 3 FAILED - Unexpected results: ${JSON.stringify([found, index, some, every, output.messages()])}`);
+    }
+    console.log('✓ Test 3 PASSED - find, findIndex, some and every');
+
+    // Test 4: sortBy is stable, groupBy collects items by key, forEach returns the array
+    const sorted = await run('array.sortBy $users order="desc" with\n  $user = $1\n  return $user.age\nendwith');
+    const groups = await run('array.groupBy $users with\n  $user = $1\n  return $user.age\nendwith');
+    const each = await run('array.forEach ["a", "b"] with\n  log $2 $1\nendwith');
+    if (sorted.map(user => user.name).join() !== 'Bo,Cy,Ann' || JSON.stringify(Object.keys(groups)) !== '["25","31"]' || groups['31'].length !== 2) {
+        throw new Error(`Test 4 FAILED - Unexpected results: ${JSON.stringify([sorted, groups])}`);
+    }
+    if (JSON.stringify(each) !== '["a","b"]' || output.messages().slice(-2).join() !== '0 a,1 b') {
+        throw new Error(`Test 4 FAILED - Unexpected forEach result: ${JSON.stringify(each)}`);
+    }
+    console.log('✓ Test 4 PASSED - sortBy, groupBy and forEach');
+
+    // Test 5: Functions without callbacks
+    const results = {
+        sort: await run('array.sort [3, "b", 1, null, "a", true]'),
+        sortDesc: await run('array.sort [3, 1, 2] order="desc"'),
+        reverse: await run('array.reverse [1, 2, 3]'),
+        unique: await run('array.unique [1, 2, 1, {"a": 1}, {"a": 1}, "1"]'),
+        flatten: await run('array.flatten [1, [2, [3, [4]]]]'),
+        flattenDeep: await run('array.flatten [1, [2, [3, [4]]]] 2'),
+        zip: await run('array.zip ["a", "b", "c"] [1, 2]'),
+        chunk: await run('array.chunk [1, 2, 3, 4, 5] 2'),
+        range: await run('array.range 0 10 5'),
+        sum: await run('array.sum [1, 2.5, "x"]')
+    };
+    const expected = '{"sort":[null,true,1,3,"a","b"],"sortDesc":[3,2,1],"reverse":[3,2,1],"unique":[1,2,{"a":1},"1"],"flatten":[1,2,[3,[4]]],"flattenDeep":[1,2,3,[4]],"zip":[["a",1],["b",2]],"chunk":[[1,2],[3,4],[5]],"range":[0,5,10],"sum":3.5}';
+    if (JSON.stringify(results) !== expected) {
+        throw new Error(`Test 5 FAILED - Unexpected results: ${JSON.stringify(results)}`);
+    }
+    await run('$list = [3, 1, 2]\narray.sort $list\narray.reverse $list');
+    if (JSON.stringify(rp.getVariable('list')) !== '[3,1,2]') {
+        throw new Error('Test 5 FAILED - sort and reverse should not change the array');
+    }
+    console.log('✓ Test 5 PASSED - sort, reverse, unique, flatten, zip, chunk, range and sum');
+
+    // Test 6: Errors
+    const errors = [
+        ['array.map [1, 2]', /array\.map requires a with callback block/],
+        ['array.filter "abc" with\n  return true\nendwith', /array\.filter requires an array/],
+        ['array.reduce [] with\n  math.add $1 $2\nendwith', /array\.reduce of an empty array requires an initial value/],
+        ['array.chunk [1, 2] 0', /array\.chunk requires a positive integer size/],
+        ['array.zip [1] 2', /array\.zip requires arrays/]
+    ];
+    for (const [script, pattern] of errors) {
+        try {
+            await run(script);
+            throw new Error(`Test 6 FAILED - ${JSON.stringify(script)} should fail`);
+        } catch (error) {
+            if (!pattern.test(error.message)) {
+                throw new Error(`Test 6 FAILED - Unexpected error for ${JSON.stringify(script)}: ${error.message}`);
+            }
+        }
+    }
+    console.log('✓ Test 6 PASSED - Errors');
+
+    console.log('='.repeat(60));
+    console.log('✓ All array function tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,128 @@
+// Test Case c6: Debugger Tests
+// Tests for breakpoints, stepping and frame inspection via attachDebugger()
+
+import { RobinPath } from '../../dist/index.js';
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing debugger');
+    console.log('='.repeat(60));
+
+    const script = `def addOne $n
+  $result = math.add $n 1
+  return $result
+enddef
+$a = 10
+addOne $a
+$b = $
+log "done" $b
+`;
+
+    // Test 1: Breakpoint pauses with the global frame visible
+    const rp1 = new RobinPath();
+    const dbg1 = rp1.attachDebugger();
+    dbg1.setBreakpoint(5);
+    const stops1 = [];
+    dbg1.onPause((state) => {
+        stops1.push({
+            row: state.codePos.startRow,
+            reason: state.reason,
+            a: state.globals.get('a'),
+            depth: state.frames.length
+        });
+        dbg1.resume();
+    });
+    await rp1.executeScript(script);
+
+    if (stops1.length !== 1 || stops1[0].row !== 5 || stops1[0].reason !== 'breakpoint' || stops1[0].a !== 10) {
+        throw new Error(`Test 1 FAILED - Unexpected stops: ${JSON.stringify(stops1)}`);
+    }
+    if (rp1.getVariable('b') !== 11) {
+        throw new Error(`Test 1 FAILED - $b should be 11, got ${rp1.getVariable('b')}`);
+    }
+    console.log('✓ Test 1 PASSED - Breakpoint pauses and resume continues');
+
+    // Test 2: Step into a def call, inspect its locals, then step out
+    const rp2 = new RobinPath();
+    const dbg2 = rp2.attachDebugger();
+    dbg2.setBreakpoint(5);
+    const stops2 = [];
+    const actions = ['into', 'over', 'out', 'over', 'continue'];
+    dbg2.onPause((state) => {
+        const top = state.frames[0];
+        stops2.push({
+            row: state.codePos.startRow,
+            frame: top.name,
+            n: top.locals.get('n'),
+            result: top.locals.get('result')
+        });
+        const action = actions.shift();
+        if (action === 'into') dbg2.stepInto();
+        else if (action === 'over') dbg2.stepOver();
+        else if (action === 'out') dbg2.stepOut();
+        else dbg2.resume();
+    });
+    await rp2.executeScript(script);
+
+    const expected2 = [
+        { row: 5, frame: '<global>' },
+        { row: 1, frame: 'addOne', n: 10 },
+        { row: 2, frame: 'addOne', n: 10, result: 11 },
+        { row: 6, frame: '<global>' },
+        { row: 7, frame: '<global>' }
+    ];
+    if (stops2.length !== expected2.length) {
+        throw new Error(`Test 2 FAILED - Expected ${expected2.length} stops, got ${JSON.stringify(stops2)}`);
+    }
+    for (let i = 0; i < expected2.length; i++) {
+        for (const key of Object.keys(expected2[i])) {
+            if (stops2[i][key] !== expected2[i][key]) {
+                throw new Error(`Test 2 FAILED - Stop ${i} ${key}: expected ${expected2[i][key]}, got ${stops2[i][key]}`);
+            }
+        }
+    }
+    console.log('✓ Test 2 PASSED - stepInto/stepOver/stepOut follow def calls');
+
+    // Test 3: Step over a def call stays in the caller
+    const rp3 = new RobinPath();
+    const dbg3 = rp3.attachDebugger();
+    dbg3.pause();
+    const rows3 = [];
+    dbg3.onPause((state) => {
+        rows3.push(state.codePos.startRow);
+        dbg3.stepOver();
+    });
+    await rp3.executeScript(script);
+
+    if (JSON.stringify(rows3) !== JSON.stringify([0, 4, 5, 6, 7])) {
+        throw new Error(`Test 3 FAILED - Expected rows [0,4,5,6,7], got ${JSON.stringify(rows3)}`);
+    }
+    console.log('✓ Test 3 PASSED - stepOver skips def bodies');
+
+    // Test 4: Breakpoints inside loops hit on every iteration, threads can be debugged
+    const rp4 = new RobinPath({ threadControl: true });
+    const thread = rp4.createThread('debug');
+    const dbg4 = thread.attachDebugger();
+    dbg4.setBreakpoint(1);
+    const values4 = [];
+    dbg4.onPause((state) => {
+        values4.push(state.frames[0].frame.locals.get('i') ?? state.globals.get('i'));
+        dbg4.resume();
+    });
+    await thread.executeScript(`for $i in range 1 3
+  $total = $i
+endfor
+`);
+    if (JSON.stringify(values4) !== JSON.stringify([1, 2, 3])) {
+        throw new Error(`Test 4 FAILED - Expected [1,2,3], got ${JSON.stringify(values4)}`);
+    }
+    thread.detachDebugger();
+    if (thread.getDebugger() !== null) {
+        throw new Error('Test 4 FAILED - detachDebugger should clear the debugger');
+    }
+    console.log('✓ Test 4 PASSED - Loop breakpoints and thread debugging');
+
+    console.log('='.repeat(60));
+    console.log('✓ All debugger tests PASSED');
+    console.log('='.repeat(60));
+}
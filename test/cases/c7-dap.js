@@ -0,0 +1,169 @@
+// Test Case c7: Debug Adapter Protocol Server Tests
+// Drives "robinpath dap" over stdio with a scripted DAP client
+
+import { spawn } from 'child_process';
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const cliPath = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'bin', 'robinpath.js');
+
+/**
+ * Minimal DAP client: sends requests and waits for responses/events
+ */
+function createClient(child) {
+    let seq = 1;
+    let buffer = Buffer.alloc(0);
+    const messages = [];
+    const waiters = [];
+
+    const check = () => {
+        for (let i = waiters.length - 1; i >= 0; i--) {
+            const index = messages.findIndex(waiters[i].match);
+            if (index !== -1) {
+                const [message] = messages.splice(index, 1);
+                waiters.splice(i, 1)[0].resolve(message);
+            }
+        }
+    };
+
+    child.stdout.on('data', (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        while (true) {
+            const headerEnd = buffer.indexOf('\r\n\r\n');
+            if (headerEnd === -1) break;
+            const length = Number(/Content-Length: (\d+)/.exec(buffer.subarray(0, headerEnd).toString())[1]);
+            if (buffer.length < headerEnd + 4 + length) break;
+            messages.push(JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString()));
+            buffer = buffer.subarray(headerEnd + 4 + length);
+        }
+        check();
+    });
+
+    const waitFor = (match, description) => new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${description}`)), 5000);
+        waiters.push({ match, resolve: (message) => { clearTimeout(timer); resolve(message); } });
+        check();
+    });
+
+    return {
+        write(text) {
+            child.stdin.write(text);
+        },
+        async request(command, args) {
+            const requestSeq = seq++;
+            const json = JSON.stringify({ seq: requestSeq, type: 'request', command, arguments: args });
+            child.stdin.write(`Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`);
+            const response = await waitFor(m => m.type === 'response' && m.request_seq === requestSeq, `${command} response`);
+            if (!response.success) {
+                throw new Error(`${command} failed: ${response.message}`);
+            }
+            return response.body;
+        },
+        waitForEvent(event) {
+            return waitFor(m => m.type === 'event' && m.event === event, `${event} event`);
+        },
+        outputs() {
+            return messages.filter(m => m.type === 'event' && m.event === 'output').map(m => m.body.output).join('');
+        }
+    };
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing DAP server');
+    console.log('='.repeat(60));
+
+    const dir = mkdtempSync(join(tmpdir(), 'robinpath-dap-'));
+    const program = join(dir, 'main.robin');
+    writeFileSync(program, `$a = 5
+def double
+  math.multiply $1 2
+enddef
+double $a
+log "done" $
+`);
+
+    const child = spawn(process.execPath, [cliPath, 'dap'], { stdio: ['pipe', 'pipe', 'inherit'] });
+    const client = createClient(child);
+
+    try {
+        // Test 1: Initialize and launch with a breakpoint inside the def body
+        const initialized = client.waitForEvent('initialized');
+        const capabilities = await client.request('initialize', { adapterID: 'robinpath', linesStartAt1: true });
+        if (!capabilities.supportsConfigurationDoneRequest) {
+            throw new Error('Test 1 FAILED - configurationDone should be supported');
+        }
+        await initialized;
+        await client.request('launch', { program });
+        const bps = await client.request('setBreakpoints', { source: { path: program }, breakpoints: [{ line: 3 }] });
+        if (bps.breakpoints.length !== 1 || !bps.breakpoints[0].verified) {
+            throw new Error(`Test 1 FAILED - Breakpoint not verified: ${JSON.stringify(bps)}`);
+        }
+        const stopped = client.waitForEvent('stopped');
+        await client.request('configurationDone', {});
+        const stop = await stopped;
+        if (stop.body.reason !== 'breakpoint') {
+            throw new Error(`Test 1 FAILED - Expected breakpoint stop, got ${stop.body.reason}`);
+        }
+        console.log('✓ Test 1 PASSED - Launch stops at breakpoint');
+
+        // Test 2: Stack trace and variables
+        const trace = await client.request('stackTrace', { threadId: 1 });
+        const [top, caller] = trace.stackFrames;
+        if (top.name !== 'double' || top.line !== 3 || caller.name !== '<global>' || caller.line !== 5) {
+            throw new Error(`Test 2 FAILED - Unexpected stack: ${JSON.stringify(trace.stackFrames)}`);
+        }
+        const { scopes } = await client.request('scopes', { frameId: top.id });
+        const locals = await client.request('variables', { variablesReference: scopes[0].variablesReference });
+        const globals = await client.request('variables', { variablesReference: scopes[1].variablesReference });
+        if (!locals.variables.some(v => v.name === '$1' && v.value === '5')) {
+            throw new Error(`Test 2 FAILED - $1 missing from locals: ${JSON.stringify(locals.variables)}`);
+        }
+        if (!globals.variables.some(v => v.name === '$a' && v.value === '5')) {
+            throw new Error(`Test 2 FAILED - $a missing from globals: ${JSON.stringify(globals.variables)}`);
+        }
+        console.log('✓ Test 2 PASSED - Stack trace, locals and globals');
+
+        // Test 3: Evaluate in the paused frame
+        const evaluated = await client.request('evaluate', { expression: 'math.add $1 1', frameId: top.id, context: 'repl' });
+        if (evaluated.result !== '6') {
+            throw new Error(`Test 3 FAILED - Expected 6, got ${evaluated.result}`);
+        }
+        console.log('✓ Test 3 PASSED - Evaluate in paused frame');
+
+        // Test 4: Step out returns to the caller, continue runs to completion
+        const stepped = client.waitForEvent('stopped');
+        await client.request('stepOut', { threadId: 1 });
+        const stepStop = await stepped;
+        const afterStep = await client.request('stackTrace', { threadId: 1 });
+        if (stepStop.body.reason !== 'step' || afterStep.stackFrames[0].line !== 6) {
+            throw new Error(`Test 4 FAILED - Expected step stop on line 6, got ${JSON.stringify(afterStep.stackFrames[0])}`);
+        }
+        const terminated = client.waitForEvent('terminated');
+        await client.request('continue', { threadId: 1 });
+        await terminated;
+        if (!client.outputs().includes('done 10')) {
+            throw new Error(`Test 4 FAILED - Script output not forwarded: ${client.outputs()}`);
+        }
+        console.log('✓ Test 4 PASSED - stepOut, continue and output events');
+
+        // Test 5: A malformed message is reported and skipped, later requests still get answers
+        client.write('Content-Length: 5\r\n\r\n{bad}');
+        const threads = await client.request('threads', {});
+        if (threads.threads.length !== 1 || !client.outputs().includes('Ignored malformed message')) {
+            throw new Error(`Test 5 FAILED - Malformed message not reported: ${client.outputs()}`);
+        }
+        console.log('✓ Test 5 PASSED - Malformed messages');
+
+        await client.request('disconnect', {});
+    } finally {
+        child.kill();
+        rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log('='.repeat(60));
+    console.log('✓ All DAP server tests PASSED');
+    console.log('='.repeat(60));
+}
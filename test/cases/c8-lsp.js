@@ -0,0 +1,171 @@
+// Test Case c8: Language Service / LSP Tests
+// Tests completion, hover, signature help, definitions and diagnostics,
+// plus a short round-trip through "robinpath lsp" over stdio
+
+import { spawn } from 'child_process';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { RobinPath } from '../../dist/index.js';
+
+const cliPath = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'bin', 'robinpath.js');
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing language service and LSP server');
+    console.log('='.repeat(60));
+
+    const rp = new RobinPath();
+    const service = rp.getLanguageService();
+
+    const doc = `@desc "Greets a user"
+@param string $name "Name to greet"
+def greet $name
+  log "Hello" $name
+enddef
+on "userLogin"
+  greet $1
+endon
+greet "Ann"
+trigger "userLogin" "Bob"
+math.add 1 2
+array.slice $list 1 `;
+
+    // Test 1: Completion for builtins, module functions, user defs and variables
+    const top = await service.getCompletions(doc, { line: 8, character: 2 });
+    for (const label of ['greet', 'log', 'math', 'if']) {
+        if (!top.some(item => item.label === label)) {
+            throw new Error(`Test 1 FAILED - Missing completion "${label}"`);
+        }
+    }
+    const greetItem = top.find(item => item.label === 'greet');
+    if (greetItem.documentation !== 'Greets a user') {
+        throw new Error(`Test 1 FAILED - def completion should use @desc, got ${greetItem.documentation}`);
+    }
+    const mathItems = await service.getCompletions(doc, { line: 10, character: 5 });
+    if (!mathItems.some(item => item.label === 'add') || mathItems.some(item => item.label === 'log')) {
+        throw new Error(`Test 1 FAILED - math. completion should list only math functions`);
+    }
+    const vars = await service.getCompletions(doc, { line: 3, character: 17 });
+    if (!vars.some(item => item.label === '$name')) {
+        throw new Error(`Test 1 FAILED - Variable completion missing $name`);
+    }
+    console.log('✓ Test 1 PASSED - Completion');
+
+    // Test 2: Hover from FunctionMetadata and @desc/@param
+    const builtinHover = await service.getHover(doc, { line: 10, character: 6 });
+    if (!builtinHover || !builtinHover.contents.includes(rp.getFunctionMetadata('math.add').description)) {
+        throw new Error(`Test 2 FAILED - math.add hover missing description: ${JSON.stringify(builtinHover)}`);
+    }
+    const defHover = await service.getHover(doc, { line: 8, character: 1 });
+    if (!defHover || !defHover.contents.includes('Greets a user') || !defHover.contents.includes('Name to greet')) {
+        throw new Error(`Test 2 FAILED - def hover missing @desc/@param docs: ${JSON.stringify(defHover)}`);
+    }
+    console.log('✓ Test 2 PASSED - Hover');
+
+    // Test 3: Signature help tracks the active parameter
+    const signature = await service.getSignatureHelp(doc, { line: 11, character: 20 });
+    if (!signature || signature.parameters.length !== 3 || signature.activeParameter !== 2) {
+        throw new Error(`Test 3 FAILED - Unexpected signature help: ${JSON.stringify(signature)}`);
+    }
+    const variadic = await service.getSignatureHelp(doc, { line: 10, character: 12 });
+    if (!variadic || variadic.activeParameter !== 0) {
+        throw new Error(`Test 3 FAILED - Variadic parameter should stay active: ${JSON.stringify(variadic)}`);
+    }
+    console.log('✓ Test 3 PASSED - Signature help');
+
+    // Test 4: Go to definition for def and on blocks
+    const defLocation = await service.getDefinition(doc, { line: 8, character: 2 });
+    if (!defLocation || defLocation.kind !== 'def' || defLocation.range.start.line !== 2) {
+        throw new Error(`Test 4 FAILED - def definition: ${JSON.stringify(defLocation)}`);
+    }
+    const onLocation = await service.getDefinition(doc, { line: 9, character: 12 });
+    if (!onLocation || onLocation.kind !== 'on' || onLocation.range.start.line !== 5) {
+        throw new Error(`Test 4 FAILED - on definition: ${JSON.stringify(onLocation)}`);
+    }
+    console.log('✓ Test 4 PASSED - Go to definition');
+
+    // Test 5: Diagnostics from parse errors, and documents never leak into the environment
+    const diagnostics = await service.getDiagnostics('log 1\nfor x in 1\nendfor\n');
+    if (diagnostics.length !== 1 || diagnostics[0].range.start.line !== 1) {
+        throw new Error(`Test 5 FAILED - Expected one diagnostic on line 1: ${JSON.stringify(diagnostics)}`);
+    }
+    if ((await service.getDiagnostics(doc)).length !== 0) {
+        throw new Error('Test 5 FAILED - Valid document should have no diagnostics');
+    }
+    if (rp.getAvailableCommands().userFunctions.length !== 0) {
+        throw new Error('Test 5 FAILED - Analyzing a document should not register its defs');
+    }
+    console.log('✓ Test 5 PASSED - Diagnostics');
+
+    // Test 6: stdio round-trip through the LSP server
+    const child = spawn(process.execPath, [cliPath, 'lsp'], { stdio: ['pipe', 'pipe', 'inherit'] });
+    try {
+        const messages = [];
+        let buffer = Buffer.alloc(0);
+        let notifyArrival = () => {};
+        child.stdout.on('data', (chunk) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            while (true) {
+                const headerEnd = buffer.indexOf('\r\n\r\n');
+                if (headerEnd === -1) break;
+                const length = Number(/Content-Length: (\d+)/.exec(buffer.subarray(0, headerEnd).toString())[1]);
+                if (buffer.length < headerEnd + 4 + length) break;
+                messages.push(JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString()));
+                buffer = buffer.subarray(headerEnd + 4 + length);
+            }
+            notifyArrival();
+        });
+        const waitFor = (match) => new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error('Timed out waiting for LSP message')), 5000);
+            const check = () => {
+                const found = messages.find(match);
+                if (found) {
+                    clearTimeout(timer);
+                    resolve(found);
+                } else {
+                    notifyArrival = check;
+                }
+            };
+            check();
+        });
+        const send = (message) => {
+            const json = JSON.stringify({ jsonrpc: '2.0', ...message });
+            child.stdin.write(`Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`);
+        };
+
+        send({ id: 1, method: 'initialize', params: { capabilities: {} } });
+        const init = await waitFor(m => m.id === 1);
+        if (!init.result.capabilities.hoverProvider || !init.result.capabilities.definitionProvider) {
+            throw new Error(`Test 6 FAILED - Missing capabilities: ${JSON.stringify(init.result)}`);
+        }
+        send({ method: 'initialized', params: {} });
+        send({ method: 'textDocument/didOpen', params: { textDocument: { uri: 'file:///bad.robin', languageId: 'robinpath', version: 1, text: 'for x in 1\nendfor\n' } } });
+        const published = await waitFor(m => m.method === 'textDocument/publishDiagnostics');
+        if (published.params.diagnostics.length !== 1 || published.params.diagnostics[0].severity !== 1) {
+            throw new Error(`Test 6 FAILED - Expected one error diagnostic: ${JSON.stringify(published.params)}`);
+        }
+        send({ method: 'textDocument/didOpen', params: { textDocument: { uri: 'file:///ok.robin', languageId: 'robinpath', version: 1, text: doc } } });
+        send({ id: 2, method: 'textDocument/hover', params: { textDocument: { uri: 'file:///ok.robin' }, position: { line: 8, character: 1 } } });
+        const hover = await waitFor(m => m.id === 2);
+        if (!hover.result || hover.result.contents.kind !== 'markdown' || !hover.result.contents.value.includes('Greets a user')) {
+            throw new Error(`Test 6 FAILED - Unexpected hover: ${JSON.stringify(hover)}`);
+        }
+        // A malformed message gets a parse error and the server keeps answering
+        child.stdin.write('Content-Length: 5\r\n\r\n{bad}');
+        const parseError = await waitFor(m => m.id === null && m.error);
+        send({ id: 4, method: 'textDocument/hover', params: { textDocument: { uri: 'file:///ok.robin' }, position: { line: 8, character: 1 } } });
+        const afterError = await waitFor(m => m.id === 4);
+        if (parseError.error.code !== -32700 || !afterError.result) {
+            throw new Error(`Test 6 FAILED - Server should survive malformed messages: ${JSON.stringify([parseError, afterError])}`);
+        }
+        send({ id: 3, method: 'shutdown' });
+        await waitFor(m => m.id === 3);
+        console.log('✓ Test 6 PASSED - LSP server over stdio');
+    } finally {
+        child.kill();
+    }
+
+    console.log('='.repeat(60));
+    console.log('✓ All language service tests PASSED');
+    console.log('='.repeat(60));
+}
@@ -0,0 +1,159 @@
+// Test Case c9: Execution Limits Tests
+// Tests maxSteps, timeout, maxCallDepth and maxCollectionSize and the ExecutionLimitError they throw
+
+import { RobinPath, ExecutionLimitError, ExpressionEvaluator } from '../../dist/index.js';
+
+async function expectLimit(run, limit, label) {
+    try {
+        await run();
+    } catch (error) {
+        if (!(error instanceof ExecutionLimitError)) {
+            throw new Error(`${label} FAILED - Expected ExecutionLimitError, got ${error}`);
+        }
+        if (error.limit !== limit) {
+            throw new Error(`${label} FAILED - Expected limit "${limit}", got "${error.limit}"`);
+        }
+        return error;
+    }
+    throw new Error(`${label} FAILED - Expected the "${limit}" limit to be exceeded`);
+}
+
+export async function runTest() {
+    console.log('='.repeat(60));
+    console.log('Testing execution limits');
+    console.log('='.repeat(60));
+
+    // Test 1: maxSteps stops a long loop and points at the offending statement
+    const rp1 = new RobinPath({ limits: { maxSteps: 50 } });
+    const stepsError = await expectLimit(() => rp1.executeScript(`$total = 0
+for $i in range 1 100
+  $total = math.add $total $i
+endfor
+`), 'maxSteps', 'Test 1');
+    if (stepsError.value !== 50 || stepsError.codePos?.startRow !== 2) {
+        throw new Error(`Test 1 FAILED - Unexpected error details: value=${stepsError.value} codePos=${JSON.stringify(stepsError.codePos)}`);
+    }
+    // The budget is per run: a short script afterwards succeeds
+    if (await rp1.executeScript('math.add 1 2') !== 3) {
+        throw new Error('Test 1 FAILED - Step counter should reset between runs');
+    }
+    console.log('✓ Test 1 PASSED - maxSteps');
+
+    // Test 2: timeout (wall-clock milliseconds)
+    const rp2 = new RobinPath({ limits: { timeout: 20 } });
+    const timeoutError = await expectLimit(() => rp2.executeScript(`for $i in range 1 100000
+  $x = $i
+endfor
+`), 'timeout', 'Test 2');
+    if (timeoutError.value !== 20 || !timeoutError.codePos) {
+        throw new Error(`Test 2 FAILED - Unexpected error details: ${timeoutError.message}`);
+    }
+    // Long-running builtins are interrupted when the timeout expires, not after they return
+    const rp2b = new RobinPath({ limits: { timeout: 200 } });
+    const started = Date.now();
+    const sleepError = await expectLimit(() => rp2b.executeScript('$x = 1\ntime.sleep 3000\n$x = 2'), 'timeout', 'Test 2');
+    const elapsed = Date.now() - started;
+    if (elapsed > 1500 || sleepError.codePos?.startRow !== 1) {
+        throw new Error(`Test 2 FAILED - time.sleep should be interrupted at the timeout, took ${elapsed}ms`);
+    }
+    const caught = await expectLimit(() => rp2b.executeScript('try\n  time.sleep 3000\ncatch $e\n  $caught = true\nendtry'), 'timeout', 'Test 2');
+    if (rp2b.getVariable('caught') === true || caught.message !== 'Execution timed out after 200ms') {
+        throw new Error('Test 2 FAILED - The timeout should not be catchable');
+    }
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('stopped')), 20);
+    try {
+        await rp2b.executeScript('time.sleep 3000', { signal: controller.signal });
+        throw new Error('Test 2 FAILED - The run should be cancelled');
+    } catch (error) {
+        if (error.message !== 'stopped') {
+            throw new Error(`Test 2 FAILED - Cancelling a run with a timeout should reject with the abort reason, got ${error.message}`);
+        }
+    }
+    console.log('✓ Test 2 PASSED - timeout');
+
+    // Test 3: maxCallDepth stops runaway recursion at the call site
+    const rp3 = new RobinPath({ limits: { maxCallDepth: 10 } });
+    const depthError = await expectLimit(() => rp3.executeScript(`def down $n
+  down $n
+enddef
+down 1
+`), 'maxCallDepth', 'Test 3');
+    if (depthError.codePos?.startRow !== 1) {
+        throw new Error(`Test 3 FAILED - Expected codePos on the recursive call, got ${JSON.stringify(depthError.codePos)}`);
+    }
+    const shallow = await rp3.executeScript(`def twice $n
+  math.multiply $n 2
+enddef
+twice 4
+`);
+    if (shallow !== 8) {
+        throw new Error(`Test 3 FAILED - Calls within the limit should succeed, got ${shallow}`);
+    }
+    console.log('✓ Test 3 PASSED - maxCallDepth');
+
+    // Test 4: maxCollectionSize for builtins, range and literals
+    const rp4 = new RobinPath({ limits: { maxCollectionSize: 5 } });
+    await expectLimit(() => rp4.executeScript('range 1 1000000000'), 'maxCollectionSize', 'Test 4');
+    await expectLimit(() => rp4.executeScript('$a = [1, 2, 3, 4, 5, 6]'), 'maxCollectionSize', 'Test 4');
+    await expectLimit(() => rp4.executeScript(`$a = [1, 2, 3, 4, 5]
+array.push $a 6
+`), 'maxCollectionSize', 'Test 4');
+    const small = await rp4.executeScript('range 1 5');
+    if (!Array.isArray(small) || small.length !== 5) {
+        throw new Error(`Test 4 FAILED - Collections within the limit should succeed, got ${JSON.stringify(small)}`);
+    }
+    // Builtins called from an ExpressionEvaluator condition run and are checked too
+    let made = 0;
+    rp4.registerBuiltin('makeList', (args) => {
+        made++;
+        return Array.from({ length: Number(args[0]) }, (_item, i) => i);
+    });
+    rp4.registerBuiltin('check', (args, _callback, context) => {
+        const { executor } = context;
+        return new ExpressionEvaluator(executor.getCurrentFrame(), executor.getEnvironment(), executor).evaluate(String(args[0]));
+    });
+    const fits = await rp4.executeScript('check "makeList 3"');
+    await expectLimit(() => rp4.executeScript('check "makeList 6"'), 'maxCollectionSize', 'Test 4');
+    if (fits !== true || made !== 2) {
+        throw new Error(`Test 4 FAILED - Builtins in conditions should run, got ${fits} after ${made} calls`);
+    }
+    console.log('✓ Test 4 PASSED - maxCollectionSize');
+
+    // Test 5: Triggered handlers share the triggering run's budget; trigger() from the host starts a new one
+    const rp5 = new RobinPath({ limits: { maxSteps: 8 } });
+    await rp5.executeScript(`on "tick"
+  $x = 1
+  $x = 2
+  $x = 3
+endon
+`);
+    await expectLimit(() => rp5.executeScript(`trigger "tick"
+trigger "tick"
+trigger "tick"
+`), 'maxSteps', 'Test 5');
+    await rp5.trigger('tick');
+    console.log('✓ Test 5 PASSED - Limits across trigger');
+
+    // Test 6: Threads inherit limits unless given their own; setLimits(null) removes them
+    const rp6 = new RobinPath({ threadControl: true, limits: { maxSteps: 3 } });
+    const inherited = rp6.createThread('inherited');
+    await expectLimit(() => inherited.executeScript('$a = 1\n$a = 2\n$a = 3\n$a = 4'), 'maxSteps', 'Test 6');
+    const own = rp6.createThread('own', { limits: { maxSteps: 10 } });
+    await own.executeScript('$a = 1\n$a = 2\n$a = 3\n$a = 4');
+    rp6.setLimits(null);
+    await rp6.executeScript('$a = 1\n$a = 2\n$a = 3\n$a = 4');
+    console.log('✓ Test 6 PASSED - Thread limits');
+
+    // Test 7: while/repeat loops count every iteration, even with an empty body
+    const rp7 = new RobinPath({ limits: { maxSteps: 100 } });
+    await expectLimit(() => rp7.executeScript('while true\nendwhile'), 'maxSteps', 'Test 7');
+    await expectLimit(() => rp7.executeScript('repeat\nuntil false'), 'maxSteps', 'Test 7');
+    const rp7b = new RobinPath({ limits: { timeout: 20 } });
+    await expectLimit(() => rp7b.executeScript('$n = 0\nwhile true\n  $n = 1\nendwhile'), 'timeout', 'Test 7');
+    console.log('✓ Test 7 PASSED - while and repeat loops');
+
+    console.log('='.repeat(60));
+    console.log('✓ All execution limit tests PASSED');
+    console.log('='.repeat(60));
+}
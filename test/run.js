@@ -89,6 +89,10 @@ const testFiles = [
     '24-nested-var-decorators.robin',
     '25-together-decorators.robin',
     '26-title-decorator.robin',
+    '27-try-catch.robin',
+    '28-while-loops.robin',
+    '29-test-blocks.robin',
+    '30-module-blocks.robin',
 ];
 
 // Define sample files mapping (sample number -> filename)
@@ -115,6 +119,29 @@ const testCases = [
     'c3-togetherAST.js',
     'c4-getEventAST.js',
     'c5-end-command.js',
+    'c6-debugger.js',
+    'c7-dap.js',
+    'c8-lsp.js',
+    'c9-execution-limits.js',
+    'c10-abort-signal.js',
+    'c11-errors.js',
+    'c12-output.js',
+    'c13-capabilities.js',
+    'c14-test-blocks.js',
+    'c15-mocks.js',
+    'c16-snapshots.js',
+    'c17-coverage.js',
+    'c18-profiler.js',
+    'c19-trace.js',
+    'c20-imports.js',
+    'c21-module-blocks.js',
+    'c22-fs.js',
+    'c23-csv.js',
+    'c24-decorators.js',
+    'c25-fetch.js',
+    'c26-http.js',
+    'c27-regex.js',
+    'c28-array-functions.js',
 ];
 
 // Define AST test case files mapping (case number -> filename)
@@ -149,6 +176,10 @@ const astTestCases = [
     'ast/a24-nested-var-decorators.js', // a24 - matches 24-nested-var-decorators.robin
     'ast/a25-together-decorators.js',  // a25 - matches 25-together-decorators.robin
     'ast/a26-title-decorator.js',      // a26 - matches 26-title-decorator.robin
+    'ast/a27-try-catch.js',            // a27 - matches 27-try-catch.robin
+    'ast/a28-while-loops.js',          // a28 - matches 28-while-loops.robin
+    'ast/a29-test-blocks.js',          // a29 - matches 29-test-blocks.robin
+    'ast/a30-module-blocks.js',        // a30 - matches 30-module-blocks.robin
 ];
 
 // Parse command-line arguments